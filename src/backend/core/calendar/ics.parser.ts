@@ -0,0 +1,552 @@
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+/** Data/hora de parede (sem fuso) — ex: { date: "2025-03-15", time: "09:00:00" } */
+type LocalDateTime = { date: string; time: string };
+
+/** Dia da semana do BYDAY — ordinal: 2MO = segunda segunda-feira, -1FR = última sexta */
+type RuleDay = { weekday: number; ordinal: number | null };
+
+/** Regra de recorrência (RRULE) — subconjunto da RFC 5545 usado por Google, Apple e Outlook */
+type RecurrenceRule = {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  /** Limite da recorrência em epoch ms (inclusivo) */
+  until: number | null;
+  byDay: RuleDay[];
+  byMonthDay: number[];
+  byMonth: number[];
+};
+
+/** VEVENT lido do arquivo */
+export type ParsedEvent = {
+  uid: string;
+  summary: string | null;
+  /** Início em hora de parede no fuso do evento — base da expansão da recorrência */
+  start: LocalDateTime;
+  /** TZID do evento, UTC para horários com Z ou o fuso padrão para horários flutuantes */
+  timezone: string;
+  allDay: boolean;
+  /** Duração nominal — dias seguem o relógio local (atravessam mudanças de horário de verão) */
+  duration: { days: number; ms: number };
+  rrule: RecurrenceRule | null;
+  /** Ocorrências adicionais (RDATE) e removidas (EXDATE), em epoch ms */
+  rdates: number[];
+  exdates: number[];
+  /** Ocorrência da série substituída por este evento (RECURRENCE-ID), em epoch ms */
+  recurrenceId: number | null;
+  /** TRANSP:TRANSPARENT ou STATUS:CANCELLED — não ocupa a agenda */
+  free: boolean;
+};
+
+/** Ocorrência que ocupa a agenda */
+export type BusyTime = {
+  uid: string;
+  summary: string | null;
+  start: Date;
+  end: Date;
+};
+
+const DAY_MS = 86_400_000;
+
+/** Ocorrências no período consultado por evento — protege contra regras muito densas */
+const MAX_OCCURRENCES_PER_EVENT = 5_000;
+
+/** Períodos (dias/semanas/meses/anos) percorridos por evento ao expandir a recorrência */
+const MAX_RULE_PERIODS = 50_000;
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+/**
+ * Lê os VEVENTs de um arquivo ICS (RFC 5545). Horários flutuantes, datas sem hora e TZIDs
+ * desconhecidos usam `defaultTimezone`. Eventos sem DTSTART são ignorados.
+ */
+export function parseIcs(text: string, defaultTimezone: string): Result<ParsedEvent[]> {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === "BEGIN:VCALENDAR")) {
+    return R.fail({ code: "VALIDATION_ERROR", message: "Arquivo ICS inválido" });
+  }
+
+  const events: ParsedEvent[] = [];
+  let current: Map<string, ContentLine[]> | null = null;
+  // Componentes aninhados no VEVENT (ex: VALARM) têm propriedades próprias
+  let nested = 0;
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+
+    if (line.name === "BEGIN") {
+      if (line.value.toUpperCase() === "VEVENT" && !current) current = new Map();
+      else if (current) nested++;
+      continue;
+    }
+    if (line.name === "END") {
+      if (!current) continue;
+      if (nested > 0) {
+        nested--;
+        continue;
+      }
+      const event = toParsedEvent(current, defaultTimezone);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+
+    if (current && nested === 0) {
+      const values = current.get(line.name) ?? [];
+      values.push(line);
+      current.set(line.name, values);
+    }
+  }
+
+  return R.ok(events);
+}
+
+/**
+ * Expande os eventos (recorrências, exceções e ocorrências alteradas) em ocorrências
+ * que se sobrepõem a [from, to). Eventos livres ou cancelados não entram.
+ */
+export function expandBusyTimes(events: ParsedEvent[], from: Date, to: Date): BusyTime[] {
+  const overrides = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (event.recurrenceId === null) continue;
+    const ids = overrides.get(event.uid) ?? new Set<number>();
+    ids.add(event.recurrenceId);
+    overrides.set(event.uid, ids);
+  }
+
+  const busy: BusyTime[] = [];
+  for (const event of events) {
+    const replaced = event.recurrenceId === null ? overrides.get(event.uid) : undefined;
+    for (const start of occurrenceStarts(event, from.getTime(), to.getTime())) {
+      if (event.free || replaced?.has(start.getTime())) continue;
+      const end = occurrenceEnd(event, start);
+      if (end.getTime() <= from.getTime() || start.getTime() >= to.getTime()) continue;
+      busy.push({ uid: event.uid, summary: event.summary, start, end });
+    }
+  }
+
+  return busy.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// ========== LEITURA ==========
+
+type ContentLine = { name: string; params: Record<string, string>; value: string };
+
+/** Separa "NOME;PARAM=valor:VALOR" respeitando parâmetros entre aspas */
+function parseContentLine(raw: string): ContentLine | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < raw.length; i++) {
+    if (raw[i] === '"') quoted = !quoted;
+    else if (raw[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = splitOutsideQuotes(raw.slice(0, colon), ";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+
+  return { name: (name ?? "").toUpperCase(), params, value: raw.slice(colon + 1) };
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quoted = false;
+  let current = "";
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Valor de data/hora lido de uma propriedade */
+type DateValue = { local: LocalDateTime; allDay: boolean; timezone: string };
+
+function parseDateValue(
+  value: string,
+  params: Record<string, string>,
+  defaultTimezone: string,
+): DateValue | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, z] = match;
+  const date = `${y}-${mo}-${d}`;
+
+  if (h === undefined) {
+    return { local: { date, time: "00:00:00" }, allDay: true, timezone: defaultTimezone };
+  }
+
+  // Alguns clientes antigos prefixam o TZID com "/"
+  const tzid = params.TZID?.replace(/^\//, "");
+  const timezone = z ? "UTC" : tzid && isValidTimezone(tzid) ? tzid : defaultTimezone;
+  return { local: { date, time: `${h}:${mi}:${s}` }, allDay: false, timezone };
+}
+
+/** Converte a hora de parede no fuso para o instante UTC — mesmo cálculo de `localToUtc` */
+function toInstant(local: LocalDateTime, timezone: string): Date {
+  const [y, m, d] = ymdParts(local.date);
+  const [h, mi, s] = local.time.split(":").map(Number);
+  const tentative = Date.UTC(y, m - 1, d, h ?? 0, mi ?? 0, s ?? 0);
+
+  const atTentative = toLocal(new Date(tentative), timezone);
+  const [ly, lm, ld] = ymdParts(atTentative.date);
+  const [lh, lmi, ls] = atTentative.time.split(":").map(Number);
+  const offset = Date.UTC(ly, lm - 1, ld, lh ?? 0, lmi ?? 0, ls ?? 0) - tentative;
+
+  return new Date(tentative - offset);
+}
+
+/** Lista de datas de EXDATE/RDATE em epoch ms, no fuso do evento quando não informado */
+function parseDateList(
+  lines: ContentLine[] | undefined,
+  timezone: string,
+  defaultTimezone: string,
+): number[] {
+  const instants: number[] = [];
+  for (const line of lines ?? []) {
+    const params = line.params.TZID ? line.params : { ...line.params, TZID: timezone };
+    for (const value of line.value.split(",")) {
+      const parsed = parseDateValue(value, params, defaultTimezone);
+      if (parsed) instants.push(toInstant(parsed.local, parsed.timezone).getTime());
+    }
+  }
+  return instants;
+}
+
+/** DURATION — ex: "PT1H30M", "P1D", "P2W" */
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, w, d, h, m, s] = match;
+  if (sign === "-") return null;
+  return {
+    days: Number(w ?? 0) * 7 + Number(d ?? 0),
+    ms: ((Number(h ?? 0) * 60 + Number(m ?? 0)) * 60 + Number(s ?? 0)) * 1000,
+  };
+}
+
+function parseRule(
+  value: string,
+  timezone: string,
+  defaultTimezone: string,
+): RecurrenceRule | null {
+  const parts = new Map(
+    value.split(";").map((part) => {
+      const [key, val] = part.split("=");
+      return [(key ?? "").toUpperCase(), (val ?? "").toUpperCase()] as const;
+    }),
+  );
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+
+  const untilRaw = parts.get("UNTIL");
+  const until = untilRaw ? parseDateValue(untilRaw, { TZID: timezone }, defaultTimezone) : null;
+  const numbers = (key: string) =>
+    (parts.get(key) ?? "")
+      .split(",")
+      .filter(Boolean)
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.get("INTERVAL") ?? 1) || 1),
+    count: parts.has("COUNT") ? Math.max(0, Number(parts.get("COUNT")) || 0) : null,
+    // UNTIL em data inclui o dia inteiro
+    until: until
+      ? toInstant(until.local, until.timezone).getTime() + (until.allDay ? DAY_MS - 1 : 0)
+      : null,
+    byDay: (parts.get("BYDAY") ?? "")
+      .split(",")
+      .map((day) => day.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/))
+      .filter((match) => match !== null)
+      .map(([, ordinal, weekday]) => ({
+        weekday: WEEKDAYS.indexOf(weekday ?? ""),
+        ordinal: ordinal ? Number(ordinal) : null,
+      })),
+    byMonthDay: numbers("BYMONTHDAY"),
+    byMonth: numbers("BYMONTH"),
+  };
+}
+
+function toParsedEvent(
+  props: Map<string, ContentLine[]>,
+  defaultTimezone: string,
+): ParsedEvent | null {
+  const first = (name: string) => props.get(name)?.[0];
+
+  const dtstart = first("DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params, defaultTimezone) : null;
+  if (!start) return null;
+
+  let duration = start.allDay ? { days: 1, ms: 0 } : { days: 0, ms: 0 };
+  const dtend = first("DTEND");
+  const end = dtend ? parseDateValue(dtend.value, dtend.params, defaultTimezone) : null;
+  const durationProp = first("DURATION");
+  if (end && start.allDay) {
+    duration = { days: Math.max(1, daysBetween(start.local.date, end.local.date)), ms: 0 };
+  } else if (end) {
+    const ms =
+      toInstant(end.local, end.timezone).getTime() -
+      toInstant(start.local, start.timezone).getTime();
+    duration = { days: 0, ms: Math.max(0, ms) };
+  } else if (durationProp) {
+    duration = parseDuration(durationProp.value) ?? duration;
+  }
+
+  const recurrence = first("RECURRENCE-ID");
+  const recurrenceValue = recurrence
+    ? parseDateValue(
+        recurrence.value,
+        recurrence.params.TZID ? recurrence.params : { ...recurrence.params, TZID: start.timezone },
+        defaultTimezone,
+      )
+    : null;
+
+  const rrule = first("RRULE");
+  const summary = first("SUMMARY");
+
+  return {
+    uid: first("UID")?.value.trim() || `${start.local.date}T${start.local.time}`,
+    summary: summary ? unescapeText(summary.value) : null,
+    start: start.local,
+    timezone: start.timezone,
+    allDay: start.allDay,
+    duration,
+    rrule: rrule ? parseRule(rrule.value, start.timezone, defaultTimezone) : null,
+    rdates: parseDateList(props.get("RDATE"), start.timezone, defaultTimezone),
+    exdates: parseDateList(props.get("EXDATE"), start.timezone, defaultTimezone),
+    recurrenceId: recurrenceValue
+      ? toInstant(recurrenceValue.local, recurrenceValue.timezone).getTime()
+      : null,
+    free:
+      first("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT" ||
+      first("STATUS")?.value.trim().toUpperCase() === "CANCELLED",
+  };
+}
+
+// ========== RECORRÊNCIA ==========
+
+function ymdParts(date: string): [number, number, number] {
+  const [y, m, d] = date.split("-").map(Number);
+  return [y ?? 1970, m ?? 1, d ?? 1];
+}
+
+function toYmd(utc: number): string {
+  return new Date(utc).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const [y, m, d] = ymdParts(date);
+  return toYmd(Date.UTC(y, m - 1, d + days));
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = ymdParts(from);
+  const [ty, tm, td] = ymdParts(to);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / DAY_MS);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Dias (1-31) do mês que atendem BYMONTHDAY/BYDAY — sem eles, o dia do DTSTART */
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const total = daysInMonth(year, month);
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map((day) => (day > 0 ? day : total + day + 1))
+      .filter((day) => day >= 1 && day <= total);
+  }
+  if (rule.byDay.length > 0) {
+    const days: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (new Date(Date.UTC(year, month - 1, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === null) days.push(...matching);
+      else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+    return days;
+  }
+  return startDay <= total ? [startDay] : [];
+}
+
+/** Datas candidatas do período `index` da regra, em ordem cronológica */
+function periodDates(rule: RecurrenceRule, start: string, index: number): string[] {
+  const [y, m, d] = ymdParts(start);
+  const step = index * rule.interval;
+  let dates: string[];
+
+  switch (rule.freq) {
+    case "DAILY":
+      dates = [addDays(start, step)];
+      break;
+    case "WEEKLY": {
+      // Semanas começam na segunda-feira (WKST=MO)
+      const weekStart = addDays(start, -((new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7));
+      const monday = addDays(weekStart, step * 7);
+      const weekdays =
+        rule.byDay.length > 0
+          ? rule.byDay.map((day) => day.weekday)
+          : [new Date(Date.UTC(y, m - 1, d)).getUTCDay()];
+      dates = weekdays.map((weekday) => addDays(monday, (weekday + 6) % 7));
+      break;
+    }
+    case "MONTHLY": {
+      const first = new Date(Date.UTC(y, m - 1 + step, 1));
+      const year = first.getUTCFullYear();
+      const month = first.getUTCMonth() + 1;
+      dates = monthDays(year, month, rule, d).map((day) => toYmd(Date.UTC(year, month - 1, day)));
+      break;
+    }
+    case "YEARLY": {
+      const year = y + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth : [m];
+      dates = months.flatMap((month) =>
+        monthDays(year, month, rule, d).map((day) => toYmd(Date.UTC(year, month - 1, day))),
+      );
+      break;
+    }
+  }
+
+  return [...new Set(dates)]
+    .filter((date) => {
+      const [, month, day] = ymdParts(date);
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return false;
+      // BYDAY/BYMONTHDAY como filtro nas frequências em que não geram as datas
+      if (rule.freq === "DAILY") {
+        if (rule.byDay.length > 0 && !rule.byDay.some((b) => b.weekday === weekday)) return false;
+        if (rule.byMonthDay.length > 0 && !rule.byMonthDay.includes(day)) return false;
+      }
+      return true;
+    })
+    .sort();
+}
+
+/**
+ * Inícios das ocorrências que podem alcançar [from, limit) (epoch ms), já sem as datas
+ * de EXDATE. As anteriores ao período só são percorridas para respeitar o COUNT.
+ */
+function occurrenceStarts(event: ParsedEvent, from: number, limit: number): Date[] {
+  const first = toInstant(event.start, event.timezone);
+  const starts = new Map<number, Date>([[first.getTime(), first]]);
+  // Folga para ocorrências iniciadas antes do período que ainda o alcançam
+  const relevantFrom = from - (event.duration.days + 1) * DAY_MS - event.duration.ms;
+
+  const rule = event.rrule;
+  if (rule && rule.count !== 0) {
+    let generated = 1; // o DTSTART é sempre a primeira ocorrência
+    let kept = 0;
+    let finished = false;
+
+    for (let index = 0; index < MAX_RULE_PERIODS && !finished; index++) {
+      const dates = periodDates(rule, event.start.date, index);
+      for (const date of dates) {
+        if (date < event.start.date) continue;
+        const start = toInstant({ date, time: event.start.time }, event.timezone);
+        const time = start.getTime();
+        if (time <= first.getTime()) continue;
+        if (
+          (rule.until !== null && time > rule.until) ||
+          time >= limit ||
+          (rule.count !== null && generated >= rule.count) ||
+          kept >= MAX_OCCURRENCES_PER_EVENT
+        ) {
+          finished = true;
+          break;
+        }
+        generated++;
+        if (time < relevantFrom) continue;
+        starts.set(time, start);
+        kept++;
+      }
+    }
+  }
+
+  for (const rdate of event.rdates) starts.set(rdate, new Date(rdate));
+  for (const exdate of event.exdates) starts.delete(exdate);
+
+  return [...starts.values()].sort((a, b) => a.getTime() - b.getTime());
+}
+
+function occurrenceEnd(event: ParsedEvent, start: Date): Date {
+  if (event.duration.days === 0) return new Date(start.getTime() + event.duration.ms);
+  // Dias nominais: mesmo horário de parede N dias depois, no fuso do evento
+  const local = toLocal(start, event.timezone);
+  const end = toInstant(
+    { date: addDays(local.date, event.duration.days), time: local.time },
+    event.timezone,
+  );
+  return new Date(end.getTime() + event.duration.ms);
+}
+
+const localFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Hora de parede do instante no fuso */
+function toLocal(instant: Date, timezone: string): LocalDateTime {
+  let formatter = localFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    });
+    localFormatters.set(timezone, formatter);
+  }
+  const parts = formatter.formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "00";
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}:${get("second")}`,
+  };
+}
@@ -0,0 +1,138 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { type Dispatcher, type Response, fetch } from "undici";
+import { assertPublicHost } from "../network/public-host.js";
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+type IcsSourceOptions = {
+  /**
+   * Aceita file://, http:// de loopback e hosts em redes internas — apenas fora de produção
+   * (testes e uso offline)
+   */
+  allowPrivate: boolean;
+  /** Agent de `createPublicAgent` — conecta apenas nos endereços públicos validados */
+  dispatcher: Dispatcher;
+  timeoutMs: number;
+};
+
+/** Tamanho máximo aceito para um arquivo ICS (5 MB) */
+export const MAX_ICS_BYTES = 5 * 1024 * 1024;
+
+/** Redirecionamentos seguidos ao baixar a agenda — cada destino é validado de novo */
+const MAX_REDIRECTS = 3;
+
+/**
+ * Valida o esquema da URL da agenda: file:// e http:// (loopback) só fora de produção.
+ * Chamado no cadastro e antes de cada download.
+ */
+export function checkIcsUrl(url: string, options: { allowPrivate: boolean }): Result<void> {
+  if (/^(file|http):\/\//i.test(url) && !options.allowPrivate) {
+    return R.fail({
+      code: "VALIDATION_ERROR",
+      message: "URLs file:// e http:// só são aceitas fora de produção",
+    });
+  }
+  return R.ok(undefined);
+}
+
+/**
+ * Lê um calendário ICS de uma URL https/http, webcal (tratada como https) ou file.
+ * O host de cada requisição (inclusive de redirecionamentos) precisa ser público — ver
+ * `assertPublicHost`. Falhas de rede voltam como erro genérico: a mensagem fica visível ao
+ * operador em lastSyncError.
+ *
+ * Uso:
+ * ```ts
+ * const result = await loadIcs("webcal://p01-caldav.icloud.com/...", {
+ *   allowPrivate: false,
+ *   dispatcher: createPublicAgent({ allowPrivate: false }),
+ *   timeoutMs: 10_000,
+ * });
+ * ```
+ */
+export async function loadIcs(url: string, options: IcsSourceOptions): Promise<Result<string>> {
+  let target = url.replace(/^webcal:\/\//i, "https://");
+
+  const urlCheck = checkIcsUrl(target, options);
+  if (urlCheck.isErr()) return R.fail(urlCheck.error);
+
+  if (target.startsWith("file://")) {
+    const result = await R.fromAsync(
+      () => readFile(fileURLToPath(target), "utf8"),
+      "EXTERNAL_SERVICE_ERROR",
+    );
+    if (result.isErr()) return R.fail(result.error);
+    if (Buffer.byteLength(result.value) > MAX_ICS_BYTES) {
+      return R.fail({ code: "VALIDATION_ERROR", message: "Arquivo ICS excede 5 MB" });
+    }
+    return R.ok(result.value);
+  }
+
+  for (let redirects = 0; ; redirects++) {
+    const hostCheck = await assertPublicHost(target, options);
+    if (hostCheck.isErr()) return R.fail(hostCheck.error);
+
+    let response: Response;
+    try {
+      response = await fetch(target, {
+        headers: { Accept: "text/calendar", "User-Agent": "chat-booking-calendar/1.0" },
+        // Redirecionamentos são seguidos aqui, validando o host de cada destino
+        redirect: "manual",
+        dispatcher: options.dispatcher,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+    } catch {
+      return R.fail({
+        code: "EXTERNAL_SERVICE_ERROR",
+        message: "Não foi possível baixar a agenda",
+      });
+    }
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= MAX_REDIRECTS) {
+        return R.fail({
+          code: "EXTERNAL_SERVICE_ERROR",
+          message: "Servidor da agenda redirecionou vezes demais",
+        });
+      }
+      target = new URL(location, target).toString();
+      const redirectCheck = checkIcsUrl(target, options);
+      if (redirectCheck.isErr() || !/^https?:\/\//i.test(target)) {
+        return R.fail({
+          code: "EXTERNAL_SERVICE_ERROR",
+          message: "Servidor da agenda redirecionou para uma URL não aceita",
+        });
+      }
+      continue;
+    }
+
+    return readBody(response);
+  }
+}
+
+/** Lê a resposta do servidor da agenda respeitando MAX_ICS_BYTES */
+async function readBody(response: Response): Promise<Result<string>> {
+  if (!response.ok) {
+    await response.body?.cancel();
+    return R.fail({
+      code: "EXTERNAL_SERVICE_ERROR",
+      message: `Servidor da agenda respondeu ${response.status}`,
+    });
+  }
+  if (Number(response.headers.get("content-length") ?? 0) > MAX_ICS_BYTES) {
+    await response.body?.cancel();
+    return R.fail({ code: "EXTERNAL_SERVICE_ERROR", message: "Arquivo ICS excede 5 MB" });
+  }
+
+  const result = await R.fromAsync(() => response.text(), "EXTERNAL_SERVICE_ERROR");
+  if (result.isErr()) {
+    return R.fail({ code: "EXTERNAL_SERVICE_ERROR", message: "Não foi possível baixar a agenda" });
+  }
+  if (Buffer.byteLength(result.value) > MAX_ICS_BYTES) {
+    return R.fail({ code: "EXTERNAL_SERVICE_ERROR", message: "Arquivo ICS excede 5 MB" });
+  }
+  return R.ok(result.value);
+}
@@ -0,0 +1,240 @@
+/** Evento de calendário — horários em UTC, exibidos no fuso informado */
+export type CalendarEvent = {
+  /** Identificador estável — o mesmo UID atualiza o evento já importado */
+  uid: string;
+  start: Date;
+  end: Date;
+  /** Fuso IANA em que DTSTART/DTEND são escritos — ex: "America/Sao_Paulo" */
+  timezone: string;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  /** Incrementa a cada alteração do evento (remarcação, mudança de status) */
+  sequence: number;
+  lastModified: Date;
+};
+
+export type CalendarOptions = {
+  /** Nome exibido pelo app de calendário (X-WR-CALNAME) */
+  name?: string;
+  /** Intervalo sugerido para os apps consultarem o feed novamente */
+  refreshMinutes?: number;
+};
+
+const PRODID = "-//Chat Booking//Agenda//PT";
+
+/** UID estável do agendamento — o mesmo nos feeds e no .ics anexado às notificações */
+export function appointmentEventUid(appointmentId: string): string {
+  return `appointment-${appointmentId}@chat-booking`;
+}
+
+/** Margem antes/depois dos eventos coberta pelas definições de VTIMEZONE */
+const VTIMEZONE_MARGIN_MS = 86_400_000;
+
+/**
+ * Gera um iCalendar (RFC 5545) com um VTIMEZONE por fuso usado nos eventos,
+ * calculado a partir das transições reais de offset no período dos eventos.
+ */
+export function buildCalendar(events: CalendarEvent[], options: CalendarOptions = {}): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  const ranges = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    const range = ranges.get(event.timezone);
+    ranges.set(event.timezone, {
+      from: Math.min(range?.from ?? Number.POSITIVE_INFINITY, event.start.getTime()),
+      to: Math.max(range?.to ?? Number.NEGATIVE_INFINITY, event.end.getTime()),
+    });
+  }
+  for (const [timezone, range] of ranges) {
+    lines.push(
+      ...buildVTimezone(timezone, range.from - VTIMEZONE_MARGIN_MS, range.to + VTIMEZONE_MARGIN_MS),
+    );
+  }
+
+  const stamp = formatUtc(new Date());
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${event.timezone}:${formatLocal(event.start, event.timezone)}`,
+      `DTEND;TZID=${event.timezone}:${formatLocal(event.end, event.timezone)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    lines.push(
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence}`,
+      `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+      "TRANSP:OPAQUE",
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+// ========== VTIMEZONE ==========
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 3_600_000;
+const DAY_MS = 86_400_000;
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Offset do fuso em minutos (local − UTC) no instante informado */
+function utcOffsetMinutes(instant: number, timezone: string): number {
+  let formatter = offsetFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    offsetFormatters.set(timezone, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const local = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+  return Math.round((local - Math.floor(instant / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+}
+
+/** Instantes em que o offset do fuso muda dentro do período (precisão de minuto) */
+function findTransitions(
+  timezone: string,
+  from: number,
+  to: number,
+): { at: number; offsetFrom: number; offsetTo: number }[] {
+  const transitions: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = Math.floor(from / HOUR_MS) * HOUR_MS;
+  let previousOffset = utcOffsetMinutes(previous, timezone);
+
+  while (previous < to) {
+    const next = previous + DAY_MS;
+    const nextOffset = utcOffsetMinutes(next, timezone);
+
+    if (nextOffset !== previousOffset) {
+      // Busca binária pelo primeiro minuto com o novo offset
+      let low = previous;
+      let high = next;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+        if (utcOffsetMinutes(mid, timezone) === previousOffset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: high, offsetFrom: previousOffset, offsetTo: nextOffset });
+    }
+
+    previous = next;
+    previousOffset = nextOffset;
+  }
+
+  return transitions;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Define o fuso com uma observância por transição no período (sem RRULE), mais a
+ * observância vigente no início — correto mesmo para fusos que aboliram o horário de verão.
+ */
+function buildVTimezone(timezone: string, from: number, to: number): string[] {
+  const transitions = findTransitions(timezone, from, to);
+  const initialOffset = utcOffsetMinutes(from, timezone);
+  const first = transitions[0];
+  // Antes de uma transição que adianta o relógio vale o horário padrão
+  const initialKind = !first || first.offsetTo > first.offsetFrom ? "STANDARD" : "DAYLIGHT";
+
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timezone}`];
+  const observance = (kind: string, start: number, offsetFrom: number, offsetTo: number) => {
+    lines.push(
+      `BEGIN:${kind}`,
+      // DTSTART de uma observância é a hora local ainda no offset anterior
+      `DTSTART:${formatUtc(new Date(start + offsetFrom * MINUTE_MS)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `END:${kind}`,
+    );
+  };
+
+  observance(initialKind, Math.floor(from / HOUR_MS) * HOUR_MS, initialOffset, initialOffset);
+  for (const transition of transitions) {
+    const kind = transition.offsetTo > transition.offsetFrom ? "DAYLIGHT" : "STANDARD";
+    observance(kind, transition.at, transition.offsetFrom, transition.offsetTo);
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// ========== FORMATAÇÃO ==========
+
+/** Data/hora UTC — ex: 20251015T120000Z */
+function formatUtc(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z")
+    .replaceAll("-", "")
+    .replaceAll(":", "");
+}
+
+/** Data/hora local no fuso (sem Z) — ex: 20251015T090000 */
+function formatLocal(date: Date, timezone: string): string {
+  const offset = utcOffsetMinutes(date.getTime(), timezone);
+  return formatUtc(new Date(date.getTime() + offset * MINUTE_MS)).slice(0, -1);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll(";", "\\;")
+    .replaceAll(",", "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Quebra linhas com mais de 75 octetos (continuação começa com espaço) */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    // A primeira linha comporta 75 octetos; as seguintes, 74 (+ o espaço inicial)
+    if (size + charSize > (chunks.length === 0 ? 75 : 74)) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
@@ -5,23 +5,156 @@ import { z } from "zod";
  * Todas as envs obrigatórias do backend são validadas aqui no startup.
  * Se faltar algo, o processo falha cedo com mensagem clara.
  */
-const envSchema = z.object({
-  // Server
-  NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
-  PORT: z.coerce.number().default(3000),
-
-  // Postgres
-  POSTGRES_URL: z.string().min(1, "POSTGRES_URL is required"),
-
-  // Redis
-  REDIS_URL: z.string().default("redis://localhost:6379"),
-
-  // Auth
-  JWT_SECRET: z.string().min(32, "JWT_SECRET must be at least 32 characters"),
-  ADMIN_API_KEY: z.string().min(32, "ADMIN_API_KEY must be at least 32 characters"),
-  ACCESS_TOKEN_EXPIRES_IN: z.coerce.number().default(3600), // 1 hora
-  REFRESH_TOKEN_EXPIRES_IN: z.coerce.number().default(86400), // 24 horas
-});
+const envSchema = z
+  .object({
+    // Server
+    NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+    PORT: z.coerce.number().default(3000),
+
+    // Postgres
+    POSTGRES_URL: z.string().min(1, "POSTGRES_URL is required"),
+
+    // Redis
+    REDIS_URL: z.string().default("redis://localhost:6379"),
+
+    // Auth
+    JWT_SECRET: z.string().min(32, "JWT_SECRET must be at least 32 characters"),
+    ADMIN_API_KEY: z.string().min(32, "ADMIN_API_KEY must be at least 32 characters"),
+    ACCESS_TOKEN_EXPIRES_IN: z.coerce.number().default(3600), // 1 hora
+    REFRESH_TOKEN_EXPIRES_IN: z.coerce.number().default(86400), // 24 horas
+
+    // OTP
+    OTP_SENDER: z.enum(["console", "whatsapp", "sms"]).default("console"),
+    OTP_EXPIRES_IN: z.coerce.number().default(300), // 5 minutos
+    OTP_MAX_ATTEMPTS: z.coerce.number().default(5),
+
+    // Worker de geração contínua de slots
+    SLOT_GENERATION_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    SLOT_GENERATION_INTERVAL_MS: z.coerce.number().default(3_600_000), // 1 hora
+
+    // Reservas temporárias de slots durante o checkout no chat
+    SLOT_HOLD_TTL_MS: z.coerce.number().default(300_000), // 5 minutos
+    SLOT_HOLD_EXPIRY_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    SLOT_HOLD_EXPIRY_INTERVAL_MS: z.coerce.number().default(15_000), // 15 segundos
+
+    // Worker de lembretes de agendamento
+    REMINDER_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    REMINDER_INTERVAL_MS: z.coerce.number().default(60_000), // 1 minuto
+
+    // Dispatcher de notificações (fake apenas loga, sem entregar — desenvolvimento/testes)
+    NOTIFICATION_PROVIDER: z.enum(["live", "fake"]).default("live"),
+    NOTIFICATION_DISPATCH_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    NOTIFICATION_DISPATCH_INTERVAL_MS: z.coerce.number().default(15_000), // 15 segundos
+    NOTIFICATION_BATCH_SIZE: z.coerce.number().default(50),
+    NOTIFICATION_MAX_ATTEMPTS: z.coerce.number().default(5),
+    NOTIFICATION_RETRY_BASE_MS: z.coerce.number().default(60_000), // dobra a cada tentativa
+
+    // Relay do outbox de eventos de domínio
+    // memory: publica direto no bus local; redis: passa por um Redis Stream (consumer group)
+    OUTBOX_RELAY_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    OUTBOX_RELAY_MODE: z.enum(["memory", "redis"]).default("memory"),
+    OUTBOX_RELAY_INTERVAL_MS: z.coerce.number().default(1_000),
+    OUTBOX_BATCH_SIZE: z.coerce.number().default(100),
+    OUTBOX_MAX_ATTEMPTS: z.coerce.number().default(10),
+
+    // Webhooks de saída dos tenants (POST assinado com HMAC-SHA256)
+    WEBHOOK_DELIVERY_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    WEBHOOK_DELIVERY_INTERVAL_MS: z.coerce.number().default(5_000), // 5 segundos
+    WEBHOOK_BATCH_SIZE: z.coerce.number().default(50),
+    WEBHOOK_MAX_ATTEMPTS: z.coerce.number().default(8),
+    WEBHOOK_RETRY_BASE_MS: z.coerce.number().default(30_000), // dobra a cada tentativa
+    WEBHOOK_TIMEOUT_MS: z.coerce.number().default(10_000),
+
+    // Lista de espera (ofertas de horários liberados por cancelamento)
+    WAITLIST_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    WAITLIST_INTERVAL_MS: z.coerce.number().default(30_000), // 30 segundos
+    WAITLIST_OFFER_TTL_MS: z.coerce.number().default(900_000), // 15 minutos para aceitar
+
+    // Importação de agendas externas (ICS) que bloqueiam slots dos operadores
+    CALENDAR_IMPORT_ENABLED: z
+      .enum(["true", "false"])
+      .default("true")
+      .transform((v) => v === "true"),
+    CALENDAR_IMPORT_INTERVAL_MS: z.coerce.number().default(900_000), // 15 minutos
+    CALENDAR_IMPORT_TIMEOUT_MS: z.coerce.number().default(10_000),
+
+    // WhatsApp (Evolution API)
+    EVOLUTION_API_URL: z.string().url().optional(),
+    EVOLUTION_API_KEY: z.string().optional(),
+    EVOLUTION_INSTANCE: z.string().optional(),
+
+    // SMS (gateway HTTP)
+    SMS_API_URL: z.string().url().optional(),
+    SMS_API_KEY: z.string().optional(),
+
+    // E-mail (SMTP)
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().default(587),
+    SMTP_SECURE: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((v) => v === "true"),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASS: z.string().optional(),
+    SMTP_FROM: z.string().optional(),
+  })
+  .superRefine((env, ctx) => {
+    // O sender console escreve telefone e código no log
+    if (env.NODE_ENV === "production" && env.OTP_SENDER === "console") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["OTP_SENDER"],
+        message: "OTP_SENDER must be whatsapp or sms when NODE_ENV=production",
+      });
+    }
+    // O provider fake marca as notificações como enviadas sem entregá-las
+    if (env.NODE_ENV === "production" && env.NOTIFICATION_PROVIDER === "fake") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["NOTIFICATION_PROVIDER"],
+        message: "NOTIFICATION_PROVIDER must be live when NODE_ENV=production",
+      });
+    }
+    if (
+      env.OTP_SENDER === "whatsapp" &&
+      !(env.EVOLUTION_API_URL && env.EVOLUTION_API_KEY && env.EVOLUTION_INSTANCE)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["EVOLUTION_API_URL"],
+        message:
+          "EVOLUTION_API_URL, EVOLUTION_API_KEY and EVOLUTION_INSTANCE are required when OTP_SENDER=whatsapp",
+      });
+    }
+    if (env.OTP_SENDER === "sms" && !(env.SMS_API_URL && env.SMS_API_KEY)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SMS_API_URL"],
+        message: "SMS_API_URL and SMS_API_KEY are required when OTP_SENDER=sms",
+      });
+    }
+  });
 
 export type Config = z.infer<typeof envSchema>;
 
@@ -1,6 +1,8 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
+import type { DomainEvent } from "../../shared/events.js";
 import type { Config } from "../config/config.js";
 import type { db } from "../db/connection.js";
+import type { EventBus } from "../events/event-bus.js";
 import type { redis } from "../redis/connection.js";
 
 /**
@@ -11,6 +13,8 @@ export type Container = {
   db: typeof db;
   redis: typeof redis;
   config: Config;
+  /** Bus de eventos de domínio — subscribers recebem o que o relay do outbox publica */
+  events: EventBus<DomainEvent>;
 };
 
 /**
@@ -57,3 +57,24 @@ export function localToUtc(date: string, time: string, timezone: string): Date {
   // O UTC correto é: tentative - offset
   return new Date(tentative.getTime() - offsetMs);
 }
+
+/** Formata data e hora curtas no timezone e idioma informados — ex: "19/10/2026 14:30" (pt-BR) */
+export function formatLocalizedDateTime(date: Date, timezone: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, {
+    timeZone: timezone,
+    dateStyle: "short",
+    timeStyle: "short",
+  })
+    .format(date)
+    .replace(",", "");
+}
+
+/** Retorna string HH:MM do horário atual no timezone IANA informado */
+export function nowHm(timezone: string): string {
+  return new Intl.DateTimeFormat("en-GB", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(new Date());
+}
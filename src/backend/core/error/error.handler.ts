@@ -18,6 +18,8 @@ const STATUS_MAP: Record<string, ContentfulStatusCode> = {
   FORBIDDEN: 403,
   INVALID_TOKEN: 401,
   TOKEN_EXPIRED: 401,
+  USER_INACTIVE: 401,
+  INVALID_OTP: 401,
 
   // Validação
   VALIDATION_ERROR: 422,
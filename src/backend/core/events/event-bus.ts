@@ -0,0 +1,73 @@
+import { logger } from "../logger/logger.js";
+
+/** Envelope mínimo aceito pelo bus — o tipo concreto vem do mapa de eventos da aplicação */
+type EventEnvelope = { id: string; type: string };
+
+type Handler<E> = (event: E) => Promise<void> | void;
+
+export type EventBus<E extends EventEnvelope> = {
+  /**
+   * Registra um subscriber para um tipo de evento (ou "*" para todos).
+   * Retorna uma função que remove o registro. Um evento cuja entrega falhou é reentregue a
+   * todos os subscribers — o handler deve ser idempotente pelo `event.id`.
+   */
+  subscribe<T extends E["type"]>(type: T, handler: Handler<Extract<E, { type: T }>>): () => void;
+  subscribe(type: "*", handler: Handler<E>): () => void;
+  /**
+   * Entrega o evento a todos os subscribers — falha de um não impede os demais, mas a promise
+   * é rejeitada (AggregateError) ao final se algum falhou, para que o evento seja reentregue
+   */
+  publish(event: E): Promise<void>;
+};
+
+/**
+ * Bus de eventos in-process.
+ *
+ * Uso:
+ * ```ts
+ * const events = createEventBus<DomainEvent>();
+ * events.subscribe("appointment.created", async (event) => { ... });
+ * await events.publish(event);
+ * ```
+ */
+export function createEventBus<E extends EventEnvelope>(): EventBus<E> {
+  const handlers = new Map<string, Set<Handler<E>>>();
+
+  return {
+    subscribe(type: string, handler: Handler<E>) {
+      let set = handlers.get(type);
+      if (!set) {
+        set = new Set();
+        handlers.set(type, set);
+      }
+      set.add(handler);
+      return () => {
+        set.delete(handler);
+      };
+    },
+
+    async publish(event) {
+      const targets = [...(handlers.get(event.type) ?? []), ...(handlers.get("*") ?? [])];
+      const errors: unknown[] = [];
+      for (const handler of targets) {
+        try {
+          await handler(event);
+        } catch (err) {
+          errors.push(err);
+          logger.error("Subscriber falhou ao processar evento", {
+            eventId: event.id,
+            type: event.type,
+            error: err instanceof Error ? err.message : String(err),
+          });
+        }
+      }
+
+      if (errors.length > 0) {
+        throw new AggregateError(
+          errors,
+          `${errors.length} de ${targets.length} subscriber(s) falharam ao processar ${event.type}`,
+        );
+      }
+    },
+  } as EventBus<E>;
+}
@@ -0,0 +1,50 @@
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+type EvolutionConfig = {
+  /** URL base da Evolution API — ex: "http://evolution:8080" */
+  baseUrl: string;
+  /** Chave global da API (header `apikey`) */
+  apiKey: string;
+  /** Nome da instância do WhatsApp conectada */
+  instance: string;
+};
+
+export type EvolutionClient = {
+  sendText(phone: string, text: string): Promise<Result<void>>;
+};
+
+/**
+ * Cliente HTTP mínimo da Evolution API (WhatsApp).
+ *
+ * Uso:
+ * ```ts
+ * const whatsapp = createEvolutionClient({ baseUrl, apiKey, instance });
+ * const result = await whatsapp.sendText("+5511999999999", "Olá!");
+ * ```
+ */
+export function createEvolutionClient({
+  baseUrl,
+  apiKey,
+  instance,
+}: EvolutionConfig): EvolutionClient {
+  return {
+    async sendText(phone, text) {
+      const result = await R.fromAsync(async () => {
+        const response = await fetch(`${baseUrl}/message/sendText/${instance}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", apikey: apiKey },
+          // Evolution espera o número só com dígitos (DDI + DDD + número)
+          body: JSON.stringify({ number: phone.replace(/\D/g, ""), text }),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!response.ok) {
+          throw new Error(`Evolution API respondeu ${response.status}`);
+        }
+      }, "EXTERNAL_SERVICE_ERROR");
+
+      if (result.isErr()) return R.fail(result.error);
+      return R.ok(undefined);
+    },
+  };
+}
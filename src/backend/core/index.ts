@@ -6,6 +6,7 @@ export {
   registerModules,
 } from "./container/container.js";
 export { db } from "./db/connection.js";
+export { createEventBus, type EventBus } from "./events/event-bus.js";
 export { redis } from "./redis/connection.js";
 export { errorHandler, respondError } from "./error/error.handler.js";
 export { logger } from "./logger/logger.js";
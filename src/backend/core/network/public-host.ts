@@ -0,0 +1,126 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, type LookupFunction, isIP } from "node:net";
+import { Agent } from "undici";
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+type PublicHostOptions = {
+  /** Aceita loopback e redes privadas — apenas fora de produção (desenvolvimento local) */
+  allowPrivate: boolean;
+};
+
+/** Faixas que nunca recebem requisições para URLs informadas por tenants */
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "esta" rede
+  ["10.0.0.0", 8], // privada
+  ["100.64.0.0", 10], // CGNAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local (inclui metadata de cloud)
+  ["172.16.0.0", 12], // privada
+  ["192.0.0.0", 24], // IETF
+  ["192.168.0.0", 16], // privada
+  ["198.18.0.0", 15], // benchmark
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reservada + broadcast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // não especificado
+  ["::1", 128], // loopback
+  ["64:ff9b::", 96], // NAT64 (embute IPv4)
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+/** true se o endereço está em loopback, rede privada, link-local ou faixa reservada */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 mapeado em IPv6 (::ffff:10.0.0.1) é checado como IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return blockedAddresses.check(mapped[1], "ipv4");
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Resolve o host da URL e falha se algum endereço for interno — proteção contra SSRF
+ * em URLs informadas por tenants. Deve ser chamado antes de cada requisição (cobre também
+ * hosts que são IPs literais, que não passam por DNS) junto com o agent de
+ * `createPublicAgent`, que conecta apenas nos endereços validados.
+ *
+ * Uso:
+ * ```ts
+ * const check = await assertPublicHost(url, { allowPrivate: config.NODE_ENV !== "production" });
+ * if (check.isErr()) return R.fail(check.error);
+ * ```
+ */
+export async function assertPublicHost(
+  url: string,
+  options: PublicHostOptions,
+): Promise<Result<void>> {
+  if (options.allowPrivate) return R.ok(undefined);
+
+  let hostname: string;
+  try {
+    // IPv6 literal vem entre colchetes em URL.hostname
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  } catch {
+    return R.fail({ code: "VALIDATION_ERROR", message: "URL inválida" });
+  }
+
+  const resolved = await R.fromAsync(
+    () => lookup(hostname, { all: true, verbatim: true }),
+    "EXTERNAL_SERVICE_ERROR",
+  );
+  if (resolved.isErr()) {
+    return R.fail({ code: "EXTERNAL_SERVICE_ERROR", message: "Host do destino não resolvido" });
+  }
+
+  if (resolved.value.length === 0 || resolved.value.some((a) => isPrivateAddress(a.address))) {
+    return R.fail({ code: "FORBIDDEN", message: "Destino aponta para uma rede interna" });
+  }
+
+  return R.ok(undefined);
+}
+
+/**
+ * Lookup usado na conexão: resolve o host e só devolve os endereços se todos forem públicos.
+ * Como a validação e a conexão usam a mesma resolução, um DNS que muda de resposta entre a
+ * checagem e a requisição (DNS rebinding) não alcança a rede interna.
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { all: true, verbatim: true, family: options.family ?? 0 })
+    .then((addresses) => {
+      if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+        callback(new Error("Destino aponta para uma rede interna"), "");
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+        return;
+      }
+      callback(null, addresses[0].address, addresses[0].family);
+    })
+    .catch((err: NodeJS.ErrnoException) => callback(err, ""));
+};
+
+/**
+ * Agent (undici) para requisições a URLs de tenants — conecta apenas em endereços públicos.
+ * Com `allowPrivate` (fora de produção) é um agent comum.
+ *
+ * Uso:
+ * ```ts
+ * const dispatcher = createPublicAgent({ allowPrivate: false });
+ * await fetch(url, { dispatcher, redirect: "manual" });
+ * ```
+ */
+export function createPublicAgent(options: PublicHostOptions): Agent {
+  if (options.allowPrivate) return new Agent();
+  return new Agent({ connect: { lookup: publicLookup } });
+}
@@ -1,31 +1,47 @@
+import type { Context } from "hono";
 import { createMiddleware } from "hono/factory";
 import type { Redis } from "ioredis";
 
 type RateLimitConfig = {
   /** Instância do Redis para armazenar contadores */
   redis: Redis;
-  /** Prefixo da chave no Redis (ex: "login", "refresh") */
+  /** Prefixo da chave no Redis (ex: "otp", "refresh") */
   prefix: string;
   /** Janela de tempo em ms (ex: 60_000 = 1 minuto) */
   windowMs: number;
   /** Máximo de requisições por janela */
   maxRequests: number;
+  /** Gera a chave do contador (default: IP do cliente) */
+  keyGenerator?: (c: Context) => string | Promise<string>;
 };
 
+/** IP do cliente a partir dos headers de proxy */
+const clientIp = (c: Context): string =>
+  c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ?? c.req.header("x-real-ip") ?? "unknown";
+
 /**
  * Middleware de rate limiting com Redis (fixed window).
  *
- * Usa o IP do cliente como chave. Headers padrão de rate limit são incluídos
+ * Usa o IP do cliente como chave (ou `keyGenerator`, ex: telefone do body). Headers padrão de rate limit são incluídos
  * na resposta (X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset).
  *
  * Retorna 429 quando o limite é excedido.
  *
  * Uso:
  * ```ts
- * app.use("/api/auth/login", rateLimiter({ redis, prefix: "login", windowMs: 60_000, maxRequests: 5 }));
+ * app.use("/api/auth/refresh", rateLimiter({ redis, prefix: "refresh", windowMs: 60_000, maxRequests: 10 }));
+ *
+ * // Por telefone em vez de IP
+ * app.use("/api/auth/otp/request", rateLimiter({ ..., keyGenerator: async (c) => (await c.req.json()).phone }));
  * ```
  */
-export function rateLimiter({ redis, prefix, windowMs, maxRequests }: RateLimitConfig) {
+export function rateLimiter({
+  redis,
+  prefix,
+  windowMs,
+  maxRequests,
+  keyGenerator = clientIp,
+}: RateLimitConfig) {
   const ttlSeconds = Math.ceil(windowMs / 1000);
 
   /** INCR + EXPIRE atômico via Lua — elimina race condition entre os dois comandos */
@@ -38,12 +54,7 @@ export function rateLimiter({ redis, prefix, windowMs, maxRequests }: RateLimitC
   `;
 
   return createMiddleware(async (c, next) => {
-    const ip =
-      c.req.header("x-forwarded-for")?.split(",")[0]?.trim() ??
-      c.req.header("x-real-ip") ??
-      "unknown";
-
-    const key = `rl:${prefix}:${ip}`;
+    const key = `rl:${prefix}:${await keyGenerator(c)}`;
 
     const count = (await redis.eval(luaScript, 1, key, ttlSeconds)) as number;
     const ttl = await redis.ttl(key);
@@ -48,6 +48,38 @@ export const getSession = (c: Context): SessionPayload => {
   return parsed.data;
 };
 
+/**
+ * Escopo da API key que autenticou a requisição: o tenant da chave e, se ela foi emitida
+ * para um business específico, esse business. Sessões JWT não têm escopo.
+ */
+export interface ApiKeyScope {
+  tenantId: string;
+  businessId: string | null;
+}
+
+/**
+ * Helper para extrair o escopo da API key do contexto (null quando a requisição usa JWT).
+ *
+ * Uso:
+ * ```ts
+ * const scope = getApiKeyScope(c);
+ * if (!isWithinScope(scope, business)) return R.fail({ code: "FORBIDDEN", ... });
+ * ```
+ */
+export const getApiKeyScope = (c: Context): ApiKeyScope | null => {
+  return (c.get("apiKeyScope") as ApiKeyScope | undefined) ?? null;
+};
+
+/** Verifica se o business alvo está dentro do escopo da API key (sem escopo, sempre true) */
+export function isWithinScope(
+  scope: ApiKeyScope | null,
+  business: { id: string; tenantId: string },
+): boolean {
+  if (!scope) return true;
+  if (business.tenantId !== scope.tenantId) return false;
+  return scope.businessId === null || scope.businessId === business.id;
+}
+
 /** Verifica se a sessão possui uma das roles permitidas */
 export function hasRole(session: { role: Role }, ...allowed: Role[]): boolean {
   return allowed.includes(session.role);
@@ -0,0 +1,43 @@
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+type SmsConfig = {
+  /** Endpoint do gateway SMS que recebe `{ to, message }` via POST */
+  apiUrl: string;
+  /** Token enviado como Bearer no header Authorization */
+  apiKey: string;
+};
+
+export type SmsClient = {
+  send(phone: string, message: string): Promise<Result<void>>;
+};
+
+/**
+ * Cliente HTTP genérico para gateways SMS.
+ *
+ * Uso:
+ * ```ts
+ * const sms = createSmsClient({ apiUrl, apiKey });
+ * const result = await sms.send("+5511999999999", "Seu código é 123456");
+ * ```
+ */
+export function createSmsClient({ apiUrl, apiKey }: SmsConfig): SmsClient {
+  return {
+    async send(phone, message) {
+      const result = await R.fromAsync(async () => {
+        const response = await fetch(apiUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+          body: JSON.stringify({ to: phone, message }),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!response.ok) {
+          throw new Error(`Gateway SMS respondeu ${response.status}`);
+        }
+      }, "EXTERNAL_SERVICE_ERROR");
+
+      if (result.isErr()) return R.fail(result.error);
+      return R.ok(undefined);
+    },
+  };
+}
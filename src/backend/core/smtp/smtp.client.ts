@@ -0,0 +1,65 @@
+import { createTransport } from "nodemailer";
+import type { Result } from "../result/result.js";
+import { Result as R } from "../result/result.js";
+
+type SmtpConfig = {
+  /** Host do servidor SMTP — ex: "smtp.sendgrid.net" */
+  host: string;
+  /** Porta — 587 (STARTTLS) ou 465 (TLS direto) */
+  port: number;
+  /** true para TLS direto (porta 465) */
+  secure: boolean;
+  /** Usuário de autenticação (opcional em relays internos) */
+  user?: string;
+  /** Senha de autenticação */
+  pass?: string;
+  /** Remetente — ex: "Chat Booking <no-reply@chatbooking.com>" */
+  from: string;
+};
+
+/** Arquivo anexado ao e-mail — ex: convite .ics */
+export type SmtpAttachment = {
+  filename: string;
+  contentType: string;
+  content: string;
+};
+
+export type SmtpClient = {
+  send(
+    to: string,
+    subject: string,
+    text: string,
+    attachments?: SmtpAttachment[],
+  ): Promise<Result<void>>;
+};
+
+/**
+ * Cliente SMTP mínimo para e-mails em texto puro, com anexos opcionais.
+ *
+ * Uso:
+ * ```ts
+ * const smtp = createSmtpClient({ host, port, secure, user, pass, from });
+ * const result = await smtp.send("cliente@email.com", "Lembrete", "Seu horário é amanhã");
+ * ```
+ */
+export function createSmtpClient({ host, port, secure, user, pass, from }: SmtpConfig): SmtpClient {
+  const transport = createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+    connectionTimeout: 10_000,
+    socketTimeout: 10_000,
+  });
+
+  return {
+    async send(to, subject, text, attachments = []) {
+      const result = await R.fromAsync(async () => {
+        await transport.sendMail({ from, to, subject, text, attachments });
+      }, "EXTERNAL_SERVICE_ERROR");
+
+      if (result.isErr()) return R.fail(result.error);
+      return R.ok(undefined);
+    },
+  };
+}
@@ -0,0 +1,241 @@
+import { constants, crc32, deflateRawSync } from "node:zlib";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+/** Coluna da planilha — value extrai a célula de cada linha */
+export type SpreadsheetColumn<T> = {
+  header: string;
+  value: (row: T) => string | number | null;
+};
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Gera a planilha em partes conforme os lotes de linhas chegam — o arquivo
+ * inteiro nunca fica em memória, permitindo exportar resultados grandes.
+ */
+export function writeSpreadsheet<T>(
+  format: SpreadsheetFormat,
+  columns: SpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]>,
+): AsyncGenerator<Uint8Array> {
+  return format === "csv" ? writeCsv(columns, batches) : writeXlsx(columns, batches);
+}
+
+// ========== CSV ==========
+
+/** BOM UTF-8 — faz o Excel reconhecer acentuação ao abrir o CSV */
+const UTF8_BOM = "\uFEFF";
+
+/** Início de fórmula — prefixado com ' para a planilha não executar o conteúdo */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+async function* writeCsv<T>(
+  columns: SpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]>,
+): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  yield encoder.encode(`${UTF8_BOM}${columns.map((col) => csvCell(col.header)).join(",")}\r\n`);
+
+  for await (const batch of batches) {
+    if (batch.length === 0) continue;
+    const lines = batch.map((row) => columns.map((col) => csvCell(col.value(row))).join(","));
+    yield encoder.encode(`${lines.join("\r\n")}\r\n`);
+  }
+}
+
+// ========== XLSX ==========
+
+/** Caracteres não permitidos em XML 1.0 */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: remove controles inválidos em XML
+const XML_INVALID = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+function xmlEscape(value: string): string {
+  return value
+    .replace(XML_INVALID, "")
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+function xlsxCell(value: string | number | null): string {
+  if (value === null) return "<c/>";
+  if (typeof value === "number") return `<c><v>${value}</v></c>`;
+  return `<c t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+}
+
+function xlsxRow(cells: (string | number | null)[]): string {
+  return `<row>${cells.map(xlsxCell).join("")}</row>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/** Partes fixas do pacote — uma única planilha, strings inline (sem sharedStrings) */
+const XLSX_STATIC_PARTS: [string, string][] = [
+  [
+    "[Content_Types].xml",
+    `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`,
+  ],
+  [
+    "_rels/.rels",
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  ],
+  [
+    "xl/workbook.xml",
+    `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Dados" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+  ],
+  [
+    "xl/styles.xml",
+    `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts><fills count="1"><fill><patternFill patternType="none"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="1"><xf/></cellXfs></styleSheet>`,
+  ],
+];
+
+async function* writeXlsx<T>(
+  columns: SpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]>,
+): AsyncGenerator<Uint8Array> {
+  const zip = createZipWriter();
+
+  for (const [name, content] of XLSX_STATIC_PARTS) {
+    yield* zip.file(name, Buffer.from(content, "utf8"));
+  }
+
+  yield zip.beginEntry("xl/worksheets/sheet1.xml");
+  yield zip.entryData(
+    Buffer.from(
+      `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${xlsxRow(columns.map((col) => col.header))}`,
+      "utf8",
+    ),
+  );
+  for await (const batch of batches) {
+    if (batch.length === 0) continue;
+    const rows = batch.map((row) => xlsxRow(columns.map((col) => col.value(row)))).join("");
+    yield zip.entryData(Buffer.from(rows, "utf8"));
+  }
+  yield zip.entryData(Buffer.from("</sheetData></worksheet>", "utf8"));
+  yield zip.endEntry();
+
+  yield zip.finish();
+}
+
+// ========== ZIP ==========
+
+/** Data/hora no formato MS-DOS usado nos cabeçalhos ZIP */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Escritor ZIP em streaming (deflate, sem ZIP64 — limite de 4 GB por arquivo).
+ * Tamanhos e CRC vão no data descriptor após os dados, então cada entrada é
+ * escrita sem conhecer o conteúdo completo. Cada parte é comprimida de forma
+ * independente com SYNC_FLUSH — a concatenação forma um único stream deflate válido.
+ */
+function createZipWriter() {
+  const stamp = dosDateTime(new Date());
+  const central: Buffer[] = [];
+  let offset = 0;
+  let entry: {
+    name: Buffer;
+    headerOffset: number;
+    crc: number;
+    size: number;
+    compressedSize: number;
+  } | null = null;
+
+  function track(buffer: Buffer): Buffer {
+    offset += buffer.length;
+    return buffer;
+  }
+
+  function beginEntry(name: string): Buffer {
+    const nameBytes = Buffer.from(name, "utf8");
+    entry = { name: nameBytes, headerOffset: offset, crc: 0, size: 0, compressedSize: 0 };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // versão necessária
+    header.writeUInt16LE(0x0808, 6); // bit 3: data descriptor; bit 11: nome em UTF-8
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt16LE(stamp.time, 10);
+    header.writeUInt16LE(stamp.date, 12);
+    // CRC e tamanhos zerados — informados no data descriptor
+    header.writeUInt16LE(nameBytes.length, 26);
+    return track(Buffer.concat([header, nameBytes]));
+  }
+
+  function entryData(data: Buffer, final = false): Buffer {
+    if (!entry) throw new Error("Nenhuma entrada ZIP aberta");
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    const compressed = deflateRawSync(data, final ? {} : { finishFlush: constants.Z_SYNC_FLUSH });
+    entry.compressedSize += compressed.length;
+    return track(compressed);
+  }
+
+  function endEntry(): Buffer {
+    const last = entryData(Buffer.alloc(0), true);
+    if (!entry) throw new Error("Nenhuma entrada ZIP aberta");
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc >>> 0, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+
+    const record = Buffer.alloc(46);
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(20, 4); // versão que criou
+    record.writeUInt16LE(20, 6); // versão necessária
+    record.writeUInt16LE(0x0808, 8);
+    record.writeUInt16LE(8, 10);
+    record.writeUInt16LE(stamp.time, 12);
+    record.writeUInt16LE(stamp.date, 14);
+    record.writeUInt32LE(entry.crc >>> 0, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(entry.name.length, 28);
+    record.writeUInt32LE(entry.headerOffset, 42);
+    central.push(Buffer.concat([record, entry.name]));
+
+    entry = null;
+    return Buffer.concat([last, track(descriptor)]);
+  }
+
+  function* file(name: string, content: Buffer): Generator<Buffer> {
+    yield beginEntry(name);
+    yield entryData(content);
+    yield endEntry();
+  }
+
+  function finish(): Buffer {
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(central.length, 8);
+    end.writeUInt16LE(central.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([directory, end]);
+  }
+
+  return { beginEntry, entryData, endEntry, file, finish };
+}
@@ -0,0 +1,33 @@
+CREATE TABLE "chatbooking"."api_key_audit_logs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"api_key_id" uuid NOT NULL,
+	"user_id" uuid,
+	"method" varchar(10) NOT NULL,
+	"path" varchar(500) NOT NULL,
+	"status" integer NOT NULL,
+	"correlation_id" varchar(100),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chatbooking"."api_keys" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"business_id" uuid,
+	"name" varchar(255) NOT NULL,
+	"key_prefix" varchar(16) NOT NULL,
+	"key_hash" varchar(64) NOT NULL,
+	"created_by" uuid NOT NULL,
+	"last_used_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "api_keys_key_hash_unique" UNIQUE("key_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."api_key_audit_logs" ADD CONSTRAINT "api_key_audit_logs_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "chatbooking"."api_keys"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."api_key_audit_logs" ADD CONSTRAINT "api_key_audit_logs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."api_keys" ADD CONSTRAINT "api_keys_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "chatbooking"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."api_keys" ADD CONSTRAINT "api_keys_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."api_keys" ADD CONSTRAINT "api_keys_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_api_key_audit_logs_api_key_created" ON "chatbooking"."api_key_audit_logs" USING btree ("api_key_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_api_keys_tenant_id" ON "chatbooking"."api_keys" USING btree ("tenant_id");
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "chatbooking"."appointment_reschedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"from_slot_id" uuid,
+	"to_slot_id" uuid NOT NULL,
+	"from_operator_id" uuid NOT NULL,
+	"to_operator_id" uuid NOT NULL,
+	"from_scheduled_at" timestamp with time zone NOT NULL,
+	"to_scheduled_at" timestamp with time zone NOT NULL,
+	"rescheduled_by" uuid NOT NULL,
+	"reason" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_from_slot_id_schedule_slots_id_fk" FOREIGN KEY ("from_slot_id") REFERENCES "chatbooking"."schedule_slots"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_to_slot_id_schedule_slots_id_fk" FOREIGN KEY ("to_slot_id") REFERENCES "chatbooking"."schedule_slots"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_from_operator_id_operators_id_fk" FOREIGN KEY ("from_operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_to_operator_id_operators_id_fk" FOREIGN KEY ("to_operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_rescheduled_by_users_id_fk" FOREIGN KEY ("rescheduled_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointment_reschedules_appointment_id" ON "chatbooking"."appointment_reschedules" USING btree ("appointment_id");
\ No newline at end of file
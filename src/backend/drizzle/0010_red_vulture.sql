@@ -0,0 +1,12 @@
+CREATE TABLE "chatbooking"."appointment_slots" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"slot_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "uq_appointment_slots_appointment_slot" UNIQUE("appointment_id","slot_id")
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_slots" ADD CONSTRAINT "appointment_slots_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_slots" ADD CONSTRAINT "appointment_slots_slot_id_schedule_slots_id_fk" FOREIGN KEY ("slot_id") REFERENCES "chatbooking"."schedule_slots"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointment_slots_slot_id" ON "chatbooking"."appointment_slots" USING btree ("slot_id");--> statement-breakpoint
+INSERT INTO "chatbooking"."appointment_slots" ("appointment_id", "slot_id") SELECT "id", "slot_id" FROM "chatbooking"."appointments" WHERE "slot_id" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "slot_horizon_days" integer DEFAULT 14 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "slot_duration_minutes" integer DEFAULT 30 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "chatbooking"."availability_exception_type" AS ENUM('CLOSED', 'CUSTOM_HOURS');--> statement-breakpoint
+CREATE TABLE "chatbooking"."availability_exceptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"operator_id" uuid,
+	"date" date NOT NULL,
+	"type" "chatbooking"."availability_exception_type" NOT NULL,
+	"start_time" time,
+	"end_time" time,
+	"reason" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "chk_availability_exceptions_hours" CHECK (("chatbooking"."availability_exceptions"."type" = 'CLOSED') OR ("chatbooking"."availability_exceptions"."start_time" IS NOT NULL AND "chatbooking"."availability_exceptions"."end_time" IS NOT NULL AND "chatbooking"."availability_exceptions"."start_time" < "chatbooking"."availability_exceptions"."end_time"))
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."availability_exceptions" ADD CONSTRAINT "availability_exceptions_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."availability_exceptions" ADD CONSTRAINT "availability_exceptions_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_availability_exceptions_business_date" ON "chatbooking"."availability_exceptions" USING btree ("business_id","date");--> statement-breakpoint
+CREATE INDEX "idx_availability_exceptions_operator_date" ON "chatbooking"."availability_exceptions" USING btree ("operator_id","date");
\ No newline at end of file
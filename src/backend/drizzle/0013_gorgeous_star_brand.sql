@@ -0,0 +1,5 @@
+ALTER TABLE "chatbooking"."availability_rules" ADD COLUMN "breaks" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."operators" ADD COLUMN "buffer_before_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."operators" ADD COLUMN "buffer_after_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."services" ADD COLUMN "buffer_before_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."services" ADD COLUMN "buffer_after_minutes" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "reminder_offsets_minutes" integer[] DEFAULT '{1440,120}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "reminder_offset_minutes" integer;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_notifications_reminder" ON "chatbooking"."notifications" USING btree ("appointment_id","reminder_offset_minutes") WHERE "chatbooking"."notifications"."type" = 'REMINDER';
\ No newline at end of file
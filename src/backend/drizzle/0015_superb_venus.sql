@@ -0,0 +1,5 @@
+ALTER TYPE "chatbooking"."notification_status" ADD VALUE 'DEAD_LETTER';--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "attempts" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "last_error" text;--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_notifications_dispatch" ON "chatbooking"."notifications" USING btree ("status","next_attempt_at");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "chatbooking"."outbox_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"aggregate_type" varchar(50) NOT NULL,
+	"aggregate_id" uuid NOT NULL,
+	"event_type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"published_at" timestamp with time zone,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text
+);
+--> statement-breakpoint
+CREATE INDEX "idx_outbox_events_pending" ON "chatbooking"."outbox_events" USING btree ("occurred_at") WHERE "chatbooking"."outbox_events"."published_at" IS NULL;--> statement-breakpoint
+CREATE INDEX "idx_outbox_events_aggregate" ON "chatbooking"."outbox_events" USING btree ("aggregate_type","aggregate_id");
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TYPE "chatbooking"."webhook_delivery_status" AS ENUM('PENDING', 'SUCCESS', 'FAILED');--> statement-breakpoint
+CREATE TABLE "chatbooking"."webhook_deliveries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"subscription_id" uuid NOT NULL,
+	"event_id" uuid,
+	"event_type" varchar(100) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "chatbooking"."webhook_delivery_status" DEFAULT 'PENDING' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_status_code" integer,
+	"last_error" text,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"delivered_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chatbooking"."webhook_subscriptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"url" varchar(2048) NOT NULL,
+	"secret" varchar(128) NOT NULL,
+	"event_types" text[] NOT NULL,
+	"description" varchar(255),
+	"created_by" uuid NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscription_id_webhook_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "chatbooking"."webhook_subscriptions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "chatbooking"."tenants"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_subscription_id" ON "chatbooking"."webhook_deliveries" USING btree ("subscription_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_webhook_deliveries_due" ON "chatbooking"."webhook_deliveries" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_webhook_deliveries_event" ON "chatbooking"."webhook_deliveries" USING btree ("subscription_id","event_id") WHERE "chatbooking"."webhook_deliveries"."event_id" IS NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_webhook_subscriptions_tenant_id" ON "chatbooking"."webhook_subscriptions" USING btree ("tenant_id");
\ No newline at end of file
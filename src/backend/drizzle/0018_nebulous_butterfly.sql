@@ -0,0 +1,21 @@
+CREATE TABLE "chatbooking"."notification_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"type" "chatbooking"."notification_type" NOT NULL,
+	"channel" "chatbooking"."notification_channel" NOT NULL,
+	"locale" varchar(10) DEFAULT 'pt-BR' NOT NULL,
+	"subject" varchar(255),
+	"body" text NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DROP INDEX "chatbooking"."uq_notifications_reminder";--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "locale" varchar(10) DEFAULT 'pt-BR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "subject" varchar(255);--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "source_event_id" uuid;--> statement-breakpoint
+ALTER TABLE "chatbooking"."notification_templates" ADD CONSTRAINT "notification_templates_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_notification_templates_business_type_channel_locale" ON "chatbooking"."notification_templates" USING btree ("business_id","type","channel","locale");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_notifications_source_event" ON "chatbooking"."notifications" USING btree ("source_event_id","channel") WHERE "chatbooking"."notifications"."source_event_id" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_notifications_reminder" ON "chatbooking"."notifications" USING btree ("appointment_id","reminder_offset_minutes","channel") WHERE "chatbooking"."notifications"."type" = 'REMINDER';
\ No newline at end of file
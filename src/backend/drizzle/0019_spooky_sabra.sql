@@ -0,0 +1,44 @@
+CREATE TYPE "chatbooking"."waitlist_entry_status" AS ENUM('ACTIVE', 'OFFERED', 'FULFILLED', 'CANCELLED', 'EXPIRED');--> statement-breakpoint
+CREATE TYPE "chatbooking"."waitlist_offer_status" AS ENUM('PENDING', 'CLAIMED', 'EXPIRED');--> statement-breakpoint
+ALTER TYPE "chatbooking"."notification_type" ADD VALUE 'WAITLIST_OFFER';--> statement-breakpoint
+ALTER TYPE "chatbooking"."slot_status" ADD VALUE 'HELD';--> statement-breakpoint
+CREATE TABLE "chatbooking"."waitlist_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"business_id" uuid NOT NULL,
+	"service_id" uuid NOT NULL,
+	"operator_id" uuid,
+	"date_from" date NOT NULL,
+	"date_to" date NOT NULL,
+	"notes" varchar(500),
+	"status" "chatbooking"."waitlist_entry_status" DEFAULT 'ACTIVE' NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chatbooking"."waitlist_offers" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"entry_id" uuid NOT NULL,
+	"source_appointment_id" uuid NOT NULL,
+	"operator_id" uuid NOT NULL,
+	"slot_ids" uuid[] NOT NULL,
+	"scheduled_at" timestamp with time zone NOT NULL,
+	"status" "chatbooking"."waitlist_offer_status" DEFAULT 'PENDING' NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"appointment_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_entries" ADD CONSTRAINT "waitlist_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_entries" ADD CONSTRAINT "waitlist_entries_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_entries" ADD CONSTRAINT "waitlist_entries_service_id_services_id_fk" FOREIGN KEY ("service_id") REFERENCES "chatbooking"."services"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_entries" ADD CONSTRAINT "waitlist_entries_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_entry_id_waitlist_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "chatbooking"."waitlist_entries"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_source_appointment_id_appointments_id_fk" FOREIGN KEY ("source_appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."waitlist_offers" ADD CONSTRAINT "waitlist_offers_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_waitlist_entries_business_status" ON "chatbooking"."waitlist_entries" USING btree ("business_id","status","created_at");--> statement-breakpoint
+CREATE INDEX "idx_waitlist_entries_user_id" ON "chatbooking"."waitlist_entries" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "idx_waitlist_offers_status_expires_at" ON "chatbooking"."waitlist_offers" USING btree ("status","expires_at");--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_waitlist_offers_entry_source" ON "chatbooking"."waitlist_offers" USING btree ("entry_id","source_appointment_id");
\ No newline at end of file
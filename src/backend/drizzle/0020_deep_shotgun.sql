@@ -0,0 +1,19 @@
+CREATE TYPE "chatbooking"."slot_hold_status" AS ENUM('ACTIVE', 'CONVERTED', 'EXPIRED');--> statement-breakpoint
+CREATE TABLE "chatbooking"."slot_holds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slot_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"status" "chatbooking"."slot_hold_status" DEFAULT 'ACTIVE' NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL,
+	"appointment_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."slot_holds" ADD CONSTRAINT "slot_holds_slot_id_schedule_slots_id_fk" FOREIGN KEY ("slot_id") REFERENCES "chatbooking"."schedule_slots"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."slot_holds" ADD CONSTRAINT "slot_holds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."slot_holds" ADD CONSTRAINT "slot_holds_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_slot_holds_token" ON "chatbooking"."slot_holds" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "idx_slot_holds_status_expires_at" ON "chatbooking"."slot_holds" USING btree ("status","expires_at");--> statement-breakpoint
+CREATE INDEX "idx_slot_holds_user_status" ON "chatbooking"."slot_holds" USING btree ("user_id","status");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "min_booking_lead_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "min_cancel_notice_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "max_booking_window_days" integer;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "max_active_appointments_per_customer" integer;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TYPE "chatbooking"."customer_standing_status" AS ENUM('GOOD', 'RESTRICTED', 'BLOCKED');--> statement-breakpoint
+CREATE TABLE "chatbooking"."customer_standings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"business_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"no_show_count" integer DEFAULT 0 NOT NULL,
+	"late_cancellation_count" integer DEFAULT 0 NOT NULL,
+	"status" "chatbooking"."customer_standing_status" DEFAULT 'GOOD' NOT NULL,
+	"last_incident_at" timestamp with time zone,
+	"cleared_at" timestamp with time zone,
+	"cleared_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "deposit_required" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "late_cancellation_window_minutes" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "restrict_after_incidents" integer;--> statement-breakpoint
+ALTER TABLE "chatbooking"."businesses" ADD COLUMN "block_after_incidents" integer;--> statement-breakpoint
+ALTER TABLE "chatbooking"."customer_standings" ADD CONSTRAINT "customer_standings_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."customer_standings" ADD CONSTRAINT "customer_standings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."customer_standings" ADD CONSTRAINT "customer_standings_cleared_by_users_id_fk" FOREIGN KEY ("cleared_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_customer_standings_business_user" ON "chatbooking"."customer_standings" USING btree ("business_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_customer_standings_business_status" ON "chatbooking"."customer_standings" USING btree ("business_id","status");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TYPE "chatbooking"."appointment_event_type" AS ENUM('CREATED', 'CONFIRMED', 'RESCHEDULED', 'CANCELLED', 'COMPLETED', 'NO_SHOW');--> statement-breakpoint
+CREATE TABLE "chatbooking"."appointment_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"appointment_id" uuid NOT NULL,
+	"type" "chatbooking"."appointment_event_type" NOT NULL,
+	"from_status" "chatbooking"."appointment_status",
+	"to_status" "chatbooking"."appointment_status" NOT NULL,
+	"actor_user_id" uuid,
+	"actor_role" "chatbooking"."user_role",
+	"reason" text,
+	"correlation_id" varchar(100),
+	"metadata" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_events" ADD CONSTRAINT "appointment_events_appointment_id_appointments_id_fk" FOREIGN KEY ("appointment_id") REFERENCES "chatbooking"."appointments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_events" ADD CONSTRAINT "appointment_events_actor_user_id_users_id_fk" FOREIGN KEY ("actor_user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointment_events_appointment_created" ON "chatbooking"."appointment_events" USING btree ("appointment_id","created_at");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TYPE "chatbooking"."cancellation_actor" AS ENUM('CUSTOMER', 'OPERATOR', 'TENANT', 'SYSTEM');--> statement-breakpoint
+CREATE TYPE "chatbooking"."cancellation_reason_code" AS ENUM('CUSTOMER_REQUEST', 'SCHEDULE_CONFLICT', 'ILLNESS', 'OPERATOR_UNAVAILABLE', 'BUSINESS_CLOSURE', 'DUPLICATE', 'OTHER');--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "cancelled_by" uuid;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "cancellation_actor" "chatbooking"."cancellation_actor";--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "cancellation_reason_code" "chatbooking"."cancellation_reason_code";--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "cancellation_reason" text;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD CONSTRAINT "appointments_cancelled_by_users_id_fk" FOREIGN KEY ("cancelled_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointments_business_cancellation" ON "chatbooking"."appointments" USING btree ("business_id","cancellation_reason_code");
\ No newline at end of file
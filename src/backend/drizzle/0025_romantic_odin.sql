@@ -0,0 +1 @@
+CREATE INDEX "idx_appointments_business_scheduled" ON "chatbooking"."appointments" USING btree ("business_id","scheduled_at");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TYPE "chatbooking"."calendar_feed_type" AS ENUM('OPERATOR', 'CUSTOMER');--> statement-breakpoint
+CREATE TABLE "chatbooking"."calendar_feeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" "chatbooking"."calendar_feed_type" NOT NULL,
+	"operator_id" uuid,
+	"user_id" uuid,
+	"created_by" uuid NOT NULL,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_feeds" ADD CONSTRAINT "calendar_feeds_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_calendar_feeds_operator_id" ON "chatbooking"."calendar_feeds" USING btree ("operator_id");--> statement-breakpoint
+CREATE INDEX "idx_calendar_feeds_user_id" ON "chatbooking"."calendar_feeds" USING btree ("user_id");
\ No newline at end of file
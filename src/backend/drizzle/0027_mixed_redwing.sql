@@ -0,0 +1,31 @@
+CREATE TYPE "chatbooking"."calendar_import_source" AS ENUM('URL', 'UPLOAD');--> statement-breakpoint
+CREATE TABLE "chatbooking"."calendar_import_blocks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"import_id" uuid NOT NULL,
+	"slot_id" uuid NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "uq_calendar_import_blocks_import_slot" UNIQUE("import_id","slot_id")
+);
+--> statement-breakpoint
+CREATE TABLE "chatbooking"."calendar_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"operator_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"source" "chatbooking"."calendar_import_source" NOT NULL,
+	"url" varchar(2048),
+	"content" text,
+	"created_by" uuid NOT NULL,
+	"last_synced_at" timestamp with time zone,
+	"last_sync_error" text,
+	"last_sync_report" jsonb,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_import_blocks" ADD CONSTRAINT "calendar_import_blocks_import_id_calendar_imports_id_fk" FOREIGN KEY ("import_id") REFERENCES "chatbooking"."calendar_imports"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_import_blocks" ADD CONSTRAINT "calendar_import_blocks_slot_id_schedule_slots_id_fk" FOREIGN KEY ("slot_id") REFERENCES "chatbooking"."schedule_slots"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_imports" ADD CONSTRAINT "calendar_imports_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."calendar_imports" ADD CONSTRAINT "calendar_imports_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_calendar_import_blocks_slot_id" ON "chatbooking"."calendar_import_blocks" USING btree ("slot_id");--> statement-breakpoint
+CREATE INDEX "idx_calendar_imports_operator_id" ON "chatbooking"."calendar_imports" USING btree ("operator_id");
\ No newline at end of file
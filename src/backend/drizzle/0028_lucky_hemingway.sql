@@ -0,0 +1,25 @@
+CREATE TYPE "chatbooking"."appointment_series_frequency" AS ENUM('WEEKLY', 'BIWEEKLY', 'MONTHLY');--> statement-breakpoint
+CREATE TABLE "chatbooking"."appointment_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"operator_id" uuid NOT NULL,
+	"business_id" uuid NOT NULL,
+	"service_id" uuid NOT NULL,
+	"frequency" "chatbooking"."appointment_series_frequency" NOT NULL,
+	"start_date" date NOT NULL,
+	"start_time" time NOT NULL,
+	"occurrences" integer,
+	"until_date" date,
+	"cancelled_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_series" ADD CONSTRAINT "appointment_series_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "chatbooking"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_series" ADD CONSTRAINT "appointment_series_operator_id_operators_id_fk" FOREIGN KEY ("operator_id") REFERENCES "chatbooking"."operators"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_series" ADD CONSTRAINT "appointment_series_business_id_businesses_id_fk" FOREIGN KEY ("business_id") REFERENCES "chatbooking"."businesses"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointment_series" ADD CONSTRAINT "appointment_series_service_id_services_id_fk" FOREIGN KEY ("service_id") REFERENCES "chatbooking"."services"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointment_series_user_id" ON "chatbooking"."appointment_series" USING btree ("user_id");--> statement-breakpoint
+ALTER TABLE "chatbooking"."appointments" ADD CONSTRAINT "appointments_series_id_appointment_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "chatbooking"."appointment_series"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_appointments_series_id" ON "chatbooking"."appointments" USING btree ("series_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TYPE "chatbooking"."cancellation_actor" ADD VALUE 'OWNER' BEFORE 'SYSTEM';
\ No newline at end of file
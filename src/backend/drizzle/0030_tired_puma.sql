@@ -0,0 +1,3 @@
+DROP INDEX "chatbooking"."idx_outbox_events_pending";--> statement-breakpoint
+ALTER TABLE "chatbooking"."outbox_events" ADD COLUMN "next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_outbox_events_pending" ON "chatbooking"."outbox_events" USING btree ("next_attempt_at") WHERE "chatbooking"."outbox_events"."published_at" IS NULL;
\ No newline at end of file
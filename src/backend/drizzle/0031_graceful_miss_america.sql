@@ -0,0 +1,4 @@
+DROP INDEX "chatbooking"."uq_notifications_reminder";--> statement-breakpoint
+ALTER TABLE "chatbooking"."notifications" ADD COLUMN "reminder_scheduled_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "chatbooking"."notifications" AS n SET "reminder_scheduled_at" = a."scheduled_at" FROM "chatbooking"."appointments" AS a WHERE n."appointment_id" = a."id" AND n."type" = 'REMINDER';--> statement-breakpoint
+CREATE UNIQUE INDEX "uq_notifications_reminder" ON "chatbooking"."notifications" USING btree ("appointment_id","reminder_scheduled_at","reminder_offset_minutes","channel") WHERE "chatbooking"."notifications"."type" = 'REMINDER';
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TYPE "chatbooking"."outbox_event_status" AS ENUM('PENDING', 'PUBLISHED', 'FAILED');--> statement-breakpoint
+DROP INDEX "chatbooking"."idx_outbox_events_pending";--> statement-breakpoint
+ALTER TABLE "chatbooking"."outbox_events" ADD COLUMN "status" "chatbooking"."outbox_event_status" DEFAULT 'PENDING' NOT NULL;--> statement-breakpoint
+UPDATE "chatbooking"."outbox_events" SET "status" = 'PUBLISHED' WHERE "published_at" IS NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_outbox_events_pending" ON "chatbooking"."outbox_events" USING btree ("next_attempt_at") WHERE "chatbooking"."outbox_events"."status" = 'PENDING';
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "chatbooking"."slot_holds" ADD COLUMN "slot_ids" uuid[];--> statement-breakpoint
+UPDATE "chatbooking"."slot_holds" SET "slot_ids" = ARRAY["slot_id"];--> statement-breakpoint
+ALTER TABLE "chatbooking"."slot_holds" ALTER COLUMN "slot_ids" SET NOT NULL;
@@ -0,0 +1,23 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { MiddlewareHandler } from "hono";
+import type { Container, ModuleFactory } from "../../core/container/container.js";
+import { createApiKeyHandler } from "./3_handler.js";
+import { createApiKeyService } from "./4_service.js";
+import { createApiKeyRepository } from "./5_repository.js";
+
+export const createApiKeyModule: ModuleFactory = (container) => {
+  const repository = createApiKeyRepository(container);
+  const service = createApiKeyService(repository);
+  const handler = createApiKeyHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
+
+/** Guard de autenticação por API key, usado no server.ts como alternativa ao sessionGuard */
+export const createApiKeyGuard = (container: Container): MiddlewareHandler => {
+  const repository = createApiKeyRepository(container);
+  const service = createApiKeyService(repository);
+  return createApiKeyHandler(service).guard;
+};
@@ -0,0 +1,150 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  createApiKeyRequestSchema,
+  createApiKeyResponseSchema,
+  errorResponseSchema,
+  listApiKeyAuditQuerySchema,
+  listApiKeysQuerySchema,
+  messageResponseSchema,
+  paginatedApiKeyAuditResponseSchema,
+  paginatedApiKeysResponseSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== CREATE ==========
+
+export const createApiKeyRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["API Keys"],
+  summary: "Criar API key de serviço",
+  description:
+    "Cria uma API key para integrações (ex: bot n8n) agirem em nome de clientes via headers X-Api-Key e X-Customer-Phone. A chave só acessa agendamentos, lista de espera, reservas de slot, disponibilidade e notificações do tenant (e do business, se informado). A chave só é exibida nesta resposta. TENANT cria para o próprio tenant; OWNER informa tenantId.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createApiKeyRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: createApiKeyResponseSchema } },
+      description: "API key criada com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Tenant ou business não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== LIST ==========
+
+export const listApiKeysRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["API Keys"],
+  summary: "Listar API keys",
+  description:
+    "Lista API keys com paginação. TENANT vê apenas as do próprio tenant; OWNER pode filtrar por tenantId.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listApiKeysQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedApiKeysResponseSchema } },
+      description: "Lista paginada de API keys",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+  },
+});
+
+// ========== REVOKE ==========
+
+export const revokeApiKeyRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["API Keys"],
+  summary: "Revogar API key",
+  description: "Revoga a API key. Requisições com a chave passam a retornar 401.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "API key revogada com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "API key não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "API key já está revogada",
+    },
+  },
+});
+
+// ========== AUDIT ==========
+
+export const listApiKeyAuditRoute = createRoute({
+  method: "get",
+  path: "/{id}/audit",
+  tags: ["API Keys"],
+  summary: "Trilha de auditoria da API key",
+  description:
+    "Lista as requisições feitas com a API key (cliente, método, path, status e correlation ID), mais recentes primeiro.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    query: listApiKeyAuditQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedApiKeyAuditResponseSchema } },
+      description: "Lista paginada de registros de uso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "API key não encontrada",
+    },
+  },
+});
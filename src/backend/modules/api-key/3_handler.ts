@@ -0,0 +1,148 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import type { MiddlewareHandler } from "hono";
+import { respondError } from "../../core/error/error.handler.js";
+import { logger } from "../../core/logger/logger.js";
+import { getCorrelationId } from "../../core/logger/logger.middleware.js";
+import { getSession, hasRole } from "../../core/session/session.guard.js";
+import { phoneSchema } from "../../shared/dtos.js";
+import {
+  createApiKeyRoute,
+  listApiKeyAuditRoute,
+  listApiKeysRoute,
+  revokeApiKeyRoute,
+} from "./2_api.js";
+import type { IApiKeyService } from "./4_service.js";
+
+export interface IApiKeyHandler {
+  register(app: OpenAPIHono): void;
+  /** Middleware que autentica via X-Api-Key + X-Customer-Phone (alternativa ao JWT) */
+  guard: MiddlewareHandler;
+}
+
+/**
+ * Rotas acessíveis por API key — só o fluxo de agendamento do cliente. O restante (perfil,
+ * exportações, feeds) não respeita o escopo da chave e fica restrito ao JWT.
+ */
+const API_KEY_PREFIXES = [
+  "/api/appointments",
+  "/api/waitlist",
+  "/api/schedule",
+  "/api/availability",
+  "/api/notifications",
+];
+
+export function createApiKeyHandler(service: IApiKeyService): IApiKeyHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // POST / — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createApiKeyRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.create(body, session.role, session.sub, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET / — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listApiKeysRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.list(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /:id — TENANT (próprias), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(revokeApiKeyRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.revoke(id, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /:id/audit — TENANT (próprias), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listApiKeyAuditRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const query = c.req.valid("query");
+        const result = await service.listAudit(id, query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+
+    async guard(c, next) {
+      if (!API_KEY_PREFIXES.some((p) => c.req.path.startsWith(p))) {
+        return respondError(c, {
+          code: "FORBIDDEN",
+          message: "Recurso não disponível para API key",
+        });
+      }
+
+      const rawKey = c.req.header("X-Api-Key") ?? "";
+      const phone = phoneSchema.safeParse(c.req.header("X-Customer-Phone"));
+      if (!phone.success) {
+        return respondError(c, {
+          code: "VALIDATION_ERROR",
+          message: "Header X-Customer-Phone ausente ou inválido",
+        });
+      }
+
+      const authResult = await service.authenticate(
+        rawKey,
+        phone.data,
+        c.req.header("X-Customer-Name"),
+      );
+      if (authResult.isErr()) return respondError(c, authResult.error);
+
+      const { apiKeyId, session, scope } = authResult.value;
+      // Mesma chave de contexto do JWT — getSession funciona sem alteração nos módulos
+      c.set("jwtPayload", session);
+      // Tenant/business da chave — os services recusam alvos fora dele (getApiKeyScope)
+      c.set("apiKeyScope", scope);
+
+      await next();
+
+      // Auditoria não pode derrubar a resposta
+      const auditResult = await service.recordUsage({
+        apiKeyId,
+        userId: session.sub,
+        method: c.req.method,
+        path: c.req.path,
+        status: c.res.status,
+        correlationId: getCorrelationId(c) ?? null,
+      });
+      if (auditResult.isErr()) {
+        logger.error("Falha ao registrar auditoria da API key", {
+          apiKeyId,
+          error: auditResult.error.message,
+        });
+      }
+    },
+  };
+}
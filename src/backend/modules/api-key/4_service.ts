@@ -0,0 +1,273 @@
+import { createHash, randomBytes } from "node:crypto";
+import { hashPhone } from "../../core/crypto/crypto.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import type { ApiKeyScope, Role, SessionPayload } from "../../core/session/session.guard.js";
+import type { IApiKeyRepository } from "./5_repository.js";
+import type {
+  ApiKeyAuditLogProfile,
+  ApiKeyProfile,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+  ListApiKeyAuditQuery,
+  ListApiKeysQuery,
+  PaginatedApiKeyAuditResponse,
+  PaginatedApiKeysResponse,
+} from "./types/dtos/dtos.js";
+import type { ApiKeyAuditLogRow, ApiKeyRow } from "./types/models/models.js";
+
+export interface IApiKeyService {
+  create(
+    input: CreateApiKeyRequest,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<CreateApiKeyResponse>>;
+  list(
+    query: ListApiKeysQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedApiKeysResponse>>;
+  revoke(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<{ message: string }>>;
+  listAudit(
+    id: string,
+    query: ListApiKeyAuditQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedApiKeyAuditResponse>>;
+  authenticate(
+    rawKey: string,
+    customerPhone: string,
+    customerName?: string,
+  ): Promise<Result<{ apiKeyId: string; session: SessionPayload; scope: ApiKeyScope }>>;
+  recordUsage(entry: Omit<ApiKeyAuditLogRow, "id" | "createdAt">): Promise<Result<void>>;
+}
+
+/** Prefixo fixo das chaves — facilita identificar vazamentos em logs/repositórios */
+const KEY_PREFIX = "cbk_";
+
+/** Hash SHA-256 da chave (lookup determinístico, como o refresh token) */
+function hashKey(raw: string): string {
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+function toProfile(row: ApiKeyRow): ApiKeyProfile {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    businessId: row.businessId,
+    name: row.name,
+    keyPrefix: row.keyPrefix,
+    createdBy: row.createdBy,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toAuditProfile(row: ApiKeyAuditLogRow): ApiKeyAuditLogProfile {
+  return {
+    id: row.id,
+    apiKeyId: row.apiKeyId,
+    userId: row.userId,
+    method: row.method,
+    path: row.path,
+    status: row.status,
+    correlationId: row.correlationId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createApiKeyService(repository: IApiKeyRepository): IApiKeyService {
+  /** Busca a chave e verifica se o caller (TENANT) é o dono */
+  async function findOwnedKey(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<ApiKeyRow>> {
+    const findResult = await repository.findById(id);
+    if (findResult.isErr()) return R.fail(findResult.error);
+    if (!findResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "API key não encontrada" });
+    }
+
+    if (callerRole === "TENANT" && findResult.value.tenantId !== callerTenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    return R.ok(findResult.value);
+  }
+
+  return {
+    async create(input, callerRole, callerUserId, callerTenantId) {
+      // Determina o tenantId: OWNER informa, TENANT usa o próprio
+      let tenantId: string;
+      if (callerRole === "OWNER") {
+        if (!input.tenantId) {
+          return R.fail({ code: "VALIDATION_ERROR", message: "tenantId é obrigatório para OWNER" });
+        }
+        const tenantResult = await repository.findTenantById(input.tenantId);
+        if (tenantResult.isErr()) return R.fail(tenantResult.error);
+        if (!tenantResult.value || !tenantResult.value.active) {
+          return R.fail({ code: "NOT_FOUND", message: "Tenant não encontrado ou inativo" });
+        }
+        tenantId = input.tenantId;
+      } else {
+        if (!callerTenantId) {
+          return R.fail({ code: "FORBIDDEN", message: "Usuário não está vinculado a um tenant" });
+        }
+        tenantId = callerTenantId;
+      }
+
+      // Se restrita a uma business, ela deve pertencer ao tenant
+      if (input.businessId) {
+        const businessResult = await repository.findBusinessById(input.businessId);
+        if (businessResult.isErr()) return R.fail(businessResult.error);
+        if (!businessResult.value || !businessResult.value.active) {
+          return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+        }
+        if (businessResult.value.tenantId !== tenantId) {
+          return R.fail({ code: "FORBIDDEN", message: "Business não pertence ao tenant" });
+        }
+      }
+
+      const rawKey = `${KEY_PREFIX}${randomBytes(32).toString("hex")}`;
+
+      const createResult = await repository.create({
+        tenantId,
+        businessId: input.businessId ?? null,
+        name: input.name,
+        keyPrefix: rawKey.slice(0, 12),
+        keyHash: hashKey(rawKey),
+        createdBy: callerUserId,
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      return R.ok({ ...toProfile(createResult.value), key: rawKey });
+    },
+
+    async list(query, callerRole, callerTenantId) {
+      // TENANT só vê as próprias chaves; OWNER pode filtrar por tenantId
+      let tenantId: string | undefined;
+      if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({ code: "FORBIDDEN", message: "Usuário não está vinculado a um tenant" });
+        }
+        tenantId = callerTenantId;
+      } else {
+        tenantId = query.tenantId;
+      }
+
+      const result = await repository.findAll({
+        page: query.page,
+        limit: query.limit,
+        tenantId,
+        revoked: query.revoked,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async revoke(id, callerRole, callerTenantId) {
+      const keyResult = await findOwnedKey(id, callerRole, callerTenantId);
+      if (keyResult.isErr()) return R.fail(keyResult.error);
+
+      if (keyResult.value.revokedAt) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "API key já está revogada" });
+      }
+
+      const revokeResult = await repository.revoke(id);
+      if (revokeResult.isErr()) return R.fail(revokeResult.error);
+
+      return R.ok({ message: "API key revogada com sucesso" });
+    },
+
+    async listAudit(id, query, callerRole, callerTenantId) {
+      const keyResult = await findOwnedKey(id, callerRole, callerTenantId);
+      if (keyResult.isErr()) return R.fail(keyResult.error);
+
+      const result = await repository.findAuditLogs({
+        apiKeyId: id,
+        page: query.page,
+        limit: query.limit,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toAuditProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    /** Valida a chave e resolve o cliente (find-or-create) sem round-trip de login */
+    async authenticate(rawKey, customerPhone, customerName) {
+      // 1. Chave ativa pelo hash
+      const keyResult = await repository.findActiveByHash(hashKey(rawKey));
+      if (keyResult.isErr()) return R.fail(keyResult.error);
+      if (!keyResult.value) {
+        return R.fail({ code: "UNAUTHORIZED", message: "API key inválida ou revogada" });
+      }
+
+      // 2. Resolve o cliente pelo hash do telefone (auto-cadastro, como no login)
+      const phoneHash = hashPhone(customerPhone);
+      const userResult = await repository.findUserByPhoneHash(phoneHash);
+      if (userResult.isErr()) return R.fail(userResult.error);
+
+      let user = userResult.value;
+      if (!user) {
+        const createResult = await repository.createUser({
+          name: customerName ?? customerPhone,
+          phone: customerPhone,
+          phoneHash,
+        });
+        if (createResult.isErr()) return R.fail(createResult.error);
+        user = createResult.value;
+      }
+
+      // 3. A chave só age em nome de clientes — nunca de staff
+      if (user.role !== "USER") {
+        return R.fail({
+          code: "FORBIDDEN",
+          message: "API key só pode agir em nome de clientes (USER)",
+        });
+      }
+      if (!user.active) {
+        return R.fail({ code: "USER_INACTIVE", message: "Conta de usuário inativa" });
+      }
+
+      const touchResult = await repository.touchLastUsed(keyResult.value.id);
+      if (touchResult.isErr()) return R.fail(touchResult.error);
+
+      return R.ok({
+        apiKeyId: keyResult.value.id,
+        session: { sub: user.id, role: "USER", tenantId: null, businessId: null },
+        // A sessão é do cliente; o escopo da chave limita onde ele pode agir
+        scope: { tenantId: keyResult.value.tenantId, businessId: keyResult.value.businessId },
+      });
+    },
+
+    async recordUsage(entry) {
+      return repository.createAuditLog(entry);
+    },
+  };
+}
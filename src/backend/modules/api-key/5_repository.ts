@@ -0,0 +1,199 @@
+import { and, count, desc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import {
+  apiKeyAuditLogs,
+  apiKeys,
+  businesses,
+  tenants,
+  users,
+} from "../../shared/schemas/index.js";
+import type { ApiKeyAuditLogRow, ApiKeyRow, CustomerRow } from "./types/models/models.js";
+
+export interface IApiKeyRepository {
+  findById(id: string): Promise<Result<ApiKeyRow | null>>;
+  findActiveByHash(keyHash: string): Promise<Result<ApiKeyRow | null>>;
+  findAll(params: {
+    page: number;
+    limit: number;
+    tenantId?: string;
+    revoked?: boolean;
+  }): Promise<Result<{ data: ApiKeyRow[]; total: number }>>;
+  create(
+    data: Omit<ApiKeyRow, "id" | "lastUsedAt" | "revokedAt" | "createdAt" | "updatedAt">,
+  ): Promise<Result<ApiKeyRow>>;
+  revoke(id: string): Promise<Result<void>>;
+  touchLastUsed(id: string): Promise<Result<void>>;
+  createAuditLog(data: Omit<ApiKeyAuditLogRow, "id" | "createdAt">): Promise<Result<void>>;
+  findAuditLogs(params: {
+    apiKeyId: string;
+    page: number;
+    limit: number;
+  }): Promise<Result<{ data: ApiKeyAuditLogRow[]; total: number }>>;
+  findTenantById(id: string): Promise<Result<{ id: string; active: boolean } | null>>;
+  findBusinessById(
+    id: string,
+  ): Promise<Result<{ id: string; tenantId: string; active: boolean } | null>>;
+  findUserByPhoneHash(phoneHash: string): Promise<Result<CustomerRow | null>>;
+  createUser(data: { name: string; phone: string; phoneHash: string }): Promise<
+    Result<CustomerRow>
+  >;
+}
+
+export function createApiKeyRepository(container: Container): IApiKeyRepository {
+  const { db } = container;
+
+  return {
+    async findById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db.select().from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveByHash(keyHash) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(apiKeys)
+          .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAll(params) {
+      return R.fromAsync(async () => {
+        const conditions = [];
+        if (params.tenantId) {
+          conditions.push(eq(apiKeys.tenantId, params.tenantId));
+        }
+        if (params.revoked !== undefined) {
+          conditions.push(
+            params.revoked ? isNotNull(apiKeys.revokedAt) : isNull(apiKeys.revokedAt),
+          );
+        }
+
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+        const offset = (params.page - 1) * params.limit;
+
+        const [data, countResult] = await Promise.all([
+          db
+            .select()
+            .from(apiKeys)
+            .where(where)
+            .orderBy(desc(apiKeys.createdAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(apiKeys).where(where),
+        ]);
+
+        return { data, total: countResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async create(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(apiKeys)
+          .values({
+            tenantId: data.tenantId,
+            businessId: data.businessId,
+            name: data.name,
+            keyPrefix: data.keyPrefix,
+            keyHash: data.keyHash,
+            createdBy: data.createdBy,
+          })
+          .returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async revoke(id) {
+      return R.fromAsync(async () => {
+        await db
+          .update(apiKeys)
+          .set({ revokedAt: sql`now()`, updatedAt: sql`now()` })
+          .where(eq(apiKeys.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async touchLastUsed(id) {
+      return R.fromAsync(async () => {
+        await db.update(apiKeys).set({ lastUsedAt: sql`now()` }).where(eq(apiKeys.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createAuditLog(data) {
+      return R.fromAsync(async () => {
+        await db.insert(apiKeyAuditLogs).values(data);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAuditLogs(params) {
+      return R.fromAsync(async () => {
+        const where = eq(apiKeyAuditLogs.apiKeyId, params.apiKeyId);
+        const offset = (params.page - 1) * params.limit;
+
+        const [data, countResult] = await Promise.all([
+          db
+            .select()
+            .from(apiKeyAuditLogs)
+            .where(where)
+            .orderBy(desc(apiKeyAuditLogs.createdAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(apiKeyAuditLogs).where(where),
+        ]);
+
+        return { data, total: countResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findTenantById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: tenants.id, active: tenants.active })
+          .from(tenants)
+          .where(eq(tenants.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: businesses.id, tenantId: businesses.tenantId, active: businesses.active })
+          .from(businesses)
+          .where(eq(businesses.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findUserByPhoneHash(phoneHash) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: users.id, role: users.role, active: users.active })
+          .from(users)
+          .where(eq(users.phoneHash, phoneHash))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createUser(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(users)
+          .values({ name: data.name, phone: data.phone, phoneHash: data.phoneHash, role: "USER" })
+          .returning({ id: users.id, role: users.role, active: users.active });
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { z } from "zod";
+import { paginationSchema } from "../../../../shared/dtos.js";
+
+export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
+export { paginationSchema };
+
+// ========== API KEY PROFILE (response) ==========
+
+/** Perfil da API key retornado nas respostas (nunca inclui a chave nem o hash) */
+export const apiKeyProfileSchema = z.object({
+  id: z.string().uuid(),
+  tenantId: z.string().uuid(),
+  businessId: z.string().uuid().nullable(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  createdBy: z.string().uuid(),
+  lastUsedAt: z.string().datetime().nullable(),
+  revokedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type ApiKeyProfile = z.infer<typeof apiKeyProfileSchema>;
+
+// ========== CREATE API KEY ==========
+
+/** POST /api/api-keys — Request Body */
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().min(1, "Nome é obrigatório").max(255),
+  /** Restringe a chave a uma business do tenant (opcional) */
+  businessId: z.string().uuid("businessId deve ser um UUID válido").optional(),
+  /** Apenas OWNER pode informar o tenantId; TENANT usa o próprio */
+  tenantId: z.string().uuid().optional(),
+});
+export type CreateApiKeyRequest = z.infer<typeof createApiKeyRequestSchema>;
+
+/** POST /api/api-keys — Response Body (a chave só é exibida nesta resposta) */
+export const createApiKeyResponseSchema = apiKeyProfileSchema.extend({
+  key: z.string(),
+});
+export type CreateApiKeyResponse = z.infer<typeof createApiKeyResponseSchema>;
+
+// ========== LIST API KEYS ==========
+
+/** GET /api/api-keys — Query Params */
+export const listApiKeysQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  tenantId: z.string().uuid().optional(),
+  revoked: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+});
+export type ListApiKeysQuery = z.infer<typeof listApiKeysQuerySchema>;
+
+/** GET /api/api-keys — Response Body */
+export const paginatedApiKeysResponseSchema = z.object({
+  data: z.array(apiKeyProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedApiKeysResponse = z.infer<typeof paginatedApiKeysResponseSchema>;
+
+// ========== AUDIT LOG ==========
+
+/** Registro de uso da API key */
+export const apiKeyAuditLogProfileSchema = z.object({
+  id: z.string().uuid(),
+  apiKeyId: z.string().uuid(),
+  userId: z.string().uuid().nullable(),
+  method: z.string(),
+  path: z.string(),
+  status: z.number().int(),
+  correlationId: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type ApiKeyAuditLogProfile = z.infer<typeof apiKeyAuditLogProfileSchema>;
+
+/** GET /api/api-keys/:id/audit — Query Params */
+export const listApiKeyAuditQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+export type ListApiKeyAuditQuery = z.infer<typeof listApiKeyAuditQuerySchema>;
+
+/** GET /api/api-keys/:id/audit — Response Body */
+export const paginatedApiKeyAuditResponseSchema = z.object({
+  data: z.array(apiKeyAuditLogProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedApiKeyAuditResponse = z.infer<typeof paginatedApiKeyAuditResponseSchema>;
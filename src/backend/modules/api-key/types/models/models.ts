@@ -0,0 +1,33 @@
+/** Row do api_keys retornada pelo Drizzle */
+export type ApiKeyRow = {
+  id: string;
+  tenantId: string;
+  businessId: string | null;
+  name: string;
+  keyPrefix: string;
+  keyHash: string;
+  createdBy: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Row do api_key_audit_logs retornada pelo Drizzle */
+export type ApiKeyAuditLogRow = {
+  id: string;
+  apiKeyId: string;
+  userId: string | null;
+  method: string;
+  path: string;
+  status: number;
+  correlationId: string | null;
+  createdAt: Date;
+};
+
+/** Subset do users necessário para agir em nome do cliente */
+export type CustomerRow = {
+  id: string;
+  role: "USER" | "OPERATOR" | "TENANT" | "OWNER";
+  active: boolean;
+};
@@ -3,10 +3,12 @@ import type { ModuleFactory } from "../../core/container/container.js";
 import { createAuthHandler } from "./3_handler.js";
 import { createAuthService } from "./4_service.js";
 import { createAuthRepository } from "./5_repository.js";
+import { createOtpSender } from "./providers/otp.sender.js";
 
 export const createAuthModule: ModuleFactory = (container) => {
   const repository = createAuthRepository(container);
-  const service = createAuthService(container.config, repository);
+  const otpSender = createOtpSender(container.config);
+  const service = createAuthService(container.config, repository, otpSender);
   const handler = createAuthHandler(service);
 
   const app = new OpenAPIHono();
@@ -1,21 +1,54 @@
 import { createRoute } from "@hono/zod-openapi";
 import {
   errorResponseSchema,
-  loginRequestSchema,
   loginResponseSchema,
   logoutResponseSchema,
+  otpRequestRequestSchema,
+  otpRequestResponseSchema,
+  otpVerifyRequestSchema,
   refreshRequestSchema,
   refreshResponseSchema,
 } from "./types/dtos/dtos.js";
 
-export const loginRoute = createRoute({
+export const otpRequestRoute = createRoute({
   method: "post",
-  path: "/login",
+  path: "/otp/request",
   tags: ["Auth"],
-  summary: "Login via telefone",
-  description: "Autentica um usuário pelo hash do telefone. Cria o usuário se não existir.",
+  summary: "Solicitar código OTP",
+  description:
+    "Gera um código de 6 dígitos de curta duração e envia ao telefone pelo canal configurado (WhatsApp, SMS ou console). Um novo pedido invalida o código anterior.",
   request: {
-    body: { content: { "application/json": { schema: loginRequestSchema } }, required: true },
+    body: { content: { "application/json": { schema: otpRequestRequestSchema } }, required: true },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: otpRequestResponseSchema } },
+      description: "Código enviado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+    429: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Muitas solicitações para este telefone",
+    },
+    502: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Falha no envio do código",
+    },
+  },
+});
+
+export const otpVerifyRoute = createRoute({
+  method: "post",
+  path: "/otp/verify",
+  tags: ["Auth"],
+  summary: "Verificar código OTP",
+  description:
+    "Valida o código recebido e emite o par de tokens. Cria o usuário se não existir. Após o limite de tentativas o código é invalidado.",
+  request: {
+    body: { content: { "application/json": { schema: otpVerifyRequestSchema } }, required: true },
   },
   responses: {
     200: {
@@ -24,12 +57,16 @@ export const loginRoute = createRoute({
     },
     401: {
       content: { "application/json": { schema: errorResponseSchema } },
-      description: "Usuário inativo",
+      description: "Código inválido ou expirado, ou usuário inativo",
     },
     422: {
       content: { "application/json": { schema: errorResponseSchema } },
       description: "Erro de validação",
     },
+    429: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Tentativas excedidas",
+    },
   },
 });
 
@@ -1,7 +1,7 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { respondError } from "../../core/error/error.handler.js";
 import { getSession } from "../../core/session/session.guard.js";
-import { loginRoute, logoutRoute, refreshRoute } from "./2_api.js";
+import { logoutRoute, otpRequestRoute, otpVerifyRoute, refreshRoute } from "./2_api.js";
 import type { IAuthService } from "./4_service.js";
 
 export interface IAuthHandler {
@@ -11,11 +11,21 @@ export interface IAuthHandler {
 export function createAuthHandler(service: IAuthService): IAuthHandler {
   return {
     register(app: OpenAPIHono) {
-      // POST /login (público)
+      // POST /otp/request (público)
       // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
-      app.openapi(loginRoute, async (c): Promise<any> => {
+      app.openapi(otpRequestRoute, async (c): Promise<any> => {
         const body = c.req.valid("json");
-        const result = await service.login(body);
+        const result = await service.requestOtp(body);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /otp/verify (público)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(otpVerifyRoute, async (c): Promise<any> => {
+        const body = c.req.valid("json");
+        const result = await service.verifyOtp(body);
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
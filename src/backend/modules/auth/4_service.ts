@@ -1,4 +1,4 @@
-import { createHash, randomBytes } from "node:crypto";
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
 import { sign } from "hono/jwt";
 import type { Config } from "../../core/config/config.js";
 import { hashPhone } from "../../core/crypto/crypto.js";
@@ -6,11 +6,20 @@ import type { Result } from "../../core/result/result.js";
 import { Result as R } from "../../core/result/result.js";
 import type { Role, SessionPayload } from "../../core/session/session.guard.js";
 import type { IAuthRepository } from "./5_repository.js";
-import type { LoginRequest, LoginResponse, RefreshResponse } from "./types/dtos/dtos.js";
+import type { IOtpSender } from "./providers/otp.sender.js";
+import type {
+  LoginResponse,
+  OtpRequestRequest,
+  OtpRequestResponse,
+  OtpVerifyRequest,
+  RefreshResponse,
+} from "./types/dtos/dtos.js";
 import { AuthErrorCode } from "./types/enums/enums.js";
+import type { UserRow } from "./types/models/models.js";
 
 export interface IAuthService {
-  login(input: LoginRequest): Promise<Result<LoginResponse>>;
+  requestOtp(input: OtpRequestRequest): Promise<Result<OtpRequestResponse>>;
+  verifyOtp(input: OtpVerifyRequest): Promise<Result<LoginResponse>>;
   refresh(rawRefreshToken: string): Promise<Result<RefreshResponse>>;
   logout(userId: string): Promise<Result<{ message: string }>>;
 }
@@ -22,12 +31,26 @@ function parseRole(role: string): Role | null {
   return VALID_ROLES.has(role) ? (role as Role) : null;
 }
 
-export function createAuthService(config: Config, repository: IAuthRepository): IAuthService {
+export function createAuthService(
+  config: Config,
+  repository: IAuthRepository,
+  otpSender: IOtpSender,
+): IAuthService {
   /** Hash SHA-256 do refresh token */
   function hashToken(raw: string): string {
     return createHash("sha256").update(raw).digest("hex");
   }
 
+  /** HMAC-SHA256 do código OTP, amarrado ao telefone (evita reuso entre telefones) */
+  function hashOtp(phoneHash: string, code: string): string {
+    return createHmac("sha256", config.JWT_SECRET).update(`${phoneHash}:${code}`).digest("hex");
+  }
+
+  /** Gera código OTP numérico de 6 dígitos (CSPRNG) */
+  function generateOtpCode(): string {
+    return String(randomInt(0, 1_000_000)).padStart(6, "0");
+  }
+
   /** Gera refresh token aleatório (64 hex chars) */
   function generateRefreshToken(): string {
     return randomBytes(32).toString("hex");
@@ -74,69 +97,130 @@ export function createAuthService(config: Config, repository: IAuthRepository):
     );
   }
 
+  /** Busca usuário pelo telefone ou cria com role USER (auto-cadastro) */
+  async function findOrCreateUser(phone: string, name?: string): Promise<Result<UserRow>> {
+    const phoneHash = hashPhone(phone);
+    const userResult = await repository.findUserByPhoneHash(phoneHash);
+    if (userResult.isErr()) return R.fail(userResult.error);
+    if (userResult.value) return R.ok(userResult.value);
+
+    return repository.createUser({ name: name ?? phone, phone, phoneHash });
+  }
+
+  /** Valida o usuário e emite o par access + refresh token */
+  async function issueTokens(user: UserRow): Promise<Result<LoginResponse>> {
+    // 1. Verifica se está ativo
+    if (!user.active) {
+      return R.fail({ code: AuthErrorCode.USER_INACTIVE, message: "Conta de usuário inativa" });
+    }
+
+    // 2. Valida role do DB
+    const role = parseRole(user.role);
+    if (!role) {
+      return R.fail({ code: AuthErrorCode.UNAUTHORIZED, message: "Role de usuário inválido" });
+    }
+
+    // 3. Monta payload do JWT (com lookup de tenantId/businessId)
+    const payloadResult = await buildSessionPayload(user.id, role);
+    if (payloadResult.isErr()) return R.fail(payloadResult.error);
+
+    // 4. Gera access token
+    const accessToken = await signAccessToken(payloadResult.value);
+
+    // 5. Gera refresh token, hash, armazena no DB
+    const rawRefreshToken = generateRefreshToken();
+    const refreshTokenHash = hashToken(rawRefreshToken);
+    const expiresAt = new Date(Date.now() + config.REFRESH_TOKEN_EXPIRES_IN * 1000);
+
+    const storeResult = await repository.createRefreshToken({
+      userId: user.id,
+      token: refreshTokenHash,
+      expiresAt,
+    });
+    if (storeResult.isErr()) return R.fail(storeResult.error);
+
+    return R.ok({
+      accessToken,
+      refreshToken: rawRefreshToken,
+      expiresIn: config.ACCESS_TOKEN_EXPIRES_IN,
+      user: {
+        id: user.id,
+        name: user.name,
+        phone: user.phone,
+        role,
+        active: user.active,
+      },
+    });
+  }
+
   return {
-    /** Login: find-or-create user, gera par de tokens */
-    async login(input: LoginRequest): Promise<Result<LoginResponse>> {
-      // 1. Gera hash do telefone e busca user
+    /** Solicita OTP: gera código, armazena hash no Redis e envia pelo sender configurado */
+    async requestOtp(input: OtpRequestRequest): Promise<Result<OtpRequestResponse>> {
       const phoneHash = hashPhone(input.phone);
-      const userResult = await repository.findUserByPhoneHash(phoneHash);
-      if (userResult.isErr()) return R.fail(userResult.error);
+      const code = generateOtpCode();
+
+      const saveResult = await repository.saveOtp(
+        phoneHash,
+        hashOtp(phoneHash, code),
+        config.OTP_EXPIRES_IN,
+      );
+      if (saveResult.isErr()) return R.fail(saveResult.error);
+
+      const sendResult = await otpSender.send(input.phone, code);
+      if (sendResult.isErr()) {
+        // Código que não chegou ao usuário não deve permanecer válido
+        await repository.deleteOtp(phoneHash);
+        return R.fail(sendResult.error);
+      }
 
-      let user = userResult.value;
+      return R.ok({ message: "Código enviado", expiresIn: config.OTP_EXPIRES_IN });
+    },
 
-      // 2. Se não existe, cria
-      if (!user) {
-        const createResult = await repository.createUser({
-          name: input.name ?? input.phone,
-          phone: input.phone,
-          phoneHash,
-        });
-        if (createResult.isErr()) return R.fail(createResult.error);
-        user = createResult.value;
-      }
+    /** Verifica OTP: valida código e tentativas, find-or-create user, gera par de tokens */
+    async verifyOtp(input: OtpVerifyRequest): Promise<Result<LoginResponse>> {
+      const phoneHash = hashPhone(input.phone);
 
-      // 3. Verifica se está ativo
-      if (!user.active) {
-        return R.fail({ code: AuthErrorCode.USER_INACTIVE, message: "Conta de usuário inativa" });
+      // 1. Busca desafio ativo
+      const otpResult = await repository.findOtp(phoneHash);
+      if (otpResult.isErr()) return R.fail(otpResult.error);
+      if (!otpResult.value) {
+        return R.fail({ code: AuthErrorCode.INVALID_OTP, message: "Código inválido ou expirado" });
       }
 
-      // 4. Valida role do DB
-      const role = parseRole(user.role);
-      if (!role) {
-        return R.fail({ code: AuthErrorCode.UNAUTHORIZED, message: "Role de usuário inválido" });
+      // 2. Compara em tempo constante
+      const expected = Buffer.from(otpResult.value.codeHash, "hex");
+      const received = Buffer.from(hashOtp(phoneHash, input.code), "hex");
+      const matches = expected.length === received.length && timingSafeEqual(expected, received);
+
+      if (!matches) {
+        const attemptsResult = await repository.incrementOtpAttempts(phoneHash);
+        if (attemptsResult.isErr()) return R.fail(attemptsResult.error);
+
+        // 3. Excedeu tentativas: invalida o desafio (null = já expirou)
+        if (attemptsResult.value !== null && attemptsResult.value >= config.OTP_MAX_ATTEMPTS) {
+          const deleteResult = await repository.deleteOtp(phoneHash);
+          if (deleteResult.isErr()) return R.fail(deleteResult.error);
+          return R.fail({
+            code: "RATE_LIMITED",
+            message: "Tentativas excedidas. Solicite um novo código",
+          });
+        }
+
+        return R.fail({ code: AuthErrorCode.INVALID_OTP, message: "Código inválido ou expirado" });
       }
 
-      // 5. Monta payload do JWT (com lookup de tenantId/businessId)
-      const payloadResult = await buildSessionPayload(user.id, role);
-      if (payloadResult.isErr()) return R.fail(payloadResult.error);
-
-      // 6. Gera access token
-      const accessToken = await signAccessToken(payloadResult.value);
-
-      // 7. Gera refresh token, hash, armazena no DB
-      const rawRefreshToken = generateRefreshToken();
-      const refreshTokenHash = hashToken(rawRefreshToken);
-      const expiresAt = new Date(Date.now() + config.REFRESH_TOKEN_EXPIRES_IN * 1000);
+      // 4. Código de uso único — só uma requisição concorrente consegue consumi-lo
+      const consumeResult = await repository.consumeOtp(phoneHash, otpResult.value.codeHash);
+      if (consumeResult.isErr()) return R.fail(consumeResult.error);
+      if (!consumeResult.value) {
+        return R.fail({ code: AuthErrorCode.INVALID_OTP, message: "Código inválido ou expirado" });
+      }
 
-      const storeResult = await repository.createRefreshToken({
-        userId: user.id,
-        token: refreshTokenHash,
-        expiresAt,
-      });
-      if (storeResult.isErr()) return R.fail(storeResult.error);
+      // 5. Find-or-create e emissão de tokens
+      const userResult = await findOrCreateUser(input.phone, input.name);
+      if (userResult.isErr()) return R.fail(userResult.error);
 
-      return R.ok({
-        accessToken,
-        refreshToken: rawRefreshToken,
-        expiresIn: config.ACCESS_TOKEN_EXPIRES_IN,
-        user: {
-          id: user.id,
-          name: user.name,
-          phone: user.phone,
-          role,
-          active: user.active,
-        },
-      });
+      return issueTokens(userResult.value);
     },
 
     /** Refresh: valida refresh token, rotaciona par */
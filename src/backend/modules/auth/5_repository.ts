@@ -3,7 +3,26 @@ import type { Container } from "../../core/container/container.js";
 import type { Result } from "../../core/result/result.js";
 import { Result as R } from "../../core/result/result.js";
 import { operators, refreshTokens, tenants, users } from "../../shared/schemas/index.js";
-import type { RefreshTokenRow, UserRow } from "./types/models/models.js";
+import type { OtpRow, RefreshTokenRow, UserRow } from "./types/models/models.js";
+
+/** Chave Redis do desafio OTP de um telefone */
+const otpKey = (phoneHash: string) => `otp:${phoneHash}`;
+
+/** Incrementa as tentativas só se o desafio ainda existir (HINCRBY recriaria a chave sem TTL) */
+const INCREMENT_ATTEMPTS_SCRIPT = `
+  if redis.call('EXISTS', KEYS[1]) == 1 then
+    return redis.call('HINCRBY', KEYS[1], 'attempts', 1)
+  end
+  return -1
+`;
+
+/** Consome o desafio só se ainda for o mesmo código (compare-and-delete atômico) */
+const CONSUME_OTP_SCRIPT = `
+  if redis.call('HGET', KEYS[1], 'codeHash') == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+  end
+  return 0
+`;
 
 export interface IAuthRepository {
   findUserByPhoneHash(phoneHash: string): Promise<Result<UserRow | null>>;
@@ -19,10 +38,17 @@ export interface IAuthRepository {
   findRefreshTokenByHash(tokenHash: string): Promise<Result<RefreshTokenRow | null>>;
   deleteRefreshTokenById(id: string): Promise<Result<void>>;
   deleteAllRefreshTokensByUserId(userId: string): Promise<Result<void>>;
+  saveOtp(phoneHash: string, codeHash: string, ttlSeconds: number): Promise<Result<void>>;
+  findOtp(phoneHash: string): Promise<Result<OtpRow | null>>;
+  /** Novo total de tentativas (null se o desafio já expirou) */
+  incrementOtpAttempts(phoneHash: string): Promise<Result<number | null>>;
+  /** Remove o desafio se o hash ainda for o mesmo — false se outra requisição já o consumiu */
+  consumeOtp(phoneHash: string, codeHash: string): Promise<Result<boolean>>;
+  deleteOtp(phoneHash: string): Promise<Result<void>>;
 }
 
 export function createAuthRepository(container: Container): IAuthRepository {
-  const { db } = container;
+  const { db, redis } = container;
 
   return {
     /** Busca usuário pelo hash do telefone */
@@ -111,5 +137,50 @@ export function createAuthRepository(container: Container): IAuthRepository {
         await db.delete(refreshTokens).where(eq(refreshTokens.userId, userId));
       }, "DB_QUERY_FAILED");
     },
+
+    /** Armazena o hash do código OTP (substitui desafio anterior e zera tentativas) */
+    async saveOtp(phoneHash: string, codeHash: string, ttlSeconds: number) {
+      return R.fromAsync(async () => {
+        const key = otpKey(phoneHash);
+        await redis
+          .multi()
+          .del(key)
+          .hset(key, { codeHash, attempts: 0 })
+          .expire(key, ttlSeconds)
+          .exec();
+      }, "DB_QUERY_FAILED");
+    },
+
+    /** Busca o desafio OTP ativo (null se inexistente ou expirado) */
+    async findOtp(phoneHash: string) {
+      return R.fromAsync(async () => {
+        const data = await redis.hgetall(otpKey(phoneHash));
+        if (!data.codeHash) return null;
+        return { codeHash: data.codeHash, attempts: Number(data.attempts ?? 0) };
+      }, "DB_QUERY_FAILED");
+    },
+
+    /** Incrementa o contador de tentativas inválidas e retorna o novo valor */
+    async incrementOtpAttempts(phoneHash: string) {
+      return R.fromAsync(async () => {
+        const attempts = Number(await redis.eval(INCREMENT_ATTEMPTS_SCRIPT, 1, otpKey(phoneHash)));
+        return attempts < 0 ? null : attempts;
+      }, "DB_QUERY_FAILED");
+    },
+
+    /** Consome o desafio (uso único) */
+    async consumeOtp(phoneHash: string, codeHash: string) {
+      return R.fromAsync(async () => {
+        const deleted = await redis.eval(CONSUME_OTP_SCRIPT, 1, otpKey(phoneHash), codeHash);
+        return Number(deleted) === 1;
+      }, "DB_QUERY_FAILED");
+    },
+
+    /** Remove o desafio OTP (após uso ou excesso de tentativas) */
+    async deleteOtp(phoneHash: string) {
+      return R.fromAsync(async () => {
+        await redis.del(otpKey(phoneHash));
+      }, "DB_QUERY_FAILED");
+    },
   };
 }
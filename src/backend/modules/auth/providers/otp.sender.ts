@@ -0,0 +1,53 @@
+import type { Config } from "../../../core/config/config.js";
+import { createEvolutionClient } from "../../../core/evolution/evolution.client.js";
+import { logger } from "../../../core/logger/logger.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import { createSmsClient } from "../../../core/sms/sms.client.js";
+
+/** Canal de entrega do código OTP — implementado por WhatsApp, SMS ou console (dev) */
+export interface IOtpSender {
+  send(phone: string, code: string): Promise<Result<void>>;
+}
+
+/** Texto enviado ao usuário com o código */
+function buildMessage(code: string, expiresInSeconds: number): string {
+  const minutes = Math.ceil(expiresInSeconds / 60);
+  return `Seu código de acesso é ${code}. Ele expira em ${minutes} minutos. Não compartilhe este código.`;
+}
+
+/**
+ * Cria o sender conforme `OTP_SENDER`.
+ * - console: apenas loga o código (desenvolvimento/testes)
+ * - whatsapp: envia via Evolution API
+ * - sms: envia via gateway SMS HTTP
+ */
+export function createOtpSender(config: Config): IOtpSender {
+  if (config.OTP_SENDER === "whatsapp") {
+    const whatsapp = createEvolutionClient({
+      baseUrl: config.EVOLUTION_API_URL ?? "",
+      apiKey: config.EVOLUTION_API_KEY ?? "",
+      instance: config.EVOLUTION_INSTANCE ?? "",
+    });
+    return {
+      send: (phone, code) => whatsapp.sendText(phone, buildMessage(code, config.OTP_EXPIRES_IN)),
+    };
+  }
+
+  if (config.OTP_SENDER === "sms") {
+    const sms = createSmsClient({
+      apiUrl: config.SMS_API_URL ?? "",
+      apiKey: config.SMS_API_KEY ?? "",
+    });
+    return {
+      send: (phone, code) => sms.send(phone, buildMessage(code, config.OTP_EXPIRES_IN)),
+    };
+  }
+
+  return {
+    async send(phone, code) {
+      logger.info("OTP gerado (sender console)", { phone, code });
+      return R.ok(undefined);
+    },
+  };
+}
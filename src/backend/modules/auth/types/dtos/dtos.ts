@@ -3,15 +3,6 @@ import { phoneSchema } from "../../../../shared/dtos.js";
 
 // ========== LOGIN ==========
 
-/** POST /api/auth/login — Request Body */
-export const loginRequestSchema = z.object({
-  /** Telefone internacional — ex: +5511999999999 */
-  phone: phoneSchema,
-  /** Nome do usuário (opcional, usado no auto-cadastro) */
-  name: z.string().min(1).max(255).optional(),
-});
-export type LoginRequest = z.infer<typeof loginRequestSchema>;
-
 /** Dados do usuário retornados no login */
 export const loginUserSchema = z.object({
   id: z.string().uuid(),
@@ -22,7 +13,7 @@ export const loginUserSchema = z.object({
 });
 export type LoginUser = z.infer<typeof loginUserSchema>;
 
-/** POST /api/auth/login — Response Body */
+/** POST /api/auth/otp/verify — Response Body */
 export const loginResponseSchema = z.object({
   accessToken: z.string(),
   refreshToken: z.string(),
@@ -32,6 +23,34 @@ export const loginResponseSchema = z.object({
 });
 export type LoginResponse = z.infer<typeof loginResponseSchema>;
 
+// ========== OTP ==========
+
+/** POST /api/auth/otp/request — Request Body */
+export const otpRequestRequestSchema = z.object({
+  /** Telefone internacional que receberá o código */
+  phone: phoneSchema,
+});
+export type OtpRequestRequest = z.infer<typeof otpRequestRequestSchema>;
+
+/** POST /api/auth/otp/request — Response Body */
+export const otpRequestResponseSchema = z.object({
+  message: z.string(),
+  /** Validade do código em segundos */
+  expiresIn: z.number(),
+});
+export type OtpRequestResponse = z.infer<typeof otpRequestResponseSchema>;
+
+/** POST /api/auth/otp/verify — Request Body */
+export const otpVerifyRequestSchema = z.object({
+  /** Telefone usado na solicitação do código */
+  phone: phoneSchema,
+  /** Código numérico de 6 dígitos recebido */
+  code: z.string().regex(/^\d{6}$/, "Código deve conter 6 dígitos"),
+  /** Nome do usuário (opcional, usado no auto-cadastro) */
+  name: z.string().min(1).max(255).optional(),
+});
+export type OtpVerifyRequest = z.infer<typeof otpVerifyRequestSchema>;
+
 // ========== REFRESH ==========
 
 /** POST /api/auth/refresh — Request Body */
@@ -4,6 +4,7 @@ export const AuthErrorCode = {
   INVALID_TOKEN: "INVALID_TOKEN",
   TOKEN_EXPIRED: "TOKEN_EXPIRED",
   USER_INACTIVE: "USER_INACTIVE",
+  INVALID_OTP: "INVALID_OTP",
 } as const;
 
 export type AuthErrorCode = (typeof AuthErrorCode)[keyof typeof AuthErrorCode];
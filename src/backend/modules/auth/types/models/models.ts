@@ -19,3 +19,11 @@ export type UserRow = {
   createdAt: Date;
   updatedAt: Date;
 };
+
+/** Desafio OTP armazenado no Redis */
+export type OtpRow = {
+  /** HMAC-SHA256 do código — o código em texto plano nunca é persistido */
+  codeHash: string;
+  /** Tentativas inválidas de verificação */
+  attempts: number;
+};
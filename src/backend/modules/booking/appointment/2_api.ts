@@ -1,11 +1,15 @@
 import { createRoute, z } from "@hono/zod-openapi";
 import {
+  appointmentHistoryResponseSchema,
   appointmentProfileSchema,
+  appointmentSeriesResponseSchema,
   cancelAppointmentRequestSchema,
   createAppointmentRequestSchema,
+  createAppointmentSeriesRequestSchema,
   errorResponseSchema,
   listAppointmentsQuerySchema,
   paginatedAppointmentsResponseSchema,
+  rescheduleAppointmentRequestSchema,
 } from "./types/dtos/dtos.js";
 
 // ========== CREATE ==========
@@ -16,7 +20,7 @@ export const createAppointmentRoute = createRoute({
   tags: ["Appointments"],
   summary: "Criar agendamento",
   description:
-    "Cria um agendamento a partir de um slot disponível e um serviço. O slot é marcado como BOOKED e o agendamento inicia com status PENDING.",
+    "Cria um agendamento a partir de um slot disponível e um serviço. Todos os slots contíguos que cobrem a duração do serviço — e os que invadem os buffers antes/depois do serviço ou do operador — são marcados como BOOKED (ou nenhum, se algum estiver ocupado) e o agendamento inicia com status PENDING. Com holdToken (POST /api/schedule/{id}/hold), os slots reservados pelo cliente são convertidos no agendamento (e os que o serviço agendado não usa voltam a AVAILABLE). As políticas do business (antecedência mínima, janela máxima e limite de agendamentos ativos por cliente) são aplicadas a todos exceto OWNER e o TENANT do business. Clientes BLOCKED no business não podem agendar; clientes RESTRICTED geram agendamentos com depositRequired = true.",
   security: [{ Bearer: [] }],
   request: {
     body: {
@@ -39,11 +43,52 @@ export const createAppointmentRoute = createRoute({
     },
     409: {
       content: { "application/json": { schema: errorResponseSchema } },
-      description: "Slot não está disponível",
+      description:
+        "Slot não está disponível, reserva expirada ou não há slots consecutivos para a duração do serviço",
     },
     422: {
       content: { "application/json": { schema: errorResponseSchema } },
-      description: "Erro de validação",
+      description: "Erro de validação ou violação das políticas de agendamento do business",
+    },
+  },
+});
+
+// ========== CREATE SERIES ==========
+
+export const createAppointmentSeriesRoute = createRoute({
+  method: "post",
+  path: "/series",
+  tags: ["Appointments"],
+  summary: "Criar série de agendamentos recorrentes",
+  description:
+    "Agenda o mesmo serviço com o mesmo operador e horário local em datas recorrentes: WEEKLY (toda semana), BIWEEKLY (a cada duas semanas) ou MONTHLY (mesmo dia do mês, pulando meses sem esse dia). A primeira ocorrência é o slot informado; a série termina após `occurrences` ocorrências ou na data `until` (máximo de 52). Cada ocorrência segue as mesmas regras de POST /api/appointments e é agendada isoladamente — as que não têm slot do operador no horário, estão ocupadas ou violam as políticas do business são listadas em `skipped` sem impedir as demais. Para cancelar, use PATCH /api/appointments/{id}/cancel com scope OCCURRENCE (apenas a ocorrência) ou SERIES (a série inteira).",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createAppointmentSeriesRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: appointmentSeriesResponseSchema } },
+      description: "Série criada com as ocorrências agendadas e as ignoradas",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Slot, operador ou serviço não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Nenhuma ocorrência da série pôde ser agendada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação ou cliente bloqueado no business",
     },
   },
 });
@@ -56,7 +101,7 @@ export const listAppointmentsRoute = createRoute({
   tags: ["Appointments"],
   summary: "Listar agendamentos",
   description:
-    "Lista agendamentos com paginação e filtros. A filtragem é aplicada automaticamente por role: USER vê apenas os próprios, OPERATOR vê onde é o profissional, TENANT vê os do tenant.",
+    "Lista agendamentos com paginação e filtros. A filtragem é aplicada automaticamente por role: USER vê apenas os próprios, OPERATOR vê onde é o profissional, TENANT vê os do tenant. cancellationActor e cancellationReasonCode filtram cancelamentos por autor e motivo.",
   security: [{ Bearer: [] }],
   request: {
     query: listAppointmentsQuerySchema,
@@ -105,6 +150,39 @@ export const getAppointmentByIdRoute = createRoute({
   },
 });
 
+// ========== HISTORY ==========
+
+export const getAppointmentHistoryRoute = createRoute({
+  method: "get",
+  path: "/{id}/history",
+  tags: ["Appointments"],
+  summary: "Histórico do agendamento",
+  description:
+    "Lista as transições do agendamento em ordem cronológica (criação, confirmação, remarcação, cancelamento, conclusão e no-show), com status anterior e novo, usuário e role que realizaram a ação, motivo e o correlation ID do request. Acesso restrito ao escopo do caller.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: appointmentHistoryResponseSchema } },
+      description: "Histórico do agendamento",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agendamento não encontrado",
+    },
+  },
+});
+
 // ========== CONFIRM ==========
 
 export const confirmAppointmentRoute = createRoute({
@@ -149,7 +227,7 @@ export const cancelAppointmentRoute = createRoute({
   tags: ["Appointments"],
   summary: "Cancelar agendamento",
   description:
-    "Cancela um agendamento PENDING ou CONFIRMED. Libera o slot de volta para AVAILABLE. Qualquer usuário autenticado com acesso pode cancelar.",
+    "Cancela um agendamento PENDING ou CONFIRMED. Libera todos os slots do agendamento de volta para AVAILABLE e registra quem cancelou (cancellationActor: CUSTOMER, OPERATOR, TENANT ou OWNER), o motivo padronizado (reasonCode — padrão CUSTOMER_REQUEST quando o próprio cliente cancela, senão OTHER) e os detalhes em texto livre, sem alterar as notas do agendamento. Qualquer usuário autenticado com acesso pode cancelar, respeitando o aviso mínimo de cancelamento do business (exceto OWNER e o TENANT do business). Cancelamentos do próprio cliente dentro da janela de cancelamento tardio contam como incidente na sua situação no business. Em agendamentos recorrentes, scope SERIES cancela também todas as ocorrências futuras ainda ativas da série e a encerra; o aviso mínimo vale para cada ocorrência cancelada.",
   security: [{ Bearer: [] }],
   request: {
     params: z.object({ id: z.string().uuid() }),
@@ -179,6 +257,11 @@ export const cancelAppointmentRoute = createRoute({
       content: { "application/json": { schema: errorResponseSchema } },
       description: "Status atual não permite cancelamento",
     },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description:
+        "Aviso mínimo de cancelamento não respeitado ou scope SERIES em agendamento avulso",
+    },
   },
 });
 
@@ -190,7 +273,7 @@ export const noShowAppointmentRoute = createRoute({
   tags: ["Appointments"],
   summary: "Marcar agendamento como no-show",
   description:
-    "Marca um agendamento CONFIRMED como NO_SHOW quando o cliente não comparece. Restrito a TENANT, OWNER e OPERATOR.",
+    "Marca um agendamento CONFIRMED como NO_SHOW quando o cliente não comparece. O no-show conta como incidente na situação do cliente no business e pode torná-lo RESTRICTED ou BLOCKED conforme os limites configurados. Restrito a TENANT, OWNER e OPERATOR.",
   security: [{ Bearer: [] }],
   request: {
     params: z.object({ id: z.string().uuid() }),
@@ -219,6 +302,51 @@ export const noShowAppointmentRoute = createRoute({
   },
 });
 
+// ========== RESCHEDULE ==========
+
+export const rescheduleAppointmentRoute = createRoute({
+  method: "patch",
+  path: "/{id}/reschedule",
+  tags: ["Appointments"],
+  summary: "Remarcar agendamento",
+  description:
+    "Move um agendamento PENDING ou CONFIRMED para outro slot AVAILABLE do mesmo business. Em uma única transação libera os slots antigos, reserva os slots contíguos que cobrem a duração e os buffers, recalcula scheduledAt e registra o histórico de remarcação. Mantém status e notas; preço e duração também são mantidos no mesmo operador e recalculados (override do operator_services ?? padrão do serviço) ao mudar de operador, que deve estar ativo e oferecer o serviço ativo. Exige o aviso mínimo de cancelamento do business e que o novo horário respeite a antecedência mínima e a janela máxima (exceto para OWNER e o TENANT do business).",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    body: {
+      content: { "application/json": { schema: rescheduleAppointmentRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: appointmentProfileSchema } },
+      description: "Agendamento remarcado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agendamento, slot ou operador não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Status atual não permite remarcação ou slot não está disponível",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação ou violação das políticas de agendamento do business",
+    },
+  },
+});
+
 // ========== COMPLETE ==========
 
 export const completeAppointmentRoute = createRoute({
@@ -1,14 +1,18 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { respondError } from "../../../core/error/error.handler.js";
-import { getSession, hasRole } from "../../../core/session/session.guard.js";
+import { getCorrelationId } from "../../../core/logger/logger.middleware.js";
+import { getApiKeyScope, getSession, hasRole } from "../../../core/session/session.guard.js";
 import {
   cancelAppointmentRoute,
   completeAppointmentRoute,
   confirmAppointmentRoute,
   createAppointmentRoute,
+  createAppointmentSeriesRoute,
   getAppointmentByIdRoute,
+  getAppointmentHistoryRoute,
   listAppointmentsRoute,
   noShowAppointmentRoute,
+  rescheduleAppointmentRoute,
 } from "./2_api.js";
 import type { IAppointmentService } from "./4_service.js";
 
@@ -24,7 +28,32 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
       app.openapi(createAppointmentRoute, async (c): Promise<any> => {
         const session = getSession(c);
         const body = c.req.valid("json");
-        const result = await service.create(body, session.sub);
+        const result = await service.create(
+          body,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+          getCorrelationId(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // POST /series — Qualquer autenticado
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createAppointmentSeriesRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const body = c.req.valid("json");
+        const result = await service.createSeries(
+          body,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+          getCorrelationId(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 201);
@@ -35,7 +64,13 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
       app.openapi(listAppointmentsRoute, async (c): Promise<any> => {
         const session = getSession(c);
         const query = c.req.valid("query");
-        const result = await service.list(query, session.role, session.sub, session.tenantId);
+        const result = await service.list(
+          query,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -46,7 +81,30 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
       app.openapi(getAppointmentByIdRoute, async (c): Promise<any> => {
         const session = getSession(c);
         const { id } = c.req.valid("param");
-        const result = await service.getById(id, session.role, session.sub, session.tenantId);
+        const result = await service.getById(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /:id/history — Qualquer autenticado (acesso verificado no service)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getAppointmentHistoryRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.history(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -61,7 +119,13 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
         }
 
         const { id } = c.req.valid("param");
-        const result = await service.confirm(id, session.role, session.sub, session.tenantId);
+        const result = await service.confirm(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getCorrelationId(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -74,7 +138,35 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
         const { id } = c.req.valid("param");
         const contentType = c.req.header("content-type") ?? "";
         const body = contentType.includes("application/json") ? c.req.valid("json") : {};
-        const result = await service.cancel(id, body, session.role, session.sub, session.tenantId);
+        const result = await service.cancel(
+          id,
+          body,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+          getCorrelationId(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // PATCH /:id/reschedule — Qualquer autenticado (acesso verificado no service)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(rescheduleAppointmentRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const body = c.req.valid("json");
+        const result = await service.reschedule(
+          id,
+          body,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+          getCorrelationId(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -89,7 +181,13 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
         }
 
         const { id } = c.req.valid("param");
-        const result = await service.complete(id, session.role, session.sub, session.tenantId);
+        const result = await service.complete(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getCorrelationId(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -104,7 +202,13 @@ export function createAppointmentHandler(service: IAppointmentService): IAppoint
         }
 
         const { id } = c.req.valid("param");
-        const result = await service.noShow(id, session.role, session.sub, session.tenantId);
+        const result = await service.noShow(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getCorrelationId(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
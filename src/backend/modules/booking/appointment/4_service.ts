@@ -1,39 +1,88 @@
 import { localToUtc } from "../../../core/date/date.utils.js";
 import type { Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
-import type { Role } from "../../../core/session/session.guard.js";
+import { type ApiKeyScope, type Role, isWithinScope } from "../../../core/session/session.guard.js";
+import { type SlotBuffers, buildSlotChain, resolveBuffers } from "../../../shared/slot-chain.js";
 import type { IAppointmentRepository } from "./5_repository.js";
-import type {
-  AppointmentProfile,
-  CancelAppointmentRequest,
-  CreateAppointmentRequest,
-  ListAppointmentsQuery,
-  PaginatedAppointmentsResponse,
+import {
+  type AppointmentHistoryResponse,
+  type AppointmentProfile,
+  type AppointmentSeriesProfile,
+  type AppointmentSeriesResponse,
+  type CancelAppointmentRequest,
+  type CreateAppointmentRequest,
+  type CreateAppointmentSeriesRequest,
+  type ListAppointmentsQuery,
+  MAX_SERIES_OCCURRENCES,
+  type PaginatedAppointmentsResponse,
+  type RescheduleAppointmentRequest,
 } from "./types/dtos/dtos.js";
-import type { AppointmentRow } from "./types/models/models.js";
+import type {
+  AppointmentActor,
+  AppointmentEventRow,
+  AppointmentRow,
+  AppointmentSeriesRow,
+  SlotReservation,
+} from "./types/models/models.js";
 
 export interface IAppointmentService {
   create(
     input: CreateAppointmentRequest,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+    correlationId: string | null,
+  ): Promise<Result<AppointmentProfile>>;
+  /**
+   * Agenda a mesma combinação operador/serviço/horário nas datas da recorrência. Ocorrências
+   * sem slot livre ou barradas pelas políticas são devolvidas em `skipped`.
+   */
+  createSeries(
+    input: CreateAppointmentSeriesRequest,
+    callerRole: Role,
     callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+    correlationId: string | null,
+  ): Promise<Result<AppointmentSeriesResponse>>;
+  /**
+   * Agenda o horário de uma oferta da lista de espera para o cliente da inscrição, com as
+   * mesmas validações, políticas e buffers de `create`. Os slots da oferta (HELD) são
+   * convertidos e a oferta/inscrição encerradas na transação do agendamento.
+   */
+  bookWaitlistOffer(
+    offer: { id: string; entryId: string; operatorId: string; slotIds: string[] },
+    entry: { userId: string; serviceId: string; notes: string | null },
+    correlationId: string | null,
   ): Promise<Result<AppointmentProfile>>;
   list(
     query: ListAppointmentsQuery,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<PaginatedAppointmentsResponse>>;
   getById(
     id: string,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<AppointmentProfile>>;
+  history(
+    id: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<AppointmentHistoryResponse>>;
   confirm(
     id: string,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    correlationId: string | null,
   ): Promise<Result<AppointmentProfile>>;
   cancel(
     id: string,
@@ -41,18 +90,31 @@ export interface IAppointmentService {
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+    correlationId: string | null,
+  ): Promise<Result<AppointmentProfile>>;
+  reschedule(
+    id: string,
+    input: RescheduleAppointmentRequest,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+    correlationId: string | null,
   ): Promise<Result<AppointmentProfile>>;
   complete(
     id: string,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    correlationId: string | null,
   ): Promise<Result<AppointmentProfile>>;
   noShow(
     id: string,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    correlationId: string | null,
   ): Promise<Result<AppointmentProfile>>;
 }
 
@@ -68,19 +130,207 @@ function toProfile(row: AppointmentRow): AppointmentProfile {
     durationMinutes: row.durationMinutes,
     priceCents: row.priceCents,
     status: row.status,
+    seriesId: row.seriesId,
     notes: row.notes,
+    depositRequired: row.depositRequired,
     cancelledAt: row.cancelledAt?.toISOString() ?? null,
+    cancelledBy: row.cancelledBy,
+    cancellationActor: row.cancellationActor,
+    cancellationReasonCode: row.cancellationReasonCode,
+    cancellationReason: row.cancellationReason,
     completedAt: row.completedAt?.toISOString() ?? null,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
 }
 
+function toSeriesProfile(row: AppointmentSeriesRow): AppointmentSeriesProfile {
+  return {
+    id: row.id,
+    userId: row.userId,
+    operatorId: row.operatorId,
+    businessId: row.businessId,
+    serviceId: row.serviceId,
+    frequency: row.frequency,
+    startDate: row.startDate,
+    startTime: row.startTime,
+    occurrences: row.occurrences,
+    untilDate: row.untilDate,
+    cancelledAt: row.cancelledAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toEventProfile(row: AppointmentEventRow): AppointmentHistoryResponse["data"][number] {
+  return {
+    id: row.id,
+    type: row.type,
+    fromStatus: row.fromStatus,
+    toStatus: row.toStatus,
+    actorUserId: row.actorUserId,
+    actorRole: row.actorRole,
+    reason: row.reason,
+    correlationId: row.correlationId,
+    metadata: row.metadata,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Classifica quem cancelou: o cliente do agendamento (qualquer role), o operador, a gestão
+ * do estabelecimento (TENANT) ou a administração da plataforma (OWNER)
+ */
+function resolveCancellationActor(
+  appointment: AppointmentRow,
+  callerRole: Role,
+  callerUserId: string,
+): NonNullable<AppointmentRow["cancellationActor"]> {
+  if (appointment.userId === callerUserId) return "CUSTOMER";
+  if (callerRole === "OPERATOR") return "OPERATOR";
+  if (callerRole === "OWNER") return "OWNER";
+  return "TENANT";
+}
+
+/** Políticas de agendamento/cancelamento configuradas no business */
+type BookingPolicy = {
+  tenantId: string;
+  minBookingLeadMinutes: number;
+  minCancelNoticeMinutes: number;
+  maxBookingWindowDays: number | null;
+  maxActiveAppointmentsPerCustomer: number | null;
+};
+
+/** OWNER e o TENANT dono do business não estão sujeitos às políticas */
+function bypassesPolicy(
+  policy: BookingPolicy,
+  callerRole: Role,
+  callerTenantId: string | null,
+): boolean {
+  if (callerRole === "OWNER") return true;
+  return callerRole === "TENANT" && callerTenantId === policy.tenantId;
+}
+
+/** Formata minutos para as mensagens de erro — ex: 90 → "1h30", 1440 → "24h" */
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const rest = minutes % 60;
+  return rest === 0
+    ? `${Math.floor(minutes / 60)}h`
+    : `${Math.floor(minutes / 60)}h${String(rest).padStart(2, "0")}`;
+}
+
+/** Verifica antecedência mínima e janela máxima para agendar no horário informado */
+function checkBookingWindow(policy: BookingPolicy, scheduledAt: Date): Result<void> {
+  const aheadMs = scheduledAt.getTime() - Date.now();
+
+  if (policy.minBookingLeadMinutes > 0 && aheadMs < policy.minBookingLeadMinutes * 60_000) {
+    return R.fail({
+      code: "BUSINESS_RULE_VIOLATION",
+      message: `Agendamentos exigem antecedência mínima de ${formatMinutes(policy.minBookingLeadMinutes)}`,
+    });
+  }
+
+  if (policy.maxBookingWindowDays !== null && aheadMs > policy.maxBookingWindowDays * 86_400_000) {
+    return R.fail({
+      code: "BUSINESS_RULE_VIOLATION",
+      message: `Agendamentos só podem ser feitos com até ${policy.maxBookingWindowDays} dias de antecedência`,
+    });
+  }
+
+  return R.ok(undefined);
+}
+
+/** Verifica o aviso mínimo para cancelar ou remarcar um agendamento */
+function checkCancelNotice(
+  policy: BookingPolicy,
+  scheduledAt: Date,
+  action: "cancelar" | "remarcar",
+): Result<void> {
+  if (policy.minCancelNoticeMinutes === 0) return R.ok(undefined);
+
+  if (scheduledAt.getTime() - Date.now() < policy.minCancelNoticeMinutes * 60_000) {
+    return R.fail({
+      code: "BUSINESS_RULE_VIOLATION",
+      message: `É necessário aviso mínimo de ${formatMinutes(policy.minCancelNoticeMinutes)} para ${action} o agendamento`,
+    });
+  }
+  return R.ok(undefined);
+}
+
+/** Dias entre as ocorrências das frequências semanais */
+const SERIES_STEP_DAYS = { WEEKLY: 7, BIWEEKLY: 14 } as const;
+
+/**
+ * Datas (YYYY-MM-DD) das ocorrências de uma série, começando pela primeira. MONTHLY repete o
+ * dia do mês e pula os meses que não o têm (ex: dia 31 em abril).
+ */
+function seriesDates(
+  startDate: string,
+  frequency: AppointmentSeriesRow["frequency"],
+  limit: number,
+  until: string | null,
+): string[] {
+  const [year, month, day] = startDate.split("-").map(Number);
+  const dates: string[] = [];
+
+  for (let i = 0; dates.length < limit; i++) {
+    const date =
+      frequency === "MONTHLY"
+        ? new Date(Date.UTC(year, month - 1 + i, day))
+        : new Date(Date.UTC(year, month - 1, day + i * SERIES_STEP_DAYS[frequency]));
+    if (date.getUTCDate() !== day && frequency === "MONTHLY") continue;
+
+    const ymd = date.toISOString().slice(0, 10);
+    if (until !== null && ymd > until) break;
+    dates.push(ymd);
+  }
+  return dates;
+}
+
+/** Dados do operador, serviço e políticas compartilhados por todas as ocorrências */
+type BookingContext = {
+  operatorId: string;
+  operatorUserId: string;
+  businessId: string;
+  serviceId: string;
+  business: BookingPolicy & { id: string; timezone: string };
+  durationMinutes: number;
+  priceCents: number;
+  buffers: SlotBuffers;
+  enforcePolicy: boolean;
+  depositRequired: boolean;
+};
+
 export function createAppointmentService(repository: IAppointmentRepository): IAppointmentService {
+  /**
+   * Monta a sequência de slots (mesmo operador e data) a partir do slot inicial que cobre
+   * a duração do serviço, incluindo os slots dentro dos buffers — ver `buildSlotChain`.
+   * `heldSlotIds` são os slots que já pertencem ao próprio agendamento ou reserva.
+   */
+  async function resolveSlotChain(
+    first: { id: string; operatorId: string; date: string; startTime: string; endTime: string },
+    durationMinutes: number,
+    buffers: SlotBuffers,
+    heldSlotIds: string[] = [],
+  ): Promise<Result<string[]>> {
+    const daySlotsResult = await repository.findDaySlots(first.operatorId, first.date);
+    if (daySlotsResult.isErr()) return R.fail(daySlotsResult.error);
+
+    const chain = buildSlotChain(
+      daySlotsResult.value,
+      { ...first, status: "AVAILABLE" },
+      durationMinutes,
+      buffers,
+      heldSlotIds,
+    );
+    if ("conflict" in chain) return R.fail({ code: "CONFLICT", message: chain.conflict });
+    return R.ok(chain.slotIds);
+  }
+
   /**
    * Verifica se o caller tem acesso a um appointment:
    * - OWNER: acesso total
-   * - USER: appointment.userId === callerUserId
+   * - USER: appointment.userId === callerUserId (via API key, também dentro do escopo da chave)
    * - OPERATOR: appointment.operatorId corresponde ao operator do callerUserId
    * - TENANT: business do appointment pertence ao tenant do caller
    */
@@ -89,6 +339,7 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<void>> {
     if (callerRole === "OWNER") return R.ok(undefined);
 
@@ -96,6 +347,14 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
       if (appointment.userId !== callerUserId) {
         return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
       }
+      if (!callerScope) return R.ok(undefined);
+
+      // Via API key, só agendamentos do tenant/business da chave
+      const businessResult = await repository.findBusinessById(appointment.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value || !isWithinScope(callerScope, businessResult.value)) {
+        return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+      }
       return R.ok(undefined);
     }
 
@@ -120,8 +379,163 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
     return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
   }
 
+  /**
+   * Valida operador, business e serviço de um agendamento e resolve duração, preço, buffers
+   * e a situação do cliente (BLOCKED impede o agendamento; RESTRICTED exige depósito).
+   * `customerUserId` é o cliente do agendamento — o próprio caller ao agendar, o dono do
+   * agendamento ao remarcar.
+   */
+  async function resolveBookingContext(
+    operatorId: string,
+    serviceId: string,
+    callerRole: Role,
+    customerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<BookingContext>> {
+    // Busca o operador do slot
+    const operatorResult = await repository.findOperatorById(operatorId);
+    if (operatorResult.isErr()) return R.fail(operatorResult.error);
+    if (!operatorResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+    }
+
+    const operator = operatorResult.value;
+
+    // Busca o business para obter o timezone
+    const businessResult = await repository.findBusinessById(operator.businessId);
+    if (businessResult.isErr()) return R.fail(businessResult.error);
+    if (!businessResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+    }
+
+    const business = businessResult.value;
+
+    // API key só agenda no tenant/business da chave
+    if (!isWithinScope(callerScope, business)) {
+      return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+    }
+
+    // Impede operador de se auto-agendar
+    if (operator.userId === customerUserId) {
+      return R.fail({
+        code: "VALIDATION_ERROR",
+        message: "Operador não pode agendar a si mesmo",
+      });
+    }
+
+    // Busca o serviço
+    const serviceResult = await repository.findServiceById(serviceId);
+    if (serviceResult.isErr()) return R.fail(serviceResult.error);
+    if (!serviceResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
+    }
+
+    const service = serviceResult.value;
+
+    if (!service.active) {
+      return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+    }
+
+    // Verifica que o serviço pertence ao mesmo business do operador
+    if (service.businessId !== operator.businessId) {
+      return R.fail({
+        code: "VALIDATION_ERROR",
+        message: "Serviço não pertence ao mesmo business do operador",
+      });
+    }
+
+    // Verifica vínculo operator_services ativo
+    const opServiceResult = await repository.findOperatorService(operatorId, serviceId);
+    if (opServiceResult.isErr()) return R.fail(opServiceResult.error);
+    if (!opServiceResult.value || !opServiceResult.value.active) {
+      return R.fail({ code: "VALIDATION_ERROR", message: "Operador não oferece este serviço" });
+    }
+
+    const opService = opServiceResult.value;
+
+    // Situação do cliente no business
+    const enforcePolicy = !bypassesPolicy(business, callerRole, callerTenantId);
+    let depositRequired = false;
+    if (enforcePolicy) {
+      const standingResult = await repository.findStanding(customerUserId, business.id);
+      if (standingResult.isErr()) return R.fail(standingResult.error);
+      if (standingResult.value?.status === "BLOCKED") {
+        return R.fail({
+          code: "BUSINESS_RULE_VIOLATION",
+          message: "Cliente bloqueado para novos agendamentos neste estabelecimento",
+        });
+      }
+      depositRequired = standingResult.value?.status === "RESTRICTED";
+    }
+
+    return R.ok({
+      operatorId,
+      operatorUserId: operator.userId,
+      businessId: operator.businessId,
+      serviceId,
+      business,
+      // Resolve duração e preço (override do operator_services ?? default do service)
+      durationMinutes: opService.durationMinutes ?? service.durationMinutes,
+      priceCents: opService.priceCents ?? service.priceCents,
+      buffers: resolveBuffers(operator, service),
+      enforcePolicy,
+      depositRequired,
+    });
+  }
+
+  /**
+   * Reserva os slots que cobrem a duração do serviço a partir de `slot`, aplica antecedência,
+   * janela e limite de agendamentos ativos e cria o agendamento
+   */
+  async function bookSlot(
+    slot: { id: string; operatorId: string; date: string; startTime: string; endTime: string },
+    context: BookingContext,
+    details: { notes: string | null; seriesId: string | null },
+    actor: AppointmentActor,
+    reservation?: SlotReservation,
+  ): Promise<Result<AppointmentRow>> {
+    // Reserva os slots que cobrem a duração do serviço e seus buffers (os da reserva estão HELD)
+    const chainResult = await resolveSlotChain(
+      slot,
+      context.durationMinutes,
+      context.buffers,
+      reservation?.slotIds ?? [],
+    );
+    if (chainResult.isErr()) return R.fail(chainResult.error);
+
+    // Computa scheduledAt convertendo horário local do business para UTC
+    const scheduledAt = localToUtc(slot.date, slot.startTime, context.business.timezone);
+
+    // Políticas do business (antecedência e janela); o limite de agendamentos ativos é
+    // verificado na transação da reserva
+    if (context.enforcePolicy) {
+      const windowCheck = checkBookingWindow(context.business, scheduledAt);
+      if (windowCheck.isErr()) return R.fail(windowCheck.error);
+    }
+
+    return repository.createWithSlotBooking(
+      {
+        userId: actor.userId,
+        operatorId: context.operatorId,
+        businessId: context.businessId,
+        serviceId: context.serviceId,
+        seriesId: details.seriesId,
+        scheduledAt,
+        durationMinutes: context.durationMinutes,
+        priceCents: context.priceCents,
+        notes: details.notes,
+        depositRequired: context.depositRequired,
+      },
+      chainResult.value,
+      context.enforcePolicy ? context.business.maxActiveAppointmentsPerCustomer : null,
+      actor,
+      reservation,
+    );
+  }
+
   return {
-    async create(input, callerUserId) {
+    async create(input, callerRole, callerUserId, callerTenantId, callerScope, correlationId) {
       // Busca o slot
       const slotResult = await repository.findSlotById(input.slotId);
       if (slotResult.isErr()) return R.fail(slotResult.error);
@@ -131,98 +545,211 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
 
       const slot = slotResult.value;
 
-      // Verifica que o slot está disponível
-      if (slot.status !== "AVAILABLE") {
-        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
+      // Reserva temporária feita pelo próprio cliente (POST /api/schedule/:id/hold)
+      let hold: SlotReservation | undefined;
+      if (input.holdToken) {
+        const holdResult = await repository.findHoldByToken(input.holdToken);
+        if (holdResult.isErr()) return R.fail(holdResult.error);
+
+        const found = holdResult.value;
+        if (!found || found.slotId !== slot.id || found.userId !== callerUserId) {
+          return R.fail({
+            code: "VALIDATION_ERROR",
+            message: "holdToken inválido para este slot",
+          });
+        }
+        if (found.status === "ACTIVE" && found.expiresAt.getTime() > Date.now()) {
+          hold = { type: "HOLD", id: found.id, slotIds: found.slotIds };
+        } else if (slot.status !== "AVAILABLE") {
+          return R.fail({ code: "CONFLICT", message: "Reserva do slot expirou" });
+        }
       }
 
-      // Busca o operador do slot
-      const operatorResult = await repository.findOperatorById(slot.operatorId);
-      if (operatorResult.isErr()) return R.fail(operatorResult.error);
-      if (!operatorResult.value) {
-        return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+      // Verifica que o slot está disponível (ou reservado para este cliente)
+      if (slot.status !== "AVAILABLE" && !(slot.status === "HELD" && hold)) {
+        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
       }
 
-      const operator = operatorResult.value;
+      const contextResult = await resolveBookingContext(
+        slot.operatorId,
+        input.serviceId,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        callerScope,
+      );
+      if (contextResult.isErr()) return R.fail(contextResult.error);
+
+      // Cria o appointment, marca os slots como BOOKED e converte a reserva em transação atômica
+      const createResult = await bookSlot(
+        slot,
+        contextResult.value,
+        { notes: input.notes ?? null, seriesId: null },
+        { userId: callerUserId, role: callerRole, correlationId },
+        hold,
+      );
+      if (createResult.isErr()) return R.fail(createResult.error);
 
-      // Busca o business para obter o timezone
-      const businessResult = await repository.findBusinessById(operator.businessId);
-      if (businessResult.isErr()) return R.fail(businessResult.error);
-      if (!businessResult.value) {
-        return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+      return R.ok(toProfile(createResult.value));
+    },
+
+    async createSeries(
+      input,
+      callerRole,
+      callerUserId,
+      callerTenantId,
+      callerScope,
+      correlationId,
+    ) {
+      // Slot da primeira ocorrência — define operador, data inicial e horário da série
+      const slotResult = await repository.findSlotById(input.slotId);
+      if (slotResult.isErr()) return R.fail(slotResult.error);
+      if (!slotResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Slot não encontrado" });
       }
 
-      const business = businessResult.value;
+      const first = slotResult.value;
 
-      // Impede operador de se auto-agendar
-      if (operator.userId === callerUserId) {
+      if (input.until !== undefined && input.until <= first.date) {
         return R.fail({
           code: "VALIDATION_ERROR",
-          message: "Operador não pode agendar a si mesmo",
+          message: "until deve ser posterior à data do primeiro slot",
         });
       }
 
-      // Busca o serviço
-      const serviceResult = await repository.findServiceById(input.serviceId);
-      if (serviceResult.isErr()) return R.fail(serviceResult.error);
-      if (!serviceResult.value) {
-        return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
-      }
-
-      const service = serviceResult.value;
-
-      if (!service.active) {
-        return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+      // Com until, busca uma data a mais para detectar séries acima do limite
+      const dates = seriesDates(
+        first.date,
+        input.frequency,
+        input.occurrences ?? MAX_SERIES_OCCURRENCES + 1,
+        input.until ?? null,
+      );
+      if (dates.length > MAX_SERIES_OCCURRENCES) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: `A série pode ter no máximo ${MAX_SERIES_OCCURRENCES} ocorrências`,
+        });
       }
-
-      // Verifica que o serviço pertence ao mesmo business do operador
-      if (service.businessId !== operator.businessId) {
+      if (dates.length < 2) {
         return R.fail({
           code: "VALIDATION_ERROR",
-          message: "Serviço não pertence ao mesmo business do operador",
+          message: "A série deve ter pelo menos 2 ocorrências até a data informada",
         });
       }
 
-      // Verifica vínculo operator_services ativo
-      const opServiceResult = await repository.findOperatorService(
-        slot.operatorId,
+      const contextResult = await resolveBookingContext(
+        first.operatorId,
         input.serviceId,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        callerScope,
       );
-      if (opServiceResult.isErr()) return R.fail(opServiceResult.error);
-      if (!opServiceResult.value || !opServiceResult.value.active) {
-        return R.fail({ code: "VALIDATION_ERROR", message: "Operador não oferece este serviço" });
+      if (contextResult.isErr()) return R.fail(contextResult.error);
+
+      const context = contextResult.value;
+
+      const seriesResult = await repository.createSeries({
+        userId: callerUserId,
+        operatorId: context.operatorId,
+        businessId: context.businessId,
+        serviceId: context.serviceId,
+        frequency: input.frequency,
+        startDate: first.date,
+        startTime: first.startTime,
+        occurrences: input.occurrences ?? null,
+        untilDate: input.until ?? null,
+      });
+      if (seriesResult.isErr()) return R.fail(seriesResult.error);
+
+      const series = seriesResult.value;
+      const booked: AppointmentRow[] = [];
+      const skipped: AppointmentSeriesResponse["skipped"] = [];
+
+      // Cada ocorrência é agendada isoladamente — uma falha não desfaz as demais
+      for (const date of dates) {
+        let slot: typeof first | null = first;
+        if (date !== first.date) {
+          const found = await repository.findSlotAt(first.operatorId, date, first.startTime);
+          if (found.isErr()) return R.fail(found.error);
+          slot = found.value;
+        }
+
+        if (!slot) {
+          skipped.push({
+            date,
+            code: "NOT_FOUND",
+            reason: "Operador sem slot neste horário",
+          });
+          continue;
+        }
+        if (slot.status !== "AVAILABLE") {
+          skipped.push({ date, code: "CONFLICT", reason: "Slot não está disponível" });
+          continue;
+        }
+
+        const bookResult = await bookSlot(
+          slot,
+          context,
+          { notes: input.notes ?? null, seriesId: series.id },
+          { userId: callerUserId, role: callerRole, correlationId },
+        );
+        if (bookResult.isErr()) {
+          if (bookResult.error.code === "DB_QUERY_FAILED") return R.fail(bookResult.error);
+          skipped.push({ date, code: bookResult.error.code, reason: bookResult.error.message });
+          continue;
+        }
+        booked.push(bookResult.value);
       }
 
-      const opService = opServiceResult.value;
+      if (booked.length === 0) {
+        const deleteResult = await repository.deleteSeries(series.id);
+        if (deleteResult.isErr()) return R.fail(deleteResult.error);
+        return R.fail({
+          code: "CONFLICT",
+          message: "Nenhuma ocorrência da série pôde ser agendada",
+          details: { skipped },
+        });
+      }
 
-      // Resolve duração e preço (override do operator_services ?? default do service)
-      const durationMinutes = opService.durationMinutes ?? service.durationMinutes;
-      const priceCents = opService.priceCents ?? service.priceCents;
+      return R.ok({
+        series: toSeriesProfile(series),
+        appointments: booked.map(toProfile),
+        skipped,
+      });
+    },
 
-      // Computa scheduledAt convertendo horário local do business para UTC
-      const scheduledAt = localToUtc(slot.date, slot.startTime, business.timezone);
+    async bookWaitlistOffer(offer, entry, correlationId) {
+      // O slot inicial do atendimento liberado vem primeiro na oferta
+      const slotResult = await repository.findSlotById(offer.slotIds[0]);
+      if (slotResult.isErr()) return R.fail(slotResult.error);
+      if (!slotResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Slot não encontrado" });
+      }
 
-      // Cria o appointment e marca slot como BOOKED em transação atômica
-      const createResult = await repository.createWithSlotBooking(
-        {
-          userId: callerUserId,
-          operatorId: slot.operatorId,
-          businessId: operator.businessId,
-          serviceId: input.serviceId,
-          slotId: input.slotId,
-          scheduledAt,
-          durationMinutes,
-          priceCents,
-          notes: input.notes ?? null,
-        },
-        input.slotId,
+      const contextResult = await resolveBookingContext(
+        offer.operatorId,
+        entry.serviceId,
+        "USER",
+        entry.userId,
+        null,
+        null,
+      );
+      if (contextResult.isErr()) return R.fail(contextResult.error);
+
+      const createResult = await bookSlot(
+        slotResult.value,
+        contextResult.value,
+        { notes: entry.notes, seriesId: null },
+        { userId: entry.userId, role: "USER", correlationId },
+        { type: "WAITLIST_OFFER", id: offer.id, entryId: offer.entryId, slotIds: offer.slotIds },
       );
       if (createResult.isErr()) return R.fail(createResult.error);
 
       return R.ok(toProfile(createResult.value));
     },
 
-    async list(query, callerRole, callerUserId, callerTenantId) {
+    async list(query, callerRole, callerUserId, callerTenantId, callerScope) {
       const params: Parameters<typeof repository.findAll>[0] = {
         page: query.page,
         limit: query.limit,
@@ -231,11 +758,25 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         dateTo: query.dateTo,
         operatorId: query.operatorId,
         businessId: query.businessId,
+        cancellationActor: query.cancellationActor,
+        cancellationReasonCode: query.cancellationReasonCode,
       };
 
       // Filtragem por role
       if (callerRole === "USER") {
         params.userId = callerUserId;
+        // Via API key, só o tenant/business da chave
+        if (callerScope) {
+          if (
+            callerScope.businessId &&
+            query.businessId &&
+            query.businessId !== callerScope.businessId
+          ) {
+            return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+          }
+          params.tenantId = callerScope.tenantId;
+          params.businessId = callerScope.businessId ?? query.businessId;
+        }
       } else if (callerRole === "OPERATOR") {
         const operatorResult = await repository.findOperatorByUserId(callerUserId);
         if (operatorResult.isErr()) return R.fail(operatorResult.error);
@@ -272,7 +813,7 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
       });
     },
 
-    async getById(id, callerRole, callerUserId, callerTenantId) {
+    async getById(id, callerRole, callerUserId, callerTenantId, callerScope) {
       const findResult = await repository.findById(id);
       if (findResult.isErr()) return R.fail(findResult.error);
       if (!findResult.value) {
@@ -284,13 +825,36 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         callerRole,
         callerUserId,
         callerTenantId,
+        callerScope,
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
       return R.ok(toProfile(findResult.value));
     },
 
-    async confirm(id, callerRole, callerUserId, callerTenantId) {
+    async history(id, callerRole, callerUserId, callerTenantId, callerScope) {
+      const findResult = await repository.findById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Agendamento não encontrado" });
+      }
+
+      const accessCheck = await checkAppointmentAccess(
+        findResult.value,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        callerScope,
+      );
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      const historyResult = await repository.findHistory(id);
+      if (historyResult.isErr()) return R.fail(historyResult.error);
+
+      return R.ok({ data: historyResult.value.map(toEventProfile) });
+    },
+
+    async confirm(id, callerRole, callerUserId, callerTenantId, correlationId) {
       if (callerRole === "USER") {
         return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
       }
@@ -315,16 +879,21 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         callerRole,
         callerUserId,
         callerTenantId,
+        null,
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
-      const updateResult = await repository.updateStatus(id, "CONFIRMED");
+      const updateResult = await repository.updateStatus(id, "PENDING", "CONFIRMED", {
+        userId: callerUserId,
+        role: callerRole,
+        correlationId,
+      });
       if (updateResult.isErr()) return R.fail(updateResult.error);
 
       return R.ok(toProfile(updateResult.value));
     },
 
-    async cancel(id, input, callerRole, callerUserId, callerTenantId) {
+    async cancel(id, input, callerRole, callerUserId, callerTenantId, callerScope, correlationId) {
       const findResult = await repository.findById(id);
       if (findResult.isErr()) return R.fail(findResult.error);
       if (!findResult.value) {
@@ -345,28 +914,240 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         callerRole,
         callerUserId,
         callerTenantId,
+        callerScope,
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
-      // Appenda razão do cancelamento em notes se fornecida
-      const updatedNotes = input.reason
-        ? appointment.notes
-          ? `${appointment.notes}\n[Cancelamento] ${input.reason}`
-          : `[Cancelamento] ${input.reason}`
-        : appointment.notes;
+      // Aviso mínimo de cancelamento definido pelo business
+      const businessResult = await repository.findBusinessById(appointment.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+      }
+
+      const business = businessResult.value;
+      const enforcePolicy = !bypassesPolicy(business, callerRole, callerTenantId);
+
+      // Na série, o agendamento informado e as demais ocorrências ativas ainda por vir
+      let occurrences = [appointment];
+      if (input.scope === "SERIES") {
+        if (!appointment.seriesId) {
+          return R.fail({
+            code: "VALIDATION_ERROR",
+            message: "Agendamento não faz parte de uma série",
+          });
+        }
+        const occurrencesResult = await repository.findActiveSeriesOccurrences(
+          appointment.seriesId,
+          new Date(),
+        );
+        if (occurrencesResult.isErr()) return R.fail(occurrencesResult.error);
+        occurrences = [
+          appointment,
+          ...occurrencesResult.value.filter((occurrence) => occurrence.id !== appointment.id),
+        ];
+      }
+
+      if (enforcePolicy) {
+        for (const occurrence of occurrences) {
+          const noticeCheck = checkCancelNotice(business, occurrence.scheduledAt, "cancelar");
+          if (noticeCheck.isErr()) return R.fail(noticeCheck.error);
+        }
+      }
+
+      // Cancelamento pelo próprio cliente perto do horário conta como incidente
+      const isLateCancellation = (scheduledAt: Date) =>
+        enforcePolicy &&
+        appointment.userId === callerUserId &&
+        business.lateCancellationWindowMinutes > 0 &&
+        scheduledAt.getTime() - Date.now() < business.lateCancellationWindowMinutes * 60_000;
+
+      const cancellationActor = resolveCancellationActor(appointment, callerRole, callerUserId);
+      const extra = {
+        cancelledAt: new Date(),
+        cancelledBy: callerUserId,
+        cancellationActor,
+        cancellationReasonCode:
+          input.reasonCode ?? (cancellationActor === "CUSTOMER" ? "CUSTOMER_REQUEST" : "OTHER"),
+        cancellationReason: input.reason ?? null,
+      } as const;
+      const actor = { userId: callerUserId, role: callerRole, correlationId };
+
+      if (input.scope === "SERIES" && appointment.seriesId) {
+        // Cancela as ocorrências, libera os slots e encerra a série em transação atômica
+        const seriesResult = await repository.cancelSeriesWithSlotRelease(
+          appointment.seriesId,
+          occurrences.map((occurrence) => ({
+            id: occurrence.id,
+            slotId: occurrence.slotId,
+            lateCancellation: isLateCancellation(occurrence.scheduledAt),
+          })),
+          extra,
+          actor,
+        );
+        if (seriesResult.isErr()) return R.fail(seriesResult.error);
+
+        const cancelled = seriesResult.value.find((row) => row.id === id);
+        if (!cancelled) {
+          return R.fail({ code: "CONFLICT", message: "Agendamento não está mais ativo" });
+        }
+        return R.ok(toProfile(cancelled));
+      }
 
       // Cancela appointment e libera slot em transação atômica
       const cancelResult = await repository.cancelWithSlotRelease(
         id,
-        { cancelledAt: new Date(), notes: updatedNotes },
+        { ...extra, lateCancellation: isLateCancellation(appointment.scheduledAt) },
         appointment.slotId,
+        actor,
       );
       if (cancelResult.isErr()) return R.fail(cancelResult.error);
 
       return R.ok(toProfile(cancelResult.value));
     },
 
-    async complete(id, callerRole, callerUserId, callerTenantId) {
+    async reschedule(
+      id,
+      input,
+      callerRole,
+      callerUserId,
+      callerTenantId,
+      callerScope,
+      correlationId,
+    ) {
+      const findResult = await repository.findById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Agendamento não encontrado" });
+      }
+
+      const appointment = findResult.value;
+
+      if (appointment.status !== "PENDING" && appointment.status !== "CONFIRMED") {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Apenas agendamentos PENDING ou CONFIRMED podem ser remarcados",
+        });
+      }
+
+      const accessCheck = await checkAppointmentAccess(
+        appointment,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        callerScope,
+      );
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      const businessResult = await repository.findBusinessById(appointment.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+      }
+
+      const business = businessResult.value;
+      const enforcePolicy = !bypassesPolicy(business, callerRole, callerTenantId);
+
+      // Aviso mínimo para remarcar, contado a partir do horário atual do agendamento
+      if (enforcePolicy) {
+        const noticeCheck = checkCancelNotice(business, appointment.scheduledAt, "remarcar");
+        if (noticeCheck.isErr()) return R.fail(noticeCheck.error);
+      }
+
+      if (appointment.slotId === input.slotId) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "O novo slot deve ser diferente do atual",
+        });
+      }
+
+      // Busca o novo slot
+      const slotResult = await repository.findSlotById(input.slotId);
+      if (slotResult.isErr()) return R.fail(slotResult.error);
+      if (!slotResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Slot não encontrado" });
+      }
+
+      const slot = slotResult.value;
+
+      // Slots já ocupados por este agendamento podem ser reaproveitados (ex: adiar 30 min)
+      const heldResult = await repository.findHeldSlotIds(appointment.id, appointment.slotId);
+      if (heldResult.isErr()) return R.fail(heldResult.error);
+
+      const heldSlotIds = heldResult.value;
+
+      if (slot.status !== "AVAILABLE" && !heldSlotIds.includes(slot.id)) {
+        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
+      }
+
+      // O novo slot pode ser de outro operador (ativo e que ofereça o serviço ativo),
+      // desde que do mesmo business
+      const contextResult = await resolveBookingContext(
+        slot.operatorId,
+        appointment.serviceId,
+        callerRole,
+        appointment.userId,
+        callerTenantId,
+        callerScope,
+      );
+      if (contextResult.isErr()) return R.fail(contextResult.error);
+
+      const context = contextResult.value;
+
+      if (context.businessId !== appointment.businessId) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "O novo slot deve pertencer ao mesmo business do agendamento",
+        });
+      }
+
+      // OPERATOR só remarca dentro da própria agenda
+      if (callerRole === "OPERATOR" && context.operatorUserId !== callerUserId) {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+
+      // No mesmo operador mantém duração e preço contratados; em outro, usa os dele
+      const sameOperator = context.operatorId === appointment.operatorId;
+      const durationMinutes = sameOperator ? appointment.durationMinutes : context.durationMinutes;
+      const priceCents = sameOperator ? appointment.priceCents : context.priceCents;
+
+      // Recalcula scheduledAt a partir do horário local do business
+      const scheduledAt = localToUtc(slot.date, slot.startTime, business.timezone);
+
+      // O novo horário também respeita antecedência mínima e janela máxima
+      if (enforcePolicy) {
+        const windowCheck = checkBookingWindow(business, scheduledAt);
+        if (windowCheck.isErr()) return R.fail(windowCheck.error);
+      }
+
+      // Slots que cobrem a duração do agendamento e seus buffers no novo horário
+      const chainResult = await resolveSlotChain(
+        slot,
+        durationMinutes,
+        context.buffers,
+        sameOperator ? heldSlotIds : [],
+      );
+      if (chainResult.isErr()) return R.fail(chainResult.error);
+
+      // Libera os slots antigos, reserva os novos e grava o histórico em transação atômica
+      const rescheduleResult = await repository.rescheduleWithSlotSwap(
+        id,
+        {
+          toSlotIds: chainResult.value,
+          toOperatorId: context.operatorId,
+          scheduledAt,
+          durationMinutes,
+          priceCents,
+          reason: input.reason ?? null,
+        },
+        { userId: callerUserId, role: callerRole, correlationId },
+      );
+      if (rescheduleResult.isErr()) return R.fail(rescheduleResult.error);
+
+      return R.ok(toProfile(rescheduleResult.value));
+    },
+
+    async complete(id, callerRole, callerUserId, callerTenantId, correlationId) {
       if (callerRole === "USER") {
         return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
       }
@@ -391,18 +1172,23 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         callerRole,
         callerUserId,
         callerTenantId,
+        null,
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
-      const updateResult = await repository.updateStatus(id, "COMPLETED", {
-        completedAt: new Date(),
-      });
+      const updateResult = await repository.updateStatus(
+        id,
+        "CONFIRMED",
+        "COMPLETED",
+        { userId: callerUserId, role: callerRole, correlationId },
+        { completedAt: new Date() },
+      );
       if (updateResult.isErr()) return R.fail(updateResult.error);
 
       return R.ok(toProfile(updateResult.value));
     },
 
-    async noShow(id, callerRole, callerUserId, callerTenantId) {
+    async noShow(id, callerRole, callerUserId, callerTenantId, correlationId) {
       if (callerRole === "USER") {
         return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
       }
@@ -427,10 +1213,15 @@ export function createAppointmentService(repository: IAppointmentRepository): IA
         callerRole,
         callerUserId,
         callerTenantId,
+        null,
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
-      const updateResult = await repository.updateStatus(id, "NO_SHOW");
+      const updateResult = await repository.updateStatus(id, "CONFIRMED", "NO_SHOW", {
+        userId: callerUserId,
+        role: callerRole,
+        correlationId,
+      });
       if (updateResult.isErr()) return R.fail(updateResult.error);
 
       return R.ok(toProfile(updateResult.value));
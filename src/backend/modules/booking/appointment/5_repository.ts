@@ -1,17 +1,38 @@
-import { and, count, desc, eq, gte, inArray, lte, sql } from "drizzle-orm";
+import { and, asc, count, desc, eq, gt, gte, inArray, lt, lte, sql } from "drizzle-orm";
 import type { Container } from "../../../core/container/container.js";
 import { endOfDayUtcFromYmd, startOfDayUtcFromYmd } from "../../../core/date/date.utils.js";
-import type { Result } from "../../../core/result/result.js";
+import type { AppError, Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
 import {
+  type DomainEventType,
+  type DomainEvents,
+  toAppointmentEventPayload,
+} from "../../../shared/events.js";
+import {
+  appointmentEvents,
+  appointmentReschedules,
+  appointmentSeries,
+  appointmentSlots,
   appointments,
   businesses,
+  customerStandings,
   operatorServices,
   operators,
+  outboxEvents,
   scheduleSlots,
   services,
+  slotHolds,
+  users,
+  waitlistEntries,
+  waitlistOffers,
 } from "../../../shared/schemas/index.js";
-import type { AppointmentRow } from "./types/models/models.js";
+import type {
+  AppointmentActor,
+  AppointmentEventRow,
+  AppointmentRow,
+  AppointmentSeriesRow,
+  SlotReservation,
+} from "./types/models/models.js";
 
 export interface IAppointmentRepository {
   findById(id: string): Promise<Result<AppointmentRow | null>>;
@@ -26,14 +47,26 @@ export interface IAppointmentRepository {
     businessId?: string;
     userId?: string;
     tenantId?: string;
+    cancellationActor?: AppointmentRow["cancellationActor"];
+    cancellationReasonCode?: AppointmentRow["cancellationReasonCode"];
   }): Promise<Result<{ data: AppointmentRow[]; total: number }>>;
 
+  /**
+   * Transiciona de `expectedStatus` para `status` — CONFLICT se, travado o agendamento, o status
+   * já não for o esperado (ex: cancelado em paralelo). NO_SHOW também é registrado na situação
+   * do cliente no business.
+   */
   updateStatus(
     id: string,
+    expectedStatus: AppointmentRow["status"],
     status: AppointmentRow["status"],
+    actor: AppointmentActor,
     extra?: { cancelledAt?: Date; completedAt?: Date; notes?: string | null },
   ): Promise<Result<AppointmentRow>>;
 
+  /** Histórico de transições do agendamento, da mais antiga para a mais recente */
+  findHistory(appointmentId: string): Promise<Result<AppointmentEventRow[]>>;
+
   findSlotById(slotId: string): Promise<
     Result<{
       id: string;
@@ -45,9 +78,16 @@ export interface IAppointmentRepository {
     } | null>
   >;
 
-  findOperatorById(
-    operatorId: string,
-  ): Promise<Result<{ id: string; userId: string; businessId: string; tenantId: string } | null>>;
+  findOperatorById(operatorId: string): Promise<
+    Result<{
+      id: string;
+      userId: string;
+      businessId: string;
+      tenantId: string;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+    } | null>
+  >;
 
   findOperatorByUserId(
     userId: string,
@@ -59,6 +99,8 @@ export interface IAppointmentRepository {
       businessId: string;
       durationMinutes: number;
       priceCents: number;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
       active: boolean;
     } | null>
   >;
@@ -75,28 +117,403 @@ export interface IAppointmentRepository {
     } | null>
   >;
 
-  findBusinessById(
+  findBusinessById(businessId: string): Promise<
+    Result<{
+      id: string;
+      tenantId: string;
+      timezone: string;
+      minBookingLeadMinutes: number;
+      minCancelNoticeMinutes: number;
+      maxBookingWindowDays: number | null;
+      maxActiveAppointmentsPerCustomer: number | null;
+      lateCancellationWindowMinutes: number;
+    } | null>
+  >;
+
+  /** Situação do cliente no business (null se nunca teve incidentes) */
+  findStanding(
+    userId: string,
     businessId: string,
-  ): Promise<Result<{ id: string; tenantId: string; timezone: string } | null>>;
+  ): Promise<Result<{ status: "GOOD" | "RESTRICTED" | "BLOCKED" } | null>>;
+
+  findHeldSlotIds(appointmentId: string, legacySlotId: string | null): Promise<Result<string[]>>;
 
+  /** Reserva temporária de slot pelo token (null se não existir) */
+  findHoldByToken(token: string): Promise<
+    Result<{
+      id: string;
+      slotId: string;
+      slotIds: string[];
+      userId: string;
+      status: "ACTIVE" | "CONVERTED" | "EXPIRED";
+      expiresAt: Date;
+    } | null>
+  >;
+
+  /** Slots ativos do operador na data, ordenados por horário */
+  findDaySlots(
+    operatorId: string,
+    date: string,
+  ): Promise<Result<{ id: string; startTime: string; endTime: string; status: string }[]>>;
+
+  /** Slot ativo do operador que começa exatamente no horário informado */
+  findSlotAt(
+    operatorId: string,
+    date: string,
+    startTime: string,
+  ): Promise<
+    Result<{
+      id: string;
+      operatorId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+      status: string;
+    } | null>
+  >;
+
+  /**
+   * Cria o agendamento reservando os slots. Com `reservation`, os slots reservados devem estar
+   * HELD e a reserva é encerrada na mesma transação (falha se já tiver expirado): a reserva
+   * temporária vira CONVERTED; a oferta da lista de espera vira CLAIMED, a inscrição FULFILLED
+   * e os slots da oferta fora do agendamento voltam a AVAILABLE. Com
+   * `maxActive`, recusa (BUSINESS_RULE_VIOLATION) se o cliente já tiver esse número de
+   * agendamentos PENDING/CONFIRMED no business — contados sob trava, na mesma transação.
+   */
   createWithSlotBooking(
     data: Omit<
       AppointmentRow,
-      "id" | "status" | "cancelledAt" | "completedAt" | "createdAt" | "updatedAt"
+      | "id"
+      | "slotId"
+      | "status"
+      | "cancelledAt"
+      | "cancelledBy"
+      | "cancellationActor"
+      | "cancellationReasonCode"
+      | "cancellationReason"
+      | "completedAt"
+      | "createdAt"
+      | "updatedAt"
     >,
-    slotId: string,
+    slotIds: string[],
+    maxActive: number | null,
+    actor: AppointmentActor,
+    reservation?: SlotReservation,
   ): Promise<Result<AppointmentRow>>;
 
+  /**
+   * Com `lateCancellation`, o cancelamento conta como incidente na situação do cliente.
+   * CONFLICT se, travado o agendamento, ele já não estiver PENDING/CONFIRMED.
+   */
   cancelWithSlotRelease(
     id: string,
-    extra: { cancelledAt: Date; notes: string | null },
+    extra: Pick<
+      AppointmentRow,
+      "cancelledBy" | "cancellationActor" | "cancellationReasonCode" | "cancellationReason"
+    > & { cancelledAt: Date; lateCancellation: boolean },
     slotId: string | null,
+    actor: AppointmentActor,
+  ): Promise<Result<AppointmentRow>>;
+
+  createSeries(
+    data: Omit<AppointmentSeriesRow, "id" | "cancelledAt" | "createdAt" | "updatedAt">,
+  ): Promise<Result<AppointmentSeriesRow>>;
+
+  /** Remove uma série que terminou sem nenhuma ocorrência agendada */
+  deleteSeries(id: string): Promise<Result<void>>;
+
+  /** Ocorrências PENDING/CONFIRMED da série a partir do horário informado */
+  findActiveSeriesOccurrences(seriesId: string, from: Date): Promise<Result<AppointmentRow[]>>;
+
+  /**
+   * Cancela as ocorrências informadas (liberando seus slots) e marca a série como cancelada
+   * em uma única transação. Ocorrências que deixaram de estar ativas no meio do caminho são
+   * ignoradas; retorna as canceladas.
+   */
+  cancelSeriesWithSlotRelease(
+    seriesId: string,
+    occurrences: { id: string; slotId: string | null; lateCancellation: boolean }[],
+    extra: Pick<
+      AppointmentRow,
+      "cancelledBy" | "cancellationActor" | "cancellationReasonCode" | "cancellationReason"
+    > & { cancelledAt: Date },
+    actor: AppointmentActor,
+  ): Promise<Result<AppointmentRow[]>>;
+
+  /**
+   * Move o agendamento para os novos slots (e operador), gravando a duração e o preço
+   * resolvidos para o destino
+   */
+  rescheduleWithSlotSwap(
+    id: string,
+    data: {
+      toSlotIds: string[];
+      toOperatorId: string;
+      scheduledAt: Date;
+      durationMinutes: number;
+      priceCents: number;
+      reason: string | null;
+    },
+    actor: AppointmentActor,
   ): Promise<Result<AppointmentRow>>;
 }
 
+type Transaction = Parameters<Parameters<Container["db"]["transaction"]>[0]>[0];
+
+/** Falha de createWithSlotBooking quando a reserva expirou ou algum slot foi ocupado */
+const SLOT_UNAVAILABLE: AppError = { code: "CONFLICT", message: "Slot não está disponível" };
+
+/** Evento publicado para cada status alcançado via updateStatus */
+const STATUS_EVENTS: Partial<Record<AppointmentRow["status"], DomainEventType>> = {
+  CONFIRMED: "appointment.confirmed",
+  CANCELLED: "appointment.cancelled",
+  COMPLETED: "appointment.completed",
+  NO_SHOW: "appointment.no_show",
+};
+
+/** Transição registrada no histórico para cada status alcançado via updateStatus */
+const STATUS_HISTORY: Partial<Record<AppointmentRow["status"], AppointmentEventRow["type"]>> = {
+  CONFIRMED: "CONFIRMED",
+  CANCELLED: "CANCELLED",
+  COMPLETED: "COMPLETED",
+  NO_SHOW: "NO_SHOW",
+};
+
 export function createAppointmentRepository(container: Container): IAppointmentRepository {
   const { db } = container;
 
+  /** Grava o evento no outbox dentro da transação da mudança de estado */
+  async function writeEvent<K extends DomainEventType>(
+    tx: Transaction,
+    type: K,
+    appointmentId: string,
+    payload: DomainEvents[K],
+  ): Promise<void> {
+    await tx.insert(outboxEvents).values({
+      aggregateType: "appointment",
+      aggregateId: appointmentId,
+      eventType: type,
+      payload,
+    });
+  }
+
+  /** Grava a transição no histórico do agendamento dentro da mesma transação */
+  async function writeHistory(
+    tx: Transaction,
+    entry: {
+      appointmentId: string;
+      type: AppointmentEventRow["type"];
+      fromStatus: AppointmentRow["status"] | null;
+      toStatus: AppointmentRow["status"];
+      reason?: string | null;
+      metadata?: Record<string, unknown>;
+    },
+    actor: AppointmentActor,
+  ): Promise<void> {
+    await tx.insert(appointmentEvents).values({
+      appointmentId: entry.appointmentId,
+      type: entry.type,
+      fromStatus: entry.fromStatus,
+      toStatus: entry.toStatus,
+      actorUserId: actor.userId,
+      actorRole: actor.role,
+      reason: entry.reason ?? null,
+      correlationId: actor.correlationId,
+      metadata: entry.metadata ?? null,
+    });
+  }
+
+  /** Trava o agendamento (FOR UPDATE) e retorna o status anterior à transição */
+  async function lockStatus(tx: Transaction, id: string): Promise<AppointmentRow["status"]> {
+    const rows = await tx
+      .select({ status: appointments.status })
+      .from(appointments)
+      .where(eq(appointments.id, id))
+      .for("update")
+      .limit(1);
+    if (!rows[0]) throw new Error("Agendamento não encontrado");
+    return rows[0].status;
+  }
+
+  /**
+   * Trava os slots (FOR UPDATE) e marca todos como BOOKED.
+   * Retorna false sem alterar nada se algum não estiver AVAILABLE — exceto `heldSlotIds`,
+   * que devem estar HELD pela reserva sendo convertida.
+   */
+  async function bookSlots(
+    tx: Transaction,
+    slotIds: string[],
+    heldSlotIds: string[],
+  ): Promise<boolean> {
+    const locked = await tx
+      .select({ id: scheduleSlots.id, status: scheduleSlots.status })
+      .from(scheduleSlots)
+      .where(and(inArray(scheduleSlots.id, slotIds), eq(scheduleSlots.active, true)))
+      .for("update");
+
+    if (
+      locked.length !== slotIds.length ||
+      locked.some((s) => s.status !== (heldSlotIds.includes(s.id) ? "HELD" : "AVAILABLE"))
+    ) {
+      return false;
+    }
+
+    await tx
+      .update(scheduleSlots)
+      .set({ status: "BOOKED" as const, updatedAt: sql`now()` })
+      .where(inArray(scheduleSlots.id, slotIds));
+    return true;
+  }
+
+  /** Slots ocupados pelo agendamento (appointment_slots + appointments.slotId legado) */
+  async function findHeldSlotIds(
+    executor: Transaction | Container["db"],
+    appointmentId: string,
+    legacySlotId: string | null,
+  ): Promise<string[]> {
+    const linked = await executor
+      .select({ slotId: appointmentSlots.slotId })
+      .from(appointmentSlots)
+      .where(eq(appointmentSlots.appointmentId, appointmentId));
+
+    const slotIds = new Set(linked.map((l) => l.slotId));
+    if (legacySlotId) slotIds.add(legacySlotId);
+    return [...slotIds];
+  }
+
+  /**
+   * Soma um no-show ou cancelamento tardio à situação do cliente no business e aplica os
+   * limites configurados. O status só piora aqui — volta a GOOD apenas quando a equipe limpa.
+   */
+  async function recordIncident(
+    tx: Transaction,
+    appointment: { businessId: string; userId: string },
+    kind: "NO_SHOW" | "LATE_CANCELLATION",
+  ): Promise<void> {
+    const isNoShow = kind === "NO_SHOW";
+    const standings = await tx
+      .insert(customerStandings)
+      .values({
+        businessId: appointment.businessId,
+        userId: appointment.userId,
+        noShowCount: isNoShow ? 1 : 0,
+        lateCancellationCount: isNoShow ? 0 : 1,
+        lastIncidentAt: sql`now()`,
+      })
+      .onConflictDoUpdate({
+        target: [customerStandings.businessId, customerStandings.userId],
+        set: {
+          ...(isNoShow
+            ? { noShowCount: sql`${customerStandings.noShowCount} + 1` }
+            : { lateCancellationCount: sql`${customerStandings.lateCancellationCount} + 1` }),
+          lastIncidentAt: sql`now()`,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning();
+    const standing = standings[0];
+    if (!standing) throw new Error("Upsert não retornou registro");
+
+    const thresholds = await tx
+      .select({
+        restrictAfterIncidents: businesses.restrictAfterIncidents,
+        blockAfterIncidents: businesses.blockAfterIncidents,
+      })
+      .from(businesses)
+      .where(eq(businesses.id, appointment.businessId))
+      .limit(1);
+    const { restrictAfterIncidents, blockAfterIncidents } = thresholds[0] ?? {};
+
+    const incidents = standing.noShowCount + standing.lateCancellationCount;
+    let status = standing.status;
+    if (blockAfterIncidents != null && incidents >= blockAfterIncidents) {
+      status = "BLOCKED";
+    } else if (
+      status === "GOOD" &&
+      restrictAfterIncidents != null &&
+      incidents >= restrictAfterIncidents
+    ) {
+      status = "RESTRICTED";
+    }
+
+    if (status !== standing.status) {
+      await tx
+        .update(customerStandings)
+        .set({ status, updatedAt: sql`now()` })
+        .where(eq(customerStandings.id, standing.id));
+    }
+  }
+
+  /** Libera de volta para AVAILABLE todos os slots vinculados ao agendamento */
+  async function releaseSlots(
+    tx: Transaction,
+    appointmentId: string,
+    legacySlotId: string | null,
+  ): Promise<void> {
+    const slotIds = await findHeldSlotIds(tx, appointmentId, legacySlotId);
+    if (slotIds.length === 0) return;
+
+    await tx
+      .update(scheduleSlots)
+      .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
+      .where(and(inArray(scheduleSlots.id, slotIds), eq(scheduleSlots.status, "BOOKED")));
+  }
+
+  /** Cancela o agendamento já travado, libera seus slots e registra histórico e evento */
+  async function cancelInTx(
+    tx: Transaction,
+    id: string,
+    fromStatus: AppointmentRow["status"],
+    extra: Pick<
+      AppointmentRow,
+      "cancelledBy" | "cancellationActor" | "cancellationReasonCode" | "cancellationReason"
+    > & { cancelledAt: Date; lateCancellation: boolean },
+    slotId: string | null,
+    actor: AppointmentActor,
+  ): Promise<AppointmentRow> {
+    // Cancela o appointment
+    const rows = await tx
+      .update(appointments)
+      .set({
+        status: "CANCELLED" as const,
+        updatedAt: sql`now()`,
+        cancelledAt: extra.cancelledAt,
+        cancelledBy: extra.cancelledBy,
+        cancellationActor: extra.cancellationActor,
+        cancellationReasonCode: extra.cancellationReasonCode,
+        cancellationReason: extra.cancellationReason,
+      })
+      .where(eq(appointments.id, id))
+      .returning();
+    if (!rows[0]) throw new Error("Update não retornou registro");
+
+    // Libera todos os slots do appointment de volta para AVAILABLE
+    await releaseSlots(tx, id, slotId);
+
+    if (extra.lateCancellation) await recordIncident(tx, rows[0], "LATE_CANCELLATION");
+
+    await writeHistory(
+      tx,
+      {
+        appointmentId: id,
+        type: "CANCELLED",
+        fromStatus,
+        toStatus: "CANCELLED",
+        reason: extra.cancellationReason,
+        metadata: {
+          cancellationActor: extra.cancellationActor,
+          cancellationReasonCode: extra.cancellationReasonCode,
+          lateCancellation: extra.lateCancellation,
+        },
+      },
+      actor,
+    );
+
+    await writeEvent(tx, "appointment.cancelled", id, toAppointmentEventPayload(rows[0]));
+
+    return rows[0];
+  }
+
   return {
     async findById(id) {
       return R.fromAsync(async () => {
@@ -121,6 +538,12 @@ export function createAppointmentRepository(container: Container): IAppointmentR
         if (params.status) {
           conditions.push(eq(appointments.status, params.status as AppointmentRow["status"]));
         }
+        if (params.cancellationActor) {
+          conditions.push(eq(appointments.cancellationActor, params.cancellationActor));
+        }
+        if (params.cancellationReasonCode) {
+          conditions.push(eq(appointments.cancellationReasonCode, params.cancellationReasonCode));
+        }
         if (params.dateFrom) {
           conditions.push(gte(appointments.scheduledAt, startOfDayUtcFromYmd(params.dateFrom)));
         }
@@ -157,21 +580,60 @@ export function createAppointmentRepository(container: Container): IAppointmentR
       }, "DB_QUERY_FAILED");
     },
 
-    async updateStatus(id, status, extra) {
+    async updateStatus(id, expectedStatus, status, actor, extra) {
+      const result = await R.fromAsync(async () => {
+        return db.transaction(async (tx): Promise<AppointmentRow | null> => {
+          // Revalida sob a trava — a checagem do service pode ter sido ultrapassada
+          const fromStatus = await lockStatus(tx, id);
+          if (fromStatus !== expectedStatus) return null;
+
+          const rows = await tx
+            .update(appointments)
+            .set({
+              status,
+              updatedAt: sql`now()`,
+              ...(extra?.cancelledAt ? { cancelledAt: extra.cancelledAt } : {}),
+              ...(extra?.completedAt ? { completedAt: extra.completedAt } : {}),
+              ...(extra?.notes !== undefined ? { notes: extra.notes } : {}),
+            })
+            .where(eq(appointments.id, id))
+            .returning();
+          if (!rows[0]) throw new Error("Update não retornou registro");
+
+          if (status === "NO_SHOW") await recordIncident(tx, rows[0], "NO_SHOW");
+
+          const historyType = STATUS_HISTORY[status];
+          if (historyType) {
+            await writeHistory(
+              tx,
+              { appointmentId: id, type: historyType, fromStatus, toStatus: status },
+              actor,
+            );
+          }
+
+          const eventType = STATUS_EVENTS[status];
+          if (eventType) {
+            await writeEvent(tx, eventType, id, toAppointmentEventPayload(rows[0]));
+          }
+
+          return rows[0];
+        });
+      }, "DB_QUERY_FAILED");
+
+      if (result.isErr()) return R.fail(result.error);
+      if (!result.value) {
+        return R.fail({ code: "CONFLICT", message: "Status do agendamento foi alterado" });
+      }
+      return R.ok(result.value);
+    },
+
+    async findHistory(appointmentId) {
       return R.fromAsync(async () => {
-        const rows = await db
-          .update(appointments)
-          .set({
-            status,
-            updatedAt: sql`now()`,
-            ...(extra?.cancelledAt ? { cancelledAt: extra.cancelledAt } : {}),
-            ...(extra?.completedAt ? { completedAt: extra.completedAt } : {}),
-            ...(extra?.notes !== undefined ? { notes: extra.notes } : {}),
-          })
-          .where(eq(appointments.id, id))
-          .returning();
-        if (!rows[0]) throw new Error("Update não retornou registro");
-        return rows[0];
+        return db
+          .select()
+          .from(appointmentEvents)
+          .where(eq(appointmentEvents.appointmentId, appointmentId))
+          .orderBy(asc(appointmentEvents.createdAt));
       }, "DB_QUERY_FAILED");
     },
 
@@ -201,6 +663,8 @@ export function createAppointmentRepository(container: Container): IAppointmentR
             userId: operators.userId,
             businessId: operators.businessId,
             tenantId: operators.tenantId,
+            bufferBeforeMinutes: operators.bufferBeforeMinutes,
+            bufferAfterMinutes: operators.bufferAfterMinutes,
           })
           .from(operators)
           .where(and(eq(operators.id, operatorId), eq(operators.active, true)))
@@ -233,6 +697,8 @@ export function createAppointmentRepository(container: Container): IAppointmentR
             businessId: services.businessId,
             durationMinutes: services.durationMinutes,
             priceCents: services.priceCents,
+            bufferBeforeMinutes: services.bufferBeforeMinutes,
+            bufferAfterMinutes: services.bufferAfterMinutes,
             active: services.active,
           })
           .from(services)
@@ -270,6 +736,11 @@ export function createAppointmentRepository(container: Container): IAppointmentR
             id: businesses.id,
             tenantId: businesses.tenantId,
             timezone: businesses.timezone,
+            minBookingLeadMinutes: businesses.minBookingLeadMinutes,
+            minCancelNoticeMinutes: businesses.minCancelNoticeMinutes,
+            maxBookingWindowDays: businesses.maxBookingWindowDays,
+            maxActiveAppointmentsPerCustomer: businesses.maxActiveAppointmentsPerCustomer,
+            lateCancellationWindowMinutes: businesses.lateCancellationWindowMinutes,
           })
           .from(businesses)
           .where(eq(businesses.id, businessId))
@@ -278,21 +749,164 @@ export function createAppointmentRepository(container: Container): IAppointmentR
       }, "DB_QUERY_FAILED");
     },
 
-    async createWithSlotBooking(data, slotId) {
+    async findStanding(userId, businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ status: customerStandings.status })
+          .from(customerStandings)
+          .where(
+            and(eq(customerStandings.userId, userId), eq(customerStandings.businessId, businessId)),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findHeldSlotIds(appointmentId, legacySlotId) {
+      return R.fromAsync(() => findHeldSlotIds(db, appointmentId, legacySlotId), "DB_QUERY_FAILED");
+    },
+
+    async findHoldByToken(token) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: slotHolds.id,
+            slotId: slotHolds.slotId,
+            slotIds: slotHolds.slotIds,
+            userId: slotHolds.userId,
+            status: slotHolds.status,
+            expiresAt: slotHolds.expiresAt,
+          })
+          .from(slotHolds)
+          .where(eq(slotHolds.token, token))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findDaySlots(operatorId, date) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            id: scheduleSlots.id,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            status: scheduleSlots.status,
+          })
+          .from(scheduleSlots)
+          .where(
+            and(
+              eq(scheduleSlots.operatorId, operatorId),
+              eq(scheduleSlots.date, date),
+              eq(scheduleSlots.active, true),
+            ),
+          )
+          .orderBy(asc(scheduleSlots.startTime));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findSlotAt(operatorId, date, startTime) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: scheduleSlots.id,
+            operatorId: scheduleSlots.operatorId,
+            date: scheduleSlots.date,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            status: scheduleSlots.status,
+          })
+          .from(scheduleSlots)
+          .where(
+            and(
+              eq(scheduleSlots.operatorId, operatorId),
+              eq(scheduleSlots.date, date),
+              eq(scheduleSlots.startTime, startTime),
+              eq(scheduleSlots.active, true),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createWithSlotBooking(data, slotIds, maxActive, actor, reservation) {
       const result = await R.fromAsync(async () => {
-        return db.transaction(async (tx) => {
-          // Atualiza slot para BOOKED apenas se ainda estiver AVAILABLE (lock otimista)
-          const slotUpdate = await tx
-            .update(scheduleSlots)
-            .set({ status: "BOOKED" as const, updatedAt: sql`now()` })
-            .where(and(eq(scheduleSlots.id, slotId), eq(scheduleSlots.status, "AVAILABLE")))
-            .returning({ id: scheduleSlots.id });
-
-          if (slotUpdate.length === 0) {
-            return null; // Slot não está mais disponível
+        return db.transaction(async (tx): Promise<AppointmentRow | AppError> => {
+          // Limite de agendamentos ativos: trava o cliente para serializar agendamentos paralelos
+          if (maxActive !== null) {
+            await tx
+              .select({ id: users.id })
+              .from(users)
+              .where(eq(users.id, data.userId))
+              .for("update");
+            const active = await tx
+              .select({ total: count() })
+              .from(appointments)
+              .where(
+                and(
+                  eq(appointments.userId, data.userId),
+                  eq(appointments.businessId, data.businessId),
+                  inArray(appointments.status, ["PENDING", "CONFIRMED"]),
+                ),
+              );
+            if ((active[0]?.total ?? 0) >= maxActive) {
+              return {
+                code: "BUSINESS_RULE_VIOLATION",
+                message: `Limite de ${maxActive} agendamentos ativos por cliente atingido`,
+              };
+            }
+          }
+
+          // Trava a reserva antes dos slots e só converte se ainda estiver dentro do prazo
+          if (reservation?.type === "HOLD") {
+            const holds = await tx
+              .select({ id: slotHolds.id })
+              .from(slotHolds)
+              .where(
+                and(
+                  eq(slotHolds.id, reservation.id),
+                  eq(slotHolds.status, "ACTIVE"),
+                  sql`${slotHolds.expiresAt} > now()`,
+                ),
+              )
+              .for("update");
+            if (!holds[0]) return SLOT_UNAVAILABLE; // Reserva expirou
+          }
+          if (reservation?.type === "WAITLIST_OFFER") {
+            const offers = await tx
+              .select({ id: waitlistOffers.id })
+              .from(waitlistOffers)
+              .where(
+                and(
+                  eq(waitlistOffers.id, reservation.id),
+                  eq(waitlistOffers.status, "PENDING"),
+                  sql`${waitlistOffers.expiresAt} > now()`,
+                ),
+              )
+              .for("update");
+            if (!offers[0]) return { code: "CONFLICT", message: "Oferta expirada ou já utilizada" };
+
+            const entries = await tx
+              .select({ id: waitlistEntries.id })
+              .from(waitlistEntries)
+              .where(
+                and(
+                  eq(waitlistEntries.id, reservation.entryId),
+                  eq(waitlistEntries.status, "OFFERED"),
+                ),
+              )
+              .for("update");
+            if (!entries[0]) return { code: "CONFLICT", message: "Inscrição não está mais ativa" };
           }
 
-          // Cria o appointment
+          // Reserva todos os slots que cobrem a duração — ou nenhum
+          const heldSlotIds = (reservation?.slotIds ?? []).filter((id) => slotIds.includes(id));
+          if (!(await bookSlots(tx, slotIds, heldSlotIds))) {
+            return SLOT_UNAVAILABLE; // Algum slot não está mais disponível
+          }
+
+          // Cria o appointment (slotId aponta para o primeiro slot)
           const rows = await tx
             .insert(appointments)
             .values({
@@ -300,53 +914,283 @@ export function createAppointmentRepository(container: Container): IAppointmentR
               operatorId: data.operatorId,
               businessId: data.businessId,
               serviceId: data.serviceId,
-              slotId,
+              slotId: slotIds[0],
               scheduledAt: data.scheduledAt,
               durationMinutes: data.durationMinutes,
               priceCents: data.priceCents,
+              seriesId: data.seriesId,
               notes: data.notes,
+              depositRequired: data.depositRequired,
             })
             .returning();
           if (!rows[0]) throw new Error("Insert não retornou registro");
 
+          // Vincula os slots ao appointment
+          await tx
+            .insert(appointmentSlots)
+            .values(slotIds.map((slotId) => ({ appointmentId: rows[0].id, slotId })));
+
+          if (reservation?.type === "HOLD") {
+            await tx
+              .update(slotHolds)
+              .set({
+                status: "CONVERTED" as const,
+                appointmentId: rows[0].id,
+                updatedAt: sql`now()`,
+              })
+              .where(eq(slotHolds.id, reservation.id));
+          }
+          if (reservation?.type === "WAITLIST_OFFER") {
+            await tx
+              .update(waitlistOffers)
+              .set({ status: "CLAIMED" as const, appointmentId: rows[0].id, updatedAt: sql`now()` })
+              .where(eq(waitlistOffers.id, reservation.id));
+
+            await tx
+              .update(waitlistEntries)
+              .set({ status: "FULFILLED" as const, updatedAt: sql`now()` })
+              .where(eq(waitlistEntries.id, reservation.entryId));
+          }
+
+          // Slots reservados que o serviço agendado não usa voltam para a agenda
+          const unused = (reservation?.slotIds ?? []).filter((id) => !slotIds.includes(id));
+          if (unused.length > 0) {
+            await tx
+              .update(scheduleSlots)
+              .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
+              .where(and(inArray(scheduleSlots.id, unused), eq(scheduleSlots.status, "HELD")));
+          }
+
+          await writeHistory(
+            tx,
+            {
+              appointmentId: rows[0].id,
+              type: "CREATED",
+              fromStatus: null,
+              toStatus: rows[0].status,
+              ...(reservation?.type === "HOLD" ? { metadata: { holdId: reservation.id } } : {}),
+              ...(reservation?.type === "WAITLIST_OFFER"
+                ? { metadata: { waitlistOfferId: reservation.id } }
+                : {}),
+            },
+            actor,
+          );
+
+          await writeEvent(
+            tx,
+            "appointment.created",
+            rows[0].id,
+            toAppointmentEventPayload(rows[0]),
+          );
+
           return rows[0];
         });
       }, "DB_QUERY_FAILED");
 
+      if (result.isErr()) return R.fail(result.error);
+      if ("code" in result.value) return R.fail(result.value);
+      return R.ok(result.value);
+    },
+
+    async cancelWithSlotRelease(id, extra, slotId, actor) {
+      const result = await R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          // Revalida sob a trava — dois cancelamentos paralelos liberariam os slots duas vezes
+          const fromStatus = await lockStatus(tx, id);
+          if (fromStatus !== "PENDING" && fromStatus !== "CONFIRMED") return null;
+          return cancelInTx(tx, id, fromStatus, extra, slotId, actor);
+        });
+      }, "DB_QUERY_FAILED");
+
       if (result.isErr()) return R.fail(result.error);
       if (!result.value) {
-        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
+        return R.fail({ code: "CONFLICT", message: "Agendamento não está mais ativo" });
       }
       return R.ok(result.value);
     },
 
-    async cancelWithSlotRelease(id, extra, slotId) {
+    async createSeries(data) {
+      return R.fromAsync(async () => {
+        const rows = await db.insert(appointmentSeries).values(data).returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async deleteSeries(id) {
+      return R.fromAsync(async () => {
+        await db.delete(appointmentSeries).where(eq(appointmentSeries.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveSeriesOccurrences(seriesId, from) {
+      return R.fromAsync(async () => {
+        return db
+          .select()
+          .from(appointments)
+          .where(
+            and(
+              eq(appointments.seriesId, seriesId),
+              inArray(appointments.status, ["PENDING", "CONFIRMED"]),
+              gte(appointments.scheduledAt, from),
+            ),
+          )
+          .orderBy(asc(appointments.scheduledAt));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async cancelSeriesWithSlotRelease(seriesId, occurrences, extra, actor) {
       return R.fromAsync(async () => {
         return db.transaction(async (tx) => {
-          // Cancela o appointment
-          const rows = await tx
-            .update(appointments)
-            .set({
-              status: "CANCELLED" as const,
-              updatedAt: sql`now()`,
-              cancelledAt: extra.cancelledAt,
-              notes: extra.notes,
-            })
-            .where(eq(appointments.id, id))
-            .returning();
-          if (!rows[0]) throw new Error("Update não retornou registro");
+          const cancelled: AppointmentRow[] = [];
+          for (const occurrence of occurrences) {
+            const fromStatus = await lockStatus(tx, occurrence.id);
+            if (fromStatus !== "PENDING" && fromStatus !== "CONFIRMED") continue;
 
-          // Libera o slot de volta para AVAILABLE (se tiver slotId)
-          if (slotId) {
-            await tx
-              .update(scheduleSlots)
-              .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
-              .where(and(eq(scheduleSlots.id, slotId), eq(scheduleSlots.status, "BOOKED")));
+            cancelled.push(
+              await cancelInTx(
+                tx,
+                occurrence.id,
+                fromStatus,
+                { ...extra, lateCancellation: occurrence.lateCancellation },
+                occurrence.slotId,
+                actor,
+              ),
+            );
           }
 
-          return rows[0];
+          await tx
+            .update(appointmentSeries)
+            .set({ cancelledAt: extra.cancelledAt, updatedAt: sql`now()` })
+            .where(eq(appointmentSeries.id, seriesId));
+
+          return cancelled;
         });
       }, "DB_QUERY_FAILED");
     },
+
+    async rescheduleWithSlotSwap(id, data, actor) {
+      const result = await R.fromAsync(async () => {
+        return db.transaction(
+          async (tx): Promise<{ appointment: AppointmentRow } | { conflict: string }> => {
+            // Trava o agendamento e só remarca se ainda estiver ativo (evita corrida com cancelamento)
+            const previous = await tx
+              .select()
+              .from(appointments)
+              .where(
+                and(
+                  eq(appointments.id, id),
+                  inArray(appointments.status, ["PENDING", "CONFIRMED"]),
+                ),
+              )
+              .for("update")
+              .limit(1);
+            const current = previous[0];
+            if (!current) {
+              return { conflict: "Agendamento não está mais ativo" };
+            }
+
+            const heldIds = await findHeldSlotIds(tx, id, current.slotId);
+            const held = new Set(heldIds);
+
+            // Trava os novos slots: cada um deve estar AVAILABLE ou já pertencer a este agendamento
+            const locked = await tx
+              .select({ id: scheduleSlots.id, status: scheduleSlots.status })
+              .from(scheduleSlots)
+              .where(and(inArray(scheduleSlots.id, data.toSlotIds), eq(scheduleSlots.active, true)))
+              .for("update");
+            if (
+              locked.length !== data.toSlotIds.length ||
+              locked.some((s) => s.status !== "AVAILABLE" && !held.has(s.id))
+            ) {
+              return { conflict: "Slot não está disponível" };
+            }
+
+            // Libera os slots que saem e reserva os que entram
+            const toRelease = heldIds.filter((slotId) => !data.toSlotIds.includes(slotId));
+            const toBook = data.toSlotIds.filter((slotId) => !held.has(slotId));
+            if (toRelease.length > 0) {
+              await tx
+                .update(scheduleSlots)
+                .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
+                .where(
+                  and(inArray(scheduleSlots.id, toRelease), eq(scheduleSlots.status, "BOOKED")),
+                );
+            }
+            if (toBook.length > 0) {
+              await tx
+                .update(scheduleSlots)
+                .set({ status: "BOOKED" as const, updatedAt: sql`now()` })
+                .where(inArray(scheduleSlots.id, toBook));
+            }
+
+            // Move o agendamento (mantém createdAt e notas)
+            const rows = await tx
+              .update(appointments)
+              .set({
+                slotId: data.toSlotIds[0],
+                operatorId: data.toOperatorId,
+                scheduledAt: data.scheduledAt,
+                durationMinutes: data.durationMinutes,
+                priceCents: data.priceCents,
+                updatedAt: sql`now()`,
+              })
+              .where(eq(appointments.id, id))
+              .returning();
+            if (!rows[0]) throw new Error("Update não retornou registro");
+
+            await tx.delete(appointmentSlots).where(eq(appointmentSlots.appointmentId, id));
+            await tx
+              .insert(appointmentSlots)
+              .values(data.toSlotIds.map((slotId) => ({ appointmentId: id, slotId })));
+
+            // Registra a remarcação no histórico
+            await tx.insert(appointmentReschedules).values({
+              appointmentId: id,
+              fromSlotId: current.slotId,
+              toSlotId: data.toSlotIds[0],
+              fromOperatorId: current.operatorId,
+              toOperatorId: data.toOperatorId,
+              fromScheduledAt: current.scheduledAt,
+              toScheduledAt: data.scheduledAt,
+              rescheduledBy: actor.userId,
+              reason: data.reason,
+            });
+
+            await writeHistory(
+              tx,
+              {
+                appointmentId: id,
+                type: "RESCHEDULED",
+                fromStatus: current.status,
+                toStatus: rows[0].status,
+                reason: data.reason,
+                metadata: {
+                  fromScheduledAt: current.scheduledAt.toISOString(),
+                  toScheduledAt: data.scheduledAt.toISOString(),
+                  fromOperatorId: current.operatorId,
+                  toOperatorId: data.toOperatorId,
+                },
+              },
+              actor,
+            );
+
+            await writeEvent(tx, "appointment.rescheduled", id, {
+              ...toAppointmentEventPayload(rows[0]),
+              previousOperatorId: current.operatorId,
+              previousScheduledAt: current.scheduledAt.toISOString(),
+            });
+
+            return { appointment: rows[0] };
+          },
+        );
+      }, "DB_QUERY_FAILED");
+
+      if (result.isErr()) return R.fail(result.error);
+      if ("conflict" in result.value) {
+        return R.fail({ code: "CONFLICT", message: result.value.conflict });
+      }
+      return R.ok(result.value.appointment);
+    },
   };
 }
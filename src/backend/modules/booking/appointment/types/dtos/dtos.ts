@@ -5,6 +5,26 @@ export { errorResponseSchema } from "../../../../../shared/dtos.js";
 export { paginationSchema };
 
 const appointmentStatuses = ["PENDING", "CONFIRMED", "CANCELLED", "COMPLETED", "NO_SHOW"] as const;
+const appointmentEventTypes = [
+  "CREATED",
+  "CONFIRMED",
+  "RESCHEDULED",
+  "CANCELLED",
+  "COMPLETED",
+  "NO_SHOW",
+] as const;
+const roles = ["OWNER", "TENANT", "OPERATOR", "USER"] as const;
+const cancellationActors = ["CUSTOMER", "OPERATOR", "TENANT", "OWNER", "SYSTEM"] as const;
+const cancellationReasonCodes = [
+  "CUSTOMER_REQUEST",
+  "SCHEDULE_CONFLICT",
+  "ILLNESS",
+  "OPERATOR_UNAVAILABLE",
+  "BUSINESS_CLOSURE",
+  "DUPLICATE",
+  "OTHER",
+] as const;
+const seriesFrequencies = ["WEEKLY", "BIWEEKLY", "MONTHLY"] as const;
 
 /** Regex para validar formato YYYY-MM-DD */
 const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -30,8 +50,17 @@ export const appointmentProfileSchema = z.object({
   durationMinutes: z.number().int(),
   priceCents: z.number().int(),
   status: z.enum(appointmentStatuses),
+  /** Série recorrente da ocorrência (null para agendamento avulso) */
+  seriesId: z.string().uuid().nullable(),
   notes: z.string().nullable(),
+  /** Cliente estava RESTRICTED no business — depósito exigido antes da confirmação */
+  depositRequired: z.boolean(),
   cancelledAt: z.string().datetime().nullable(),
+  /** Usuário que cancelou (null se não cancelado ou cancelado pelo sistema) */
+  cancelledBy: z.string().uuid().nullable(),
+  cancellationActor: z.enum(cancellationActors).nullable(),
+  cancellationReasonCode: z.enum(cancellationReasonCodes).nullable(),
+  cancellationReason: z.string().nullable(),
   completedAt: z.string().datetime().nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -45,6 +74,8 @@ export const createAppointmentRequestSchema = z.object({
   slotId: z.string().uuid("slotId deve ser um UUID válido"),
   serviceId: z.string().uuid("serviceId deve ser um UUID válido"),
   notes: z.string().max(1000).optional(),
+  /** Token de POST /api/schedule/:id/hold — converte a reserva dos slots no agendamento */
+  holdToken: z.string().max(64).optional(),
 });
 export type CreateAppointmentRequest = z.infer<typeof createAppointmentRequestSchema>;
 
@@ -67,6 +98,8 @@ export const listAppointmentsQuerySchema = z.object({
     .optional(),
   operatorId: z.string().uuid().optional(),
   businessId: z.string().uuid().optional(),
+  cancellationActor: z.enum(cancellationActors).optional(),
+  cancellationReasonCode: z.enum(cancellationReasonCodes).optional(),
 });
 export type ListAppointmentsQuery = z.infer<typeof listAppointmentsQuerySchema>;
 
@@ -81,6 +114,111 @@ export type PaginatedAppointmentsResponse = z.infer<typeof paginatedAppointments
 
 /** PATCH /api/appointments/:id/cancel — Request Body */
 export const cancelAppointmentRequestSchema = z.object({
+  /** Motivo padronizado (padrão: CUSTOMER_REQUEST quando o próprio cliente cancela, senão OTHER) */
+  reasonCode: z.enum(cancellationReasonCodes).optional(),
+  /** Detalhes em texto livre */
   reason: z.string().max(1000).optional(),
+  /**
+   * OCCURRENCE (padrão) cancela só este agendamento; SERIES cancela também as demais
+   * ocorrências futuras da série recorrente
+   */
+  scope: z.enum(["OCCURRENCE", "SERIES"]).optional(),
 });
 export type CancelAppointmentRequest = z.infer<typeof cancelAppointmentRequestSchema>;
+
+// ========== APPOINTMENT SERIES ==========
+
+/** Máximo de ocorrências de uma série (um ano de agendamentos semanais) */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/** POST /api/appointments/series — Request Body */
+export const createAppointmentSeriesRequestSchema = z
+  .object({
+    /** Slot da primeira ocorrência — as demais usam o mesmo horário nas datas seguintes */
+    slotId: z.string().uuid("slotId deve ser um UUID válido"),
+    serviceId: z.string().uuid("serviceId deve ser um UUID válido"),
+    frequency: z.enum(seriesFrequencies),
+    /** Quantidade de ocorrências, incluindo a primeira */
+    occurrences: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    /** Última data possível (inclusiva) */
+    until: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida")
+      .optional(),
+    notes: z.string().max(1000).optional(),
+  })
+  .refine((data) => (data.occurrences === undefined) !== (data.until === undefined), {
+    message: "Informe occurrences ou until (apenas um)",
+    path: ["occurrences"],
+  });
+export type CreateAppointmentSeriesRequest = z.infer<typeof createAppointmentSeriesRequestSchema>;
+
+/** Série de agendamentos recorrentes */
+export const appointmentSeriesProfileSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  businessId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  frequency: z.enum(seriesFrequencies),
+  startDate: z.string(),
+  startTime: z.string(),
+  occurrences: z.number().int().nullable(),
+  untilDate: z.string().nullable(),
+  cancelledAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type AppointmentSeriesProfile = z.infer<typeof appointmentSeriesProfileSchema>;
+
+/** Ocorrência que não pôde ser agendada */
+export const skippedOccurrenceSchema = z.object({
+  date: z.string(),
+  code: z.string(),
+  reason: z.string(),
+});
+export type SkippedOccurrence = z.infer<typeof skippedOccurrenceSchema>;
+
+/** POST /api/appointments/series — Response Body */
+export const appointmentSeriesResponseSchema = z.object({
+  series: appointmentSeriesProfileSchema,
+  /** Ocorrências agendadas, em ordem cronológica */
+  appointments: z.array(appointmentProfileSchema),
+  /** Ocorrências sem slot livre ou barradas pelas políticas do business */
+  skipped: z.array(skippedOccurrenceSchema),
+});
+export type AppointmentSeriesResponse = z.infer<typeof appointmentSeriesResponseSchema>;
+
+// ========== RESCHEDULE APPOINTMENT ==========
+
+/** PATCH /api/appointments/:id/reschedule — Request Body */
+export const rescheduleAppointmentRequestSchema = z.object({
+  slotId: z.string().uuid("slotId deve ser um UUID válido"),
+  reason: z.string().max(1000).optional(),
+});
+export type RescheduleAppointmentRequest = z.infer<typeof rescheduleAppointmentRequestSchema>;
+
+// ========== HISTORY ==========
+
+/** Transição registrada no histórico do agendamento */
+export const appointmentEventProfileSchema = z.object({
+  id: z.string().uuid(),
+  type: z.enum(appointmentEventTypes),
+  fromStatus: z.enum(appointmentStatuses).nullable(),
+  toStatus: z.enum(appointmentStatuses),
+  /** null para ações do sistema */
+  actorUserId: z.string().uuid().nullable(),
+  actorRole: z.enum(roles).nullable(),
+  reason: z.string().nullable(),
+  correlationId: z.string().nullable(),
+  /** Ex: RESCHEDULED traz fromScheduledAt/toScheduledAt e fromOperatorId/toOperatorId */
+  metadata: z.record(z.unknown()).nullable(),
+  createdAt: z.string().datetime(),
+});
+export type AppointmentEventProfile = z.infer<typeof appointmentEventProfileSchema>;
+
+/** GET /api/appointments/:id/history — Response Body */
+export const appointmentHistoryResponseSchema = z.object({
+  data: z.array(appointmentEventProfileSchema),
+});
+export type AppointmentHistoryResponse = z.infer<typeof appointmentHistoryResponseSchema>;
@@ -1,3 +1,5 @@
+import type { Role } from "../../../../../core/session/session.guard.js";
+
 /** Row do appointments retornada pelo Drizzle */
 export type AppointmentRow = {
   id: string;
@@ -10,9 +12,71 @@ export type AppointmentRow = {
   durationMinutes: number;
   priceCents: number;
   status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+  seriesId: string | null;
   notes: string | null;
+  depositRequired: boolean;
   cancelledAt: Date | null;
+  cancelledBy: string | null;
+  cancellationActor: "CUSTOMER" | "OPERATOR" | "TENANT" | "OWNER" | "SYSTEM" | null;
+  cancellationReasonCode:
+    | "CUSTOMER_REQUEST"
+    | "SCHEDULE_CONFLICT"
+    | "ILLNESS"
+    | "OPERATOR_UNAVAILABLE"
+    | "BUSINESS_CLOSURE"
+    | "DUPLICATE"
+    | "OTHER"
+    | null;
+  cancellationReason: string | null;
   completedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 };
+
+/** Row do appointment_series retornada pelo Drizzle */
+export type AppointmentSeriesRow = {
+  id: string;
+  userId: string;
+  operatorId: string;
+  businessId: string;
+  serviceId: string;
+  frequency: "WEEKLY" | "BIWEEKLY" | "MONTHLY";
+  startDate: string;
+  startTime: string;
+  occurrences: number | null;
+  untilDate: string | null;
+  cancelledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Autor de uma transição do agendamento — gravado no histórico */
+export type AppointmentActor = {
+  userId: string;
+  role: Role;
+  /** Correlation ID do request (loggerMiddleware) */
+  correlationId: string | null;
+};
+
+/**
+ * Reserva convertida no agendamento: a reserva temporária do cliente (POST
+ * /api/schedule/:id/hold) ou a oferta da lista de espera. Os slots reservados estão HELD.
+ */
+export type SlotReservation =
+  | { type: "HOLD"; id: string; slotIds: string[] }
+  | { type: "WAITLIST_OFFER"; id: string; entryId: string; slotIds: string[] };
+
+/** Row do appointment_events retornada pelo Drizzle */
+export type AppointmentEventRow = {
+  id: string;
+  appointmentId: string;
+  type: "CREATED" | "CONFIRMED" | "RESCHEDULED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+  fromStatus: AppointmentRow["status"] | null;
+  toStatus: AppointmentRow["status"];
+  actorUserId: string | null;
+  actorRole: Role | null;
+  reason: string | null;
+  correlationId: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+};
@@ -1,13 +1,52 @@
 import { createRoute, z } from "@hono/zod-openapi";
 import {
+  availabilityExceptionProfileSchema,
   availabilityRuleProfileSchema,
+  createAvailabilityExceptionRequestSchema,
   createAvailabilityRuleRequestSchema,
   errorResponseSchema,
+  listAvailabilityExceptionsQuerySchema,
   listAvailabilityRulesQuerySchema,
   messageResponseSchema,
+  searchAvailabilityQuerySchema,
+  searchAvailabilityResponseSchema,
+  updateAvailabilityExceptionRequestSchema,
   updateAvailabilityRuleRequestSchema,
 } from "./types/dtos/dtos.js";
 
+// ========== SEARCH ==========
+
+export const searchAvailabilityRoute = createRoute({
+  method: "get",
+  path: "/search",
+  tags: ["Availability"],
+  summary: "Buscar próximos horários disponíveis",
+  description:
+    "Retorna os N horários mais cedo em que o serviço pode ser agendado no período, considerando todos os operadores que o oferecem (operator_services) ou apenas o operador informado. Leva em conta a duração efetiva do serviço com cada operador, os buffers, o fuso do business, o horário atual e as políticas de antecedência mínima e janela máxima do business. partOfDay filtra pelo horário local de início: MORNING (< 12h), AFTERNOON (12h–18h) ou EVENING (≥ 18h).",
+  security: [{ Bearer: [] }],
+  request: {
+    query: searchAvailabilityQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: searchAvailabilityResponseSchema } },
+      description: "Horários disponíveis, do mais cedo para o mais tarde",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business ou serviço não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
 // ========== CREATE ==========
 
 export const createAvailabilityRuleRoute = createRoute({
@@ -16,7 +55,7 @@ export const createAvailabilityRuleRoute = createRoute({
   tags: ["Availability"],
   summary: "Criar regra de disponibilidade",
   description:
-    "Cria uma regra de disponibilidade semanal para um operador. Não permite sobreposição de horários no mesmo dia.",
+    "Cria uma regra de disponibilidade semanal para um operador. Não permite sobreposição de horários no mesmo dia. Pausas (breaks) devem estar dentro do expediente e não se sobrepor — não geram slots.",
   security: [{ Bearer: [] }],
   request: {
     body: {
@@ -95,7 +134,7 @@ export const updateAvailabilityRuleRoute = createRoute({
   tags: ["Availability"],
   summary: "Atualizar regra de disponibilidade",
   description:
-    "Atualiza uma regra de disponibilidade. OPERATOR só edita as próprias regras; TENANT só edita regras do próprio tenant.",
+    "Atualiza uma regra de disponibilidade. Informar breaks substitui a lista de pausas. OPERATOR só edita as próprias regras; TENANT só edita regras do próprio tenant.",
   security: [{ Bearer: [] }],
   request: {
     params: z.object({ id: z.string().uuid() }),
@@ -164,3 +203,163 @@ export const deleteAvailabilityRuleRoute = createRoute({
     },
   },
 });
+
+// ========== EXCEPTIONS — CREATE ==========
+
+export const createAvailabilityExceptionRoute = createRoute({
+  method: "post",
+  path: "/exceptions",
+  tags: ["Availability"],
+  summary: "Criar exceção de disponibilidade",
+  description:
+    "Cria uma exceção para uma data específica: CLOSED (feriado, folga) ou CUSTOM_HOURS (horário especial que substitui as regras semanais do dia). Informe operatorId (exceção do operador) ou businessId (todos os operadores do business — apenas TENANT/OWNER).",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createAvailabilityExceptionRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: availabilityExceptionProfileSchema } },
+      description: "Exceção criada com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador ou business não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Já existe uma exceção ativa para esta data",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== EXCEPTIONS — LIST ==========
+
+export const listAvailabilityExceptionsRoute = createRoute({
+  method: "get",
+  path: "/exceptions",
+  tags: ["Availability"],
+  summary: "Listar exceções de disponibilidade",
+  description:
+    "Lista exceções por operatorId (inclui as do business do operador) ou por businessId (todas do business). Filtros opcionais por período e status.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listAvailabilityExceptionsQuerySchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "application/json": { schema: z.array(availabilityExceptionProfileSchema) },
+      },
+      description: "Lista de exceções de disponibilidade",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador ou business não encontrado",
+    },
+  },
+});
+
+// ========== EXCEPTIONS — UPDATE ==========
+
+export const updateAvailabilityExceptionRoute = createRoute({
+  method: "patch",
+  path: "/exceptions/{id}",
+  tags: ["Availability"],
+  summary: "Atualizar exceção de disponibilidade",
+  description:
+    "Atualiza data, tipo, horários ou motivo de uma exceção. Ao mudar para CLOSED os horários são removidos.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    body: {
+      content: { "application/json": { schema: updateAvailabilityExceptionRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: availabilityExceptionProfileSchema } },
+      description: "Exceção atualizada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Exceção não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Exceção inativa ou já existe outra na data",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== EXCEPTIONS — DELETE ==========
+
+export const deleteAvailabilityExceptionRoute = createRoute({
+  method: "delete",
+  path: "/exceptions/{id}",
+  tags: ["Availability"],
+  summary: "Desativar exceção de disponibilidade",
+  description: "Desativa uma exceção (soft delete). Slots já gerados não são alterados.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Exceção desativada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Exceção não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Exceção já está inativa",
+    },
+  },
+});
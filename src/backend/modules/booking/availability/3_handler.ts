@@ -1,10 +1,15 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { respondError } from "../../../core/error/error.handler.js";
-import { getSession, hasRole } from "../../../core/session/session.guard.js";
+import { getApiKeyScope, getSession, hasRole } from "../../../core/session/session.guard.js";
 import {
+  createAvailabilityExceptionRoute,
   createAvailabilityRuleRoute,
+  deleteAvailabilityExceptionRoute,
   deleteAvailabilityRuleRoute,
+  listAvailabilityExceptionsRoute,
   listAvailabilityRulesRoute,
+  searchAvailabilityRoute,
+  updateAvailabilityExceptionRoute,
   updateAvailabilityRuleRoute,
 } from "./2_api.js";
 import type { IAvailabilityService } from "./4_service.js";
@@ -16,6 +21,16 @@ export interface IAvailabilityHandler {
 export function createAvailabilityHandler(service: IAvailabilityService): IAvailabilityHandler {
   return {
     register(app: OpenAPIHono) {
+      // GET /search — Qualquer autenticado
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(searchAvailabilityRoute, async (c): Promise<any> => {
+        const query = c.req.valid("query");
+        const result = await service.search(query, getApiKeyScope(c));
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
       // POST / — TENANT, OWNER, OPERATOR
       // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
       app.openapi(createAvailabilityRuleRoute, async (c): Promise<any> => {
@@ -81,6 +96,88 @@ export function createAvailabilityHandler(service: IAvailabilityService): IAvail
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
       });
+
+      // POST /exceptions — TENANT, OWNER, OPERATOR (escopo business apenas TENANT/OWNER)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createAvailabilityExceptionRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.createException(
+          body,
+          session.role,
+          session.tenantId,
+          session.sub,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET /exceptions — TENANT, OWNER, OPERATOR
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listAvailabilityExceptionsRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.listExceptions(
+          query,
+          session.role,
+          session.tenantId,
+          session.sub,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // PATCH /exceptions/:id — TENANT, OWNER, OPERATOR
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(updateAvailabilityExceptionRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const body = c.req.valid("json");
+        const result = await service.updateException(
+          id,
+          body,
+          session.role,
+          session.tenantId,
+          session.sub,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /exceptions/:id — TENANT, OWNER, OPERATOR
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(deleteAvailabilityExceptionRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.deleteException(
+          id,
+          session.role,
+          session.tenantId,
+          session.sub,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
     },
   };
 }
@@ -1,14 +1,27 @@
+import { localToUtc, todayYmd } from "../../../core/date/date.utils.js";
 import type { Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
-import type { Role } from "../../../core/session/session.guard.js";
+import { type ApiKeyScope, type Role, isWithinScope } from "../../../core/session/session.guard.js";
+import { buildSlotChain, resolveBuffers } from "../../../shared/slot-chain.js";
 import type { IAvailabilityRepository } from "./5_repository.js";
 import type {
+  AvailabilityBreak,
+  AvailabilityExceptionProfile,
   AvailabilityRuleProfile,
+  CreateAvailabilityExceptionRequest,
   CreateAvailabilityRuleRequest,
+  ListAvailabilityExceptionsQuery,
   ListAvailabilityRulesQuery,
+  SearchAvailabilityQuery,
+  SearchAvailabilityResponse,
+  UpdateAvailabilityExceptionRequest,
   UpdateAvailabilityRuleRequest,
 } from "./types/dtos/dtos.js";
-import type { AvailabilityRuleRow } from "./types/models/models.js";
+import type {
+  AvailabilityExceptionRow,
+  AvailabilityRuleRow,
+  SearchSlotRow,
+} from "./types/models/models.js";
 
 export interface IAvailabilityService {
   create(
@@ -36,6 +49,74 @@ export interface IAvailabilityService {
     callerTenantId: string | null,
     callerUserId: string,
   ): Promise<Result<{ message: string }>>;
+  createException(
+    input: CreateAvailabilityExceptionRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<AvailabilityExceptionProfile>>;
+  listExceptions(
+    query: ListAvailabilityExceptionsQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<AvailabilityExceptionProfile[]>>;
+  updateException(
+    id: string,
+    input: UpdateAvailabilityExceptionRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<AvailabilityExceptionProfile>>;
+  deleteException(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<{ message: string }>>;
+  /** Próximos horários agendáveis do serviço entre todos os operadores que o oferecem */
+  search(
+    query: SearchAvailabilityQuery,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<SearchAvailabilityResponse>>;
+}
+
+function toExceptionProfile(row: AvailabilityExceptionRow): AvailabilityExceptionProfile {
+  return {
+    id: row.id,
+    businessId: row.businessId,
+    operatorId: row.operatorId,
+    date: row.date,
+    type: row.type,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    reason: row.reason,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Valida as pausas de uma regra: devem caber no expediente e não se sobrepor.
+ * Retorna a mensagem de erro ou null quando válidas.
+ */
+function validateBreaks(
+  breaks: AvailabilityBreak[],
+  startTime: string,
+  endTime: string,
+): string | null {
+  const sorted = [...breaks].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  for (const [i, br] of sorted.entries()) {
+    if (br.startTime < startTime || br.endTime > endTime) {
+      return `Intervalo ${br.startTime}-${br.endTime} fora do expediente ${startTime}-${endTime}`;
+    }
+    const prev = sorted[i - 1];
+    if (prev && br.startTime < prev.endTime) {
+      return `Intervalos ${prev.startTime}-${prev.endTime} e ${br.startTime}-${br.endTime} se sobrepõem`;
+    }
+  }
+  return null;
 }
 
 function toProfile(row: AvailabilityRuleRow): AvailabilityRuleProfile {
@@ -45,12 +126,24 @@ function toProfile(row: AvailabilityRuleRow): AvailabilityRuleProfile {
     dayOfWeek: row.dayOfWeek,
     startTime: row.startTime,
     endTime: row.endTime,
+    breaks: row.breaks,
     active: row.active,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
 }
 
+/** Verifica se o horário local HH:MM[:SS] cai no período do dia */
+function matchesPartOfDay(
+  time: string,
+  partOfDay: NonNullable<SearchAvailabilityQuery["partOfDay"]>,
+): boolean {
+  const hm = time.slice(0, 5);
+  if (partOfDay === "MORNING") return hm < "12:00";
+  if (partOfDay === "AFTERNOON") return hm >= "12:00" && hm < "18:00";
+  return hm >= "18:00";
+}
+
 export function createAvailabilityService(
   repository: IAvailabilityRepository,
 ): IAvailabilityService {
@@ -65,7 +158,7 @@ export function createAvailabilityService(
     callerRole: Role,
     callerTenantId: string | null,
     callerUserId: string,
-  ): Promise<Result<{ id: string; userId: string; tenantId: string }>> {
+  ): Promise<Result<{ id: string; userId: string; tenantId: string; businessId: string }>> {
     const operatorResult = await repository.findOperatorById(operatorId);
     if (operatorResult.isErr()) return R.fail(operatorResult.error);
     if (!operatorResult.value) {
@@ -85,6 +178,48 @@ export function createAvailabilityService(
     return R.ok(operator);
   }
 
+  /**
+   * Verifica acesso do caller ao business (exceções do business inteiro):
+   * - OWNER: acesso total
+   * - TENANT: business deve pertencer ao mesmo tenant
+   * - OPERATOR: sem acesso
+   */
+  async function checkBusinessAccess(
+    businessId: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<{ id: string; tenantId: string }>> {
+    if (callerRole !== "OWNER" && callerRole !== "TENANT") {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    const businessResult = await repository.findBusinessById(businessId);
+    if (businessResult.isErr()) return R.fail(businessResult.error);
+    if (!businessResult.value || !businessResult.value.active) {
+      return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+    }
+
+    if (callerRole === "TENANT" && callerTenantId !== businessResult.value.tenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    return R.ok(businessResult.value);
+  }
+
+  /** Verifica acesso a uma exceção existente conforme o escopo (operador ou business) */
+  async function checkExceptionAccess(
+    exception: AvailabilityExceptionRow,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<void>> {
+    const accessCheck = exception.operatorId
+      ? await checkOperatorAccess(exception.operatorId, callerRole, callerTenantId, callerUserId)
+      : await checkBusinessAccess(exception.businessId, callerRole, callerTenantId);
+    if (accessCheck.isErr()) return R.fail(accessCheck.error);
+    return R.ok(undefined);
+  }
+
   return {
     async create(input, callerRole, callerTenantId, callerUserId) {
       // Verifica acesso ao operador
@@ -96,6 +231,10 @@ export function createAvailabilityService(
       );
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
+      const breaks = input.breaks ?? [];
+      const breaksError = validateBreaks(breaks, input.startTime, input.endTime);
+      if (breaksError) return R.fail({ code: "VALIDATION_ERROR", message: breaksError });
+
       // Verifica overlap
       const overlapResult = await repository.findOverlapping(
         input.operatorId,
@@ -116,6 +255,7 @@ export function createAvailabilityService(
         dayOfWeek: input.dayOfWeek,
         startTime: input.startTime,
         endTime: input.endTime,
+        breaks,
       });
       if (createResult.isErr()) return R.fail(createResult.error);
 
@@ -163,8 +303,9 @@ export function createAvailabilityService(
 
       // Determina valores finais para verificação de overlap
       const finalDayOfWeek = input.dayOfWeek ?? rule.dayOfWeek;
-      const finalStartTime = input.startTime ?? rule.startTime;
-      const finalEndTime = input.endTime ?? rule.endTime;
+      // Postgres devolve time como HH:MM:SS — normaliza para HH:MM
+      const finalStartTime = input.startTime ?? rule.startTime.slice(0, 5);
+      const finalEndTime = input.endTime ?? rule.endTime.slice(0, 5);
 
       // Valida startTime < endTime quando um dos dois muda sem o outro
       if (finalStartTime >= finalEndTime) {
@@ -174,6 +315,10 @@ export function createAvailabilityService(
         });
       }
 
+      // Pausas existentes também precisam caber num expediente alterado
+      const breaksError = validateBreaks(input.breaks ?? rule.breaks, finalStartTime, finalEndTime);
+      if (breaksError) return R.fail({ code: "VALIDATION_ERROR", message: breaksError });
+
       // Verifica overlap (excluindo a própria regra)
       const overlapResult = await repository.findOverlapping(
         rule.operatorId,
@@ -224,5 +369,293 @@ export function createAvailabilityService(
 
       return R.ok({ message: "Regra de disponibilidade desativada com sucesso" });
     },
+
+    async createException(input, callerRole, callerTenantId, callerUserId) {
+      // Resolve o escopo: operador (business inferido) ou business inteiro
+      let businessId: string;
+      if (input.operatorId) {
+        const accessCheck = await checkOperatorAccess(
+          input.operatorId,
+          callerRole,
+          callerTenantId,
+          callerUserId,
+        );
+        if (accessCheck.isErr()) return R.fail(accessCheck.error);
+        businessId = accessCheck.value.businessId;
+      } else {
+        const accessCheck = await checkBusinessAccess(
+          input.businessId ?? "",
+          callerRole,
+          callerTenantId,
+        );
+        if (accessCheck.isErr()) return R.fail(accessCheck.error);
+        businessId = accessCheck.value.id;
+      }
+
+      // Uma exceção ativa por escopo e data
+      const existingResult = await repository.findActiveExceptionOnDate(
+        businessId,
+        input.operatorId ?? null,
+        input.date,
+      );
+      if (existingResult.isErr()) return R.fail(existingResult.error);
+      if (existingResult.value) {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Já existe uma exceção ativa para esta data",
+        });
+      }
+
+      const createResult = await repository.createException({
+        businessId,
+        operatorId: input.operatorId ?? null,
+        date: input.date,
+        type: input.type,
+        startTime: input.startTime ?? null,
+        endTime: input.endTime ?? null,
+        reason: input.reason ?? null,
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      return R.ok(toExceptionProfile(createResult.value));
+    },
+
+    async listExceptions(query, callerRole, callerTenantId, callerUserId) {
+      let businessId: string;
+      if (query.operatorId) {
+        const accessCheck = await checkOperatorAccess(
+          query.operatorId,
+          callerRole,
+          callerTenantId,
+          callerUserId,
+        );
+        if (accessCheck.isErr()) return R.fail(accessCheck.error);
+        businessId = accessCheck.value.businessId;
+      } else {
+        const accessCheck = await checkBusinessAccess(
+          query.businessId ?? "",
+          callerRole,
+          callerTenantId,
+        );
+        if (accessCheck.isErr()) return R.fail(accessCheck.error);
+        businessId = accessCheck.value.id;
+      }
+
+      const result = await repository.findExceptions({
+        businessId,
+        operatorId: query.operatorId,
+        dateFrom: query.dateFrom,
+        dateTo: query.dateTo,
+        active: query.active,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      return R.ok(result.value.map(toExceptionProfile));
+    },
+
+    async updateException(id, input, callerRole, callerTenantId, callerUserId) {
+      const findResult = await repository.findExceptionById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Exceção de disponibilidade não encontrada" });
+      }
+
+      const exception = findResult.value;
+
+      if (!exception.active) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "Exceção está inativa" });
+      }
+
+      const accessCheck = await checkExceptionAccess(
+        exception,
+        callerRole,
+        callerTenantId,
+        callerUserId,
+      );
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      // Determina valores finais para validar a combinação tipo × horários
+      const finalType = input.type ?? exception.type;
+      const finalStartTime =
+        finalType === "CLOSED" ? null : (input.startTime ?? exception.startTime);
+      const finalEndTime = finalType === "CLOSED" ? null : (input.endTime ?? exception.endTime);
+
+      if (finalType === "CUSTOM_HOURS") {
+        if (!finalStartTime || !finalEndTime || finalStartTime >= finalEndTime) {
+          return R.fail({
+            code: "VALIDATION_ERROR",
+            message: "CUSTOM_HOURS exige startTime anterior a endTime",
+          });
+        }
+      }
+
+      // Ao mudar a data, mantém uma exceção ativa por escopo e data
+      const finalDate = input.date ?? exception.date;
+      if (finalDate !== exception.date) {
+        const existingResult = await repository.findActiveExceptionOnDate(
+          exception.businessId,
+          exception.operatorId,
+          finalDate,
+          id,
+        );
+        if (existingResult.isErr()) return R.fail(existingResult.error);
+        if (existingResult.value) {
+          return R.fail({
+            code: "CONFLICT",
+            message: "Já existe uma exceção ativa para esta data",
+          });
+        }
+      }
+
+      const updateResult = await repository.updateException(id, {
+        date: finalDate,
+        type: finalType,
+        startTime: finalStartTime,
+        endTime: finalEndTime,
+        ...(input.reason !== undefined ? { reason: input.reason } : {}),
+      });
+      if (updateResult.isErr()) return R.fail(updateResult.error);
+
+      return R.ok(toExceptionProfile(updateResult.value));
+    },
+
+    async deleteException(id, callerRole, callerTenantId, callerUserId) {
+      const findResult = await repository.findExceptionById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Exceção de disponibilidade não encontrada" });
+      }
+
+      const exception = findResult.value;
+
+      const accessCheck = await checkExceptionAccess(
+        exception,
+        callerRole,
+        callerTenantId,
+        callerUserId,
+      );
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      if (!exception.active) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "Exceção já está inativa" });
+      }
+
+      const deleteResult = await repository.softDeleteException(id);
+      if (deleteResult.isErr()) return R.fail(deleteResult.error);
+
+      return R.ok({ message: "Exceção de disponibilidade desativada com sucesso" });
+    },
+
+    async search(query, callerScope) {
+      const businessResult = await repository.findBusinessById(query.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value || !businessResult.value.active) {
+        return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+      }
+
+      const business = businessResult.value;
+
+      if (!isWithinScope(callerScope, business)) {
+        return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+      }
+
+      const serviceResult = await repository.findServiceById(query.serviceId);
+      if (serviceResult.isErr()) return R.fail(serviceResult.error);
+      if (!serviceResult.value || serviceResult.value.businessId !== business.id) {
+        return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
+      }
+      if (!serviceResult.value.active) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+      }
+
+      const operatorsResult = await repository.findBookableOperators(
+        business.id,
+        query.serviceId,
+        query.operatorId,
+      );
+      if (operatorsResult.isErr()) return R.fail(operatorsResult.error);
+      if (query.operatorId && operatorsResult.value.length === 0) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Operador não oferece este serviço" });
+      }
+
+      // Datas passadas no fuso do business não têm horários agendáveis
+      const today = todayYmd(business.timezone);
+      const dateFrom = query.from < today ? today : query.from;
+      if (dateFrom > query.to) return R.ok({ data: [] });
+
+      const operatorsById = new Map(
+        operatorsResult.value.map((op) => [
+          op.operatorId,
+          {
+            ...op,
+            buffers: resolveBuffers(
+              {
+                bufferBeforeMinutes: op.operatorBufferBeforeMinutes,
+                bufferAfterMinutes: op.operatorBufferAfterMinutes,
+              },
+              {
+                bufferBeforeMinutes: op.serviceBufferBeforeMinutes,
+                bufferAfterMinutes: op.serviceBufferAfterMinutes,
+              },
+            ),
+          },
+        ]),
+      );
+      const slotsResult = await repository.findSlotsInRange(
+        [...operatorsById.keys()],
+        dateFrom,
+        query.to,
+      );
+      if (slotsResult.isErr()) return R.fail(slotsResult.error);
+
+      // Agrupa por operador e dia (a ordem por horário vem do repositório)
+      const days = new Map<string, SearchSlotRow[]>();
+      for (const slot of slotsResult.value) {
+        const key = `${slot.operatorId}:${slot.date}`;
+        const list = days.get(key);
+        if (list) list.push(slot);
+        else days.set(key, [slot]);
+      }
+
+      // Antecedência mínima e janela máxima do business limitam os horários oferecidos
+      const now = Date.now();
+      const earliest = now + business.minBookingLeadMinutes * 60_000;
+      const latest =
+        business.maxBookingWindowDays === null
+          ? Number.POSITIVE_INFINITY
+          : now + business.maxBookingWindowDays * 86_400_000;
+      const starts: (SearchAvailabilityResponse["data"][number] & { at: number })[] = [];
+      for (const daySlots of days.values()) {
+        for (const slot of daySlots) {
+          if (slot.status !== "AVAILABLE") continue;
+          if (query.partOfDay && !matchesPartOfDay(slot.startTime, query.partOfDay)) continue;
+
+          const scheduledAt = localToUtc(slot.date, slot.startTime, business.timezone);
+          const at = scheduledAt.getTime();
+          if (at <= now || at < earliest || at > latest) continue;
+
+          const op = operatorsById.get(slot.operatorId);
+          // Mesma regra de POST /api/appointments: duração e buffers cabem em slots livres
+          if (!op || "conflict" in buildSlotChain(daySlots, slot, op.durationMinutes, op.buffers)) {
+            continue;
+          }
+
+          starts.push({
+            slotId: slot.id,
+            operatorId: op.operatorId,
+            operatorName: op.displayName,
+            date: slot.date,
+            startTime: slot.startTime.slice(0, 5),
+            scheduledAt: scheduledAt.toISOString(),
+            durationMinutes: op.durationMinutes,
+            priceCents: op.priceCents,
+            at,
+          });
+        }
+      }
+
+      starts.sort((a, b) => a.at - b.at || a.operatorName.localeCompare(b.operatorName));
+      return R.ok({ data: starts.slice(0, query.limit).map(({ at: _at, ...start }) => start) });
+    },
   };
 }
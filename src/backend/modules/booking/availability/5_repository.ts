@@ -1,9 +1,22 @@
-import { and, eq, gt, lt, sql } from "drizzle-orm";
+import { and, asc, eq, gt, gte, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
 import type { Container } from "../../../core/container/container.js";
 import type { Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
-import { availabilityRules, operators } from "../../../shared/schemas/index.js";
-import type { AvailabilityRuleRow } from "./types/models/models.js";
+import {
+  availabilityExceptions,
+  availabilityRules,
+  businesses,
+  operatorServices,
+  operators,
+  scheduleSlots,
+  services,
+} from "../../../shared/schemas/index.js";
+import type {
+  AvailabilityExceptionRow,
+  AvailabilityRuleRow,
+  BookableOperatorRow,
+  SearchSlotRow,
+} from "./types/models/models.js";
 
 export interface IAvailabilityRepository {
   findById(id: string): Promise<Result<AvailabilityRuleRow | null>>;
@@ -25,7 +38,60 @@ export interface IAvailabilityRepository {
   softDelete(id: string): Promise<Result<void>>;
   findOperatorById(
     operatorId: string,
-  ): Promise<Result<{ id: string; userId: string; tenantId: string } | null>>;
+  ): Promise<Result<{ id: string; userId: string; tenantId: string; businessId: string } | null>>;
+  findBusinessById(businessId: string): Promise<
+    Result<{
+      id: string;
+      tenantId: string;
+      timezone: string;
+      active: boolean;
+      minBookingLeadMinutes: number;
+      maxBookingWindowDays: number | null;
+    } | null>
+  >;
+  findExceptionById(id: string): Promise<Result<AvailabilityExceptionRow | null>>;
+  findExceptions(params: {
+    businessId: string;
+    /** Filtra um operador (inclui as exceções do business inteiro) */
+    operatorId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    active?: boolean;
+  }): Promise<Result<AvailabilityExceptionRow[]>>;
+  findActiveExceptionOnDate(
+    businessId: string,
+    operatorId: string | null,
+    date: string,
+    excludeId?: string,
+  ): Promise<Result<AvailabilityExceptionRow | null>>;
+  createException(
+    data: Omit<AvailabilityExceptionRow, "id" | "active" | "createdAt" | "updatedAt">,
+  ): Promise<Result<AvailabilityExceptionRow>>;
+  updateException(
+    id: string,
+    data: Partial<
+      Omit<
+        AvailabilityExceptionRow,
+        "id" | "businessId" | "operatorId" | "active" | "createdAt" | "updatedAt"
+      >
+    >,
+  ): Promise<Result<AvailabilityExceptionRow>>;
+  softDeleteException(id: string): Promise<Result<void>>;
+  findServiceById(
+    serviceId: string,
+  ): Promise<Result<{ id: string; businessId: string; active: boolean } | null>>;
+  /** Operadores ativos do business com vínculo operator_services ativo para o serviço */
+  findBookableOperators(
+    businessId: string,
+    serviceId: string,
+    operatorId?: string,
+  ): Promise<Result<BookableOperatorRow[]>>;
+  /** Slots ativos (qualquer status) dos operadores no período, ordenados por data e horário */
+  findSlotsInRange(
+    operatorIds: string[],
+    dateFrom: string,
+    dateTo: string,
+  ): Promise<Result<SearchSlotRow[]>>;
 }
 
 export function createAvailabilityRepository(container: Container): IAvailabilityRepository {
@@ -90,6 +156,7 @@ export function createAvailabilityRepository(container: Container): IAvailabilit
             dayOfWeek: data.dayOfWeek,
             startTime: data.startTime,
             endTime: data.endTime,
+            breaks: data.breaks,
           })
           .returning();
         if (!rows[0]) throw new Error("Insert não retornou registro");
@@ -125,6 +192,7 @@ export function createAvailabilityRepository(container: Container): IAvailabilit
             id: operators.id,
             userId: operators.userId,
             tenantId: operators.tenantId,
+            businessId: operators.businessId,
           })
           .from(operators)
           .where(and(eq(operators.id, operatorId), eq(operators.active, true)))
@@ -132,5 +200,191 @@ export function createAvailabilityRepository(container: Container): IAvailabilit
         return rows[0] ?? null;
       }, "DB_QUERY_FAILED");
     },
+
+    async findBusinessById(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: businesses.id,
+            tenantId: businesses.tenantId,
+            timezone: businesses.timezone,
+            active: businesses.active,
+            minBookingLeadMinutes: businesses.minBookingLeadMinutes,
+            maxBookingWindowDays: businesses.maxBookingWindowDays,
+          })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findExceptionById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(availabilityExceptions)
+          .where(eq(availabilityExceptions.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findExceptions(params) {
+      return R.fromAsync(async () => {
+        const conditions = [eq(availabilityExceptions.businessId, params.businessId)];
+
+        if (params.operatorId) {
+          const operatorScope = or(
+            eq(availabilityExceptions.operatorId, params.operatorId),
+            isNull(availabilityExceptions.operatorId),
+          );
+          if (operatorScope) conditions.push(operatorScope);
+        }
+        if (params.dateFrom) {
+          conditions.push(gte(availabilityExceptions.date, params.dateFrom));
+        }
+        if (params.dateTo) {
+          conditions.push(lte(availabilityExceptions.date, params.dateTo));
+        }
+        if (params.active !== undefined) {
+          conditions.push(eq(availabilityExceptions.active, params.active));
+        }
+
+        return db
+          .select()
+          .from(availabilityExceptions)
+          .where(and(...conditions))
+          .orderBy(availabilityExceptions.date, availabilityExceptions.startTime);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveExceptionOnDate(businessId, operatorId, date, excludeId) {
+      return R.fromAsync(async () => {
+        const conditions = [
+          eq(availabilityExceptions.businessId, businessId),
+          operatorId
+            ? eq(availabilityExceptions.operatorId, operatorId)
+            : isNull(availabilityExceptions.operatorId),
+          eq(availabilityExceptions.date, date),
+          eq(availabilityExceptions.active, true),
+        ];
+
+        if (excludeId) {
+          conditions.push(sql`${availabilityExceptions.id} != ${excludeId}`);
+        }
+
+        const rows = await db
+          .select()
+          .from(availabilityExceptions)
+          .where(and(...conditions))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createException(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(availabilityExceptions)
+          .values({
+            businessId: data.businessId,
+            operatorId: data.operatorId,
+            date: data.date,
+            type: data.type,
+            startTime: data.startTime,
+            endTime: data.endTime,
+            reason: data.reason,
+          })
+          .returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async updateException(id, data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(availabilityExceptions)
+          .set({ ...data, updatedAt: sql`now()` })
+          .where(eq(availabilityExceptions.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async softDeleteException(id) {
+      return R.fromAsync(async () => {
+        await db
+          .update(availabilityExceptions)
+          .set({ active: false, updatedAt: sql`now()` })
+          .where(eq(availabilityExceptions.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findServiceById(serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: services.id, businessId: services.businessId, active: services.active })
+          .from(services)
+          .where(eq(services.id, serviceId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBookableOperators(businessId, serviceId, operatorId) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            operatorId: operators.id,
+            displayName: operators.displayName,
+            durationMinutes: sql<number>`coalesce(${operatorServices.durationMinutes}, ${services.durationMinutes})`,
+            priceCents: sql<number>`coalesce(${operatorServices.priceCents}, ${services.priceCents})`,
+            operatorBufferBeforeMinutes: operators.bufferBeforeMinutes,
+            operatorBufferAfterMinutes: operators.bufferAfterMinutes,
+            serviceBufferBeforeMinutes: services.bufferBeforeMinutes,
+            serviceBufferAfterMinutes: services.bufferAfterMinutes,
+          })
+          .from(operatorServices)
+          .innerJoin(operators, eq(operatorServices.operatorId, operators.id))
+          .innerJoin(services, eq(operatorServices.serviceId, services.id))
+          .where(
+            and(
+              eq(operatorServices.serviceId, serviceId),
+              eq(operatorServices.active, true),
+              eq(operators.businessId, businessId),
+              eq(operators.active, true),
+              operatorId ? eq(operators.id, operatorId) : undefined,
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findSlotsInRange(operatorIds, dateFrom, dateTo) {
+      return R.fromAsync(async () => {
+        if (operatorIds.length === 0) return [];
+        return db
+          .select({
+            id: scheduleSlots.id,
+            operatorId: scheduleSlots.operatorId,
+            date: scheduleSlots.date,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            status: scheduleSlots.status,
+          })
+          .from(scheduleSlots)
+          .where(
+            and(
+              inArray(scheduleSlots.operatorId, operatorIds),
+              gte(scheduleSlots.date, dateFrom),
+              lte(scheduleSlots.date, dateTo),
+              eq(scheduleSlots.active, true),
+            ),
+          )
+          .orderBy(asc(scheduleSlots.date), asc(scheduleSlots.startTime));
+      }, "DB_QUERY_FAILED");
+    },
   };
 }
@@ -5,6 +5,30 @@ export { errorResponseSchema, messageResponseSchema } from "../../../../../share
 /** Regex para validar formato HH:MM */
 const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
 
+/** Regex para validar formato YYYY-MM-DD */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Valida que a string é uma data real (não aceita "2025-13-45") */
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+// ========== AVAILABILITY BREAK ==========
+
+/** Intervalo (pausa) dentro do expediente — ex: almoço das 12:00 às 13:00 */
+export const availabilityBreakSchema = z
+  .object({
+    startTime: z.string().regex(timeRegex, "Formato deve ser HH:MM"),
+    endTime: z.string().regex(timeRegex, "Formato deve ser HH:MM"),
+  })
+  .refine((data) => data.startTime < data.endTime, {
+    message: "Início do intervalo deve ser anterior ao fim",
+    path: ["endTime"],
+  });
+export type AvailabilityBreak = z.infer<typeof availabilityBreakSchema>;
+
 // ========== AVAILABILITY RULE PROFILE (response) ==========
 
 /** Perfil da regra de disponibilidade retornado nas respostas */
@@ -14,6 +38,7 @@ export const availabilityRuleProfileSchema = z.object({
   dayOfWeek: z.number().int(),
   startTime: z.string(),
   endTime: z.string(),
+  breaks: z.array(z.object({ startTime: z.string(), endTime: z.string() })),
   active: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -33,6 +58,8 @@ export const createAvailabilityRuleRequestSchema = z
       .max(6, "Dia máximo é 6 (sábado)"),
     startTime: z.string().regex(timeRegex, "Formato deve ser HH:MM"),
     endTime: z.string().regex(timeRegex, "Formato deve ser HH:MM"),
+    /** Pausas dentro do expediente — não geram slots */
+    breaks: z.array(availabilityBreakSchema).max(10).optional(),
   })
   .refine((data) => data.startTime < data.endTime, {
     message: "Hora de início deve ser anterior à hora de fim",
@@ -53,6 +80,8 @@ export const updateAvailabilityRuleRequestSchema = z
       .optional(),
     startTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").optional(),
     endTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").optional(),
+    /** Substitui a lista de pausas da regra ([] remove todas) */
+    breaks: z.array(availabilityBreakSchema).max(10).optional(),
   })
   .refine(
     (data) => {
@@ -79,3 +108,185 @@ export const listAvailabilityRulesQuerySchema = z.object({
     .optional(),
 });
 export type ListAvailabilityRulesQuery = z.infer<typeof listAvailabilityRulesQuerySchema>;
+
+// ========== AVAILABILITY EXCEPTION PROFILE (response) ==========
+
+const exceptionTypes = ["CLOSED", "CUSTOM_HOURS"] as const;
+
+/** Perfil da exceção de disponibilidade retornado nas respostas */
+export const availabilityExceptionProfileSchema = z.object({
+  id: z.string().uuid(),
+  businessId: z.string().uuid(),
+  /** null = exceção do business inteiro */
+  operatorId: z.string().uuid().nullable(),
+  date: z.string(),
+  type: z.enum(exceptionTypes),
+  startTime: z.string().nullable(),
+  endTime: z.string().nullable(),
+  reason: z.string().nullable(),
+  active: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type AvailabilityExceptionProfile = z.infer<typeof availabilityExceptionProfileSchema>;
+
+// ========== CREATE AVAILABILITY EXCEPTION ==========
+
+/** POST /api/availability/exceptions — Request Body */
+export const createAvailabilityExceptionRequestSchema = z
+  .object({
+    /** Exceção de um operador (o business é inferido) */
+    operatorId: z.string().uuid("operatorId deve ser um UUID válido").optional(),
+    /** Exceção de todo o business */
+    businessId: z.string().uuid("businessId deve ser um UUID válido").optional(),
+    date: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida"),
+    type: z.enum(exceptionTypes, {
+      errorMap: () => ({ message: "Tipo deve ser CLOSED ou CUSTOM_HOURS" }),
+    }),
+    startTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").optional(),
+    endTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").optional(),
+    reason: z.string().max(500).optional(),
+  })
+  .refine((data) => Boolean(data.operatorId) !== Boolean(data.businessId), {
+    message: "Informe operatorId ou businessId (apenas um)",
+    path: ["operatorId"],
+  })
+  .refine(
+    (data) => {
+      if (data.type === "CLOSED") return !data.startTime && !data.endTime;
+      return Boolean(data.startTime && data.endTime && data.startTime < data.endTime);
+    },
+    {
+      message: "CUSTOM_HOURS exige startTime anterior a endTime; CLOSED não aceita horários",
+      path: ["endTime"],
+    },
+  );
+export type CreateAvailabilityExceptionRequest = z.infer<
+  typeof createAvailabilityExceptionRequestSchema
+>;
+
+// ========== UPDATE AVAILABILITY EXCEPTION ==========
+
+/** PATCH /api/availability/exceptions/:id — Request Body */
+export const updateAvailabilityExceptionRequestSchema = z.object({
+  date: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida")
+    .optional(),
+  type: z
+    .enum(exceptionTypes, {
+      errorMap: () => ({ message: "Tipo deve ser CLOSED ou CUSTOM_HOURS" }),
+    })
+    .optional(),
+  startTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").nullable().optional(),
+  endTime: z.string().regex(timeRegex, "Formato deve ser HH:MM").nullable().optional(),
+  reason: z.string().max(500).nullable().optional(),
+});
+export type UpdateAvailabilityExceptionRequest = z.infer<
+  typeof updateAvailabilityExceptionRequestSchema
+>;
+
+// ========== LIST AVAILABILITY EXCEPTIONS ==========
+
+/** GET /api/availability/exceptions — Query Params */
+export const listAvailabilityExceptionsQuerySchema = z
+  .object({
+    /** Exceções do operador (inclui as do business dele) */
+    operatorId: z.string().uuid("operatorId deve ser um UUID válido").optional(),
+    /** Todas as exceções do business (de todos os operadores) */
+    businessId: z.string().uuid("businessId deve ser um UUID válido").optional(),
+    dateFrom: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida")
+      .optional(),
+    dateTo: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida")
+      .optional(),
+    active: z
+      .enum(["true", "false"])
+      .transform((v) => v === "true")
+      .optional(),
+  })
+  .refine((data) => Boolean(data.operatorId) !== Boolean(data.businessId), {
+    message: "Informe operatorId ou businessId (apenas um)",
+    path: ["operatorId"],
+  });
+export type ListAvailabilityExceptionsQuery = z.infer<typeof listAvailabilityExceptionsQuerySchema>;
+
+// ========== SEARCH NEXT AVAILABLE ==========
+
+/** Período do dia pelo horário local de início: manhã < 12h, tarde 12h–18h, noite ≥ 18h */
+export const partsOfDay = ["MORNING", "AFTERNOON", "EVENING"] as const;
+
+/** Maior período aceito na busca (em dias) */
+export const MAX_SEARCH_RANGE_DAYS = 31;
+
+/** GET /api/availability/search — Query Params */
+export const searchAvailabilityQuerySchema = z
+  .object({
+    businessId: z.string().uuid("businessId deve ser um UUID válido"),
+    serviceId: z.string().uuid("serviceId deve ser um UUID válido"),
+    from: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida"),
+    to: z
+      .string()
+      .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+      .refine(isValidDate, "Data inválida"),
+    /** Restringe a um operador — sem ele, busca em todos que oferecem o serviço */
+    operatorId: z.string().uuid("operatorId deve ser um UUID válido").optional(),
+    partOfDay: z
+      .enum(partsOfDay, {
+        errorMap: () => ({ message: "partOfDay deve ser MORNING, AFTERNOON ou EVENING" }),
+      })
+      .optional(),
+    /** Quantidade de horários retornados (os mais cedo primeiro) */
+    limit: z.coerce.number().int().min(1).max(50).default(5),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: "Data inicial deve ser anterior ou igual à data final",
+    path: ["to"],
+  })
+  .refine(
+    (data) =>
+      Date.parse(`${data.to}T00:00:00Z`) - Date.parse(`${data.from}T00:00:00Z`) <
+      MAX_SEARCH_RANGE_DAYS * 86_400_000,
+    {
+      message: `Período máximo de busca é ${MAX_SEARCH_RANGE_DAYS} dias`,
+      path: ["to"],
+    },
+  );
+export type SearchAvailabilityQuery = z.infer<typeof searchAvailabilityQuerySchema>;
+
+/** Horário agendável encontrado na busca */
+export const availableStartSchema = z.object({
+  /** Slot inicial — usar em POST /api/schedule/:id/hold e POST /api/appointments */
+  slotId: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  operatorName: z.string(),
+  /** Data local do business */
+  date: z.string(),
+  /** Início no horário local do business (HH:MM) */
+  startTime: z.string(),
+  /** Início em UTC */
+  scheduledAt: z.string().datetime(),
+  /** Duração efetiva do serviço com este operador */
+  durationMinutes: z.number().int(),
+  /** Preço efetivo do serviço com este operador */
+  priceCents: z.number().int(),
+});
+export type AvailableStart = z.infer<typeof availableStartSchema>;
+
+/** GET /api/availability/search — Response Body */
+export const searchAvailabilityResponseSchema = z.object({
+  data: z.array(availableStartSchema),
+});
+export type SearchAvailabilityResponse = z.infer<typeof searchAvailabilityResponseSchema>;
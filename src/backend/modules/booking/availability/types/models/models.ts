@@ -5,7 +5,45 @@ export type AvailabilityRuleRow = {
   dayOfWeek: number;
   startTime: string;
   endTime: string;
+  breaks: { startTime: string; endTime: string }[];
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
 };
+
+/** Row do availability_exceptions retornada pelo Drizzle */
+export type AvailabilityExceptionRow = {
+  id: string;
+  businessId: string;
+  operatorId: string | null;
+  date: string;
+  type: "CLOSED" | "CUSTOM_HOURS";
+  startTime: string | null;
+  endTime: string | null;
+  reason: string | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Operador que oferece o serviço, com duração/preço efetivos e buffers combinados */
+export type BookableOperatorRow = {
+  operatorId: string;
+  displayName: string;
+  durationMinutes: number;
+  priceCents: number;
+  operatorBufferBeforeMinutes: number;
+  operatorBufferAfterMinutes: number;
+  serviceBufferBeforeMinutes: number;
+  serviceBufferAfterMinutes: number;
+};
+
+/** Subset do schedule_slots usado na busca de horários */
+export type SearchSlotRow = {
+  id: string;
+  operatorId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: "AVAILABLE" | "BOOKED" | "BLOCKED" | "HELD";
+};
@@ -0,0 +1,29 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { Container, ModuleFactory } from "../../../core/container/container.js";
+import { createCalendarImportHandler } from "./3_handler.js";
+import { createCalendarImportService } from "./4_service.js";
+import { createCalendarImportRepository } from "./5_repository.js";
+import {
+  type ICalendarImportSyncJob,
+  createCalendarImportSyncJob,
+} from "./jobs/calendar-import-sync.job.js";
+
+export const createCalendarImportFeature: ModuleFactory = (container) => {
+  const repository = createCalendarImportRepository(container);
+  const service = createCalendarImportService(repository, container.config);
+  const handler = createCalendarImportHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
+
+/** Inicia o worker de sincronização das agendas importadas (chamado no server.ts) */
+export const startCalendarImportSyncJob = (container: Container): ICalendarImportSyncJob => {
+  const repository = createCalendarImportRepository(container);
+  const service = createCalendarImportService(repository, container.config);
+  const job = createCalendarImportSyncJob(service, container.config.CALENDAR_IMPORT_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
@@ -0,0 +1,230 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  calendarImportListSchema,
+  calendarImportParamsSchema,
+  calendarImportProfileSchema,
+  createCalendarImportSchema,
+  errorResponseSchema,
+  listCalendarImportsQuerySchema,
+  messageResponseSchema,
+  updateCalendarImportSchema,
+} from "./types/dtos/dtos.js";
+
+export const createCalendarImportRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Calendar Imports"],
+  summary: "Importar agenda externa",
+  description:
+    "Cadastra uma agenda externa do operador (Google, Apple, Outlook) por URL (https ou webcal; http://localhost e file:// fora de produção — hosts em redes internas são recusados) ou pelo conteúdo de um arquivo .ics, e executa a primeira sincronização: compromissos (com recorrências RRULE) bloqueiam os slots AVAILABLE sobrepostos e slots BOOKED sobrepostos são reportados como conflito. Falha ao baixar a URL não impede o cadastro — fica em lastSyncError. Próprio operador, TENANT do operador ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createCalendarImportSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: calendarImportProfileSchema } },
+      description: "Agenda cadastrada e sincronizada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+export const listCalendarImportsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Calendar Imports"],
+  summary: "Listar agendas importadas do operador",
+  description:
+    "Agendas externas ativas do operador com o resultado da última sincronização (slots bloqueados/liberados e conflitos com agendamentos).",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listCalendarImportsQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarImportListSchema } },
+      description: "Lista de agendas importadas",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+export const getCalendarImportRoute = createRoute({
+  method: "get",
+  path: "/{id}",
+  tags: ["Calendar Imports"],
+  summary: "Buscar agenda importada",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarImportParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarImportProfileSchema } },
+      description: "Agenda importada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agenda importada não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+export const updateCalendarImportRoute = createRoute({
+  method: "patch",
+  path: "/{id}",
+  tags: ["Calendar Imports"],
+  summary: "Atualizar agenda importada",
+  description:
+    "Altera o nome, a URL (agendas por URL) ou o conteúdo (agendas enviadas por arquivo). Trocar a URL ou o conteúdo sincroniza novamente — slots de compromissos removidos voltam a AVAILABLE.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarImportParamsSchema,
+    body: {
+      content: { "application/json": { schema: updateCalendarImportSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarImportProfileSchema } },
+      description: "Agenda atualizada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agenda importada não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+export const syncCalendarImportRoute = createRoute({
+  method: "post",
+  path: "/{id}/sync",
+  tags: ["Calendar Imports"],
+  summary: "Sincronizar agenda importada",
+  description:
+    "Executa a sincronização imediatamente (o worker sincroniza todas as agendas a cada CALENDAR_IMPORT_INTERVAL_MS). Retorna 502 se a URL não puder ser baixada, mantendo os bloqueios anteriores.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarImportParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarImportProfileSchema } },
+      description: "Agenda sincronizada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agenda importada não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+    502: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Falha ao baixar ou ler a agenda",
+    },
+  },
+});
+
+export const deleteCalendarImportRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["Calendar Imports"],
+  summary: "Remover agenda importada",
+  description:
+    "Interrompe a sincronização e devolve para AVAILABLE os slots bloqueados por esta agenda (bloqueios manuais e de outras agendas são mantidos).",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarImportParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Agenda removida",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Agenda importada não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
@@ -0,0 +1,115 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../../core/error/error.handler.js";
+import { getSession, hasRole } from "../../../core/session/session.guard.js";
+import {
+  createCalendarImportRoute,
+  deleteCalendarImportRoute,
+  getCalendarImportRoute,
+  listCalendarImportsRoute,
+  syncCalendarImportRoute,
+  updateCalendarImportRoute,
+} from "./2_api.js";
+import type { ICalendarImportService } from "./4_service.js";
+
+export interface ICalendarImportHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createCalendarImportHandler(
+  service: ICalendarImportService,
+): ICalendarImportHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // POST / — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createCalendarImportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.create(body, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET / — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listCalendarImportsRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.list(query, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /:id — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getCalendarImportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.getById(id, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // PATCH /:id — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(updateCalendarImportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const body = c.req.valid("json");
+        const result = await service.update(id, body, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /:id/sync — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(syncCalendarImportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.sync(id, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /:id — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(deleteCalendarImportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER", "OPERATOR")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.remove(id, session.role, session.tenantId, session.sub);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
@@ -0,0 +1,435 @@
+import { randomUUID } from "node:crypto";
+import { type BusyTime, expandBusyTimes, parseIcs } from "../../../core/calendar/ics.parser.js";
+import { checkIcsUrl, loadIcs } from "../../../core/calendar/ics.source.js";
+import type { Config } from "../../../core/config/config.js";
+import { localToUtc, todayYmd } from "../../../core/date/date.utils.js";
+import { createPublicAgent } from "../../../core/network/public-host.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import type { Role } from "../../../core/session/session.guard.js";
+import type { ICalendarImportRepository } from "./5_repository.js";
+import type {
+  CalendarImportProfile,
+  CreateCalendarImportRequest,
+  ListCalendarImportsQuery,
+  UpdateCalendarImportRequest,
+} from "./types/dtos/dtos.js";
+import type {
+  CalendarImportConflict,
+  CalendarImportRow,
+  CalendarImportSyncReport,
+  ImportOperatorRow,
+  ImportSlotRow,
+} from "./types/models/models.js";
+
+export interface ICalendarImportService {
+  /** Cadastra a agenda e executa a primeira sincronização */
+  create(
+    input: CreateCalendarImportRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<CalendarImportProfile>>;
+  list(
+    query: ListCalendarImportsQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<CalendarImportProfile[]>>;
+  getById(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<CalendarImportProfile>>;
+  /** Atualiza a agenda — trocar a URL ou o conteúdo sincroniza novamente */
+  update(
+    id: string,
+    input: UpdateCalendarImportRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<CalendarImportProfile>>;
+  /** Sincroniza sob demanda — falhas de download/leitura retornam erro */
+  sync(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<CalendarImportProfile>>;
+  /** Remove a agenda e libera os slots que ela bloqueou */
+  remove(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<{ message: string }>>;
+  /** Executa uma rodada do worker — null se outra instância detém o lock */
+  syncAll(): Promise<Result<{ synced: number; failed: number } | null>>;
+}
+
+/** TTL do lock do worker — libera automaticamente se a instância morrer no meio da rodada */
+const SYNC_LOCK_TTL_MS = 10 * 60_000;
+
+function toProfile(row: CalendarImportRow): CalendarImportProfile {
+  return {
+    id: row.id,
+    operatorId: row.operatorId,
+    name: row.name,
+    source: row.source,
+    url: row.url,
+    lastSyncedAt: row.lastSyncedAt?.toISOString() ?? null,
+    lastSyncError: row.lastSyncError,
+    lastSyncReport: row.lastSyncReport,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+/** Normaliza "HH:MM:SS" (retorno do Postgres) para "HH:MM" */
+function toHm(time: string): string {
+  return time.slice(0, 5);
+}
+
+/** Slot com o intervalo em UTC, no fuso do business */
+type TimedSlot = ImportSlotRow & { start: Date; end: Date };
+
+/**
+ * Cruza os compromissos com os slots:
+ * - AVAILABLE (ou já bloqueado por outra agenda) sobreposto → bloquear
+ * - BOOKED sobreposto → conflito (o agendamento não é alterado)
+ * - bloqueado por esta agenda e sem compromisso → liberar
+ * Slots HELD e bloqueios manuais não são tocados.
+ */
+function planBlocks(
+  slots: TimedSlot[],
+  busy: BusyTime[],
+): { block: string[]; release: string[]; conflicts: CalendarImportConflict[] } {
+  const block: string[] = [];
+  const release: string[] = [];
+  const conflicts: CalendarImportConflict[] = [];
+
+  for (const slot of slots) {
+    const event = busy.find((b) => b.start < slot.end && b.end > slot.start);
+
+    if (!event) {
+      if (slot.blockedByImport) release.push(slot.id);
+      continue;
+    }
+
+    if (slot.status === "AVAILABLE" || (slot.status === "BLOCKED" && slot.blockedByOtherImport)) {
+      block.push(slot.id);
+    } else if (slot.status === "BOOKED") {
+      conflicts.push({
+        slotId: slot.id,
+        date: slot.date,
+        startTime: toHm(slot.startTime),
+        endTime: toHm(slot.endTime),
+        eventSummary: event.summary,
+        eventStart: event.start.toISOString(),
+        eventEnd: event.end.toISOString(),
+      });
+    }
+  }
+
+  return { block, release, conflicts };
+}
+
+export function createCalendarImportService(
+  repository: ICalendarImportRepository,
+  config: Config,
+): ICalendarImportService {
+  const allowPrivate = config.NODE_ENV !== "production";
+  // Conecta apenas nos endereços públicos validados na resolução do host
+  const dispatcher = createPublicAgent({ allowPrivate });
+
+  /**
+   * Verifica acesso ao operador:
+   * - OPERATOR: apenas o próprio
+   * - TENANT: operadores do próprio tenant
+   * - OWNER: qualquer
+   */
+  async function checkOperatorAccess(
+    operatorId: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<ImportOperatorRow>> {
+    const operatorResult = await repository.findOperatorById(operatorId);
+    if (operatorResult.isErr()) return R.fail(operatorResult.error);
+    if (!operatorResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+    }
+
+    const operator = operatorResult.value;
+    if (callerRole === "OPERATOR" && operator.userId !== callerUserId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+    if (callerRole === "TENANT" && operator.tenantId !== callerTenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    return R.ok(operator);
+  }
+
+  /** Busca a agenda e verifica acesso ao seu operador */
+  async function findAccessible(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+    callerUserId: string,
+  ): Promise<Result<{ row: CalendarImportRow; operator: ImportOperatorRow }>> {
+    const findResult = await repository.findById(id);
+    if (findResult.isErr()) return R.fail(findResult.error);
+    if (!findResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Agenda importada não encontrada" });
+    }
+
+    const accessResult = await checkOperatorAccess(
+      findResult.value.operatorId,
+      callerRole,
+      callerTenantId,
+      callerUserId,
+    );
+    if (accessResult.isErr()) return R.fail(accessResult.error);
+
+    return R.ok({ row: findResult.value, operator: accessResult.value });
+  }
+
+  async function loadContent(row: CalendarImportRow): Promise<Result<string>> {
+    if (row.source === "UPLOAD") return R.ok(row.content ?? "");
+    return loadIcs(row.url ?? "", {
+      allowPrivate,
+      dispatcher,
+      timeoutMs: config.CALENDAR_IMPORT_TIMEOUT_MS,
+    });
+  }
+
+  /** Baixa/lê a agenda e aplica os bloqueios nos slots futuros do operador */
+  async function runSync(
+    row: CalendarImportRow,
+    operator: ImportOperatorRow,
+  ): Promise<Result<CalendarImportSyncReport>> {
+    const contentResult = await loadContent(row);
+    if (contentResult.isErr()) return R.fail(contentResult.error);
+
+    const eventsResult = parseIcs(contentResult.value, operator.businessTimezone);
+    if (eventsResult.isErr()) return R.fail(eventsResult.error);
+
+    const slotsResult = await repository.findSlotsFrom(
+      row.id,
+      row.operatorId,
+      todayYmd(operator.businessTimezone),
+    );
+    if (slotsResult.isErr()) return R.fail(slotsResult.error);
+
+    const slots: TimedSlot[] = slotsResult.value.map((slot) => ({
+      ...slot,
+      start: localToUtc(slot.date, toHm(slot.startTime), operator.businessTimezone),
+      end: localToUtc(slot.date, toHm(slot.endTime), operator.businessTimezone),
+    }));
+
+    const busy =
+      slots.length > 0
+        ? expandBusyTimes(
+            eventsResult.value,
+            new Date(Math.min(...slots.map((s) => s.start.getTime()))),
+            new Date(Math.max(...slots.map((s) => s.end.getTime()))),
+          )
+        : [];
+
+    const plan = planBlocks(slots, busy);
+    const applyResult = await repository.applyBlocks(row.id, plan.block, plan.release);
+    if (applyResult.isErr()) return R.fail(applyResult.error);
+
+    return R.ok({
+      events: eventsResult.value.length,
+      busyTimes: busy.length,
+      blocked: applyResult.value.blocked,
+      released: applyResult.value.released,
+      conflicts: plan.conflicts,
+    });
+  }
+
+  /** Sincroniza e grava o resultado — falhas da agenda ficam em lastSyncError sem desfazer bloqueios */
+  async function syncAndSave(
+    row: CalendarImportRow,
+    operator: ImportOperatorRow,
+  ): Promise<Result<{ row: CalendarImportRow; error: string | null }>> {
+    const syncResult = await runSync(row, operator);
+    // Falhas do banco não são da agenda — propagam sem registrar erro de sincronização
+    if (syncResult.isErr() && syncResult.error.code === "DB_QUERY_FAILED") {
+      return R.fail(syncResult.error);
+    }
+    const error = syncResult.isErr() ? syncResult.error.message : null;
+
+    const saveResult = await repository.saveSyncResult(row.id, {
+      lastSyncError: error,
+      lastSyncReport: syncResult.isOk() ? syncResult.value : undefined,
+    });
+    if (saveResult.isErr()) return R.fail(saveResult.error);
+
+    return R.ok({ row: saveResult.value, error });
+  }
+
+  return {
+    async create(input, callerRole, callerTenantId, callerUserId) {
+      const accessResult = await checkOperatorAccess(
+        input.operatorId,
+        callerRole,
+        callerTenantId,
+        callerUserId,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+      const operator = accessResult.value;
+
+      // Arquivo enviado é validado antes de salvar; URLs podem estar temporariamente fora do ar
+      if (input.content !== undefined) {
+        const parseResult = parseIcs(input.content, operator.businessTimezone);
+        if (parseResult.isErr()) return R.fail(parseResult.error);
+      }
+      if (input.url) {
+        const urlCheck = checkIcsUrl(input.url, { allowPrivate });
+        if (urlCheck.isErr()) return R.fail(urlCheck.error);
+      }
+
+      const createResult = await repository.create({
+        operatorId: input.operatorId,
+        name: input.name,
+        source: input.content !== undefined ? "UPLOAD" : "URL",
+        url: input.url ?? null,
+        content: input.content ?? null,
+        createdBy: callerUserId,
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      const syncResult = await syncAndSave(createResult.value, operator);
+      if (syncResult.isErr()) return R.fail(syncResult.error);
+
+      return R.ok(toProfile(syncResult.value.row));
+    },
+
+    async list(query, callerRole, callerTenantId, callerUserId) {
+      const accessResult = await checkOperatorAccess(
+        query.operatorId,
+        callerRole,
+        callerTenantId,
+        callerUserId,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+
+      const listResult = await repository.findByOperator(query.operatorId);
+      if (listResult.isErr()) return R.fail(listResult.error);
+
+      return R.ok(listResult.value.map(toProfile));
+    },
+
+    async getById(id, callerRole, callerTenantId, callerUserId) {
+      const findResult = await findAccessible(id, callerRole, callerTenantId, callerUserId);
+      if (findResult.isErr()) return R.fail(findResult.error);
+
+      return R.ok(toProfile(findResult.value.row));
+    },
+
+    async update(id, input, callerRole, callerTenantId, callerUserId) {
+      const findResult = await findAccessible(id, callerRole, callerTenantId, callerUserId);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      const { row, operator } = findResult.value;
+
+      if (input.url !== undefined && row.source !== "URL") {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "Agenda enviada por arquivo — atualize o content",
+        });
+      }
+      if (input.content !== undefined && row.source !== "UPLOAD") {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "Agenda baixada por URL — atualize a url",
+        });
+      }
+      if (input.url) {
+        const urlCheck = checkIcsUrl(input.url, { allowPrivate });
+        if (urlCheck.isErr()) return R.fail(urlCheck.error);
+      }
+      if (input.content !== undefined) {
+        const parseResult = parseIcs(input.content, operator.businessTimezone);
+        if (parseResult.isErr()) return R.fail(parseResult.error);
+      }
+
+      const updateResult = await repository.update(id, input);
+      if (updateResult.isErr()) return R.fail(updateResult.error);
+
+      if (input.url === undefined && input.content === undefined) {
+        return R.ok(toProfile(updateResult.value));
+      }
+
+      const syncResult = await syncAndSave(updateResult.value, operator);
+      if (syncResult.isErr()) return R.fail(syncResult.error);
+
+      return R.ok(toProfile(syncResult.value.row));
+    },
+
+    async sync(id, callerRole, callerTenantId, callerUserId) {
+      const findResult = await findAccessible(id, callerRole, callerTenantId, callerUserId);
+      if (findResult.isErr()) return R.fail(findResult.error);
+
+      const syncResult = await syncAndSave(findResult.value.row, findResult.value.operator);
+      if (syncResult.isErr()) return R.fail(syncResult.error);
+
+      if (syncResult.value.error) {
+        return R.fail({
+          code: "EXTERNAL_SERVICE_ERROR",
+          message: `Falha ao sincronizar a agenda: ${syncResult.value.error}`,
+        });
+      }
+
+      return R.ok(toProfile(syncResult.value.row));
+    },
+
+    async remove(id, callerRole, callerTenantId, callerUserId) {
+      const findResult = await findAccessible(id, callerRole, callerTenantId, callerUserId);
+      if (findResult.isErr()) return R.fail(findResult.error);
+
+      const blockedResult = await repository.findBlockedSlotIds(id);
+      if (blockedResult.isErr()) return R.fail(blockedResult.error);
+
+      const releaseResult = await repository.applyBlocks(id, [], blockedResult.value);
+      if (releaseResult.isErr()) return R.fail(releaseResult.error);
+
+      const deactivateResult = await repository.deactivate(id);
+      if (deactivateResult.isErr()) return R.fail(deactivateResult.error);
+
+      return R.ok({ message: "Agenda importada removida" });
+    },
+
+    async syncAll() {
+      const token = randomUUID();
+      const lockResult = await repository.acquireSyncLock(token, SYNC_LOCK_TTL_MS);
+      if (lockResult.isErr()) return R.fail(lockResult.error);
+      if (!lockResult.value) return R.ok(null);
+
+      try {
+        const importsResult = await repository.findAllActive();
+        if (importsResult.isErr()) return R.fail(importsResult.error);
+
+        const stats = { synced: 0, failed: 0 };
+        for (const row of importsResult.value) {
+          const operatorResult = await repository.findOperatorById(row.operatorId);
+          if (operatorResult.isErr()) return R.fail(operatorResult.error);
+          // Operador desativado: a agenda fica parada até ser removida
+          if (!operatorResult.value) continue;
+
+          const syncResult = await syncAndSave(row, operatorResult.value);
+          if (syncResult.isErr()) return R.fail(syncResult.error);
+          if (syncResult.value.error) stats.failed++;
+          else stats.synced++;
+        }
+
+        return R.ok(stats);
+      } finally {
+        await repository.releaseSyncLock(token);
+      }
+    },
+  };
+}
@@ -0,0 +1,295 @@
+import { and, asc, eq, gte, inArray, sql } from "drizzle-orm";
+import type { Container } from "../../../core/container/container.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import {
+  businesses,
+  calendarImportBlocks,
+  calendarImports,
+  operators,
+  scheduleSlots,
+} from "../../../shared/schemas/index.js";
+import type {
+  CalendarImportRow,
+  CalendarImportSyncReport,
+  ImportOperatorRow,
+  ImportSlotRow,
+} from "./types/models/models.js";
+
+/** Lock distribuído — garante uma única instância do worker de sincronização rodando */
+const SYNC_LOCK_KEY = "calendar-import:sync:lock";
+
+export interface ICalendarImportRepository {
+  create(
+    data: Pick<
+      CalendarImportRow,
+      "operatorId" | "name" | "source" | "url" | "content" | "createdBy"
+    >,
+  ): Promise<Result<CalendarImportRow>>;
+  findById(id: string): Promise<Result<CalendarImportRow | null>>;
+  findByOperator(operatorId: string): Promise<Result<CalendarImportRow[]>>;
+  /** Todas as agendas ativas — usadas pelo worker */
+  findAllActive(): Promise<Result<CalendarImportRow[]>>;
+  update(
+    id: string,
+    data: Partial<Pick<CalendarImportRow, "name" | "url" | "content">>,
+  ): Promise<Result<CalendarImportRow>>;
+  deactivate(id: string): Promise<Result<void>>;
+
+  /** Resultado da sincronização — sem report (falha) mantém o report anterior */
+  saveSyncResult(
+    id: string,
+    result: { lastSyncError: string | null; lastSyncReport?: CalendarImportSyncReport },
+  ): Promise<Result<CalendarImportRow>>;
+
+  findOperatorById(operatorId: string): Promise<Result<ImportOperatorRow | null>>;
+
+  /** Slots ativos do operador a partir da data (inclusiva), com a origem dos bloqueios */
+  findSlotsFrom(
+    importId: string,
+    operatorId: string,
+    dateFrom: string,
+  ): Promise<Result<ImportSlotRow[]>>;
+
+  /** Ids de todos os slots bloqueados pela agenda */
+  findBlockedSlotIds(importId: string): Promise<Result<string[]>>;
+
+  /**
+   * Registra os bloqueios da agenda (AVAILABLE → BLOCKED; BLOCKED por outra agenda só ganha
+   * o registro) e remove os que deixaram de valer — o slot volta a AVAILABLE quando nenhuma
+   * outra agenda o bloqueia. Slots que mudaram de status no meio do caminho são ignorados.
+   */
+  applyBlocks(
+    importId: string,
+    blockSlotIds: string[],
+    releaseSlotIds: string[],
+  ): Promise<Result<{ blocked: number; released: number }>>;
+
+  acquireSyncLock(token: string, ttlMs: number): Promise<Result<boolean>>;
+  releaseSyncLock(token: string): Promise<Result<void>>;
+}
+
+export function createCalendarImportRepository(container: Container): ICalendarImportRepository {
+  const { db, redis } = container;
+
+  return {
+    async create(data) {
+      return R.fromAsync(async () => {
+        const rows = await db.insert(calendarImports).values(data).returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(calendarImports)
+          .where(and(eq(calendarImports.id, id), eq(calendarImports.active, true)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findByOperator(operatorId) {
+      return R.fromAsync(async () => {
+        return db
+          .select()
+          .from(calendarImports)
+          .where(and(eq(calendarImports.operatorId, operatorId), eq(calendarImports.active, true)))
+          .orderBy(asc(calendarImports.createdAt));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAllActive() {
+      return R.fromAsync(async () => {
+        return db
+          .select()
+          .from(calendarImports)
+          .where(eq(calendarImports.active, true))
+          .orderBy(asc(calendarImports.lastSyncedAt));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async update(id, data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(calendarImports)
+          .set({ ...data, updatedAt: sql`now()` })
+          .where(eq(calendarImports.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async deactivate(id) {
+      return R.fromAsync(async () => {
+        await db
+          .update(calendarImports)
+          .set({ active: false, updatedAt: sql`now()` })
+          .where(eq(calendarImports.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async saveSyncResult(id, result) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(calendarImports)
+          .set({
+            lastSyncedAt: sql`now()`,
+            lastSyncError: result.lastSyncError,
+            ...(result.lastSyncReport ? { lastSyncReport: result.lastSyncReport } : {}),
+          })
+          .where(eq(calendarImports.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorById(operatorId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: operators.id,
+            userId: operators.userId,
+            tenantId: operators.tenantId,
+            businessTimezone: businesses.timezone,
+          })
+          .from(operators)
+          .innerJoin(businesses, eq(operators.businessId, businesses.id))
+          .where(and(eq(operators.id, operatorId), eq(operators.active, true)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findSlotsFrom(importId, operatorId, dateFrom) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            id: scheduleSlots.id,
+            date: scheduleSlots.date,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            status: scheduleSlots.status,
+            blockedByImport: sql<boolean>`exists (
+              select 1 from ${calendarImportBlocks}
+              where ${calendarImportBlocks.slotId} = ${scheduleSlots.id}
+                and ${calendarImportBlocks.importId} = ${importId}
+            )`,
+            blockedByOtherImport: sql<boolean>`exists (
+              select 1 from ${calendarImportBlocks}
+              where ${calendarImportBlocks.slotId} = ${scheduleSlots.id}
+                and ${calendarImportBlocks.importId} <> ${importId}
+            )`,
+          })
+          .from(scheduleSlots)
+          .where(
+            and(
+              eq(scheduleSlots.operatorId, operatorId),
+              eq(scheduleSlots.active, true),
+              gte(scheduleSlots.date, dateFrom),
+            ),
+          )
+          .orderBy(asc(scheduleSlots.date), asc(scheduleSlots.startTime));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBlockedSlotIds(importId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ slotId: calendarImportBlocks.slotId })
+          .from(calendarImportBlocks)
+          .where(eq(calendarImportBlocks.importId, importId));
+        return rows.map((row) => row.slotId);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async applyBlocks(importId, blockSlotIds, releaseSlotIds) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          let blocked = 0;
+          let released = 0;
+
+          if (blockSlotIds.length > 0) {
+            const newlyBlocked = await tx
+              .update(scheduleSlots)
+              .set({ status: "BLOCKED", updatedAt: sql`now()` })
+              .where(
+                and(inArray(scheduleSlots.id, blockSlotIds), eq(scheduleSlots.status, "AVAILABLE")),
+              )
+              .returning({ id: scheduleSlots.id });
+            blocked = newlyBlocked.length;
+
+            // Registra todos os que estão BLOCKED agora: os recém-bloqueados e os já
+            // bloqueados por outra agenda (a seleção do service exclui bloqueios manuais)
+            const nowBlocked = await tx
+              .select({ id: scheduleSlots.id })
+              .from(scheduleSlots)
+              .where(
+                and(inArray(scheduleSlots.id, blockSlotIds), eq(scheduleSlots.status, "BLOCKED")),
+              );
+            if (nowBlocked.length > 0) {
+              await tx
+                .insert(calendarImportBlocks)
+                .values(nowBlocked.map((slot) => ({ importId, slotId: slot.id })))
+                .onConflictDoNothing();
+            }
+          }
+
+          if (releaseSlotIds.length > 0) {
+            await tx
+              .delete(calendarImportBlocks)
+              .where(
+                and(
+                  eq(calendarImportBlocks.importId, importId),
+                  inArray(calendarImportBlocks.slotId, releaseSlotIds),
+                ),
+              );
+
+            const freed = await tx
+              .update(scheduleSlots)
+              .set({ status: "AVAILABLE", updatedAt: sql`now()` })
+              .where(
+                and(
+                  inArray(scheduleSlots.id, releaseSlotIds),
+                  eq(scheduleSlots.status, "BLOCKED"),
+                  sql`not exists (
+                    select 1 from ${calendarImportBlocks}
+                    where ${calendarImportBlocks.slotId} = ${scheduleSlots.id}
+                  )`,
+                ),
+              )
+              .returning({ id: scheduleSlots.id });
+            released = freed.length;
+          }
+
+          return { blocked, released };
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async acquireSyncLock(token, ttlMs) {
+      return R.fromAsync(async () => {
+        const result = await redis.set(SYNC_LOCK_KEY, token, "PX", ttlMs, "NX");
+        return result === "OK";
+      }, "DB_QUERY_FAILED");
+    },
+
+    async releaseSyncLock(token) {
+      return R.fromAsync(async () => {
+        // Só remove se o lock ainda for nosso (compare-and-delete atômico)
+        const luaScript = `
+          if redis.call('GET', KEYS[1]) == ARGV[1] then
+            return redis.call('DEL', KEYS[1])
+          end
+          return 0
+        `;
+        await redis.eval(luaScript, 1, SYNC_LOCK_KEY, token);
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { logger } from "../../../../core/logger/logger.js";
+import type { ICalendarImportService } from "../4_service.js";
+
+/** Worker que sincroniza periodicamente as agendas externas importadas */
+export interface ICalendarImportSyncJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `syncAll` a cada `intervalMs` (e uma vez no startup).
+ * O lock no Redis garante que apenas uma instância execute cada rodada.
+ */
+export function createCalendarImportSyncJob(
+  service: ICalendarImportService,
+  intervalMs: number,
+): ICalendarImportSyncJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.syncAll();
+      if (result.isErr()) {
+        logger.error("Falha na sincronização de agendas importadas", {
+          error: result.error.message,
+        });
+        return;
+      }
+      if (!result.value) return;
+
+      if (result.value.synced > 0 || result.value.failed > 0) {
+        logger.info("Agendas importadas sincronizadas", result.value);
+      }
+    } catch (err) {
+      logger.error("Erro inesperado na sincronização de agendas importadas", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
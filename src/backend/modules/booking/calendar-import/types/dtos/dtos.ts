@@ -0,0 +1,111 @@
+import { z } from "zod";
+
+export { errorResponseSchema, messageResponseSchema } from "../../../../../shared/dtos.js";
+
+/** Tamanho máximo do conteúdo enviado (5 MB) */
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+/** URL da agenda — HTTPS ou webcal (HTTP de localhost e file:// apenas fora de produção) */
+const calendarUrlSchema = z
+  .string()
+  .url("URL inválida")
+  .max(2048)
+  .refine(
+    (url) =>
+      /^(https|webcal):\/\//i.test(url) ||
+      /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(url) ||
+      url.startsWith("file://"),
+    "URL deve usar HTTPS ou webcal",
+  );
+
+/** Conteúdo de um arquivo .ics */
+const calendarContentSchema = z
+  .string()
+  .min(1, "Conteúdo é obrigatório")
+  .max(MAX_CONTENT_LENGTH, "Arquivo ICS excede 5 MB");
+
+// ========== CALENDAR IMPORT PROFILE (response) ==========
+
+const conflictSchema = z.object({
+  slotId: z.string().uuid(),
+  date: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  eventSummary: z.string().nullable(),
+  eventStart: z.string().datetime(),
+  eventEnd: z.string().datetime(),
+});
+
+const syncReportSchema = z.object({
+  /** VEVENTs lidos do arquivo */
+  events: z.number().int(),
+  /** Ocorrências (recorrências expandidas) no período dos slots */
+  busyTimes: z.number().int(),
+  /** Slots bloqueados na sincronização */
+  blocked: z.number().int(),
+  /** Slots liberados porque o compromisso saiu da agenda */
+  released: z.number().int(),
+  /** Slots BOOKED que coincidem com compromissos — exigem ação manual */
+  conflicts: z.array(conflictSchema),
+});
+
+/** Agenda importada retornada nas respostas (o conteúdo enviado não é devolvido) */
+export const calendarImportProfileSchema = z.object({
+  id: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  name: z.string(),
+  source: z.enum(["URL", "UPLOAD"]),
+  url: z.string().nullable(),
+  lastSyncedAt: z.string().datetime().nullable(),
+  lastSyncError: z.string().nullable(),
+  lastSyncReport: syncReportSchema.nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type CalendarImportProfile = z.infer<typeof calendarImportProfileSchema>;
+
+export const calendarImportListSchema = z.array(calendarImportProfileSchema);
+
+// ========== CREATE ==========
+
+/** POST /api/calendar-imports — Body (url ou content, nunca ambos) */
+export const createCalendarImportSchema = z
+  .object({
+    operatorId: z.string().uuid(),
+    name: z.string().trim().min(1, "Nome é obrigatório").max(100),
+    /** Agenda baixada a cada sincronização */
+    url: calendarUrlSchema.optional(),
+    /** Conteúdo de um arquivo .ics exportado */
+    content: calendarContentSchema.optional(),
+  })
+  .refine((data) => (data.url === undefined) !== (data.content === undefined), {
+    message: "Informe url ou content",
+    path: ["url"],
+  });
+export type CreateCalendarImportRequest = z.infer<typeof createCalendarImportSchema>;
+
+// ========== UPDATE ==========
+
+/** PATCH /api/calendar-imports/{id} — Body (url apenas para URL, content apenas para UPLOAD) */
+export const updateCalendarImportSchema = z
+  .object({
+    name: z.string().trim().min(1, "Nome é obrigatório").max(100).optional(),
+    url: calendarUrlSchema.optional(),
+    content: calendarContentSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((v) => v !== undefined), {
+    message: "Informe ao menos um campo",
+  });
+export type UpdateCalendarImportRequest = z.infer<typeof updateCalendarImportSchema>;
+
+// ========== PARAMS / QUERY ==========
+
+export const calendarImportParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+/** GET /api/calendar-imports — Query Params */
+export const listCalendarImportsQuerySchema = z.object({
+  operatorId: z.string().uuid(),
+});
+export type ListCalendarImportsQuery = z.infer<typeof listCalendarImportsQuerySchema>;
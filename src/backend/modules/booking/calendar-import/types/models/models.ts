@@ -0,0 +1,44 @@
+import type { CalendarImportSyncReport } from "../../../../../shared/schemas/calendar-imports.js";
+
+export type {
+  CalendarImportConflict,
+  CalendarImportSyncReport,
+} from "../../../../../shared/schemas/calendar-imports.js";
+
+/** Row do calendar_imports retornada pelo Drizzle */
+export type CalendarImportRow = {
+  id: string;
+  operatorId: string;
+  name: string;
+  source: "URL" | "UPLOAD";
+  url: string | null;
+  content: string | null;
+  createdBy: string;
+  lastSyncedAt: Date | null;
+  lastSyncError: string | null;
+  lastSyncReport: CalendarImportSyncReport | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Operador com o fuso do business — usado no controle de acesso e na conversão dos slots */
+export type ImportOperatorRow = {
+  id: string;
+  userId: string;
+  tenantId: string;
+  businessTimezone: string;
+};
+
+/** Slot ativo do operador considerado na sincronização */
+export type ImportSlotRow = {
+  id: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: "AVAILABLE" | "BOOKED" | "BLOCKED" | "HELD";
+  /** Slot bloqueado por esta agenda */
+  blockedByImport: boolean;
+  /** Slot bloqueado por outra agenda importada do operador */
+  blockedByOtherImport: boolean;
+};
@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../../core/container/container.js";
+import { createCalendarHandler } from "./3_handler.js";
+import { createCalendarService } from "./4_service.js";
+import { createCalendarRepository } from "./5_repository.js";
+
+export const createCalendarFeature: ModuleFactory = (container) => {
+  const repository = createCalendarRepository(container);
+  const service = createCalendarService(repository, container.config);
+  const handler = createCalendarHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
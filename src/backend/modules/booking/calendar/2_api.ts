@@ -0,0 +1,255 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  calendarFeedFileParamsSchema,
+  calendarFeedProfileSchema,
+  calendarFeedQuerySchema,
+  calendarFeedSubjectParamsSchema,
+  calendarFileSchema,
+  errorResponseSchema,
+  messageResponseSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== ICS FEEDS (públicos, autenticados pelo token) ==========
+
+export const operatorCalendarFileRoute = createRoute({
+  method: "get",
+  path: "/operators/{file}",
+  tags: ["Calendar"],
+  summary: "Feed ICS do operador",
+  description:
+    "Agenda do operador em iCalendar para assinatura em apps de calendário: agendamentos não cancelados (PENDING como provisório) e horários bloqueados, de 30 dias atrás até 1 ano à frente, no fuso do business (VTIMEZONE incluído). Não usa JWT — o token assinado da URL gerada em POST /api/calendar/operators/{id}/feed autentica o acesso.",
+  request: {
+    params: calendarFeedFileParamsSchema,
+    query: calendarFeedQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "text/calendar": { schema: calendarFileSchema } },
+      description: "Arquivo iCalendar",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Feed inexistente, revogado ou token inválido",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+export const customerCalendarFileRoute = createRoute({
+  method: "get",
+  path: "/customers/{file}",
+  tags: ["Calendar"],
+  summary: "Feed ICS do cliente",
+  description:
+    "Agendamentos não cancelados do cliente em todos os businesses, em iCalendar, de 30 dias atrás até 1 ano à frente, cada um no fuso do seu business. Não usa JWT — o token assinado da URL gerada em POST /api/calendar/customers/{id}/feed autentica o acesso.",
+  request: {
+    params: calendarFeedFileParamsSchema,
+    query: calendarFeedQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "text/calendar": { schema: calendarFileSchema } },
+      description: "Arquivo iCalendar",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Feed inexistente, revogado ou token inválido",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== OPERATOR FEED ==========
+
+export const createOperatorFeedRoute = createRoute({
+  method: "post",
+  path: "/operators/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Gerar feed do operador",
+  description:
+    "Gera a URL assinada do feed ICS do operador. Um feed ativo anterior é revogado — a URL antiga deixa de funcionar. Próprio operador, TENANT do operador ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: calendarFeedProfileSchema } },
+      description: "Feed gerado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador não encontrado",
+    },
+  },
+});
+
+export const getOperatorFeedRoute = createRoute({
+  method: "get",
+  path: "/operators/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Consultar feed do operador",
+  description:
+    "Retorna a URL do feed ICS ativo do operador. Próprio operador, TENANT do operador ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarFeedProfileSchema } },
+      description: "Feed ativo",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador não encontrado ou sem feed ativo",
+    },
+  },
+});
+
+export const revokeOperatorFeedRoute = createRoute({
+  method: "delete",
+  path: "/operators/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Revogar feed do operador",
+  description:
+    "Revoga o feed ICS ativo do operador — a URL deixa de funcionar imediatamente. Próprio operador, TENANT do operador ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Feed revogado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Operador não encontrado ou sem feed ativo",
+    },
+  },
+});
+
+// ========== CUSTOMER FEED ==========
+
+export const createCustomerFeedRoute = createRoute({
+  method: "post",
+  path: "/customers/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Gerar feed do cliente",
+  description:
+    "Gera a URL assinada do feed ICS do cliente. Um feed ativo anterior é revogado — a URL antiga deixa de funcionar. Próprio cliente ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: calendarFeedProfileSchema } },
+      description: "Feed gerado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Cliente não encontrado",
+    },
+  },
+});
+
+export const getCustomerFeedRoute = createRoute({
+  method: "get",
+  path: "/customers/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Consultar feed do cliente",
+  description: "Retorna a URL do feed ICS ativo do cliente. Próprio cliente ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: calendarFeedProfileSchema } },
+      description: "Feed ativo",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Cliente não encontrado ou sem feed ativo",
+    },
+  },
+});
+
+export const revokeCustomerFeedRoute = createRoute({
+  method: "delete",
+  path: "/customers/{id}/feed",
+  tags: ["Calendar"],
+  summary: "Revogar feed do cliente",
+  description:
+    "Revoga o feed ICS ativo do cliente — a URL deixa de funcionar imediatamente. Próprio cliente ou OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: calendarFeedSubjectParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Feed revogado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Cliente não encontrado ou sem feed ativo",
+    },
+  },
+});
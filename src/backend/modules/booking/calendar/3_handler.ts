@@ -0,0 +1,166 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import type { Context } from "hono";
+import { respondError } from "../../../core/error/error.handler.js";
+import { getSession } from "../../../core/session/session.guard.js";
+import {
+  createCustomerFeedRoute,
+  createOperatorFeedRoute,
+  customerCalendarFileRoute,
+  getCustomerFeedRoute,
+  getOperatorFeedRoute,
+  operatorCalendarFileRoute,
+  revokeCustomerFeedRoute,
+  revokeOperatorFeedRoute,
+} from "./2_api.js";
+import type { ICalendarService } from "./4_service.js";
+
+export interface ICalendarHandler {
+  register(app: OpenAPIHono): void;
+}
+
+/** Origem pública usada na URL do feed */
+function requestOrigin(c: Context): string {
+  return new URL(c.req.url).origin;
+}
+
+function sendCalendar(c: Context, ics: string): Response {
+  return c.body(ics, 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": 'inline; filename="agenda.ics"',
+    "Cache-Control": "no-cache",
+  });
+}
+
+export function createCalendarHandler(service: ICalendarService): ICalendarHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // GET /operators/:id.ics — Público (token assinado na query)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(operatorCalendarFileRoute, async (c): Promise<any> => {
+        const { file } = c.req.valid("param");
+        const { token } = c.req.valid("query");
+        const result = await service.renderFeed("OPERATOR", file.slice(0, -".ics".length), token);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return sendCalendar(c, result.value);
+      });
+
+      // GET /customers/:id.ics — Público (token assinado na query)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(customerCalendarFileRoute, async (c): Promise<any> => {
+        const { file } = c.req.valid("param");
+        const { token } = c.req.valid("query");
+        const result = await service.renderFeed("CUSTOMER", file.slice(0, -".ics".length), token);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return sendCalendar(c, result.value);
+      });
+
+      // POST /operators/:id/feed — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createOperatorFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.createFeed(
+          "OPERATOR",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          requestOrigin(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET /operators/:id/feed — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getOperatorFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.getFeed(
+          "OPERATOR",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          requestOrigin(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /operators/:id/feed — OPERATOR (próprio), TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(revokeOperatorFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.revokeFeed(
+          "OPERATOR",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /customers/:id/feed — USER (próprio), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createCustomerFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.createFeed(
+          "CUSTOMER",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          requestOrigin(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET /customers/:id/feed — USER (próprio), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getCustomerFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.getFeed(
+          "CUSTOMER",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          requestOrigin(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /customers/:id/feed — USER (próprio), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(revokeCustomerFeedRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.revokeFeed(
+          "CUSTOMER",
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
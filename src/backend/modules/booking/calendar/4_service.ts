@@ -0,0 +1,301 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import {
+  type CalendarEvent,
+  appointmentEventUid,
+  buildCalendar,
+} from "../../../core/calendar/ics.js";
+import type { Config } from "../../../core/config/config.js";
+import { localToUtc } from "../../../core/date/date.utils.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import type { Role } from "../../../core/session/session.guard.js";
+import type { ICalendarRepository } from "./5_repository.js";
+import type { CalendarFeedProfile } from "./types/dtos/dtos.js";
+import type {
+  BlockedSlotRow,
+  CalendarFeedRow,
+  CalendarFeedType,
+  FeedAppointmentRow,
+} from "./types/models/models.js";
+
+export interface ICalendarService {
+  /** Gera um novo feed para o operador/cliente — o feed anterior é revogado */
+  createFeed(
+    type: CalendarFeedType,
+    subjectId: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    origin: string,
+  ): Promise<Result<CalendarFeedProfile>>;
+  getFeed(
+    type: CalendarFeedType,
+    subjectId: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    origin: string,
+  ): Promise<Result<CalendarFeedProfile>>;
+  revokeFeed(
+    type: CalendarFeedType,
+    subjectId: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<{ message: string }>>;
+
+  /** Gera o iCalendar do feed — acesso pelo token assinado, sem sessão */
+  renderFeed(type: CalendarFeedType, subjectId: string, token: string): Promise<Result<string>>;
+}
+
+/** Período coberto pelo feed, relativo a agora */
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+
+/** Intervalo sugerido aos apps de calendário para buscar o feed novamente */
+const FEED_REFRESH_MINUTES = 15;
+
+const DAY_MS = 86_400_000;
+
+const FEED_PATHS: Record<CalendarFeedType, string> = {
+  OPERATOR: "operators",
+  CUSTOMER: "customers",
+};
+
+function subjectOf(feed: CalendarFeedRow): string | null {
+  return feed.type === "OPERATOR" ? feed.operatorId : feed.userId;
+}
+
+function toAppointmentEvent(row: FeedAppointmentRow, type: CalendarFeedType): CalendarEvent {
+  return {
+    uid: appointmentEventUid(row.id),
+    start: row.scheduledAt,
+    end: new Date(row.scheduledAt.getTime() + row.durationMinutes * 60_000),
+    timezone: row.businessTimezone,
+    summary:
+      type === "OPERATOR"
+        ? `${row.serviceName} — ${row.customerName}`
+        : `${row.serviceName} — ${row.businessName}`,
+    description:
+      type === "OPERATOR" ? `Status: ${row.status}` : `Profissional: ${row.operatorName}`,
+    location: row.businessAddress,
+    status: row.status === "PENDING" ? "TENTATIVE" : "CONFIRMED",
+    sequence: row.sequence,
+    lastModified: row.updatedAt,
+  };
+}
+
+/** Agrupa slots bloqueados contíguos do mesmo dia em um único evento */
+function toBlockedEvents(operatorId: string, slots: BlockedSlotRow[]): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  let current: { first: BlockedSlotRow; last: BlockedSlotRow; updatedAt: Date } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const { first, last } = current;
+    events.push({
+      uid: `blocked-${operatorId}-${first.date}-${first.startTime.slice(0, 5)}@chat-booking`,
+      start: localToUtc(first.date, first.startTime.slice(0, 5), first.businessTimezone),
+      end: localToUtc(last.date, last.endTime.slice(0, 5), last.businessTimezone),
+      timezone: first.businessTimezone,
+      summary: "Horário bloqueado",
+      status: "CONFIRMED",
+      sequence: 0,
+      lastModified: current.updatedAt,
+    });
+  };
+
+  for (const slot of slots) {
+    if (current && current.last.date === slot.date && current.last.endTime === slot.startTime) {
+      current.last = slot;
+      if (slot.updatedAt > current.updatedAt) current.updatedAt = slot.updatedAt;
+      continue;
+    }
+    flush();
+    current = { first: slot, last: slot, updatedAt: slot.updatedAt };
+  }
+  flush();
+
+  return events;
+}
+
+export function createCalendarService(
+  repository: ICalendarRepository,
+  config: Config,
+): ICalendarService {
+  /** Assinatura do feed — vincula o token ao id do feed e ao seu dono */
+  function sign(feed: CalendarFeedRow): string {
+    return createHmac("sha256", config.JWT_SECRET)
+      .update(`calendar-feed:${feed.id}:${feed.type}:${subjectOf(feed)}`)
+      .digest("base64url");
+  }
+
+  function toProfile(feed: CalendarFeedRow, origin: string): CalendarFeedProfile {
+    const subjectId = subjectOf(feed) ?? "";
+    const token = `${feed.id}.${sign(feed)}`;
+    return {
+      id: feed.id,
+      type: feed.type,
+      subjectId,
+      url: `${origin}/api/calendar/${FEED_PATHS[feed.type]}/${subjectId}.ics?token=${token}`,
+      createdAt: feed.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Verifica se o caller pode gerenciar o feed:
+   * - OPERATOR: o próprio operador; TENANT: operadores do tenant; OWNER: qualquer
+   * - CUSTOMER: o próprio cliente; OWNER: qualquer
+   */
+  async function checkSubjectAccess(
+    type: CalendarFeedType,
+    subjectId: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<void>> {
+    if (type === "OPERATOR") {
+      const operatorResult = await repository.findOperatorById(subjectId);
+      if (operatorResult.isErr()) return R.fail(operatorResult.error);
+      const operator = operatorResult.value;
+      if (!operator) return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+
+      const allowed =
+        callerRole === "OWNER" ||
+        (callerRole === "TENANT" && operator.tenantId === callerTenantId) ||
+        (callerRole === "OPERATOR" && operator.userId === callerUserId);
+      if (!allowed) return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      return R.ok(undefined);
+    }
+
+    const userResult = await repository.findUserById(subjectId);
+    if (userResult.isErr()) return R.fail(userResult.error);
+    if (!userResult.value) return R.fail({ code: "NOT_FOUND", message: "Cliente não encontrado" });
+
+    if (callerRole !== "OWNER" && subjectId !== callerUserId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+    return R.ok(undefined);
+  }
+
+  /** Valida o token `<feedId>.<assinatura>` — qualquer falha é tratada como feed inexistente */
+  async function verifyToken(
+    type: CalendarFeedType,
+    subjectId: string,
+    token: string,
+  ): Promise<Result<CalendarFeedRow>> {
+    const notFound = R.fail<CalendarFeedRow>({
+      code: "NOT_FOUND",
+      message: "Feed não encontrado",
+    });
+
+    const [feedId, signature] = token.split(".");
+    if (!feedId || !signature || !/^[0-9a-f-]{36}$/i.test(feedId)) return notFound;
+
+    const feedResult = await repository.findFeedById(feedId);
+    if (feedResult.isErr()) return R.fail(feedResult.error);
+    const feed = feedResult.value;
+    if (!feed || feed.revokedAt || feed.type !== type || subjectOf(feed) !== subjectId) {
+      return notFound;
+    }
+
+    const expected = Buffer.from(sign(feed));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      return notFound;
+    }
+
+    return R.ok(feed);
+  }
+
+  return {
+    async createFeed(type, subjectId, callerRole, callerUserId, callerTenantId, origin) {
+      const accessResult = await checkSubjectAccess(
+        type,
+        subjectId,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+
+      const feedResult = await repository.rotateFeed(type, subjectId, callerUserId);
+      if (feedResult.isErr()) return R.fail(feedResult.error);
+
+      return R.ok(toProfile(feedResult.value, origin));
+    },
+
+    async getFeed(type, subjectId, callerRole, callerUserId, callerTenantId, origin) {
+      const accessResult = await checkSubjectAccess(
+        type,
+        subjectId,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+
+      const feedResult = await repository.findActiveFeed(type, subjectId);
+      if (feedResult.isErr()) return R.fail(feedResult.error);
+      if (!feedResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Nenhum feed ativo" });
+      }
+
+      return R.ok(toProfile(feedResult.value, origin));
+    },
+
+    async revokeFeed(type, subjectId, callerRole, callerUserId, callerTenantId) {
+      const accessResult = await checkSubjectAccess(
+        type,
+        subjectId,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+
+      const revokeResult = await repository.revokeActiveFeed(type, subjectId);
+      if (revokeResult.isErr()) return R.fail(revokeResult.error);
+      if (!revokeResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Nenhum feed ativo" });
+      }
+
+      return R.ok({ message: "Feed revogado" });
+    },
+
+    async renderFeed(type, subjectId, token) {
+      const feedResult = await verifyToken(type, subjectId, token);
+      if (feedResult.isErr()) return R.fail(feedResult.error);
+
+      const now = Date.now();
+      const from = new Date(now - FEED_PAST_DAYS * DAY_MS);
+      const to = new Date(now + FEED_FUTURE_DAYS * DAY_MS);
+
+      const appointmentsResult = await repository.findAppointments(
+        type === "OPERATOR" ? { operatorId: subjectId } : { userId: subjectId },
+        from,
+        to,
+      );
+      if (appointmentsResult.isErr()) return R.fail(appointmentsResult.error);
+
+      const events = appointmentsResult.value.map((row) => toAppointmentEvent(row, type));
+      let name = "Meus agendamentos";
+
+      if (type === "OPERATOR") {
+        const operatorResult = await repository.findOperatorById(subjectId);
+        if (operatorResult.isErr()) return R.fail(operatorResult.error);
+        if (operatorResult.value) name = `Agenda — ${operatorResult.value.displayName}`;
+
+        const slotsResult = await repository.findBlockedSlots(
+          subjectId,
+          from.toISOString().slice(0, 10),
+          to.toISOString().slice(0, 10),
+        );
+        if (slotsResult.isErr()) return R.fail(slotsResult.error);
+        events.push(...toBlockedEvents(subjectId, slotsResult.value));
+      }
+
+      return R.ok(buildCalendar(events, { name, refreshMinutes: FEED_REFRESH_MINUTES }));
+    },
+  };
+}
@@ -0,0 +1,231 @@
+import { and, asc, between, eq, gte, isNull, lt, ne, sql } from "drizzle-orm";
+import type { Container } from "../../../core/container/container.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import {
+  appointmentEvents,
+  appointments,
+  businesses,
+  calendarFeeds,
+  operators,
+  scheduleSlots,
+  services,
+  users,
+} from "../../../shared/schemas/index.js";
+import type {
+  BlockedSlotRow,
+  CalendarFeedRow,
+  CalendarFeedType,
+  FeedAppointmentRow,
+  FeedOperatorRow,
+} from "./types/models/models.js";
+
+export interface ICalendarRepository {
+  findFeedById(id: string): Promise<Result<CalendarFeedRow | null>>;
+  findActiveFeed(
+    type: CalendarFeedType,
+    subjectId: string,
+  ): Promise<Result<CalendarFeedRow | null>>;
+
+  /** Revoga o feed ativo do operador/cliente (se houver) e cria um novo — atômico */
+  rotateFeed(
+    type: CalendarFeedType,
+    subjectId: string,
+    createdBy: string,
+  ): Promise<Result<CalendarFeedRow>>;
+
+  /** Revoga o feed ativo — retorna false se não havia feed ativo */
+  revokeActiveFeed(type: CalendarFeedType, subjectId: string): Promise<Result<boolean>>;
+
+  findOperatorById(id: string): Promise<Result<FeedOperatorRow | null>>;
+  findUserById(id: string): Promise<Result<{ id: string; name: string } | null>>;
+
+  /** Agendamentos não cancelados do operador ou do cliente no período */
+  findAppointments(
+    filter: { operatorId: string } | { userId: string },
+    from: Date,
+    to: Date,
+  ): Promise<Result<FeedAppointmentRow[]>>;
+
+  /** Slots BLOCKED ativos do operador entre as datas (inclusivas), em ordem cronológica */
+  findBlockedSlots(
+    operatorId: string,
+    dateFrom: string,
+    dateTo: string,
+  ): Promise<Result<BlockedSlotRow[]>>;
+}
+
+/** Coluna que identifica o dono do feed */
+function subjectColumn(type: CalendarFeedType) {
+  return type === "OPERATOR" ? calendarFeeds.operatorId : calendarFeeds.userId;
+}
+
+export function createCalendarRepository(container: Container): ICalendarRepository {
+  const { db } = container;
+
+  return {
+    async findFeedById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db.select().from(calendarFeeds).where(eq(calendarFeeds.id, id)).limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveFeed(type, subjectId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(calendarFeeds)
+          .where(
+            and(
+              eq(calendarFeeds.type, type),
+              eq(subjectColumn(type), subjectId),
+              isNull(calendarFeeds.revokedAt),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async rotateFeed(type, subjectId, createdBy) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          await tx
+            .update(calendarFeeds)
+            .set({ revokedAt: sql`now()` })
+            .where(
+              and(
+                eq(calendarFeeds.type, type),
+                eq(subjectColumn(type), subjectId),
+                isNull(calendarFeeds.revokedAt),
+              ),
+            );
+
+          const rows = await tx
+            .insert(calendarFeeds)
+            .values({
+              type,
+              operatorId: type === "OPERATOR" ? subjectId : null,
+              userId: type === "CUSTOMER" ? subjectId : null,
+              createdBy,
+            })
+            .returning();
+          if (!rows[0]) throw new Error("Insert não retornou registro");
+          return rows[0];
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async revokeActiveFeed(type, subjectId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(calendarFeeds)
+          .set({ revokedAt: sql`now()` })
+          .where(
+            and(
+              eq(calendarFeeds.type, type),
+              eq(subjectColumn(type), subjectId),
+              isNull(calendarFeeds.revokedAt),
+            ),
+          )
+          .returning({ id: calendarFeeds.id });
+        return rows.length > 0;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: operators.id,
+            userId: operators.userId,
+            tenantId: operators.tenantId,
+            displayName: operators.displayName,
+          })
+          .from(operators)
+          .where(eq(operators.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findUserById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: users.id, name: users.name })
+          .from(users)
+          .where(eq(users.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAppointments(filter, from, to) {
+      return R.fromAsync(async () => {
+        const subject =
+          "operatorId" in filter
+            ? eq(appointments.operatorId, filter.operatorId)
+            : eq(appointments.userId, filter.userId);
+
+        return db
+          .select({
+            id: appointments.id,
+            scheduledAt: appointments.scheduledAt,
+            durationMinutes: appointments.durationMinutes,
+            status: appointments.status,
+            updatedAt: appointments.updatedAt,
+            sequence: sql<number>`(
+              select greatest(count(*) - 1, 0) from ${appointmentEvents}
+              where ${appointmentEvents.appointmentId} = ${appointments.id}
+            )`.mapWith(Number),
+            serviceName: services.name,
+            customerName: users.name,
+            operatorName: operators.displayName,
+            businessName: businesses.name,
+            businessTimezone: businesses.timezone,
+            businessAddress: businesses.address,
+          })
+          .from(appointments)
+          .innerJoin(services, eq(services.id, appointments.serviceId))
+          .innerJoin(users, eq(users.id, appointments.userId))
+          .innerJoin(operators, eq(operators.id, appointments.operatorId))
+          .innerJoin(businesses, eq(businesses.id, appointments.businessId))
+          .where(
+            and(
+              subject,
+              ne(appointments.status, "CANCELLED"),
+              gte(appointments.scheduledAt, from),
+              lt(appointments.scheduledAt, to),
+            ),
+          )
+          .orderBy(asc(appointments.scheduledAt));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBlockedSlots(operatorId, dateFrom, dateTo) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            date: scheduleSlots.date,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            updatedAt: scheduleSlots.updatedAt,
+            businessTimezone: businesses.timezone,
+          })
+          .from(scheduleSlots)
+          .innerJoin(operators, eq(operators.id, scheduleSlots.operatorId))
+          .innerJoin(businesses, eq(businesses.id, operators.businessId))
+          .where(
+            and(
+              eq(scheduleSlots.operatorId, operatorId),
+              eq(scheduleSlots.status, "BLOCKED"),
+              eq(scheduleSlots.active, true),
+              between(scheduleSlots.date, dateFrom, dateTo),
+            ),
+          )
+          .orderBy(asc(scheduleSlots.date), asc(scheduleSlots.startTime));
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+export { errorResponseSchema, messageResponseSchema } from "../../../../../shared/dtos.js";
+
+const feedTypes = ["OPERATOR", "CUSTOMER"] as const;
+
+// ========== CALENDAR FEED (response) ==========
+
+/** Feed ICS ativo — a URL pode ser assinada em qualquer app de calendário */
+export const calendarFeedProfileSchema = z.object({
+  id: z.string().uuid(),
+  type: z.enum(feedTypes),
+  /** Operador (OPERATOR) ou cliente (CUSTOMER) do feed */
+  subjectId: z.string().uuid(),
+  /** URL pública do feed, com o token assinado */
+  url: z.string().url(),
+  createdAt: z.string().datetime(),
+});
+export type CalendarFeedProfile = z.infer<typeof calendarFeedProfileSchema>;
+
+/** Operador ou cliente dono do feed */
+export const calendarFeedSubjectParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// ========== ICS FEED ==========
+
+/** GET /api/calendar/{operators|customers}/{id}.ics — Path Params */
+export const calendarFeedFileParamsSchema = z.object({
+  /** UUID do operador ou cliente seguido de .ics */
+  file: z
+    .string()
+    .regex(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.ics$/i,
+      "Formato deve ser {id}.ics",
+    ),
+});
+
+/** GET /api/calendar/{operators|customers}/{id}.ics — Query Params */
+export const calendarFeedQuerySchema = z.object({
+  token: z.string().min(1, "token é obrigatório").max(200),
+});
+
+/** Corpo da resposta — iCalendar (text/calendar) */
+export const calendarFileSchema = z.string();
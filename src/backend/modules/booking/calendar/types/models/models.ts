@@ -0,0 +1,46 @@
+export type CalendarFeedType = "OPERATOR" | "CUSTOMER";
+
+/** Row do calendar_feeds retornada pelo Drizzle */
+export type CalendarFeedRow = {
+  id: string;
+  type: CalendarFeedType;
+  operatorId: string | null;
+  userId: string | null;
+  createdBy: string;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+/** Operador com os dados do business usados no feed */
+export type FeedOperatorRow = {
+  id: string;
+  userId: string;
+  tenantId: string;
+  displayName: string;
+};
+
+/** Agendamento exibido no feed, com os nomes e o fuso do business */
+export type FeedAppointmentRow = {
+  id: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+  updatedAt: Date;
+  /** Quantidade de alterações registradas no histórico após a criação */
+  sequence: number;
+  serviceName: string;
+  customerName: string;
+  operatorName: string;
+  businessName: string;
+  businessTimezone: string;
+  businessAddress: string | null;
+};
+
+/** Slot BLOCKED da agenda do operador — data e horários locais do business */
+export type BlockedSlotRow = {
+  date: string;
+  startTime: string;
+  endTime: string;
+  updatedAt: Date;
+  businessTimezone: string;
+};
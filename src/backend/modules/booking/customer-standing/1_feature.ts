@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../../core/container/container.js";
+import { createCustomerStandingHandler } from "./3_handler.js";
+import { createCustomerStandingService } from "./4_service.js";
+import { createCustomerStandingRepository } from "./5_repository.js";
+
+export const createCustomerStandingFeature: ModuleFactory = (container) => {
+  const repository = createCustomerStandingRepository(container);
+  const service = createCustomerStandingService(repository);
+  const handler = createCustomerStandingHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
@@ -0,0 +1,103 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  customerStandingParamsSchema,
+  customerStandingProfileSchema,
+  errorResponseSchema,
+  listCustomerStandingsQuerySchema,
+  paginatedCustomerStandingsResponseSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== LIST ==========
+
+export const listCustomerStandingsRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Customer Standings"],
+  summary: "Listar situação dos clientes",
+  description:
+    "Lista clientes com incidentes (no-shows e cancelamentos tardios) registrados, ordenados pelo incidente mais recente. TENANT vê apenas os businesses do próprio tenant. Restrito a TENANT e OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listCustomerStandingsQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedCustomerStandingsResponseSchema } },
+      description: "Lista paginada de situações",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+  },
+});
+
+// ========== GET ==========
+
+export const getCustomerStandingRoute = createRoute({
+  method: "get",
+  path: "/{businessId}/{userId}",
+  tags: ["Customer Standings"],
+  summary: "Consultar situação de um cliente",
+  description:
+    "Retorna a contagem de no-shows e cancelamentos tardios do cliente no business e o status resultante: GOOD, RESTRICTED (novos agendamentos exigem depósito) ou BLOCKED (não pode agendar). Restrito a TENANT do business e OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: customerStandingParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: customerStandingProfileSchema } },
+      description: "Situação do cliente",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business ou cliente não encontrado",
+    },
+  },
+});
+
+// ========== CLEAR ==========
+
+export const clearCustomerStandingRoute = createRoute({
+  method: "post",
+  path: "/{businessId}/{userId}/clear",
+  tags: ["Customer Standings"],
+  summary: "Limpar situação de um cliente",
+  description:
+    "Zera os contadores de incidentes do cliente no business e volta o status para GOOD, removendo restrições e bloqueio. Registra quem limpou e quando. Restrito a TENANT do business e OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: customerStandingParamsSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: customerStandingProfileSchema } },
+      description: "Situação limpa",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business ou cliente não encontrado",
+    },
+  },
+});
@@ -0,0 +1,72 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../../core/error/error.handler.js";
+import { getSession, hasRole } from "../../../core/session/session.guard.js";
+import {
+  clearCustomerStandingRoute,
+  getCustomerStandingRoute,
+  listCustomerStandingsRoute,
+} from "./2_api.js";
+import type { ICustomerStandingService } from "./4_service.js";
+
+export interface ICustomerStandingHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createCustomerStandingHandler(
+  service: ICustomerStandingService,
+): ICustomerStandingHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // GET / — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listCustomerStandingsRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.list(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /:businessId/:userId — TENANT (do business), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getCustomerStandingRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { businessId, userId } = c.req.valid("param");
+        const result = await service.get(businessId, userId, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /:businessId/:userId/clear — TENANT (do business), OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(clearCustomerStandingRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { businessId, userId } = c.req.valid("param");
+        const result = await service.clear(
+          businessId,
+          userId,
+          session.role,
+          session.sub,
+          session.tenantId,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import type { Role } from "../../../core/session/session.guard.js";
+import type { ICustomerStandingRepository } from "./5_repository.js";
+import type {
+  CustomerStandingProfile,
+  ListCustomerStandingsQuery,
+  PaginatedCustomerStandingsResponse,
+} from "./types/dtos/dtos.js";
+import type { CustomerStandingRow } from "./types/models/models.js";
+
+export interface ICustomerStandingService {
+  list(
+    query: ListCustomerStandingsQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedCustomerStandingsResponse>>;
+  get(
+    businessId: string,
+    userId: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<CustomerStandingProfile>>;
+  clear(
+    businessId: string,
+    userId: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<CustomerStandingProfile>>;
+}
+
+function toProfile(row: CustomerStandingRow): CustomerStandingProfile {
+  return {
+    businessId: row.businessId,
+    userId: row.userId,
+    userName: row.userName,
+    noShowCount: row.noShowCount,
+    lateCancellationCount: row.lateCancellationCount,
+    status: row.status,
+    lastIncidentAt: row.lastIncidentAt?.toISOString() ?? null,
+    clearedAt: row.clearedAt?.toISOString() ?? null,
+    clearedBy: row.clearedBy,
+  };
+}
+
+export function createCustomerStandingService(
+  repository: ICustomerStandingRepository,
+): ICustomerStandingService {
+  /**
+   * Busca a situação do cliente no business, verificando acesso:
+   * - OWNER: qualquer business
+   * - TENANT: apenas businesses do próprio tenant
+   * Clientes sem registro (nunca tiveram incidentes) são retornados como GOOD.
+   */
+  async function findStanding(
+    businessId: string,
+    userId: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<{ row: CustomerStandingRow | null; profile: CustomerStandingProfile }>> {
+    if (callerRole !== "OWNER" && callerRole !== "TENANT") {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    const businessResult = await repository.findBusinessById(businessId);
+    if (businessResult.isErr()) return R.fail(businessResult.error);
+    if (!businessResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+    }
+    if (callerRole === "TENANT" && businessResult.value.tenantId !== callerTenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    const standingResult = await repository.findByBusinessAndUser(businessId, userId);
+    if (standingResult.isErr()) return R.fail(standingResult.error);
+    if (standingResult.value) {
+      return R.ok({ row: standingResult.value, profile: toProfile(standingResult.value) });
+    }
+
+    const userResult = await repository.findUserById(userId);
+    if (userResult.isErr()) return R.fail(userResult.error);
+    if (!userResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Cliente não encontrado" });
+    }
+
+    return R.ok({
+      row: null,
+      profile: {
+        businessId,
+        userId,
+        userName: userResult.value.name,
+        noShowCount: 0,
+        lateCancellationCount: 0,
+        status: "GOOD",
+        lastIncidentAt: null,
+        clearedAt: null,
+        clearedBy: null,
+      },
+    });
+  }
+
+  return {
+    async list(query, callerRole, callerTenantId) {
+      const params: Parameters<typeof repository.findAll>[0] = {
+        page: query.page,
+        limit: query.limit,
+        status: query.status,
+        businessId: query.businessId,
+      };
+
+      if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({
+            code: "FORBIDDEN",
+            message: "Usuário não está vinculado a um tenant",
+          });
+        }
+        params.tenantId = callerTenantId;
+      } else if (callerRole !== "OWNER") {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+
+      const result = await repository.findAll(params);
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async get(businessId, userId, callerRole, callerTenantId) {
+      const result = await findStanding(businessId, userId, callerRole, callerTenantId);
+      if (result.isErr()) return R.fail(result.error);
+
+      return R.ok(result.value.profile);
+    },
+
+    async clear(businessId, userId, callerRole, callerUserId, callerTenantId) {
+      const result = await findStanding(businessId, userId, callerRole, callerTenantId);
+      if (result.isErr()) return R.fail(result.error);
+
+      // Sem registro não há o que limpar
+      const { row } = result.value;
+      if (!row) return R.ok(result.value.profile);
+
+      const clearResult = await repository.clear(row.id, callerUserId);
+      if (clearResult.isErr()) return R.fail(clearResult.error);
+
+      const updatedResult = await repository.findByBusinessAndUser(businessId, userId);
+      if (updatedResult.isErr()) return R.fail(updatedResult.error);
+      if (!updatedResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Situação do cliente não encontrada" });
+      }
+
+      return R.ok(toProfile(updatedResult.value));
+    },
+  };
+}
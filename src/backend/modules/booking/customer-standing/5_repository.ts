@@ -0,0 +1,146 @@
+import { and, count, desc, eq, inArray, sql } from "drizzle-orm";
+import type { Container } from "../../../core/container/container.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import { businesses, customerStandings, users } from "../../../shared/schemas/index.js";
+import type { CustomerStandingRow } from "./types/models/models.js";
+
+export interface ICustomerStandingRepository {
+  findAll(params: {
+    page: number;
+    limit: number;
+    status?: string;
+    businessId?: string;
+    tenantId?: string;
+  }): Promise<Result<{ data: CustomerStandingRow[]; total: number }>>;
+
+  findByBusinessAndUser(
+    businessId: string,
+    userId: string,
+  ): Promise<Result<CustomerStandingRow | null>>;
+
+  /** Zera os contadores e volta o status para GOOD */
+  clear(id: string, clearedBy: string): Promise<Result<void>>;
+
+  findBusinessById(businessId: string): Promise<Result<{ id: string; tenantId: string } | null>>;
+
+  findUserById(userId: string): Promise<Result<{ id: string; name: string } | null>>;
+}
+
+export function createCustomerStandingRepository(
+  container: Container,
+): ICustomerStandingRepository {
+  const { db } = container;
+
+  const columns = {
+    id: customerStandings.id,
+    businessId: customerStandings.businessId,
+    userId: customerStandings.userId,
+    userName: users.name,
+    noShowCount: customerStandings.noShowCount,
+    lateCancellationCount: customerStandings.lateCancellationCount,
+    status: customerStandings.status,
+    lastIncidentAt: customerStandings.lastIncidentAt,
+    clearedAt: customerStandings.clearedAt,
+    clearedBy: customerStandings.clearedBy,
+    createdAt: customerStandings.createdAt,
+    updatedAt: customerStandings.updatedAt,
+  };
+
+  return {
+    async findAll(params) {
+      return R.fromAsync(async () => {
+        const conditions: ReturnType<typeof eq>[] = [];
+
+        if (params.businessId) {
+          conditions.push(eq(customerStandings.businessId, params.businessId));
+        }
+        if (params.status) {
+          conditions.push(
+            eq(customerStandings.status, params.status as CustomerStandingRow["status"]),
+          );
+        }
+        if (params.tenantId) {
+          conditions.push(
+            inArray(
+              customerStandings.businessId,
+              db
+                .select({ id: businesses.id })
+                .from(businesses)
+                .where(eq(businesses.tenantId, params.tenantId)),
+            ),
+          );
+        }
+
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+        const offset = (params.page - 1) * params.limit;
+
+        const [data, countResult] = await Promise.all([
+          db
+            .select(columns)
+            .from(customerStandings)
+            .innerJoin(users, eq(users.id, customerStandings.userId))
+            .where(where)
+            .orderBy(desc(customerStandings.lastIncidentAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(customerStandings).where(where),
+        ]);
+
+        return { data, total: countResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findByBusinessAndUser(businessId, userId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select(columns)
+          .from(customerStandings)
+          .innerJoin(users, eq(users.id, customerStandings.userId))
+          .where(
+            and(eq(customerStandings.businessId, businessId), eq(customerStandings.userId, userId)),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async clear(id, clearedBy) {
+      return R.fromAsync(async () => {
+        await db
+          .update(customerStandings)
+          .set({
+            noShowCount: 0,
+            lateCancellationCount: 0,
+            status: "GOOD" as const,
+            clearedAt: sql`now()`,
+            clearedBy,
+            updatedAt: sql`now()`,
+          })
+          .where(eq(customerStandings.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessById(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: businesses.id, tenantId: businesses.tenantId })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findUserById(userId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: users.id, name: users.name })
+          .from(users)
+          .where(eq(users.id, userId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { paginationSchema } from "../../../../../shared/dtos.js";
+
+export { errorResponseSchema } from "../../../../../shared/dtos.js";
+export { paginationSchema };
+
+const standingStatuses = ["GOOD", "RESTRICTED", "BLOCKED"] as const;
+
+// ========== CUSTOMER STANDING PROFILE (response) ==========
+
+/** Situação do cliente em um business — clientes sem incidentes retornam GOOD com contadores zerados */
+export const customerStandingProfileSchema = z.object({
+  businessId: z.string().uuid(),
+  userId: z.string().uuid(),
+  userName: z.string(),
+  noShowCount: z.number().int(),
+  lateCancellationCount: z.number().int(),
+  status: z.enum(standingStatuses),
+  lastIncidentAt: z.string().datetime().nullable(),
+  clearedAt: z.string().datetime().nullable(),
+  clearedBy: z.string().uuid().nullable(),
+});
+export type CustomerStandingProfile = z.infer<typeof customerStandingProfileSchema>;
+
+/** Parâmetros de rota que identificam o cliente no business */
+export const customerStandingParamsSchema = z.object({
+  businessId: z.string().uuid(),
+  userId: z.string().uuid(),
+});
+
+// ========== LIST STANDINGS ==========
+
+/** GET /api/customer-standings — Query Params */
+export const listCustomerStandingsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(standingStatuses).optional(),
+  businessId: z.string().uuid().optional(),
+});
+export type ListCustomerStandingsQuery = z.infer<typeof listCustomerStandingsQuerySchema>;
+
+/** GET /api/customer-standings — Response Body */
+export const paginatedCustomerStandingsResponseSchema = z.object({
+  data: z.array(customerStandingProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedCustomerStandingsResponse = z.infer<
+  typeof paginatedCustomerStandingsResponseSchema
+>;
@@ -0,0 +1,15 @@
+/** Row do customer_standings com o nome do cliente */
+export type CustomerStandingRow = {
+  id: string;
+  businessId: string;
+  userId: string;
+  userName: string;
+  noShowCount: number;
+  lateCancellationCount: number;
+  status: "GOOD" | "RESTRICTED" | "BLOCKED";
+  lastIncidentAt: Date | null;
+  clearedAt: Date | null;
+  clearedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../../core/container/container.js";
+import { createExportHandler } from "./3_handler.js";
+import { createExportService } from "./4_service.js";
+import { createExportRepository } from "./5_repository.js";
+
+export const createExportFeature: ModuleFactory = (container) => {
+  const repository = createExportRepository(container);
+  const service = createExportService(repository);
+  const handler = createExportHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
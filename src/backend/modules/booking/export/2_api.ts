@@ -0,0 +1,83 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  errorResponseSchema,
+  exportAppointmentsQuerySchema,
+  exportCustomersQuerySchema,
+  exportFileSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== EXPORT APPOINTMENTS ==========
+
+export const exportAppointmentsRoute = createRoute({
+  method: "get",
+  path: "/appointments",
+  tags: ["Exports"],
+  summary: "Exportar agendamentos",
+  description:
+    "Gera uma planilha (format=csv ou xlsx) com os agendamentos, incluindo nome do cliente, serviço, operador, data e hora no fuso do business e valor. Aceita os mesmos filtros e aplica as mesmas regras de visibilidade de GET /api/appointments (USER: próprios; OPERATOR: seus atendimentos; TENANT: businesses do tenant; OWNER: todos). O arquivo é transmitido em streaming, sem paginação.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: exportAppointmentsQuerySchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "text/csv": { schema: exportFileSchema },
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+          schema: exportFileSchema,
+        },
+      },
+      description: "Arquivo da planilha",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Usuário não está vinculado a um tenant",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== EXPORT CUSTOMERS ==========
+
+export const exportCustomersRoute = createRoute({
+  method: "get",
+  path: "/customers",
+  tags: ["Exports"],
+  summary: "Exportar clientes",
+  description:
+    "Gera uma planilha (format=csv ou xlsx) com um registro por cliente em cada business: contato, quantidade de agendamentos por status, receita realizada e datas do primeiro e do último agendamento. OPERATOR vê os clientes dos seus atendimentos; TENANT, os das businesses do tenant; OWNER, todos. O arquivo é transmitido em streaming, sem paginação.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: exportCustomersQuerySchema,
+  },
+  responses: {
+    200: {
+      content: {
+        "text/csv": { schema: exportFileSchema },
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": {
+          schema: exportFileSchema,
+        },
+      },
+      description: "Arquivo da planilha",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
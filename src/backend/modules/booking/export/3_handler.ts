@@ -0,0 +1,81 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import type { Context } from "hono";
+import { stream } from "hono/streaming";
+import { respondError } from "../../../core/error/error.handler.js";
+import { logger } from "../../../core/logger/logger.js";
+import { getCorrelationId } from "../../../core/logger/logger.middleware.js";
+import { getSession } from "../../../core/session/session.guard.js";
+import { SPREADSHEET_CONTENT_TYPES } from "../../../core/spreadsheet/spreadsheet.writer.js";
+import { exportAppointmentsRoute, exportCustomersRoute } from "./2_api.js";
+import type { IExportService } from "./4_service.js";
+import type { ExportFile } from "./types/models/models.js";
+
+export interface IExportHandler {
+  register(app: OpenAPIHono): void;
+}
+
+/**
+ * Transmite o arquivo conforme é gerado. Erros no meio da geração não podem mais
+ * virar resposta JSON (cabeçalhos já enviados) — são registrados e a conexão é encerrada.
+ */
+function sendFile(c: Context, file: ExportFile): Response {
+  c.header("Content-Type", SPREADSHEET_CONTENT_TYPES[file.format]);
+  c.header("Content-Disposition", `attachment; filename="${file.filename}"`);
+  c.header("Cache-Control", "no-store");
+
+  const correlationId = getCorrelationId(c);
+  return stream(
+    c,
+    async (output) => {
+      for await (const chunk of file.body) {
+        if (output.aborted) return;
+        await output.write(chunk);
+      }
+    },
+    async (error) => {
+      logger.error("Falha ao gerar exportação", {
+        correlationId,
+        filename: file.filename,
+        error: error.message,
+      });
+    },
+  );
+}
+
+export function createExportHandler(service: IExportService): IExportHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // GET /appointments — Qualquer autenticado (filtragem por role no service)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(exportAppointmentsRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const query = c.req.valid("query");
+        const result = await service.exportAppointments(
+          query,
+          session.role,
+          session.sub,
+          session.tenantId,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return sendFile(c, result.value);
+      });
+
+      // GET /customers — TENANT, OWNER, OPERATOR
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(exportCustomersRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const query = c.req.valid("query");
+        const result = await service.exportCustomers(
+          query,
+          session.role,
+          session.sub,
+          session.tenantId,
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return sendFile(c, result.value);
+      });
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import type { Role } from "../../../core/session/session.guard.js";
+import {
+  type SpreadsheetColumn,
+  type SpreadsheetFormat,
+  writeSpreadsheet,
+} from "../../../core/spreadsheet/spreadsheet.writer.js";
+import type { IExportRepository } from "./5_repository.js";
+import type { ExportAppointmentsQuery, ExportCustomersQuery } from "./types/dtos/dtos.js";
+import type {
+  AppointmentExportFilters,
+  AppointmentExportRow,
+  CustomerExportFilters,
+  CustomerExportRow,
+  ExportFile,
+} from "./types/models/models.js";
+
+export interface IExportService {
+  exportAppointments(
+    query: ExportAppointmentsQuery,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<ExportFile>>;
+  exportCustomers(
+    query: ExportCustomersQuery,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<ExportFile>>;
+}
+
+/** Valores em reais — a planilha trata como número, não texto */
+function toAmount(cents: number): number {
+  return cents / 100;
+}
+
+const appointmentColumns: SpreadsheetColumn<AppointmentExportRow>[] = [
+  { header: "ID", value: (row) => row.id },
+  { header: "Business", value: (row) => row.businessName },
+  { header: "Data", value: (row) => row.localDate },
+  { header: "Hora", value: (row) => row.localTime },
+  { header: "Cliente", value: (row) => row.customerName },
+  { header: "Serviço", value: (row) => row.serviceName },
+  { header: "Operador", value: (row) => row.operatorName },
+  { header: "Duração (min)", value: (row) => row.durationMinutes },
+  { header: "Valor", value: (row) => toAmount(row.priceCents) },
+  { header: "Status", value: (row) => row.status },
+  { header: "Motivo do cancelamento", value: (row) => row.cancellationReasonCode },
+];
+
+const customerColumns: SpreadsheetColumn<CustomerExportRow>[] = [
+  { header: "Business", value: (row) => row.businessName },
+  { header: "Cliente", value: (row) => row.name },
+  { header: "Telefone", value: (row) => row.phone },
+  { header: "E-mail", value: (row) => row.email },
+  { header: "Agendamentos", value: (row) => row.appointmentCount },
+  { header: "Concluídos", value: (row) => row.completedCount },
+  { header: "Cancelados", value: (row) => row.cancelledCount },
+  { header: "Não compareceu", value: (row) => row.noShowCount },
+  { header: "Receita realizada", value: (row) => toAmount(row.completedRevenueCents) },
+  { header: "Primeiro agendamento", value: (row) => row.firstAppointmentDate },
+  { header: "Último agendamento", value: (row) => row.lastAppointmentDate },
+];
+
+/** Lotes vazios — exportação de operador sem cadastro ativo gera apenas o cabeçalho */
+async function* noRows<T>(): AsyncGenerator<T[]> {}
+
+function toFile<T>(
+  name: string,
+  format: SpreadsheetFormat,
+  columns: SpreadsheetColumn<T>[],
+  batches: AsyncIterable<T[]>,
+): ExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `${name}-${date}.${format}`,
+    format,
+    body: writeSpreadsheet(format, columns, batches),
+  };
+}
+
+export function createExportService(repository: IExportRepository): IExportService {
+  return {
+    async exportAppointments(query, callerRole, callerUserId, callerTenantId) {
+      const filters: AppointmentExportFilters = {
+        status: query.status,
+        dateFrom: query.dateFrom,
+        dateTo: query.dateTo,
+        operatorId: query.operatorId,
+        businessId: query.businessId,
+        cancellationActor: query.cancellationActor,
+        cancellationReasonCode: query.cancellationReasonCode,
+      };
+
+      // Filtragem por role — mesmas regras de GET /api/appointments
+      if (callerRole === "USER") {
+        filters.userId = callerUserId;
+      } else if (callerRole === "OPERATOR") {
+        const operatorResult = await repository.findOperatorByUserId(callerUserId);
+        if (operatorResult.isErr()) return R.fail(operatorResult.error);
+        if (!operatorResult.value) {
+          return R.ok(toFile("agendamentos", query.format, appointmentColumns, noRows()));
+        }
+        filters.operatorId = operatorResult.value.id;
+      } else if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({
+            code: "FORBIDDEN",
+            message: "Usuário não está vinculado a um tenant",
+          });
+        }
+        filters.tenantId = callerTenantId;
+      }
+      // OWNER: sem filtro adicional
+
+      return R.ok(
+        toFile(
+          "agendamentos",
+          query.format,
+          appointmentColumns,
+          repository.streamAppointments(filters),
+        ),
+      );
+    },
+
+    async exportCustomers(query, callerRole, callerUserId, callerTenantId) {
+      const filters: CustomerExportFilters = { businessId: query.businessId };
+
+      if (callerRole === "USER") {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+      if (callerRole === "OPERATOR") {
+        const operatorResult = await repository.findOperatorByUserId(callerUserId);
+        if (operatorResult.isErr()) return R.fail(operatorResult.error);
+        if (!operatorResult.value) {
+          return R.ok(toFile("clientes", query.format, customerColumns, noRows()));
+        }
+        filters.operatorId = operatorResult.value.id;
+      } else if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({
+            code: "FORBIDDEN",
+            message: "Usuário não está vinculado a um tenant",
+          });
+        }
+        filters.tenantId = callerTenantId;
+      }
+      // OWNER: sem filtro adicional
+
+      return R.ok(
+        toFile("clientes", query.format, customerColumns, repository.streamCustomers(filters)),
+      );
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import { type SQL, and, asc, desc, eq, gte, lte, sql } from "drizzle-orm";
+import type { Container } from "../../../core/container/container.js";
+import { endOfDayUtcFromYmd, startOfDayUtcFromYmd } from "../../../core/date/date.utils.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import {
+  appointments,
+  businesses,
+  operators,
+  services,
+  users,
+} from "../../../shared/schemas/index.js";
+import type {
+  AppointmentExportFilters,
+  AppointmentExportRow,
+  CustomerExportFilters,
+  CustomerExportRow,
+} from "./types/models/models.js";
+
+/** Linhas lidas do banco por consulta durante a exportação */
+const EXPORT_BATCH_SIZE = 1000;
+
+export interface IExportRepository {
+  /**
+   * Percorre os agendamentos em lotes (keyset por scheduledAt/id, mais recentes primeiro).
+   * Falhas de banco são lançadas durante a iteração — a resposta já está em andamento.
+   */
+  streamAppointments(filters: AppointmentExportFilters): AsyncGenerator<AppointmentExportRow[]>;
+
+  /** Percorre os clientes (por business) em lotes — mesmas regras de falha de streamAppointments */
+  streamCustomers(filters: CustomerExportFilters): AsyncGenerator<CustomerExportRow[]>;
+
+  findOperatorByUserId(userId: string): Promise<Result<{ id: string } | null>>;
+}
+
+export function createExportRepository(container: Container): IExportRepository {
+  const { db } = container;
+
+  /** Formata o horário do agendamento no fuso do business */
+  function localScheduledAt(pattern: string): SQL<string> {
+    return sql<string>`to_char(${appointments.scheduledAt} at time zone ${businesses.timezone}, ${pattern})`;
+  }
+
+  return {
+    async *streamAppointments(filters) {
+      const conditions: SQL[] = [];
+
+      if (filters.userId) conditions.push(eq(appointments.userId, filters.userId));
+      if (filters.operatorId) conditions.push(eq(appointments.operatorId, filters.operatorId));
+      if (filters.businessId) conditions.push(eq(appointments.businessId, filters.businessId));
+      if (filters.tenantId) conditions.push(eq(businesses.tenantId, filters.tenantId));
+      if (filters.status) conditions.push(eq(appointments.status, filters.status));
+      if (filters.cancellationActor) {
+        conditions.push(eq(appointments.cancellationActor, filters.cancellationActor));
+      }
+      if (filters.cancellationReasonCode) {
+        conditions.push(eq(appointments.cancellationReasonCode, filters.cancellationReasonCode));
+      }
+      if (filters.dateFrom) {
+        conditions.push(gte(appointments.scheduledAt, startOfDayUtcFromYmd(filters.dateFrom)));
+      }
+      if (filters.dateTo) {
+        conditions.push(lte(appointments.scheduledAt, endOfDayUtcFromYmd(filters.dateTo)));
+      }
+
+      let cursor: { scheduledAt: Date; id: string } | null = null;
+
+      while (true) {
+        const page: SQL[] = cursor
+          ? [
+              sql`(${appointments.scheduledAt}, ${appointments.id}) < (${cursor.scheduledAt.toISOString()}::timestamptz, ${cursor.id}::uuid)`,
+            ]
+          : [];
+
+        const rows = await db
+          .select({
+            id: appointments.id,
+            businessName: businesses.name,
+            localDate: localScheduledAt("YYYY-MM-DD"),
+            localTime: localScheduledAt("HH24:MI"),
+            customerName: users.name,
+            serviceName: services.name,
+            operatorName: operators.displayName,
+            durationMinutes: appointments.durationMinutes,
+            priceCents: appointments.priceCents,
+            status: appointments.status,
+            cancellationReasonCode: appointments.cancellationReasonCode,
+            scheduledAt: appointments.scheduledAt,
+          })
+          .from(appointments)
+          .innerJoin(businesses, eq(businesses.id, appointments.businessId))
+          .innerJoin(users, eq(users.id, appointments.userId))
+          .innerJoin(services, eq(services.id, appointments.serviceId))
+          .innerJoin(operators, eq(operators.id, appointments.operatorId))
+          .where(and(...conditions, ...page))
+          .orderBy(desc(appointments.scheduledAt), desc(appointments.id))
+          .limit(EXPORT_BATCH_SIZE);
+
+        if (rows.length > 0) yield rows;
+        if (rows.length < EXPORT_BATCH_SIZE) return;
+
+        const last = rows[rows.length - 1];
+        if (!last) return;
+        cursor = { scheduledAt: last.scheduledAt, id: last.id };
+      }
+    },
+
+    async *streamCustomers(filters) {
+      const conditions: SQL[] = [];
+
+      if (filters.operatorId) conditions.push(eq(appointments.operatorId, filters.operatorId));
+      if (filters.businessId) conditions.push(eq(appointments.businessId, filters.businessId));
+      if (filters.tenantId) conditions.push(eq(businesses.tenantId, filters.tenantId));
+
+      let cursor: { businessId: string; userId: string } | null = null;
+
+      while (true) {
+        const page: SQL[] = cursor
+          ? [
+              sql`(${appointments.businessId}, ${appointments.userId}) > (${cursor.businessId}::uuid, ${cursor.userId}::uuid)`,
+            ]
+          : [];
+
+        const rows = await db
+          .select({
+            businessId: appointments.businessId,
+            businessName: businesses.name,
+            userId: appointments.userId,
+            name: users.name,
+            phone: users.phone,
+            email: users.email,
+            appointmentCount: sql<number>`count(*)`.mapWith(Number),
+            completedCount:
+              sql<number>`count(*) filter (where ${appointments.status} = 'COMPLETED')`.mapWith(
+                Number,
+              ),
+            cancelledCount:
+              sql<number>`count(*) filter (where ${appointments.status} = 'CANCELLED')`.mapWith(
+                Number,
+              ),
+            noShowCount:
+              sql<number>`count(*) filter (where ${appointments.status} = 'NO_SHOW')`.mapWith(
+                Number,
+              ),
+            completedRevenueCents:
+              sql<number>`coalesce(sum(${appointments.priceCents}) filter (where ${appointments.status} = 'COMPLETED'), 0)`.mapWith(
+                Number,
+              ),
+            firstAppointmentDate: sql<string>`to_char(min(${appointments.scheduledAt}) at time zone ${businesses.timezone}, 'YYYY-MM-DD')`,
+            lastAppointmentDate: sql<string>`to_char(max(${appointments.scheduledAt}) at time zone ${businesses.timezone}, 'YYYY-MM-DD')`,
+          })
+          .from(appointments)
+          .innerJoin(businesses, eq(businesses.id, appointments.businessId))
+          .innerJoin(users, eq(users.id, appointments.userId))
+          .where(and(...conditions, ...page))
+          .groupBy(
+            appointments.businessId,
+            businesses.name,
+            businesses.timezone,
+            appointments.userId,
+            users.name,
+            users.phone,
+            users.email,
+          )
+          .orderBy(asc(appointments.businessId), asc(appointments.userId))
+          .limit(EXPORT_BATCH_SIZE);
+
+        if (rows.length > 0) yield rows;
+        if (rows.length < EXPORT_BATCH_SIZE) return;
+
+        const last = rows[rows.length - 1];
+        if (!last) return;
+        cursor = { businessId: last.businessId, userId: last.userId };
+      }
+    },
+
+    async findOperatorByUserId(userId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: operators.id })
+          .from(operators)
+          .where(and(eq(operators.userId, userId), eq(operators.active, true)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
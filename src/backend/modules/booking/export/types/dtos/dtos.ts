@@ -0,0 +1,65 @@
+import { z } from "zod";
+
+export { errorResponseSchema } from "../../../../../shared/dtos.js";
+
+const exportFormats = ["csv", "xlsx"] as const;
+const appointmentStatuses = ["PENDING", "CONFIRMED", "CANCELLED", "COMPLETED", "NO_SHOW"] as const;
+const cancellationActors = ["CUSTOMER", "OPERATOR", "TENANT", "OWNER", "SYSTEM"] as const;
+const cancellationReasonCodes = [
+  "CUSTOMER_REQUEST",
+  "SCHEDULE_CONFLICT",
+  "ILLNESS",
+  "OPERATOR_UNAVAILABLE",
+  "BUSINESS_CLOSURE",
+  "DUPLICATE",
+  "OTHER",
+] as const;
+
+/** Regex para validar formato YYYY-MM-DD */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Valida que a string é uma data real (não aceita "2025-13-45") */
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+const formatSchema = z
+  .enum(exportFormats, { errorMap: () => ({ message: "format deve ser csv ou xlsx" }) })
+  .default("csv");
+
+// ========== EXPORT APPOINTMENTS ==========
+
+/** GET /api/exports/appointments — Query Params (mesmos filtros de GET /api/appointments, sem paginação) */
+export const exportAppointmentsQuerySchema = z.object({
+  format: formatSchema,
+  status: z.enum(appointmentStatuses).optional(),
+  dateFrom: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida")
+    .optional(),
+  dateTo: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida")
+    .optional(),
+  operatorId: z.string().uuid().optional(),
+  businessId: z.string().uuid().optional(),
+  cancellationActor: z.enum(cancellationActors).optional(),
+  cancellationReasonCode: z.enum(cancellationReasonCodes).optional(),
+});
+export type ExportAppointmentsQuery = z.infer<typeof exportAppointmentsQuerySchema>;
+
+// ========== EXPORT CUSTOMERS ==========
+
+/** GET /api/exports/customers — Query Params */
+export const exportCustomersQuerySchema = z.object({
+  format: formatSchema,
+  businessId: z.string().uuid().optional(),
+});
+export type ExportCustomersQuery = z.infer<typeof exportCustomersQuerySchema>;
+
+/** Corpo da resposta — arquivo CSV ou XLSX */
+export const exportFileSchema = z.string();
@@ -0,0 +1,69 @@
+import type { SpreadsheetFormat } from "../../../../../core/spreadsheet/spreadsheet.writer.js";
+
+/** Linha da exportação de agendamentos — data e hora no fuso do business */
+export type AppointmentExportRow = {
+  id: string;
+  businessName: string;
+  localDate: string;
+  localTime: string;
+  customerName: string;
+  serviceName: string;
+  operatorName: string;
+  durationMinutes: number;
+  priceCents: number;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+  cancellationReasonCode: string | null;
+  /** Usado apenas como cursor da paginação por keyset */
+  scheduledAt: Date;
+};
+
+/** Linha da exportação de clientes — um registro por cliente em cada business */
+export type CustomerExportRow = {
+  businessId: string;
+  businessName: string;
+  userId: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  appointmentCount: number;
+  completedCount: number;
+  cancelledCount: number;
+  noShowCount: number;
+  completedRevenueCents: number;
+  /** Data local do primeiro e do último agendamento */
+  firstAppointmentDate: string;
+  lastAppointmentDate: string;
+};
+
+/** Filtros resolvidos pelo service a partir da query e da role do caller */
+export type AppointmentExportFilters = {
+  userId?: string;
+  operatorId?: string;
+  businessId?: string;
+  tenantId?: string;
+  status?: AppointmentExportRow["status"];
+  dateFrom?: string;
+  dateTo?: string;
+  cancellationActor?: "CUSTOMER" | "OPERATOR" | "TENANT" | "OWNER" | "SYSTEM";
+  cancellationReasonCode?:
+    | "CUSTOMER_REQUEST"
+    | "SCHEDULE_CONFLICT"
+    | "ILLNESS"
+    | "OPERATOR_UNAVAILABLE"
+    | "BUSINESS_CLOSURE"
+    | "DUPLICATE"
+    | "OTHER";
+};
+
+export type CustomerExportFilters = {
+  operatorId?: string;
+  businessId?: string;
+  tenantId?: string;
+};
+
+/** Arquivo gerado sob demanda — body é consumido durante a resposta */
+export type ExportFile = {
+  filename: string;
+  format: SpreadsheetFormat;
+  body: AsyncIterable<Uint8Array>;
+};
@@ -1,15 +1,37 @@
 import { OpenAPIHono } from "@hono/zod-openapi";
-import type { ModuleFactory } from "../../../core/container/container.js";
+import type { Container, ModuleFactory } from "../../../core/container/container.js";
 import { createScheduleHandler } from "./3_handler.js";
 import { createScheduleService } from "./4_service.js";
 import { createScheduleRepository } from "./5_repository.js";
+import { type ISlotGenerationJob, createSlotGenerationJob } from "./jobs/slot-generation.job.js";
+import { type ISlotHoldExpiryJob, createSlotHoldExpiryJob } from "./jobs/slot-hold-expiry.job.js";
 
 export const createScheduleFeature: ModuleFactory = (container) => {
   const repository = createScheduleRepository(container);
-  const service = createScheduleService(repository);
+  const service = createScheduleService(repository, container.config);
   const handler = createScheduleHandler(service);
 
   const app = new OpenAPIHono();
   handler.register(app);
   return app;
 };
+
+/** Inicia o worker de geração contínua de slots (chamado no server.ts) */
+export const startSlotGenerationJob = (container: Container): ISlotGenerationJob => {
+  const repository = createScheduleRepository(container);
+  const service = createScheduleService(repository, container.config);
+  const job = createSlotGenerationJob(service, container.config.SLOT_GENERATION_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
+
+/** Inicia o worker que libera reservas temporárias de slots vencidas (chamado no server.ts) */
+export const startSlotHoldExpiryJob = (container: Container): ISlotHoldExpiryJob => {
+  const repository = createScheduleRepository(container);
+  const service = createScheduleService(repository, container.config);
+  const job = createSlotHoldExpiryJob(service, container.config.SLOT_HOLD_EXPIRY_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
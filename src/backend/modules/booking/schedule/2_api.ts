@@ -3,9 +3,12 @@ import {
   errorResponseSchema,
   generateSlotsRequestSchema,
   generateSlotsResponseSchema,
+  holdSlotRequestSchema,
+  holdSlotResponseSchema,
   listSlotsQuerySchema,
   messageResponseSchema,
   scheduleSlotProfileSchema,
+  slotGenerationStatusResponseSchema,
   updateSlotStatusRequestSchema,
 } from "./types/dtos/dtos.js";
 
@@ -17,7 +20,7 @@ export const generateSlotsRoute = createRoute({
   tags: ["Schedule"],
   summary: "Gerar slots de agenda",
   description:
-    "Gera slots concretos a partir das regras de disponibilidade do operador para um range de datas. Não gera duplicados.",
+    "Gera slots concretos a partir das regras de disponibilidade do operador para um range de datas, respeitando as exceções por data (dias fechados e horários especiais), as pausas de cada regra e os buffers antes/depois do operador. Não gera slots sobrepostos aos existentes nem horários de hoje que já começaram, e retorna os slots AVAILABLE existentes que conflitam com exceções.",
   security: [{ Bearer: [] }],
   request: {
     body: {
@@ -49,6 +52,32 @@ export const generateSlotsRoute = createRoute({
   },
 });
 
+// ========== GENERATION STATUS ==========
+
+export const getGenerationStatusRoute = createRoute({
+  method: "get",
+  path: "/generation/status",
+  tags: ["Schedule"],
+  summary: "Status da geração automática de slots",
+  description:
+    "Retorna a configuração do worker de geração contínua e o resultado da última execução (operadores processados e slots criados). Restrito a TENANT e OWNER.",
+  security: [{ Bearer: [] }],
+  responses: {
+    200: {
+      content: { "application/json": { schema: slotGenerationStatusResponseSchema } },
+      description: "Status do worker",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+  },
+});
+
 // ========== LIST ==========
 
 export const listSlotsRoute = createRoute({
@@ -92,7 +121,7 @@ export const updateSlotStatusRoute = createRoute({
   tags: ["Schedule"],
   summary: "Bloquear ou liberar slot",
   description:
-    "Altera o status de um slot entre AVAILABLE e BLOCKED. Slots com status BOOKED não podem ser alterados.",
+    "Altera o status de um slot entre AVAILABLE e BLOCKED. Slots com status BOOKED ou HELD (reservados no checkout do chat ou para a lista de espera) não podem ser alterados.",
   security: [{ Bearer: [] }],
   request: {
     params: z.object({ id: z.string().uuid() }),
@@ -129,6 +158,48 @@ export const updateSlotStatusRoute = createRoute({
   },
 });
 
+// ========== HOLD ==========
+
+export const holdSlotRoute = createRoute({
+  method: "post",
+  path: "/{id}/hold",
+  tags: ["Schedule"],
+  summary: "Reservar horário temporariamente",
+  description:
+    "Reserva, a partir de um slot AVAILABLE, todos os slots que cobrem a duração do serviço e os buffers antes/depois (status HELD) por alguns minutos enquanto o cliente conclui o agendamento pelo chat — a mesma sequência que POST /api/appointments ocupa. Retorna um holdToken a ser enviado em POST /api/appointments; sem o token, ninguém mais consegue agendar esses slots. Uma nova reserva do mesmo cliente libera a anterior, e reservas vencidas voltam a AVAILABLE automaticamente.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    body: {
+      content: { "application/json": { schema: holdSlotRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: holdSlotResponseSchema } },
+      description: "Slot reservado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Slot, operador ou serviço não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Slots necessários para o serviço não estão disponíveis",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description:
+        "Slot já começou, serviço inválido para o operador ou operador tentando reservar o próprio horário",
+    },
+  },
+});
+
 // ========== DELETE ==========
 
 export const deleteSlotRoute = createRoute({
@@ -137,7 +208,7 @@ export const deleteSlotRoute = createRoute({
   tags: ["Schedule"],
   summary: "Remover slot",
   description:
-    "Remove fisicamente um slot da agenda. Slots com status BOOKED não podem ser removidos.",
+    "Remove fisicamente um slot da agenda. Slots com status BOOKED ou HELD não podem ser removidos.",
   security: [{ Bearer: [] }],
   request: {
     params: z.object({ id: z.string().uuid() }),
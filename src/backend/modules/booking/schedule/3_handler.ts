@@ -1,9 +1,11 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { respondError } from "../../../core/error/error.handler.js";
-import { getSession, hasRole } from "../../../core/session/session.guard.js";
+import { getApiKeyScope, getSession, hasRole } from "../../../core/session/session.guard.js";
 import {
   deleteSlotRoute,
   generateSlotsRoute,
+  getGenerationStatusRoute,
+  holdSlotRoute,
   listSlotsRoute,
   updateSlotStatusRoute,
 } from "./2_api.js";
@@ -31,6 +33,20 @@ export function createScheduleHandler(service: IScheduleService): IScheduleHandl
         return c.json(result.value, 201);
       });
 
+      // GET /generation/status — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getGenerationStatusRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const result = await service.getGenerationStatus();
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
       // GET / — TENANT, OWNER, OPERATOR
       // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
       app.openapi(listSlotsRoute, async (c): Promise<any> => {
@@ -68,6 +84,18 @@ export function createScheduleHandler(service: IScheduleService): IScheduleHandl
         return c.json(result.value, 200);
       });
 
+      // POST /:id/hold — Qualquer autenticado (cliente ou bot agindo em nome dele)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(holdSlotRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const body = c.req.valid("json");
+        const result = await service.holdSlot(id, body, session.sub, getApiKeyScope(c));
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
       // DELETE /:id — TENANT, OWNER
       // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
       app.openapi(deleteSlotRoute, async (c): Promise<any> => {
@@ -1,16 +1,26 @@
-import { todayYmd } from "../../../core/date/date.utils.js";
+import { randomBytes, randomUUID } from "node:crypto";
+import type { Config } from "../../../core/config/config.js";
+import { localToUtc, nowHm, todayYmd } from "../../../core/date/date.utils.js";
 import type { Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
-import type { Role } from "../../../core/session/session.guard.js";
+import { type ApiKeyScope, type Role, isWithinScope } from "../../../core/session/session.guard.js";
+import { buildSlotChain, resolveBuffers } from "../../../shared/slot-chain.js";
 import type { IScheduleRepository } from "./5_repository.js";
 import type {
   GenerateSlotsRequest,
   GenerateSlotsResponse,
+  HoldSlotRequest,
+  HoldSlotResponse,
   ListSlotsQuery,
   ScheduleSlotProfile,
+  SlotGenerationStatusResponse,
   UpdateSlotStatusRequest,
 } from "./types/dtos/dtos.js";
-import type { ScheduleSlotRow } from "./types/models/models.js";
+import type {
+  AvailabilityRuleRow,
+  ScheduleSlotRow,
+  SlotGenerationRunRow,
+} from "./types/models/models.js";
 
 export interface IScheduleService {
   generate(
@@ -36,8 +46,29 @@ export interface IScheduleService {
     callerRole: Role,
     callerTenantId: string | null,
   ): Promise<Result<{ message: string }>>;
+  /**
+   * Reserva por SLOT_HOLD_TTL_MS os slots que o serviço ocupa a partir do slot (duração e
+   * buffers, ver `buildSlotChain`) para o cliente concluir o agendamento
+   */
+  holdSlot(
+    id: string,
+    input: HoldSlotRequest,
+    callerUserId: string,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<HoldSlotResponse>>;
+  /** Expira as reservas vencidas — retorna quantas foram liberadas */
+  expireHolds(): Promise<Result<number>>;
+  /** Executa uma rodada do worker — null se outra instância detém o lock */
+  runRollingGeneration(): Promise<Result<SlotGenerationRunRow | null>>;
+  getGenerationStatus(): Promise<Result<SlotGenerationStatusResponse>>;
 }
 
+/** Reservas vencidas liberadas por rodada do worker */
+const HOLD_EXPIRY_BATCH_SIZE = 100;
+
+/** TTL do lock do worker — libera automaticamente se a instância morrer no meio da rodada */
+const GENERATION_LOCK_TTL_MS = 10 * 60_000;
+
 function toProfile(row: ScheduleSlotRow): ScheduleSlotProfile {
   return {
     id: row.id,
@@ -51,6 +82,17 @@ function toProfile(row: ScheduleSlotRow): ScheduleSlotProfile {
   };
 }
 
+/** Janela de atendimento em HH:MM, com as pausas em que não há slots */
+type TimeWindow = { startTime: string; endTime: string; breaks: TimeRange[] };
+
+/** Intervalo de horário em HH:MM */
+type TimeRange = { startTime: string; endTime: string };
+
+/** Normaliza "HH:MM:SS" (retorno do Postgres) para "HH:MM" */
+function toHm(time: string): string {
+  return time.slice(0, 5);
+}
+
 /** Soma minutos a um horário HH:MM e retorna HH:MM */
 function addMinutes(time: string, minutes: number): string {
   const [h, m] = time.split(":").map(Number);
@@ -65,6 +107,12 @@ function getDayOfWeek(dateStr: string): number {
   return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
 }
 
+/** Soma dias a uma data YYYY-MM-DD (UTC) */
+function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
 /** Retorna array de datas YYYY-MM-DD entre dateFrom e dateTo (inclusive) em UTC */
 function getDateRange(dateFrom: string, dateTo: string): string[] {
   const dates: string[] = [];
@@ -85,7 +133,10 @@ function getDateRange(dateFrom: string, dateTo: string): string[] {
   return dates;
 }
 
-export function createScheduleService(repository: IScheduleRepository): IScheduleService {
+export function createScheduleService(
+  repository: IScheduleRepository,
+  config: Config,
+): IScheduleService {
   /**
    * Verifica acesso do caller ao operador:
    * - OWNER: acesso total
@@ -97,7 +148,17 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
     callerRole: Role,
     callerTenantId: string | null,
     callerUserId?: string,
-  ): Promise<Result<{ id: string; userId: string; tenantId: string; businessTimezone: string }>> {
+  ): Promise<
+    Result<{
+      id: string;
+      userId: string;
+      tenantId: string;
+      businessId: string;
+      businessTimezone: string;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+    }>
+  > {
     const operatorResult = await repository.findOperatorById(operatorId);
     if (operatorResult.isErr()) return R.fail(operatorResult.error);
     if (!operatorResult.value) {
@@ -117,6 +178,177 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
     return R.ok(operator);
   }
 
+  /**
+   * Materializa os slots de um operador para as datas informadas a partir das regras,
+   * respeitando as exceções por data (operador tem precedência sobre o business):
+   * - CLOSED: não gera slots no dia
+   * - CUSTOM_HOURS: usa o horário especial no lugar das regras semanais
+   *
+   * Pausas da regra (breaks) não recebem slots. Os buffers do operador ficam livres
+   * antes e depois de cada slot: cada bloco ocupa before + duração + after na janela.
+   *
+   * Idempotente: blocos que se sobrepõem a um slot já existente são pulados (a geração
+   * retoma após ele), então mudar a duração ou os buffers nunca cria slots sobrepostos.
+   * Hoje só recebe slots que ainda não começaram. Slots AVAILABLE já existentes que
+   * caem fora do horário permitido em dias com exceção são reportados como conflitos.
+   */
+  async function materializeSlots(
+    operator: {
+      id: string;
+      businessId: string;
+      businessTimezone: string;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+    },
+    dates: string[],
+    durationMinutes: number,
+    rules: AvailabilityRuleRow[],
+  ): Promise<Result<{ generated: number; conflicts: ScheduleSlotRow[] }>> {
+    if (dates.length === 0) return R.ok({ generated: 0, conflicts: [] });
+
+    // Agrupa regras por dayOfWeek
+    const rulesByDay = new Map<number, TimeWindow[]>();
+    for (const rule of rules) {
+      const existing = rulesByDay.get(rule.dayOfWeek) ?? [];
+      existing.push({
+        startTime: toHm(rule.startTime),
+        endTime: toHm(rule.endTime),
+        breaks: rule.breaks,
+      });
+      rulesByDay.set(rule.dayOfWeek, existing);
+    }
+
+    // Exceções do período — a do operador sobrepõe a do business na mesma data
+    const exceptionsResult = await repository.findActiveExceptions(
+      operator.id,
+      operator.businessId,
+      dates[0],
+      dates[dates.length - 1],
+    );
+    if (exceptionsResult.isErr()) return R.fail(exceptionsResult.error);
+
+    const windowsByException = new Map<string, TimeWindow[]>();
+    for (const exception of exceptionsResult.value) {
+      if (exception.operatorId === null && windowsByException.has(exception.date)) continue;
+      windowsByException.set(
+        exception.date,
+        exception.type === "CLOSED" || !exception.startTime || !exception.endTime
+          ? []
+          : [
+              {
+                startTime: toHm(exception.startTime),
+                endTime: toHm(exception.endTime),
+                breaks: [],
+              },
+            ],
+      );
+    }
+
+    // Janelas de atendimento por data
+    const windowsByDate = new Map<string, TimeWindow[]>();
+    for (const date of dates) {
+      const windows = windowsByException.get(date) ?? rulesByDay.get(getDayOfWeek(date));
+      if (windows) windowsByDate.set(date, windows);
+    }
+
+    // Datas com regra ou exceção (exceções entram para detectar conflitos)
+    const relevantDates = [...windowsByDate.keys()];
+    if (relevantDates.length === 0) return R.ok({ generated: 0, conflicts: [] });
+
+    // Busca todos os slots existentes do range em uma única query
+    const existingResult = await repository.findExistingSlotsByDateRange(
+      operator.id,
+      relevantDates,
+    );
+    if (existingResult.isErr()) return R.fail(existingResult.error);
+
+    // Agrupa os intervalos ocupados por data e detecta conflitos
+    const existingByDate = new Map<string, TimeRange[]>();
+    const conflicts: ScheduleSlotRow[] = [];
+    for (const slot of existingResult.value) {
+      let ranges = existingByDate.get(slot.date);
+      if (!ranges) {
+        ranges = [];
+        existingByDate.set(slot.date, ranges);
+      }
+      const startTime = toHm(slot.startTime);
+      const endTime = toHm(slot.endTime);
+      ranges.push({ startTime, endTime });
+
+      const exceptionWindows = windowsByException.get(slot.date);
+      if (
+        exceptionWindows &&
+        slot.status === "AVAILABLE" &&
+        !exceptionWindows.some((w) => startTime >= w.startTime && endTime <= w.endTime)
+      ) {
+        conflicts.push(slot);
+      }
+    }
+
+    // Gera todos os novos slots em memória
+    const allNewSlots: {
+      operatorId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+    }[] = [];
+
+    const today = todayYmd(operator.businessTimezone);
+    const now = nowHm(operator.businessTimezone);
+
+    for (const [date, windows] of windowsByDate) {
+      const occupied = existingByDate.get(date) ?? [];
+
+      for (const window of windows) {
+        let cursor = window.startTime;
+        while (true) {
+          const slotStart = addMinutes(cursor, operator.bufferBeforeMinutes);
+          const slotEnd = addMinutes(slotStart, durationMinutes);
+          const blockEnd = addMinutes(slotEnd, operator.bufferAfterMinutes);
+          if (blockEnd > window.endTime) break;
+
+          // Bloco invade uma pausa — retoma a geração no fim dela
+          const overlappingBreak = window.breaks.find(
+            (b) => cursor < b.endTime && blockEnd > b.startTime,
+          );
+          if (overlappingBreak) {
+            cursor = overlappingBreak.endTime;
+            continue;
+          }
+
+          // Bloco invade um slot existente — retoma após ele e o buffer posterior
+          const overlappingSlot = occupied.find(
+            (o) => cursor < o.endTime && blockEnd > o.startTime,
+          );
+          if (overlappingSlot) {
+            cursor = addMinutes(overlappingSlot.endTime, operator.bufferAfterMinutes);
+            continue;
+          }
+
+          if (date > today || slotStart > now) {
+            allNewSlots.push({
+              operatorId: operator.id,
+              date,
+              startTime: slotStart,
+              endTime: slotEnd,
+            });
+            occupied.push({ startTime: slotStart, endTime: slotEnd });
+          }
+
+          cursor = blockEnd;
+        }
+      }
+    }
+
+    // Bulk insert único de todos os slots
+    if (allNewSlots.length === 0) return R.ok({ generated: 0, conflicts });
+
+    const insertResult = await repository.createMany(allNewSlots);
+    if (insertResult.isErr()) return R.fail(insertResult.error);
+
+    return R.ok({ generated: insertResult.value, conflicts });
+  }
+
   return {
     async generate(input, callerRole, callerTenantId) {
       // Verifica acesso ao operador (sem callerUserId — generate é TENANT/OWNER only)
@@ -141,7 +373,7 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
         });
       }
 
-      // Busca availability rules ativas do operador
+      // Valida que o operador possui regras ativas antes de gerar
       const rulesResult = await repository.findActiveAvailabilityRules(input.operatorId);
       if (rulesResult.isErr()) return R.fail(rulesResult.error);
 
@@ -152,84 +384,22 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
         });
       }
 
-      // Agrupa regras por dayOfWeek
-      const rulesByDay = new Map<number, { startTime: string; endTime: string }[]>();
-      for (const rule of rulesResult.value) {
-        const existing = rulesByDay.get(rule.dayOfWeek) ?? [];
-        existing.push({ startTime: rule.startTime, endTime: rule.endTime });
-        rulesByDay.set(rule.dayOfWeek, existing);
-      }
-
-      // Filtra apenas datas que possuem regras de disponibilidade
-      const relevantDates = dates.filter((d) => rulesByDay.has(getDayOfWeek(d)));
-      if (relevantDates.length === 0) {
-        return R.ok({ generated: 0, message: "0 slots gerados com sucesso" });
-      }
-
-      // Busca todos os slots existentes do range em uma única query
-      const existingResult = await repository.findExistingSlotsByDateRange(
-        input.operatorId,
-        relevantDates,
+      const generateResult = await materializeSlots(
+        accessCheck.value,
+        dates,
+        input.durationMinutes,
+        rulesResult.value,
       );
-      if (existingResult.isErr()) return R.fail(existingResult.error);
-
-      // Agrupa slots existentes por data para lookup rápido
-      const existingByDate = new Map<string, Set<string>>();
-      for (const slot of existingResult.value) {
-        let dateSet = existingByDate.get(slot.date);
-        if (!dateSet) {
-          dateSet = new Set();
-          existingByDate.set(slot.date, dateSet);
-        }
-        dateSet.add(`${slot.startTime}-${slot.endTime}`);
-      }
-
-      // Gera todos os novos slots em memória
-      const allNewSlots: {
-        operatorId: string;
-        date: string;
-        startTime: string;
-        endTime: string;
-      }[] = [];
-
-      for (const date of relevantDates) {
-        const dayRules = rulesByDay.get(getDayOfWeek(date));
-        if (!dayRules) continue;
-        const existingSet = existingByDate.get(date) ?? new Set();
-
-        for (const rule of dayRules) {
-          let cursor = rule.startTime;
-          while (true) {
-            const slotEnd = addMinutes(cursor, input.durationMinutes);
-            if (slotEnd > rule.endTime) break;
-
-            const key = `${cursor}-${slotEnd}`;
-            if (!existingSet.has(key)) {
-              allNewSlots.push({
-                operatorId: input.operatorId,
-                date,
-                startTime: cursor,
-                endTime: slotEnd,
-              });
-              existingSet.add(key);
-            }
-
-            cursor = slotEnd;
-          }
-        }
-      }
-
-      // Bulk insert único de todos os slots
-      if (allNewSlots.length === 0) {
-        return R.ok({ generated: 0, message: "0 slots gerados com sucesso" });
-      }
-
-      const insertResult = await repository.createMany(allNewSlots);
-      if (insertResult.isErr()) return R.fail(insertResult.error);
+      if (generateResult.isErr()) return R.fail(generateResult.error);
 
+      const { generated, conflicts } = generateResult.value;
       return R.ok({
-        generated: insertResult.value,
-        message: `${insertResult.value} slots gerados com sucesso`,
+        generated,
+        conflicts: conflicts.map(toProfile),
+        message:
+          conflicts.length > 0
+            ? `${generated} slots gerados com sucesso; ${conflicts.length} slots disponíveis conflitam com exceções`
+            : `${generated} slots gerados com sucesso`,
       });
     },
 
@@ -280,6 +450,14 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
         });
       }
 
+      // Slots HELD voltam a AVAILABLE quando a reserva ou a oferta da lista de espera expira
+      if (slot.status === "HELD") {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Não é possível alterar um slot reservado temporariamente",
+        });
+      }
+
       // Não permite alterar para o mesmo status
       if (slot.status === input.status) {
         return R.fail({
@@ -308,11 +486,11 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
       const accessCheck = await checkOperatorAccess(slot.operatorId, callerRole, callerTenantId);
       if (accessCheck.isErr()) return R.fail(accessCheck.error);
 
-      // Não permite remover slots BOOKED
-      if (slot.status === "BOOKED") {
+      // Não permite remover slots BOOKED nem HELD (reserva temporária)
+      if (slot.status === "BOOKED" || slot.status === "HELD") {
         return R.fail({
           code: "CONFLICT",
-          message: "Não é possível remover um slot com agendamento",
+          message: "Não é possível remover um slot com agendamento ou reserva",
         });
       }
 
@@ -321,5 +499,192 @@ export function createScheduleService(repository: IScheduleRepository): ISchedul
 
       return R.ok({ message: "Slot removido com sucesso" });
     },
+
+    async holdSlot(id, input, callerUserId, callerScope) {
+      const findResult = await repository.findById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Slot não encontrado" });
+      }
+
+      const slot = findResult.value;
+
+      if (slot.status !== "AVAILABLE") {
+        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
+      }
+
+      const operatorResult = await repository.findOperatorById(slot.operatorId);
+      if (operatorResult.isErr()) return R.fail(operatorResult.error);
+      if (!operatorResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+      }
+
+      // API key só reserva no tenant/business da chave
+      const { tenantId, businessId } = operatorResult.value;
+      if (!isWithinScope(callerScope, { id: businessId, tenantId })) {
+        return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+      }
+
+      // Impede operador de reservar o próprio horário
+      if (operatorResult.value.userId === callerUserId) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "Operador não pode agendar a si mesmo",
+        });
+      }
+
+      const startsAt = localToUtc(slot.date, slot.startTime, operatorResult.value.businessTimezone);
+      if (startsAt.getTime() <= Date.now()) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Slot já começou" });
+      }
+
+      const serviceResult = await repository.findServiceById(input.serviceId);
+      if (serviceResult.isErr()) return R.fail(serviceResult.error);
+      if (!serviceResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
+      }
+
+      const service = serviceResult.value;
+
+      if (!service.active) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+      }
+      if (service.businessId !== businessId) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "Serviço não pertence ao mesmo business do operador",
+        });
+      }
+
+      const opServiceResult = await repository.findOperatorService(slot.operatorId, service.id);
+      if (opServiceResult.isErr()) return R.fail(opServiceResult.error);
+      if (!opServiceResult.value || !opServiceResult.value.active) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Operador não oferece este serviço" });
+      }
+
+      // Mesma sequência de slots que o agendamento vai ocupar
+      const daySlotsResult = await repository.findByOperatorAndDate(slot.operatorId, slot.date);
+      if (daySlotsResult.isErr()) return R.fail(daySlotsResult.error);
+
+      const chain = buildSlotChain(
+        daySlotsResult.value,
+        slot,
+        opServiceResult.value.durationMinutes ?? service.durationMinutes,
+        resolveBuffers(operatorResult.value, service),
+      );
+      if ("conflict" in chain) return R.fail({ code: "CONFLICT", message: chain.conflict });
+
+      const holdResult = await repository.createHold({
+        slotId: id,
+        slotIds: chain.slotIds,
+        userId: callerUserId,
+        token: randomBytes(32).toString("hex"),
+        // A reserva nunca ultrapassa o início do slot
+        expiresAt: new Date(Math.min(Date.now() + config.SLOT_HOLD_TTL_MS, startsAt.getTime())),
+      });
+      if (holdResult.isErr()) return R.fail(holdResult.error);
+      if (!holdResult.value) {
+        return R.fail({ code: "CONFLICT", message: "Slot não está disponível" });
+      }
+
+      return R.ok({
+        holdToken: holdResult.value.token,
+        slotId: holdResult.value.slotId,
+        slotIds: holdResult.value.slotIds,
+        expiresAt: holdResult.value.expiresAt.toISOString(),
+      });
+    },
+
+    async expireHolds() {
+      return repository.expireHolds(HOLD_EXPIRY_BATCH_SIZE);
+    },
+
+    async runRollingGeneration() {
+      const token = randomUUID();
+      const lockResult = await repository.acquireGenerationLock(token, GENERATION_LOCK_TTL_MS);
+      if (lockResult.isErr()) return R.fail(lockResult.error);
+      if (!lockResult.value) return R.ok(null);
+
+      const run: SlotGenerationRunRow = {
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        status: "RUNNING",
+        operatorsProcessed: 0,
+        operatorsFailed: 0,
+        slotsCreated: 0,
+        lastError: null,
+      };
+
+      try {
+        await repository.saveGenerationRun(run);
+
+        const targetsResult = await repository.findGenerationTargets();
+        if (targetsResult.isErr()) {
+          run.status = "FAILED";
+          run.lastError = targetsResult.error.message;
+          return R.fail(targetsResult.error);
+        }
+
+        // Cada operador é independente — falha em um não interrompe os demais
+        for (const target of targetsResult.value) {
+          // Renova o lock a cada operador — sem ele outra instância poderia iniciar uma rodada
+          const renewResult = await repository.renewGenerationLock(token, GENERATION_LOCK_TTL_MS);
+          if (renewResult.isErr() || !renewResult.value) {
+            run.status = "FAILED";
+            run.lastError = renewResult.isErr()
+              ? renewResult.error.message
+              : "Lock da geração expirou durante a rodada";
+            return R.fail({ code: "CONFLICT", message: run.lastError });
+          }
+
+          const today = todayYmd(target.businessTimezone);
+          const dates = getDateRange(today, addDays(today, target.slotHorizonDays - 1));
+
+          const rulesResult = await repository.findActiveAvailabilityRules(target.operatorId);
+          const generateResult = rulesResult.isErr()
+            ? rulesResult
+            : await materializeSlots(
+                {
+                  id: target.operatorId,
+                  businessId: target.businessId,
+                  businessTimezone: target.businessTimezone,
+                  bufferBeforeMinutes: target.bufferBeforeMinutes,
+                  bufferAfterMinutes: target.bufferAfterMinutes,
+                },
+                dates,
+                target.slotDurationMinutes,
+                rulesResult.value,
+              );
+
+          if (generateResult.isErr()) {
+            run.operatorsFailed++;
+            run.lastError = `Operador ${target.operatorId}: ${generateResult.error.message}`;
+            continue;
+          }
+
+          run.operatorsProcessed++;
+          run.slotsCreated += generateResult.value.generated;
+        }
+
+        run.status = run.operatorsFailed > 0 ? "PARTIAL" : "SUCCESS";
+        return R.ok(run);
+      } finally {
+        run.finishedAt = new Date().toISOString();
+        if (run.status === "RUNNING") run.status = "FAILED";
+        await repository.saveGenerationRun(run);
+        await repository.releaseGenerationLock(token);
+      }
+    },
+
+    async getGenerationStatus() {
+      const runResult = await repository.findLastGenerationRun();
+      if (runResult.isErr()) return R.fail(runResult.error);
+
+      return R.ok({
+        enabled: config.SLOT_GENERATION_ENABLED,
+        intervalMs: config.SLOT_GENERATION_INTERVAL_MS,
+        lastRun: runResult.value,
+      });
+    },
   };
 }
@@ -1,14 +1,30 @@
-import { and, eq, inArray, sql } from "drizzle-orm";
+import { and, eq, exists, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
 import type { Container } from "../../../core/container/container.js";
 import type { Result } from "../../../core/result/result.js";
 import { Result as R } from "../../../core/result/result.js";
 import {
+  availabilityExceptions,
   availabilityRules,
   businesses,
+  operatorServices,
   operators,
   scheduleSlots,
+  services,
+  slotHolds,
 } from "../../../shared/schemas/index.js";
-import type { ScheduleSlotRow } from "./types/models/models.js";
+import type {
+  AvailabilityExceptionRow,
+  AvailabilityRuleRow,
+  GenerationTargetRow,
+  ScheduleSlotRow,
+  SlotGenerationRunRow,
+  SlotHoldRow,
+} from "./types/models/models.js";
+
+/** Lock distribuído — garante uma única instância do worker rodando */
+const GENERATION_LOCK_KEY = "schedule:generation:lock";
+/** Última execução do worker */
+const GENERATION_STATUS_KEY = "schedule:generation:status";
 
 export interface IScheduleRepository {
   findById(id: string): Promise<Result<ScheduleSlotRow | null>>;
@@ -26,18 +42,91 @@ export interface IScheduleRepository {
   ): Promise<Result<number>>;
   updateStatus(id: string, status: "AVAILABLE" | "BLOCKED"): Promise<Result<ScheduleSlotRow>>;
   deleteSlot(id: string): Promise<Result<void>>;
-  findOperatorById(
-    operatorId: string,
-  ): Promise<
-    Result<{ id: string; userId: string; tenantId: string; businessTimezone: string } | null>
+  findOperatorById(operatorId: string): Promise<
+    Result<{
+      id: string;
+      userId: string;
+      tenantId: string;
+      businessId: string;
+      businessTimezone: string;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+    } | null>
+  >;
+  findServiceById(serviceId: string): Promise<
+    Result<{
+      id: string;
+      businessId: string;
+      durationMinutes: number;
+      bufferBeforeMinutes: number;
+      bufferAfterMinutes: number;
+      active: boolean;
+    } | null>
   >;
-  findActiveAvailabilityRules(
+  findOperatorService(
     operatorId: string,
-  ): Promise<Result<{ dayOfWeek: number; startTime: string; endTime: string }[]>>;
+    serviceId: string,
+  ): Promise<Result<{ durationMinutes: number | null; active: boolean } | null>>;
+  findActiveAvailabilityRules(operatorId: string): Promise<Result<AvailabilityRuleRow[]>>;
+  findActiveExceptions(
+    operatorId: string,
+    businessId: string,
+    dateFrom: string,
+    dateTo: string,
+  ): Promise<Result<AvailabilityExceptionRow[]>>;
+  findGenerationTargets(): Promise<Result<GenerationTargetRow[]>>;
+  acquireGenerationLock(token: string, ttlMs: number): Promise<Result<boolean>>;
+  /** Estende o TTL do lock — false se ele expirou e não pertence mais a este token */
+  renewGenerationLock(token: string, ttlMs: number): Promise<Result<boolean>>;
+  releaseGenerationLock(token: string): Promise<Result<void>>;
+  saveGenerationRun(run: SlotGenerationRunRow): Promise<Result<void>>;
+  findLastGenerationRun(): Promise<Result<SlotGenerationRunRow | null>>;
+
+  /**
+   * Reserva os slots (AVAILABLE → HELD) e cria a reserva. As reservas ativas anteriores do mesmo
+   * cliente são encerradas e seus slots liberados — um cliente segura um horário por vez.
+   * Retorna null se algum slot não estiver mais AVAILABLE.
+   */
+  createHold(
+    data: Pick<SlotHoldRow, "slotId" | "slotIds" | "userId" | "token" | "expiresAt">,
+  ): Promise<Result<SlotHoldRow | null>>;
+
+  /** Expira até `limit` reservas vencidas, devolvendo os slots HELD para AVAILABLE */
+  expireHolds(limit: number): Promise<Result<number>>;
 }
 
+type Transaction = Parameters<Parameters<Container["db"]["transaction"]>[0]>[0];
+
 export function createScheduleRepository(container: Container): IScheduleRepository {
-  const { db } = container;
+  const { db, redis } = container;
+
+  /** Encerra as reservas como EXPIRED e devolve os slots ainda HELD para AVAILABLE */
+  async function releaseHolds(tx: Transaction, holds: { id: string; slotIds: string[] }[]) {
+    if (holds.length === 0) return;
+
+    await tx
+      .update(slotHolds)
+      .set({ status: "EXPIRED" as const, updatedAt: sql`now()` })
+      .where(
+        inArray(
+          slotHolds.id,
+          holds.map((h) => h.id),
+        ),
+      );
+
+    await tx
+      .update(scheduleSlots)
+      .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
+      .where(
+        and(
+          inArray(
+            scheduleSlots.id,
+            holds.flatMap((h) => h.slotIds),
+          ),
+          eq(scheduleSlots.status, "HELD"),
+        ),
+      );
+  }
 
   return {
     async findById(id) {
@@ -59,7 +148,7 @@ export function createScheduleRepository(container: Container): IScheduleReposit
           eq(scheduleSlots.active, true),
         ];
         if (status) {
-          conditions.push(eq(scheduleSlots.status, status as "AVAILABLE" | "BOOKED" | "BLOCKED"));
+          conditions.push(eq(scheduleSlots.status, status as ScheduleSlotRow["status"]));
         }
 
         return db
@@ -135,7 +224,10 @@ export function createScheduleRepository(container: Container): IScheduleReposit
             id: operators.id,
             userId: operators.userId,
             tenantId: operators.tenantId,
+            businessId: operators.businessId,
             businessTimezone: businesses.timezone,
+            bufferBeforeMinutes: operators.bufferBeforeMinutes,
+            bufferAfterMinutes: operators.bufferAfterMinutes,
           })
           .from(operators)
           .innerJoin(businesses, eq(operators.businessId, businesses.id))
@@ -145,6 +237,43 @@ export function createScheduleRepository(container: Container): IScheduleReposit
       }, "DB_QUERY_FAILED");
     },
 
+    async findServiceById(serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: services.id,
+            businessId: services.businessId,
+            durationMinutes: services.durationMinutes,
+            bufferBeforeMinutes: services.bufferBeforeMinutes,
+            bufferAfterMinutes: services.bufferAfterMinutes,
+            active: services.active,
+          })
+          .from(services)
+          .where(eq(services.id, serviceId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorService(operatorId, serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            durationMinutes: operatorServices.durationMinutes,
+            active: operatorServices.active,
+          })
+          .from(operatorServices)
+          .where(
+            and(
+              eq(operatorServices.operatorId, operatorId),
+              eq(operatorServices.serviceId, serviceId),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
     async findActiveAvailabilityRules(operatorId) {
       return R.fromAsync(async () => {
         return db
@@ -152,6 +281,7 @@ export function createScheduleRepository(container: Container): IScheduleReposit
             dayOfWeek: availabilityRules.dayOfWeek,
             startTime: availabilityRules.startTime,
             endTime: availabilityRules.endTime,
+            breaks: availabilityRules.breaks,
           })
           .from(availabilityRules)
           .where(
@@ -160,5 +290,164 @@ export function createScheduleRepository(container: Container): IScheduleReposit
           .orderBy(availabilityRules.dayOfWeek, availabilityRules.startTime);
       }, "DB_QUERY_FAILED");
     },
+
+    async findActiveExceptions(operatorId, businessId, dateFrom, dateTo) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            operatorId: availabilityExceptions.operatorId,
+            date: availabilityExceptions.date,
+            type: availabilityExceptions.type,
+            startTime: availabilityExceptions.startTime,
+            endTime: availabilityExceptions.endTime,
+          })
+          .from(availabilityExceptions)
+          .where(
+            and(
+              eq(availabilityExceptions.businessId, businessId),
+              or(
+                eq(availabilityExceptions.operatorId, operatorId),
+                isNull(availabilityExceptions.operatorId),
+              ),
+              gte(availabilityExceptions.date, dateFrom),
+              lte(availabilityExceptions.date, dateTo),
+              eq(availabilityExceptions.active, true),
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findGenerationTargets() {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            operatorId: operators.id,
+            businessId: businesses.id,
+            businessTimezone: businesses.timezone,
+            slotHorizonDays: businesses.slotHorizonDays,
+            slotDurationMinutes: businesses.slotDurationMinutes,
+            bufferBeforeMinutes: operators.bufferBeforeMinutes,
+            bufferAfterMinutes: operators.bufferAfterMinutes,
+          })
+          .from(operators)
+          .innerJoin(businesses, eq(operators.businessId, businesses.id))
+          .where(
+            and(
+              eq(operators.active, true),
+              eq(businesses.active, true),
+              exists(
+                db
+                  .select({ id: availabilityRules.id })
+                  .from(availabilityRules)
+                  .where(
+                    and(
+                      eq(availabilityRules.operatorId, operators.id),
+                      eq(availabilityRules.active, true),
+                    ),
+                  ),
+              ),
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async acquireGenerationLock(token, ttlMs) {
+      return R.fromAsync(async () => {
+        const result = await redis.set(GENERATION_LOCK_KEY, token, "PX", ttlMs, "NX");
+        return result === "OK";
+      }, "DB_QUERY_FAILED");
+    },
+
+    async renewGenerationLock(token, ttlMs) {
+      return R.fromAsync(async () => {
+        // Só estende se o lock ainda for nosso (compare-and-pexpire atômico)
+        const luaScript = `
+          if redis.call('GET', KEYS[1]) == ARGV[1] then
+            return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+          end
+          return 0
+        `;
+        const result = await redis.eval(luaScript, 1, GENERATION_LOCK_KEY, token, ttlMs);
+        return result === 1;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async releaseGenerationLock(token) {
+      return R.fromAsync(async () => {
+        // Só remove se o lock ainda for nosso (compare-and-delete atômico)
+        const luaScript = `
+          if redis.call('GET', KEYS[1]) == ARGV[1] then
+            return redis.call('DEL', KEYS[1])
+          end
+          return 0
+        `;
+        await redis.eval(luaScript, 1, GENERATION_LOCK_KEY, token);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async saveGenerationRun(run) {
+      return R.fromAsync(async () => {
+        await redis.set(GENERATION_STATUS_KEY, JSON.stringify(run));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findLastGenerationRun() {
+      return R.fromAsync(async () => {
+        const raw = await redis.get(GENERATION_STATUS_KEY);
+        return raw ? (JSON.parse(raw) as SlotGenerationRunRow) : null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createHold(data) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          const previous = await tx
+            .select({ id: slotHolds.id, slotIds: slotHolds.slotIds })
+            .from(slotHolds)
+            .where(and(eq(slotHolds.userId, data.userId), eq(slotHolds.status, "ACTIVE")))
+            .for("update");
+          await releaseHolds(tx, previous);
+
+          // Reserva todos os slots do serviço — ou nenhum
+          const locked = await tx
+            .select({ status: scheduleSlots.status })
+            .from(scheduleSlots)
+            .where(and(inArray(scheduleSlots.id, data.slotIds), eq(scheduleSlots.active, true)))
+            .for("update");
+          if (
+            locked.length !== data.slotIds.length ||
+            locked.some((s) => s.status !== "AVAILABLE")
+          ) {
+            return null;
+          }
+
+          await tx
+            .update(scheduleSlots)
+            .set({ status: "HELD" as const, updatedAt: sql`now()` })
+            .where(inArray(scheduleSlots.id, data.slotIds));
+
+          const rows = await tx.insert(slotHolds).values(data).returning();
+          if (!rows[0]) throw new Error("Insert não retornou registro");
+          return rows[0];
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async expireHolds(limit) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          // SKIP LOCKED: reservas sendo convertidas (ou em outra instância) ficam de fora
+          const due = await tx
+            .select({ id: slotHolds.id, slotIds: slotHolds.slotIds })
+            .from(slotHolds)
+            .where(and(eq(slotHolds.status, "ACTIVE"), lte(slotHolds.expiresAt, sql`now()`)))
+            .limit(limit)
+            .for("update", { skipLocked: true });
+
+          await releaseHolds(tx, due);
+          return due.length;
+        });
+      }, "DB_QUERY_FAILED");
+    },
   };
 }
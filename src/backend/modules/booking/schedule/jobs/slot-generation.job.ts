@@ -0,0 +1,64 @@
+import { logger } from "../../../../core/logger/logger.js";
+import type { IScheduleService } from "../4_service.js";
+
+/** Worker que mantém os slots de todos os operadores ativos gerados N dias à frente */
+export interface ISlotGenerationJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `runRollingGeneration` a cada `intervalMs` (e uma vez no startup).
+ * O lock no Redis garante que apenas uma instância execute cada rodada.
+ */
+export function createSlotGenerationJob(
+  service: IScheduleService,
+  intervalMs: number,
+): ISlotGenerationJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.runRollingGeneration();
+      if (result.isErr()) {
+        logger.error("Falha na geração automática de slots", { error: result.error.message });
+        return;
+      }
+      if (!result.value) {
+        logger.info("Geração automática de slots em execução em outra instância");
+        return;
+      }
+
+      logger.info("Geração automática de slots concluída", {
+        status: result.value.status,
+        operatorsProcessed: result.value.operatorsProcessed,
+        operatorsFailed: result.value.operatorsFailed,
+        slotsCreated: result.value.slotsCreated,
+      });
+    } catch (err) {
+      logger.error("Erro inesperado na geração automática de slots", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { logger } from "../../../../core/logger/logger.js";
+import type { IScheduleService } from "../4_service.js";
+
+/** Worker que devolve para AVAILABLE os slots de reservas temporárias vencidas */
+export interface ISlotHoldExpiryJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `expireHolds` a cada `intervalMs` (e uma vez no startup).
+ * As reservas são travadas com SKIP LOCKED, então várias instâncias podem rodar juntas.
+ */
+export function createSlotHoldExpiryJob(
+  service: IScheduleService,
+  intervalMs: number,
+): ISlotHoldExpiryJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.expireHolds();
+      if (result.isErr()) {
+        logger.error("Falha ao expirar reservas de slots", { error: result.error.message });
+        return;
+      }
+      if (result.value > 0) {
+        logger.info("Reservas de slots expiradas", { released: result.value });
+      }
+    } catch (err) {
+      logger.error("Erro inesperado ao expirar reservas de slots", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
@@ -21,7 +21,7 @@ export const scheduleSlotProfileSchema = z.object({
   date: z.string(),
   startTime: z.string(),
   endTime: z.string(),
-  status: z.enum(["AVAILABLE", "BOOKED", "BLOCKED"]),
+  status: z.enum(["AVAILABLE", "BOOKED", "BLOCKED", "HELD"]),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
 });
@@ -56,6 +56,8 @@ export type GenerateSlotsRequest = z.infer<typeof generateSlotsRequestSchema>;
 /** POST /api/schedule/generate — Response Body */
 export const generateSlotsResponseSchema = z.object({
   generated: z.number().int(),
+  /** Slots AVAILABLE existentes que conflitam com exceções (dia fechado ou fora do horário especial) */
+  conflicts: z.array(scheduleSlotProfileSchema),
   message: z.string(),
 });
 export type GenerateSlotsResponse = z.infer<typeof generateSlotsResponseSchema>;
@@ -69,7 +71,7 @@ export const listSlotsQuerySchema = z.object({
     .string()
     .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
     .refine(isValidDate, "Data inválida"),
-  status: z.enum(["AVAILABLE", "BOOKED", "BLOCKED"]).optional(),
+  status: z.enum(["AVAILABLE", "BOOKED", "BLOCKED", "HELD"]).optional(),
 });
 export type ListSlotsQuery = z.infer<typeof listSlotsQuerySchema>;
 
@@ -82,3 +84,44 @@ export const updateSlotStatusRequestSchema = z.object({
   }),
 });
 export type UpdateSlotStatusRequest = z.infer<typeof updateSlotStatusRequestSchema>;
+
+// ========== HOLD SLOT ==========
+
+/** POST /api/schedule/:id/hold — Request Body */
+export const holdSlotRequestSchema = z.object({
+  /** Serviço a agendar — define quantos slots (duração + buffers) ficam reservados */
+  serviceId: z.string().uuid("serviceId deve ser um UUID válido"),
+});
+export type HoldSlotRequest = z.infer<typeof holdSlotRequestSchema>;
+
+/** POST /api/schedule/:id/hold — Response Body */
+export const holdSlotResponseSchema = z.object({
+  /** Enviar em POST /api/appointments (holdToken) para converter a reserva em agendamento */
+  holdToken: z.string(),
+  slotId: z.string().uuid(),
+  /** Todos os slots reservados (HELD), a partir do slot inicial */
+  slotIds: z.array(z.string().uuid()),
+  expiresAt: z.string().datetime(),
+});
+export type HoldSlotResponse = z.infer<typeof holdSlotResponseSchema>;
+
+// ========== GENERATION STATUS ==========
+
+/** GET /api/schedule/generation/status — Response Body */
+export const slotGenerationStatusResponseSchema = z.object({
+  enabled: z.boolean(),
+  intervalMs: z.number().int(),
+  /** Última execução do worker (null se nunca rodou) */
+  lastRun: z
+    .object({
+      startedAt: z.string().datetime(),
+      finishedAt: z.string().datetime().nullable(),
+      status: z.enum(["RUNNING", "SUCCESS", "PARTIAL", "FAILED"]),
+      operatorsProcessed: z.number().int(),
+      operatorsFailed: z.number().int(),
+      slotsCreated: z.number().int(),
+      lastError: z.string().nullable(),
+    })
+    .nullable(),
+});
+export type SlotGenerationStatusResponse = z.infer<typeof slotGenerationStatusResponseSchema>;
@@ -5,8 +5,61 @@ export type ScheduleSlotRow = {
   date: string;
   startTime: string;
   endTime: string;
-  status: "AVAILABLE" | "BOOKED" | "BLOCKED";
+  status: "AVAILABLE" | "BOOKED" | "BLOCKED" | "HELD";
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
 };
+
+/** Row do slot_holds retornada pelo Drizzle */
+export type SlotHoldRow = {
+  id: string;
+  slotId: string;
+  slotIds: string[];
+  userId: string;
+  token: string;
+  status: "ACTIVE" | "CONVERTED" | "EXPIRED";
+  expiresAt: Date;
+  appointmentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Execução do worker de geração contínua de slots (armazenada no Redis como JSON) */
+export type SlotGenerationRunRow = {
+  startedAt: string;
+  finishedAt: string | null;
+  status: "RUNNING" | "SUCCESS" | "PARTIAL" | "FAILED";
+  operatorsProcessed: number;
+  operatorsFailed: number;
+  slotsCreated: number;
+  lastError: string | null;
+};
+
+/** Operador elegível para geração automática, com a configuração do business */
+export type GenerationTargetRow = {
+  operatorId: string;
+  businessId: string;
+  businessTimezone: string;
+  slotHorizonDays: number;
+  slotDurationMinutes: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+};
+
+/** Subset do availability_rules usado na geração */
+export type AvailabilityRuleRow = {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  breaks: { startTime: string; endTime: string }[];
+};
+
+/** Subset do availability_exceptions usado na geração (operatorId null = business inteiro) */
+export type AvailabilityExceptionRow = {
+  operatorId: string | null;
+  date: string;
+  type: "CLOSED" | "CUSTOM_HOURS";
+  startTime: string | null;
+  endTime: string | null;
+};
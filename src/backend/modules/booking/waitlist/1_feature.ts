@@ -0,0 +1,39 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { Container, ModuleFactory } from "../../../core/container/container.js";
+import { createAppointmentService } from "../appointment/4_service.js";
+import { createAppointmentRepository } from "../appointment/5_repository.js";
+import { createWaitlistHandler } from "./3_handler.js";
+import { createWaitlistService } from "./4_service.js";
+import { createWaitlistRepository } from "./5_repository.js";
+import { type IWaitlistExpiryJob, createWaitlistExpiryJob } from "./jobs/waitlist-expiry.job.js";
+
+/** Ofertas aceitas viram agendamento pelo serviço de agendamentos (mesmas regras) */
+function createService(container: Container) {
+  const repository = createWaitlistRepository(container);
+  const booking = createAppointmentService(createAppointmentRepository(container));
+  return createWaitlistService(repository, container.config, booking);
+}
+
+export const createWaitlistFeature: ModuleFactory = (container) => {
+  const service = createService(container);
+  const handler = createWaitlistHandler(service);
+
+  // Horário liberado por cancelamento é oferecido ao primeiro da lista de espera
+  container.events.subscribe("appointment.cancelled", async (event) => {
+    const result = await service.offerReleasedSlots(event.payload.appointmentId);
+    if (result.isErr()) throw new Error(result.error.message);
+  });
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
+
+/** Inicia o worker de expiração de ofertas da lista de espera (chamado no server.ts) */
+export const startWaitlistExpiryJob = (container: Container): IWaitlistExpiryJob => {
+  const service = createService(container);
+  const job = createWaitlistExpiryJob(service, container.config.WAITLIST_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
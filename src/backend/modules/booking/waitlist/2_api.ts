@@ -0,0 +1,157 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  claimedAppointmentSchema,
+  createWaitlistEntryRequestSchema,
+  errorResponseSchema,
+  listWaitlistEntriesQuerySchema,
+  paginatedWaitlistEntriesResponseSchema,
+  waitlistEntryProfileSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== CREATE ==========
+
+export const createWaitlistEntryRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Waitlist"],
+  summary: "Entrar na lista de espera",
+  description:
+    "Registra o interesse do cliente em um serviço de um business em um período (opcionalmente com um operador específico). Quando um agendamento compatível é cancelado, o horário liberado é reservado temporariamente e oferecido por notificação à inscrição mais antiga. Restrito a USER.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createWaitlistEntryRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: waitlistEntryProfileSchema } },
+      description: "Inscrição criada com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business, serviço ou operador não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Já existe uma inscrição ativa para este serviço no período",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação ou cliente bloqueado no business",
+    },
+  },
+});
+
+// ========== LIST ==========
+
+export const listWaitlistEntriesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Waitlist"],
+  summary: "Listar inscrições da lista de espera",
+  description:
+    "Lista inscrições com a oferta mais recente de cada uma. A filtragem é aplicada automaticamente por role: USER vê apenas as próprias, OPERATOR vê as do seu business, TENANT vê as do tenant.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listWaitlistEntriesQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedWaitlistEntriesResponseSchema } },
+      description: "Lista paginada de inscrições",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+  },
+});
+
+// ========== CANCEL ==========
+
+export const cancelWaitlistEntryRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["Waitlist"],
+  summary: "Sair da lista de espera",
+  description:
+    "Cancela uma inscrição ACTIVE ou OFFERED. Uma oferta pendente é encerrada e o horário reservado é liberado e oferecido ao próximo da fila. Restrito ao próprio cliente, ao TENANT do business e a OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: waitlistEntryProfileSchema } },
+      description: "Inscrição cancelada",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Inscrição não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Inscrição já encerrada",
+    },
+  },
+});
+
+// ========== CLAIM OFFER ==========
+
+export const claimWaitlistOfferRoute = createRoute({
+  method: "post",
+  path: "/offers/{id}/claim",
+  tags: ["Waitlist"],
+  summary: "Aceitar oferta de horário",
+  description:
+    "Converte a oferta pendente em agendamento (status PENDING) de forma atômica: os slots reservados passam a BOOKED, a oferta a CLAIMED e a inscrição a FULFILLED. O agendamento segue as mesmas regras de POST /api/appointments (antecedência, janela, limite de agendamentos ativos e buffers) e entra no histórico. Falha se o prazo da oferta já expirou. Restrito ao cliente da inscrição.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: claimedAppointmentSchema } },
+      description: "Agendamento criado a partir da oferta",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Oferta não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Oferta expirada ou já utilizada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description:
+        "Serviço inativo, não mais oferecido pelo operador, cliente bloqueado no business, fora da antecedência/janela ou limite de agendamentos ativos atingido",
+    },
+  },
+});
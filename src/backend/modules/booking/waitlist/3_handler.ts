@@ -0,0 +1,85 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../../core/error/error.handler.js";
+import { getCorrelationId } from "../../../core/logger/logger.middleware.js";
+import { getApiKeyScope, getSession, hasRole } from "../../../core/session/session.guard.js";
+import {
+  cancelWaitlistEntryRoute,
+  claimWaitlistOfferRoute,
+  createWaitlistEntryRoute,
+  listWaitlistEntriesRoute,
+} from "./2_api.js";
+import type { IWaitlistService } from "./4_service.js";
+
+export interface IWaitlistHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createWaitlistHandler(service: IWaitlistService): IWaitlistHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // POST / — USER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createWaitlistEntryRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "USER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.create(body, session.sub, getApiKeyScope(c));
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET / — Qualquer autenticado (filtragem por role no service)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listWaitlistEntriesRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const query = c.req.valid("query");
+        const result = await service.list(
+          query,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /:id — USER (própria), TENANT, OWNER (acesso verificado no service)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(cancelWaitlistEntryRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        const { id } = c.req.valid("param");
+        const result = await service.cancel(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /offers/:id/claim — USER (cliente da inscrição)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(claimWaitlistOfferRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "USER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.claim(id, session.sub, getApiKeyScope(c), getCorrelationId(c));
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+    },
+  };
+}
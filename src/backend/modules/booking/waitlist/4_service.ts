@@ -0,0 +1,448 @@
+import type { Config } from "../../../core/config/config.js";
+import { todayYmd } from "../../../core/date/date.utils.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import { type ApiKeyScope, type Role, isWithinScope } from "../../../core/session/session.guard.js";
+import type { IWaitlistRepository } from "./5_repository.js";
+import type {
+  ClaimedAppointment,
+  CreateWaitlistEntryRequest,
+  ListWaitlistEntriesQuery,
+  PaginatedWaitlistEntriesResponse,
+  WaitlistEntryProfile,
+} from "./types/dtos/dtos.js";
+import type {
+  WaitlistEntryRow,
+  WaitlistEntryWithOfferRow,
+  WaitlistOfferRow,
+} from "./types/models/models.js";
+
+export interface IWaitlistService {
+  create(
+    input: CreateWaitlistEntryRequest,
+    callerUserId: string,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<WaitlistEntryProfile>>;
+  list(
+    query: ListWaitlistEntriesQuery,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<PaginatedWaitlistEntriesResponse>>;
+  cancel(
+    id: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<WaitlistEntryProfile>>;
+  claim(
+    offerId: string,
+    callerUserId: string,
+    callerScope: ApiKeyScope | null,
+    correlationId: string | null,
+  ): Promise<Result<ClaimedAppointment>>;
+  /**
+   * Oferece o horário liberado por um agendamento cancelado à primeira inscrição compatível.
+   * Retorna a oferta criada ou null se não houver candidato (ou o horário já foi ocupado).
+   */
+  offerReleasedSlots(appointmentId: string): Promise<Result<WaitlistOfferRow | null>>;
+  /** Expira ofertas vencidas (reofertando o horário) e inscrições com período encerrado */
+  expireOffers(): Promise<
+    Result<{ offersExpired: number; offersCreated: number; entriesExpired: number }>
+  >;
+}
+
+/**
+ * Criação do agendamento ao aceitar uma oferta — delegada ao fluxo de agendamentos
+ * (IAppointmentService), para que valham as mesmas políticas, buffers, histórico e eventos
+ */
+export interface IWaitlistBooking {
+  bookWaitlistOffer(
+    offer: Pick<WaitlistOfferRow, "id" | "entryId" | "operatorId" | "slotIds">,
+    entry: Pick<WaitlistEntryRow, "userId" | "serviceId" | "notes">,
+    correlationId: string | null,
+  ): Promise<Result<ClaimedAppointment>>;
+}
+
+/** Ofertas vencidas processadas por rodada do worker */
+const EXPIRY_BATCH_SIZE = 50;
+
+/** Tentativas de ofertar o mesmo horário quando o candidato é ocupado por outra transação */
+const MAX_OFFER_ATTEMPTS = 5;
+
+function toProfile(row: WaitlistEntryWithOfferRow): WaitlistEntryProfile {
+  return {
+    id: row.id,
+    userId: row.userId,
+    businessId: row.businessId,
+    serviceId: row.serviceId,
+    operatorId: row.operatorId,
+    dateFrom: row.dateFrom,
+    dateTo: row.dateTo,
+    notes: row.notes,
+    status: row.status,
+    offer: row.offer
+      ? {
+          id: row.offer.id,
+          operatorId: row.offer.operatorId,
+          scheduledAt: row.offer.scheduledAt.toISOString(),
+          status: row.offer.status,
+          expiresAt: row.offer.expiresAt.toISOString(),
+          appointmentId: row.offer.appointmentId,
+        }
+      : null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toClaimedAppointment(appointment: ClaimedAppointment): ClaimedAppointment {
+  return {
+    id: appointment.id,
+    userId: appointment.userId,
+    operatorId: appointment.operatorId,
+    businessId: appointment.businessId,
+    serviceId: appointment.serviceId,
+    scheduledAt: appointment.scheduledAt,
+    durationMinutes: appointment.durationMinutes,
+    priceCents: appointment.priceCents,
+    status: appointment.status,
+    depositRequired: appointment.depositRequired,
+  };
+}
+
+export function createWaitlistService(
+  repository: IWaitlistRepository,
+  config: Config,
+  booking: IWaitlistBooking,
+): IWaitlistService {
+  /**
+   * Verifica se o caller pode gerenciar a inscrição:
+   * - OWNER: acesso total
+   * - USER: entry.userId === callerUserId
+   * - TENANT: business da inscrição pertence ao tenant do caller
+   */
+  async function checkEntryAccess(
+    entry: WaitlistEntryRow,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
+  ): Promise<Result<void>> {
+    if (callerRole === "OWNER") return R.ok(undefined);
+
+    if (callerRole === "USER") {
+      if (entry.userId !== callerUserId) {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+      if (!callerScope) return R.ok(undefined);
+
+      // Via API key, só inscrições do tenant/business da chave
+      const businessResult = await repository.findBusinessById(entry.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value || !isWithinScope(callerScope, businessResult.value)) {
+        return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+      }
+      return R.ok(undefined);
+    }
+
+    if (callerRole === "TENANT") {
+      const businessResult = await repository.findBusinessById(entry.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value || businessResult.value.tenantId !== callerTenantId) {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+      return R.ok(undefined);
+    }
+
+    return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+  }
+
+  /**
+   * Oferece o bloco à primeira inscrição compatível. Se outra transação ocupar a inscrição
+   * escolhida, tenta a próxima da fila; se ocupar os slots, desiste.
+   */
+  async function offerReleasedSlots(
+    appointmentId: string,
+  ): Promise<Result<WaitlistOfferRow | null>> {
+    const blockResult = await repository.findReleasedBlock(appointmentId);
+    if (blockResult.isErr()) return R.fail(blockResult.error);
+
+    const block = blockResult.value;
+
+    // Horário já ocupado por outro agendamento/oferta ou que já passou
+    if (!block || block.slotStatuses.some((status) => status !== "AVAILABLE")) {
+      return R.ok(null);
+    }
+    if (block.scheduledAt.getTime() <= Date.now()) return R.ok(null);
+
+    for (let attempt = 0; attempt < MAX_OFFER_ATTEMPTS; attempt++) {
+      const candidateResult = await repository.findNextCandidate(block);
+      if (candidateResult.isErr()) return R.fail(candidateResult.error);
+      if (!candidateResult.value) return R.ok(null);
+
+      // O prazo nunca ultrapassa o início do atendimento
+      const expiresAt = new Date(
+        Math.min(Date.now() + config.WAITLIST_OFFER_TTL_MS, block.scheduledAt.getTime()),
+      );
+
+      const offerResult = await repository.createOffer(candidateResult.value.id, block, expiresAt);
+      if (offerResult.isErr()) return R.fail(offerResult.error);
+      if ("offer" in offerResult.value) return R.ok(offerResult.value.offer);
+
+      // Slots ocupados: nada a ofertar. Inscrição ocupada: tenta o próximo da fila
+      if (offerResult.value.conflict === "slots") return R.ok(null);
+    }
+
+    return R.ok(null);
+  }
+
+  return {
+    async create(input, callerUserId, callerScope) {
+      const businessResult = await repository.findBusinessById(input.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+      }
+
+      const business = businessResult.value;
+
+      if (!isWithinScope(callerScope, business)) {
+        return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+      }
+
+      const standingResult = await repository.findStanding(callerUserId, business.id);
+      if (standingResult.isErr()) return R.fail(standingResult.error);
+      if (standingResult.value?.status === "BLOCKED") {
+        return R.fail({
+          code: "BUSINESS_RULE_VIOLATION",
+          message: "Cliente bloqueado para novos agendamentos neste estabelecimento",
+        });
+      }
+
+      // Período de interesse no fuso do business
+      if (input.dateFrom < todayYmd(business.timezone)) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "dateFrom não pode ser anterior à data atual",
+        });
+      }
+      if (input.dateTo < input.dateFrom) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "dateTo deve ser igual ou posterior a dateFrom",
+        });
+      }
+
+      const serviceResult = await repository.findServiceById(input.serviceId);
+      if (serviceResult.isErr()) return R.fail(serviceResult.error);
+      if (!serviceResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
+      }
+      if (serviceResult.value.businessId !== business.id) {
+        return R.fail({
+          code: "VALIDATION_ERROR",
+          message: "Serviço não pertence ao business informado",
+        });
+      }
+      if (!serviceResult.value.active) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+      }
+
+      if (input.operatorId) {
+        const operatorResult = await repository.findOperatorById(input.operatorId);
+        if (operatorResult.isErr()) return R.fail(operatorResult.error);
+        if (!operatorResult.value || operatorResult.value.businessId !== business.id) {
+          return R.fail({ code: "NOT_FOUND", message: "Operador não encontrado" });
+        }
+        if (operatorResult.value.userId === callerUserId) {
+          return R.fail({
+            code: "VALIDATION_ERROR",
+            message: "Operador não pode agendar a si mesmo",
+          });
+        }
+
+        const opServiceResult = await repository.findOperatorService(
+          input.operatorId,
+          input.serviceId,
+        );
+        if (opServiceResult.isErr()) return R.fail(opServiceResult.error);
+        if (!opServiceResult.value || !opServiceResult.value.active) {
+          return R.fail({ code: "VALIDATION_ERROR", message: "Operador não oferece este serviço" });
+        }
+      }
+
+      const params = {
+        userId: callerUserId,
+        businessId: business.id,
+        serviceId: input.serviceId,
+        operatorId: input.operatorId ?? null,
+        dateFrom: input.dateFrom,
+        dateTo: input.dateTo,
+      };
+
+      const openResult = await repository.findOpenEntry(params);
+      if (openResult.isErr()) return R.fail(openResult.error);
+      if (openResult.value) {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Já existe uma inscrição ativa para este serviço no período",
+        });
+      }
+
+      const createResult = await repository.createEntry({ ...params, notes: input.notes ?? null });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      return R.ok(toProfile({ ...createResult.value, offer: null }));
+    },
+
+    async list(query, callerRole, callerUserId, callerTenantId, callerScope) {
+      const params: Parameters<typeof repository.findEntries>[0] = {
+        page: query.page,
+        limit: query.limit,
+        status: query.status,
+        businessId: query.businessId,
+      };
+
+      // Filtragem por role
+      if (callerRole === "USER") {
+        params.userId = callerUserId;
+        // Via API key, só o tenant/business da chave
+        if (callerScope) {
+          if (
+            callerScope.businessId &&
+            query.businessId &&
+            query.businessId !== callerScope.businessId
+          ) {
+            return R.fail({ code: "FORBIDDEN", message: "API key sem acesso a este business" });
+          }
+          params.tenantId = callerScope.tenantId;
+          params.businessId = callerScope.businessId ?? query.businessId;
+        }
+      } else if (callerRole === "OPERATOR") {
+        const operatorResult = await repository.findOperatorByUserId(callerUserId);
+        if (operatorResult.isErr()) return R.fail(operatorResult.error);
+        if (!operatorResult.value) {
+          return R.ok({
+            data: [],
+            pagination: { page: query.page, limit: query.limit, total: 0, totalPages: 0 },
+          });
+        }
+        params.businessId = operatorResult.value.businessId;
+      } else if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({
+            code: "FORBIDDEN",
+            message: "Usuário não está vinculado a um tenant",
+          });
+        }
+        params.tenantId = callerTenantId;
+      }
+      // OWNER: sem filtro adicional
+
+      const result = await repository.findEntries(params);
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async cancel(id, callerRole, callerUserId, callerTenantId, callerScope) {
+      const findResult = await repository.findEntryById(id);
+      if (findResult.isErr()) return R.fail(findResult.error);
+      if (!findResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Inscrição não encontrada" });
+      }
+
+      const entry = findResult.value;
+
+      const accessCheck = await checkEntryAccess(
+        entry,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        callerScope,
+      );
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      if (entry.status !== "ACTIVE" && entry.status !== "OFFERED") {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Apenas inscrições ACTIVE ou OFFERED podem ser canceladas",
+        });
+      }
+
+      const cancelResult = await repository.cancelEntry(id);
+      if (cancelResult.isErr()) return R.fail(cancelResult.error);
+
+      return R.ok(toProfile({ ...cancelResult.value, offer: null }));
+    },
+
+    async claim(offerId, callerUserId, callerScope, correlationId) {
+      const offerResult = await repository.findOfferById(offerId);
+      if (offerResult.isErr()) return R.fail(offerResult.error);
+      if (!offerResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Oferta não encontrada" });
+      }
+
+      const offer = offerResult.value;
+
+      const entryResult = await repository.findEntryById(offer.entryId);
+      if (entryResult.isErr()) return R.fail(entryResult.error);
+      if (!entryResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Inscrição não encontrada" });
+      }
+
+      const entry = entryResult.value;
+
+      const accessCheck = await checkEntryAccess(entry, "USER", callerUserId, null, callerScope);
+      if (accessCheck.isErr()) return R.fail(accessCheck.error);
+
+      if (offer.status !== "PENDING" || offer.expiresAt.getTime() <= Date.now()) {
+        return R.fail({ code: "CONFLICT", message: "Oferta expirada ou já utilizada" });
+      }
+
+      // Mesmo fluxo de POST /api/appointments: situação do cliente, antecedência, janela,
+      // limite de agendamentos ativos e buffers
+      const bookResult = await booking.bookWaitlistOffer(offer, entry, correlationId);
+      if (bookResult.isErr()) return R.fail(bookResult.error);
+
+      return R.ok(toClaimedAppointment(bookResult.value));
+    },
+
+    offerReleasedSlots,
+
+    async expireOffers() {
+      const expiredResult = await repository.expireDueOffers(EXPIRY_BATCH_SIZE);
+      if (expiredResult.isErr()) return R.fail(expiredResult.error);
+
+      // Reoferta cada horário liberado ao próximo da fila
+      let offersCreated = 0;
+      const sources = new Set(expiredResult.value.map((o) => o.sourceAppointmentId));
+      for (const sourceAppointmentId of sources) {
+        const offerResult = await offerReleasedSlots(sourceAppointmentId);
+        if (offerResult.isErr()) return R.fail(offerResult.error);
+        if (offerResult.value) offersCreated++;
+      }
+
+      const staleResult = await repository.expireStaleEntries();
+      if (staleResult.isErr()) return R.fail(staleResult.error);
+
+      return R.ok({
+        offersExpired: expiredResult.value.length,
+        offersCreated,
+        entriesExpired: staleResult.value,
+      });
+    },
+  };
+}
@@ -0,0 +1,629 @@
+import { and, asc, count, desc, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import type { Container } from "../../../core/container/container.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import type { DomainEventType, DomainEvents } from "../../../shared/events.js";
+import {
+  appointmentSlots,
+  appointments,
+  businesses,
+  customerStandings,
+  operatorServices,
+  operators,
+  outboxEvents,
+  scheduleSlots,
+  services,
+  waitlistEntries,
+  waitlistOffers,
+} from "../../../shared/schemas/index.js";
+import type {
+  ReleasedBlockRow,
+  WaitlistEntryRow,
+  WaitlistEntryWithOfferRow,
+  WaitlistOfferRow,
+} from "./types/models/models.js";
+
+export interface IWaitlistRepository {
+  findEntryById(id: string): Promise<Result<WaitlistEntryRow | null>>;
+
+  findEntries(params: {
+    page: number;
+    limit: number;
+    status?: string;
+    businessId?: string;
+    userId?: string;
+    tenantId?: string;
+  }): Promise<Result<{ data: WaitlistEntryWithOfferRow[]; total: number }>>;
+
+  /** Inscrição ACTIVE/OFFERED do cliente para o mesmo serviço/operador com período sobreposto */
+  findOpenEntry(params: {
+    userId: string;
+    businessId: string;
+    serviceId: string;
+    operatorId: string | null;
+    dateFrom: string;
+    dateTo: string;
+  }): Promise<Result<WaitlistEntryRow | null>>;
+
+  createEntry(
+    data: Pick<
+      WaitlistEntryRow,
+      "userId" | "businessId" | "serviceId" | "operatorId" | "dateFrom" | "dateTo" | "notes"
+    >,
+  ): Promise<Result<WaitlistEntryRow>>;
+
+  /**
+   * Cancela a inscrição e antecipa o vencimento da oferta pendente (se houver),
+   * para que o worker libere os slots e ofereça o horário ao próximo da fila
+   */
+  cancelEntry(id: string): Promise<Result<WaitlistEntryRow>>;
+
+  findBusinessById(
+    businessId: string,
+  ): Promise<Result<{ id: string; tenantId: string; timezone: string } | null>>;
+
+  /** Situação do cliente no business (null se nunca teve incidentes) */
+  findStanding(
+    userId: string,
+    businessId: string,
+  ): Promise<Result<{ status: "GOOD" | "RESTRICTED" | "BLOCKED" } | null>>;
+
+  findServiceById(serviceId: string): Promise<
+    Result<{
+      id: string;
+      businessId: string;
+      durationMinutes: number;
+      priceCents: number;
+      active: boolean;
+    } | null>
+  >;
+
+  findOperatorById(
+    operatorId: string,
+  ): Promise<Result<{ id: string; userId: string; businessId: string } | null>>;
+
+  findOperatorByUserId(userId: string): Promise<Result<{ id: string; businessId: string } | null>>;
+
+  findOperatorService(
+    operatorId: string,
+    serviceId: string,
+  ): Promise<
+    Result<{
+      id: string;
+      priceCents: number | null;
+      durationMinutes: number | null;
+      active: boolean;
+    } | null>
+  >;
+
+  /** Horário liberado por um agendamento CANCELLED (null se não existir ou não tiver slots) */
+  findReleasedBlock(appointmentId: string): Promise<Result<ReleasedBlockRow | null>>;
+
+  /**
+   * Primeira inscrição ACTIVE (ordem de chegada) que aceita o horário: mesmo business,
+   * operador compatível, data no período e serviço oferecido pelo operador com duração que cabe
+   * no bloco. Inscrições que já receberam oferta deste horário são ignoradas.
+   */
+  findNextCandidate(block: ReleasedBlockRow): Promise<Result<WaitlistEntryRow | null>>;
+
+  /**
+   * Reserva os slots do bloco (HELD), marca a inscrição como OFFERED e cria a oferta —
+   * tudo ou nada. Retorna o motivo se os slots ou a inscrição não estiverem mais livres.
+   */
+  createOffer(
+    entryId: string,
+    block: ReleasedBlockRow,
+    expiresAt: Date,
+  ): Promise<Result<{ offer: WaitlistOfferRow } | { conflict: "slots" | "entry" }>>;
+
+  findOfferById(id: string): Promise<Result<WaitlistOfferRow | null>>;
+
+  /**
+   * Expira até `limit` ofertas pendentes vencidas: slots HELD voltam a AVAILABLE e a inscrição
+   * volta para a fila. Retorna os agendamentos de origem para que o horário seja reofertado.
+   */
+  expireDueOffers(limit: number): Promise<Result<{ sourceAppointmentId: string }[]>>;
+
+  /** Marca como EXPIRED as inscrições ACTIVE cujo período já terminou no fuso do business */
+  expireStaleEntries(): Promise<Result<number>>;
+}
+
+type Transaction = Parameters<Parameters<Container["db"]["transaction"]>[0]>[0];
+
+export function createWaitlistRepository(container: Container): IWaitlistRepository {
+  const { db } = container;
+
+  /** Grava o evento no outbox dentro da transação da mudança de estado */
+  async function writeEvent<K extends DomainEventType>(
+    tx: Transaction,
+    type: K,
+    aggregate: { type: string; id: string },
+    payload: DomainEvents[K],
+  ): Promise<void> {
+    await tx.insert(outboxEvents).values({
+      aggregateType: aggregate.type,
+      aggregateId: aggregate.id,
+      eventType: type,
+      payload,
+    });
+  }
+
+  /** Trava os slots (FOR UPDATE) e verifica que todos existem com o status esperado */
+  async function lockSlots(
+    tx: Transaction,
+    slotIds: string[],
+    expected: "AVAILABLE" | "HELD",
+  ): Promise<boolean> {
+    const locked = await tx
+      .select({ id: scheduleSlots.id, status: scheduleSlots.status })
+      .from(scheduleSlots)
+      .where(and(inArray(scheduleSlots.id, slotIds), eq(scheduleSlots.active, true)))
+      .for("update");
+
+    return locked.length === slotIds.length && locked.every((s) => s.status === expected);
+  }
+
+  return {
+    async findEntryById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(waitlistEntries)
+          .where(eq(waitlistEntries.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findEntries(params) {
+      return R.fromAsync(async () => {
+        const conditions: ReturnType<typeof eq>[] = [];
+
+        if (params.userId) {
+          conditions.push(eq(waitlistEntries.userId, params.userId));
+        }
+        if (params.businessId) {
+          conditions.push(eq(waitlistEntries.businessId, params.businessId));
+        }
+        if (params.status) {
+          conditions.push(eq(waitlistEntries.status, params.status as WaitlistEntryRow["status"]));
+        }
+        if (params.tenantId) {
+          conditions.push(
+            inArray(
+              waitlistEntries.businessId,
+              db
+                .select({ id: businesses.id })
+                .from(businesses)
+                .where(eq(businesses.tenantId, params.tenantId)),
+            ),
+          );
+        }
+
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+        const offset = (params.page - 1) * params.limit;
+
+        const [entries, countResult] = await Promise.all([
+          db
+            .select()
+            .from(waitlistEntries)
+            .where(where)
+            .orderBy(desc(waitlistEntries.createdAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(waitlistEntries).where(where),
+        ]);
+
+        // Oferta mais recente de cada inscrição da página
+        const latestOffer = new Map<string, WaitlistOfferRow>();
+        if (entries.length > 0) {
+          const offers = await db
+            .select()
+            .from(waitlistOffers)
+            .where(
+              inArray(
+                waitlistOffers.entryId,
+                entries.map((e) => e.id),
+              ),
+            )
+            .orderBy(desc(waitlistOffers.createdAt));
+          for (const offer of offers) {
+            if (!latestOffer.has(offer.entryId)) latestOffer.set(offer.entryId, offer);
+          }
+        }
+
+        return {
+          data: entries.map((e) => ({ ...e, offer: latestOffer.get(e.id) ?? null })),
+          total: countResult[0]?.total ?? 0,
+        };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOpenEntry(params) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(waitlistEntries)
+          .where(
+            and(
+              eq(waitlistEntries.userId, params.userId),
+              eq(waitlistEntries.businessId, params.businessId),
+              eq(waitlistEntries.serviceId, params.serviceId),
+              params.operatorId
+                ? eq(waitlistEntries.operatorId, params.operatorId)
+                : isNull(waitlistEntries.operatorId),
+              inArray(waitlistEntries.status, ["ACTIVE", "OFFERED"]),
+              lte(waitlistEntries.dateFrom, params.dateTo),
+              gte(waitlistEntries.dateTo, params.dateFrom),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createEntry(data) {
+      return R.fromAsync(async () => {
+        const rows = await db.insert(waitlistEntries).values(data).returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async cancelEntry(id) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          const rows = await tx
+            .update(waitlistEntries)
+            .set({ status: "CANCELLED" as const, updatedAt: sql`now()` })
+            .where(eq(waitlistEntries.id, id))
+            .returning();
+          if (!rows[0]) throw new Error("Update não retornou registro");
+
+          await tx
+            .update(waitlistOffers)
+            .set({ expiresAt: sql`now()`, updatedAt: sql`now()` })
+            .where(and(eq(waitlistOffers.entryId, id), eq(waitlistOffers.status, "PENDING")));
+
+          return rows[0];
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessById(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: businesses.id,
+            tenantId: businesses.tenantId,
+            timezone: businesses.timezone,
+          })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findStanding(userId, businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ status: customerStandings.status })
+          .from(customerStandings)
+          .where(
+            and(eq(customerStandings.userId, userId), eq(customerStandings.businessId, businessId)),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findServiceById(serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: services.id,
+            businessId: services.businessId,
+            durationMinutes: services.durationMinutes,
+            priceCents: services.priceCents,
+            active: services.active,
+          })
+          .from(services)
+          .where(eq(services.id, serviceId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorById(operatorId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: operators.id,
+            userId: operators.userId,
+            businessId: operators.businessId,
+          })
+          .from(operators)
+          .where(and(eq(operators.id, operatorId), eq(operators.active, true)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorByUserId(userId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: operators.id, businessId: operators.businessId })
+          .from(operators)
+          .where(and(eq(operators.userId, userId), eq(operators.active, true)))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOperatorService(operatorId, serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: operatorServices.id,
+            priceCents: operatorServices.priceCents,
+            durationMinutes: operatorServices.durationMinutes,
+            active: operatorServices.active,
+          })
+          .from(operatorServices)
+          .where(
+            and(
+              eq(operatorServices.operatorId, operatorId),
+              eq(operatorServices.serviceId, serviceId),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findReleasedBlock(appointmentId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: appointments.id,
+            businessId: appointments.businessId,
+            operatorId: appointments.operatorId,
+            slotId: appointments.slotId,
+            scheduledAt: appointments.scheduledAt,
+            durationMinutes: appointments.durationMinutes,
+          })
+          .from(appointments)
+          .where(and(eq(appointments.id, appointmentId), eq(appointments.status, "CANCELLED")))
+          .limit(1);
+        const appointment = rows[0];
+        if (!appointment) return null;
+
+        // Slots vinculados (appointment_slots + appointments.slotId legado)
+        const linked = await db
+          .select({ slotId: appointmentSlots.slotId })
+          .from(appointmentSlots)
+          .where(eq(appointmentSlots.appointmentId, appointmentId));
+        const slotIds = new Set(linked.map((l) => l.slotId));
+        if (appointment.slotId) slotIds.add(appointment.slotId);
+        if (slotIds.size === 0) return null;
+
+        const slots = await db
+          .select({ id: scheduleSlots.id, date: scheduleSlots.date, status: scheduleSlots.status })
+          .from(scheduleSlots)
+          .where(and(inArray(scheduleSlots.id, [...slotIds]), eq(scheduleSlots.active, true)))
+          .orderBy(asc(scheduleSlots.startTime));
+        if (slots.length !== slotIds.size) return null;
+
+        // O slot inicial do atendimento vem primeiro (vira appointments.slotId ao aceitar)
+        const first = slots.find((s) => s.id === appointment.slotId) ?? slots[0];
+        const ordered = [first, ...slots.filter((s) => s.id !== first.id)];
+
+        return {
+          appointmentId: appointment.id,
+          businessId: appointment.businessId,
+          operatorId: appointment.operatorId,
+          date: first.date,
+          scheduledAt: appointment.scheduledAt,
+          durationMinutes: appointment.durationMinutes,
+          slotIds: ordered.map((s) => s.id),
+          slotStatuses: ordered.map((s) => s.status),
+        };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findNextCandidate(block) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(waitlistEntries)
+          .where(
+            and(
+              eq(waitlistEntries.businessId, block.businessId),
+              eq(waitlistEntries.status, "ACTIVE"),
+              or(
+                isNull(waitlistEntries.operatorId),
+                eq(waitlistEntries.operatorId, block.operatorId),
+              ),
+              lte(waitlistEntries.dateFrom, block.date),
+              gte(waitlistEntries.dateTo, block.date),
+              // Operador oferece o serviço e a duração efetiva cabe no horário liberado
+              sql`exists (
+                select 1 from ${operatorServices}
+                inner join ${services} on ${services.id} = ${operatorServices.serviceId}
+                where ${operatorServices.operatorId} = ${block.operatorId}
+                  and ${operatorServices.serviceId} = ${waitlistEntries.serviceId}
+                  and ${operatorServices.active} = true
+                  and ${services.active} = true
+                  and coalesce(${operatorServices.durationMinutes}, ${services.durationMinutes}) <= ${block.durationMinutes}
+              )`,
+              // Clientes bloqueados no business não recebem ofertas
+              sql`not exists (
+                select 1 from ${customerStandings}
+                where ${customerStandings.businessId} = ${waitlistEntries.businessId}
+                  and ${customerStandings.userId} = ${waitlistEntries.userId}
+                  and ${customerStandings.status} = 'BLOCKED'
+              )`,
+              // Operador não pode agendar a si mesmo
+              sql`${waitlistEntries.userId} <> (select ${operators.userId} from ${operators} where ${operators.id} = ${block.operatorId})`,
+              sql`not exists (
+                select 1 from ${waitlistOffers}
+                where ${waitlistOffers.entryId} = ${waitlistEntries.id}
+                  and ${waitlistOffers.sourceAppointmentId} = ${block.appointmentId}
+              )`,
+            ),
+          )
+          .orderBy(asc(waitlistEntries.createdAt))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createOffer(entryId, block, expiresAt) {
+      return R.fromAsync(async () => {
+        return db.transaction(
+          async (tx): Promise<{ offer: WaitlistOfferRow } | { conflict: "slots" | "entry" }> => {
+            if (!(await lockSlots(tx, block.slotIds, "AVAILABLE"))) {
+              return { conflict: "slots" };
+            }
+
+            const entries = await tx
+              .select()
+              .from(waitlistEntries)
+              .where(and(eq(waitlistEntries.id, entryId), eq(waitlistEntries.status, "ACTIVE")))
+              .for("update")
+              .limit(1);
+            const entry = entries[0];
+            if (!entry) return { conflict: "entry" };
+
+            await tx
+              .update(scheduleSlots)
+              .set({ status: "HELD" as const, updatedAt: sql`now()` })
+              .where(inArray(scheduleSlots.id, block.slotIds));
+
+            await tx
+              .update(waitlistEntries)
+              .set({ status: "OFFERED" as const, updatedAt: sql`now()` })
+              .where(eq(waitlistEntries.id, entryId));
+
+            const rows = await tx
+              .insert(waitlistOffers)
+              .values({
+                entryId,
+                sourceAppointmentId: block.appointmentId,
+                operatorId: block.operatorId,
+                slotIds: block.slotIds,
+                scheduledAt: block.scheduledAt,
+                expiresAt,
+              })
+              .returning();
+            if (!rows[0]) throw new Error("Insert não retornou registro");
+
+            await writeEvent(
+              tx,
+              "waitlist.offered",
+              { type: "waitlist_offer", id: rows[0].id },
+              {
+                offerId: rows[0].id,
+                entryId,
+                userId: entry.userId,
+                businessId: entry.businessId,
+                serviceId: entry.serviceId,
+                operatorId: block.operatorId,
+                appointmentId: block.appointmentId,
+                scheduledAt: block.scheduledAt.toISOString(),
+                expiresAt: expiresAt.toISOString(),
+              },
+            );
+
+            return { offer: rows[0] };
+          },
+        );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findOfferById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(waitlistOffers)
+          .where(eq(waitlistOffers.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async expireDueOffers(limit) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          // SKIP LOCKED: ofertas em processo de aceite (ou em outra instância) ficam de fora
+          const due = await tx
+            .select()
+            .from(waitlistOffers)
+            .where(
+              and(eq(waitlistOffers.status, "PENDING"), lte(waitlistOffers.expiresAt, sql`now()`)),
+            )
+            .orderBy(asc(waitlistOffers.expiresAt))
+            .limit(limit)
+            .for("update", { of: waitlistOffers, skipLocked: true });
+          if (due.length === 0) return [];
+
+          const offerIds = due.map((o) => o.id);
+          await tx
+            .update(waitlistOffers)
+            .set({ status: "EXPIRED" as const, updatedAt: sql`now()` })
+            .where(inArray(waitlistOffers.id, offerIds));
+
+          // Inscrição volta para a fila (as canceladas permanecem CANCELLED)
+          await tx
+            .update(waitlistEntries)
+            .set({ status: "ACTIVE" as const, updatedAt: sql`now()` })
+            .where(
+              and(
+                inArray(
+                  waitlistEntries.id,
+                  due.map((o) => o.entryId),
+                ),
+                eq(waitlistEntries.status, "OFFERED"),
+              ),
+            );
+
+          await tx
+            .update(scheduleSlots)
+            .set({ status: "AVAILABLE" as const, updatedAt: sql`now()` })
+            .where(
+              and(
+                inArray(
+                  scheduleSlots.id,
+                  due.flatMap((o) => o.slotIds),
+                ),
+                eq(scheduleSlots.status, "HELD"),
+              ),
+            );
+
+          return due.map((o) => ({ sourceAppointmentId: o.sourceAppointmentId }));
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async expireStaleEntries() {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(waitlistEntries)
+          .set({ status: "EXPIRED" as const, updatedAt: sql`now()` })
+          .where(
+            and(
+              eq(waitlistEntries.status, "ACTIVE"),
+              sql`${waitlistEntries.dateTo} < (
+                select (now() at time zone ${businesses.timezone})::date
+                from ${businesses}
+                where ${businesses.id} = ${waitlistEntries.businessId}
+              )`,
+            ),
+          )
+          .returning({ id: waitlistEntries.id });
+        return rows.length;
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { logger } from "../../../../core/logger/logger.js";
+import type { IWaitlistService } from "../4_service.js";
+
+/** Worker que expira ofertas da lista de espera e reoferta os horários liberados */
+export interface IWaitlistExpiryJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `expireOffers` a cada `intervalMs` (e uma vez no startup).
+ * As ofertas são travadas com SKIP LOCKED, então várias instâncias podem rodar juntas.
+ */
+export function createWaitlistExpiryJob(
+  service: IWaitlistService,
+  intervalMs: number,
+): IWaitlistExpiryJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.expireOffers();
+      if (result.isErr()) {
+        logger.error("Falha ao expirar ofertas da lista de espera", {
+          error: result.error.message,
+        });
+        return;
+      }
+
+      const { offersExpired, offersCreated, entriesExpired } = result.value;
+      if (offersExpired > 0 || entriesExpired > 0) {
+        logger.info("Lista de espera atualizada", { offersExpired, offersCreated, entriesExpired });
+      }
+    } catch (err) {
+      logger.error("Erro inesperado ao expirar ofertas da lista de espera", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
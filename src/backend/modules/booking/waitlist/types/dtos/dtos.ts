@@ -0,0 +1,107 @@
+import { z } from "zod";
+import { paginationSchema } from "../../../../../shared/dtos.js";
+
+export { errorResponseSchema } from "../../../../../shared/dtos.js";
+export { paginationSchema };
+
+const entryStatuses = ["ACTIVE", "OFFERED", "FULFILLED", "CANCELLED", "EXPIRED"] as const;
+const offerStatuses = ["PENDING", "CLAIMED", "EXPIRED"] as const;
+const appointmentStatuses = ["PENDING", "CONFIRMED", "CANCELLED", "COMPLETED", "NO_SHOW"] as const;
+
+/** Regex para validar formato YYYY-MM-DD */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Valida que a string é uma data real (não aceita "2025-13-45") */
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+// ========== WAITLIST ENTRY PROFILE (response) ==========
+
+/** Oferta de horário feita a uma inscrição */
+export const waitlistOfferProfileSchema = z.object({
+  id: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  scheduledAt: z.string().datetime(),
+  status: z.enum(offerStatuses),
+  expiresAt: z.string().datetime(),
+  appointmentId: z.string().uuid().nullable(),
+});
+export type WaitlistOfferProfile = z.infer<typeof waitlistOfferProfileSchema>;
+
+/** Perfil da inscrição retornado nas respostas */
+export const waitlistEntryProfileSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  businessId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  operatorId: z.string().uuid().nullable(),
+  dateFrom: z.string(),
+  dateTo: z.string(),
+  notes: z.string().nullable(),
+  status: z.enum(entryStatuses),
+  /** Oferta mais recente (pendente, aceita ou expirada) — null se nunca recebeu */
+  offer: waitlistOfferProfileSchema.nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type WaitlistEntryProfile = z.infer<typeof waitlistEntryProfileSchema>;
+
+// ========== CREATE ENTRY ==========
+
+/** POST /api/waitlist — Request Body */
+export const createWaitlistEntryRequestSchema = z.object({
+  businessId: z.string().uuid("businessId deve ser um UUID válido"),
+  serviceId: z.string().uuid("serviceId deve ser um UUID válido"),
+  operatorId: z.string().uuid("operatorId deve ser um UUID válido").optional(),
+  dateFrom: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida"),
+  dateTo: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida"),
+  notes: z.string().max(500).optional(),
+});
+export type CreateWaitlistEntryRequest = z.infer<typeof createWaitlistEntryRequestSchema>;
+
+// ========== LIST ENTRIES ==========
+
+/** GET /api/waitlist — Query Params */
+export const listWaitlistEntriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(entryStatuses).optional(),
+  businessId: z.string().uuid().optional(),
+});
+export type ListWaitlistEntriesQuery = z.infer<typeof listWaitlistEntriesQuerySchema>;
+
+/** GET /api/waitlist — Response Body */
+export const paginatedWaitlistEntriesResponseSchema = z.object({
+  data: z.array(waitlistEntryProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedWaitlistEntriesResponse = z.infer<
+  typeof paginatedWaitlistEntriesResponseSchema
+>;
+
+// ========== CLAIM OFFER ==========
+
+/** POST /api/waitlist/offers/:id/claim — Response Body */
+export const claimedAppointmentSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  businessId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  scheduledAt: z.string().datetime(),
+  durationMinutes: z.number().int(),
+  priceCents: z.number().int(),
+  status: z.enum(appointmentStatuses),
+  /** Cliente RESTRICTED no business — depósito exigido antes da confirmação */
+  depositRequired: z.boolean(),
+});
+export type ClaimedAppointment = z.infer<typeof claimedAppointmentSchema>;
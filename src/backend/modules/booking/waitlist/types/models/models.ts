@@ -0,0 +1,49 @@
+/** Row do waitlist_entries retornada pelo Drizzle */
+export type WaitlistEntryRow = {
+  id: string;
+  userId: string;
+  businessId: string;
+  serviceId: string;
+  operatorId: string | null;
+  dateFrom: string;
+  dateTo: string;
+  notes: string | null;
+  status: "ACTIVE" | "OFFERED" | "FULFILLED" | "CANCELLED" | "EXPIRED";
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Row do waitlist_offers retornada pelo Drizzle */
+export type WaitlistOfferRow = {
+  id: string;
+  entryId: string;
+  sourceAppointmentId: string;
+  operatorId: string;
+  slotIds: string[];
+  scheduledAt: Date;
+  status: "PENDING" | "CLAIMED" | "EXPIRED";
+  expiresAt: Date;
+  appointmentId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Inscrição com a oferta pendente (se houver) */
+export type WaitlistEntryWithOfferRow = WaitlistEntryRow & {
+  offer: WaitlistOfferRow | null;
+};
+
+/**
+ * Bloco de horário liberado por um agendamento cancelado.
+ * `slotIds` inclui os slots de buffer; `durationMinutes` é a duração do atendimento cancelado.
+ */
+export type ReleasedBlockRow = {
+  appointmentId: string;
+  businessId: string;
+  operatorId: string;
+  date: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  slotIds: string[];
+  slotStatuses: string[];
+};
@@ -59,12 +59,41 @@ function toProfile(row: BusinessRow): BusinessProfile {
     businessHours: row.businessHours,
     socialLinks: row.socialLinks,
     timezone: row.timezone,
+    slotHorizonDays: row.slotHorizonDays,
+    slotDurationMinutes: row.slotDurationMinutes,
+    reminderOffsetsMinutes: row.reminderOffsetsMinutes,
+    locale: row.locale,
+    minBookingLeadMinutes: row.minBookingLeadMinutes,
+    minCancelNoticeMinutes: row.minCancelNoticeMinutes,
+    maxBookingWindowDays: row.maxBookingWindowDays,
+    maxActiveAppointmentsPerCustomer: row.maxActiveAppointmentsPerCustomer,
+    lateCancellationWindowMinutes: row.lateCancellationWindowMinutes,
+    restrictAfterIncidents: row.restrictAfterIncidents,
+    blockAfterIncidents: row.blockAfterIncidents,
     active: row.active,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
 }
 
+/** O bloqueio deve exigir mais incidentes que a restrição (quando ambos estão ativos) */
+function validateIncidentThresholds(
+  restrictAfterIncidents: number | null,
+  blockAfterIncidents: number | null,
+): Result<void> {
+  if (
+    restrictAfterIncidents !== null &&
+    blockAfterIncidents !== null &&
+    restrictAfterIncidents >= blockAfterIncidents
+  ) {
+    return R.fail({
+      code: "VALIDATION_ERROR",
+      message: "restrictAfterIncidents deve ser menor que blockAfterIncidents",
+    });
+  }
+  return R.ok(undefined);
+}
+
 export function createBusinessService(repository: IBusinessRepository): IBusinessService {
   return {
     async create(input, callerRole, callerTenantId) {
@@ -88,6 +117,12 @@ export function createBusinessService(repository: IBusinessRepository): IBusines
         tenantId = callerTenantId;
       }
 
+      const thresholdCheck = validateIncidentThresholds(
+        input.restrictAfterIncidents ?? null,
+        input.blockAfterIncidents ?? null,
+      );
+      if (thresholdCheck.isErr()) return R.fail(thresholdCheck.error);
+
       // Verifica slug único
       const slugResult = await repository.findBySlug(input.slug);
       if (slugResult.isErr()) return R.fail(slugResult.error);
@@ -110,6 +145,17 @@ export function createBusinessService(repository: IBusinessRepository): IBusines
         businessHours: input.businessHours ?? null,
         socialLinks: input.socialLinks ?? null,
         timezone: input.timezone ?? "America/Sao_Paulo",
+        slotHorizonDays: input.slotHorizonDays ?? 14,
+        slotDurationMinutes: input.slotDurationMinutes ?? 30,
+        reminderOffsetsMinutes: input.reminderOffsetsMinutes ?? [1440, 120],
+        locale: input.locale ?? "pt-BR",
+        minBookingLeadMinutes: input.minBookingLeadMinutes ?? 0,
+        minCancelNoticeMinutes: input.minCancelNoticeMinutes ?? 0,
+        maxBookingWindowDays: input.maxBookingWindowDays ?? null,
+        maxActiveAppointmentsPerCustomer: input.maxActiveAppointmentsPerCustomer ?? null,
+        lateCancellationWindowMinutes: input.lateCancellationWindowMinutes ?? 0,
+        restrictAfterIncidents: input.restrictAfterIncidents ?? null,
+        blockAfterIncidents: input.blockAfterIncidents ?? null,
       });
       if (createResult.isErr()) return R.fail(createResult.error);
 
@@ -193,6 +239,16 @@ export function createBusinessService(repository: IBusinessRepository): IBusines
         return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
       }
 
+      const thresholdCheck = validateIncidentThresholds(
+        input.restrictAfterIncidents !== undefined
+          ? input.restrictAfterIncidents
+          : findResult.value.restrictAfterIncidents,
+        input.blockAfterIncidents !== undefined
+          ? input.blockAfterIncidents
+          : findResult.value.blockAfterIncidents,
+      );
+      if (thresholdCheck.isErr()) return R.fail(thresholdCheck.error);
+
       // Se está alterando o slug, verifica unicidade
       if (input.slug && input.slug !== findResult.value.slug) {
         const slugResult = await repository.findBySlug(input.slug);
@@ -93,6 +93,17 @@ export function createBusinessRepository(container: Container): IBusinessReposit
             businessHours: data.businessHours,
             socialLinks: data.socialLinks,
             timezone: data.timezone,
+            slotHorizonDays: data.slotHorizonDays,
+            slotDurationMinutes: data.slotDurationMinutes,
+            reminderOffsetsMinutes: data.reminderOffsetsMinutes,
+            locale: data.locale,
+            minBookingLeadMinutes: data.minBookingLeadMinutes,
+            minCancelNoticeMinutes: data.minCancelNoticeMinutes,
+            maxBookingWindowDays: data.maxBookingWindowDays,
+            maxActiveAppointmentsPerCustomer: data.maxActiveAppointmentsPerCustomer,
+            lateCancellationWindowMinutes: data.lateCancellationWindowMinutes,
+            restrictAfterIncidents: data.restrictAfterIncidents,
+            blockAfterIncidents: data.blockAfterIncidents,
           })
           .returning();
         if (!rows[0]) throw new Error("Insert não retornou registro");
@@ -1,10 +1,65 @@
 import { z } from "zod";
 import { cnpjSchema, paginationSchema, timezoneSchema } from "../../../../shared/dtos.js";
+import { supportedLocales } from "../../../../shared/notification-templates.js";
 import { businessHoursSchema, socialLinksSchema } from "../entities/entities.js";
 
 export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
 export { paginationSchema };
 
+/** Dias à frente mantidos pelo worker de geração de slots */
+const slotHorizonDaysSchema = z
+  .number()
+  .int("Horizonte deve ser um número inteiro")
+  .min(1, "Horizonte mínimo é 1 dia")
+  .max(90, "Horizonte máximo é 90 dias");
+
+/** Duração dos slots gerados automaticamente */
+const slotDurationMinutesSchema = z
+  .number()
+  .int("Duração deve ser um número inteiro")
+  .min(5, "Duração mínima é 5 minutos")
+  .max(480, "Duração máxima é 480 minutos");
+
+/** Antecedências dos lembretes (minutos antes do agendamento), sem repetição */
+const reminderOffsetsMinutesSchema = z
+  .array(
+    z
+      .number()
+      .int("Antecedência deve ser um número inteiro")
+      .min(5, "Antecedência mínima é 5 minutos")
+      .max(10080, "Antecedência máxima é 7 dias (10080 minutos)"),
+  )
+  .max(5, "Máximo de 5 lembretes por agendamento")
+  .refine((v) => new Set(v).size === v.length, "Antecedências não podem se repetir");
+
+/** Antecedência mínima para agendar e aviso mínimo para cancelar/remarcar */
+const policyMinutesSchema = z
+  .number()
+  .int("Antecedência deve ser um número inteiro")
+  .min(0, "Antecedência não pode ser negativa")
+  .max(43200, "Antecedência máxima é 30 dias (43200 minutos)");
+
+/** Janela máxima de agendamento futuro */
+const maxBookingWindowDaysSchema = z
+  .number()
+  .int("Janela deve ser um número inteiro")
+  .min(1, "Janela mínima é 1 dia")
+  .max(365, "Janela máxima é 365 dias");
+
+/** Limite de agendamentos ativos por cliente */
+const maxActiveAppointmentsSchema = z
+  .number()
+  .int("Limite deve ser um número inteiro")
+  .min(1, "Limite mínimo é 1 agendamento")
+  .max(100, "Limite máximo é 100 agendamentos");
+
+/** Quantidade de incidentes (no-shows + cancelamentos tardios) que aciona uma restrição */
+const incidentThresholdSchema = z
+  .number()
+  .int("Limite deve ser um número inteiro")
+  .min(1, "Limite mínimo é 1 incidente")
+  .max(50, "Limite máximo é 50 incidentes");
+
 // ========== BUSINESS PROFILE (response) ==========
 
 /** Perfil do business retornado nas respostas */
@@ -24,6 +79,17 @@ export const businessProfileSchema = z.object({
   businessHours: businessHoursSchema,
   socialLinks: socialLinksSchema,
   timezone: z.string(),
+  slotHorizonDays: z.number().int(),
+  slotDurationMinutes: z.number().int(),
+  reminderOffsetsMinutes: z.array(z.number().int()),
+  locale: z.string(),
+  minBookingLeadMinutes: z.number().int(),
+  minCancelNoticeMinutes: z.number().int(),
+  maxBookingWindowDays: z.number().int().nullable(),
+  maxActiveAppointmentsPerCustomer: z.number().int().nullable(),
+  lateCancellationWindowMinutes: z.number().int(),
+  restrictAfterIncidents: z.number().int().nullable(),
+  blockAfterIncidents: z.number().int().nullable(),
   active: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -54,6 +120,22 @@ export const createBusinessRequestSchema = z.object({
   businessHours: businessHoursSchema.optional(),
   socialLinks: socialLinksSchema.optional(),
   timezone: timezoneSchema.optional(),
+  slotHorizonDays: slotHorizonDaysSchema.optional(),
+  slotDurationMinutes: slotDurationMinutesSchema.optional(),
+  /** [] desativa os lembretes automáticos */
+  reminderOffsetsMinutes: reminderOffsetsMinutesSchema.optional(),
+  /** Idioma das mensagens aos clientes (padrão "pt-BR") */
+  locale: z.enum(supportedLocales).optional(),
+  /** Políticas aplicadas a clientes (USER); TENANT e OWNER não são afetados. 0 = sem restrição */
+  minBookingLeadMinutes: policyMinutesSchema.optional(),
+  minCancelNoticeMinutes: policyMinutesSchema.optional(),
+  maxBookingWindowDays: maxBookingWindowDaysSchema.optional(),
+  maxActiveAppointmentsPerCustomer: maxActiveAppointmentsSchema.optional(),
+  /** Cancelamentos do cliente dentro desta janela contam como incidente. 0 = não contam */
+  lateCancellationWindowMinutes: policyMinutesSchema.optional(),
+  /** Incidentes para exigir depósito (RESTRICTED) e para bloquear o cliente (BLOCKED) */
+  restrictAfterIncidents: incidentThresholdSchema.optional(),
+  blockAfterIncidents: incidentThresholdSchema.optional(),
   /** Apenas OWNER pode informar o tenantId; TENANT usa o próprio */
   tenantId: z.string().uuid().optional(),
 });
@@ -84,6 +166,19 @@ export const updateBusinessRequestSchema = z.object({
   businessHours: businessHoursSchema.optional(),
   socialLinks: socialLinksSchema.optional(),
   timezone: timezoneSchema.optional(),
+  slotHorizonDays: slotHorizonDaysSchema.optional(),
+  slotDurationMinutes: slotDurationMinutesSchema.optional(),
+  reminderOffsetsMinutes: reminderOffsetsMinutesSchema.optional(),
+  locale: z.enum(supportedLocales).optional(),
+  minBookingLeadMinutes: policyMinutesSchema.optional(),
+  minCancelNoticeMinutes: policyMinutesSchema.optional(),
+  /** null remove o limite */
+  maxBookingWindowDays: maxBookingWindowDaysSchema.nullable().optional(),
+  maxActiveAppointmentsPerCustomer: maxActiveAppointmentsSchema.nullable().optional(),
+  lateCancellationWindowMinutes: policyMinutesSchema.optional(),
+  /** null desativa a restrição/bloqueio automático */
+  restrictAfterIncidents: incidentThresholdSchema.nullable().optional(),
+  blockAfterIncidents: incidentThresholdSchema.nullable().optional(),
 });
 export type UpdateBusinessRequest = z.infer<typeof updateBusinessRequestSchema>;
 
@@ -18,6 +18,17 @@ export type BusinessRow = {
   businessHours: z.infer<typeof businessHoursSchema>;
   socialLinks: z.infer<typeof socialLinksSchema>;
   timezone: string;
+  slotHorizonDays: number;
+  slotDurationMinutes: number;
+  reminderOffsetsMinutes: number[];
+  locale: string;
+  minBookingLeadMinutes: number;
+  minCancelNoticeMinutes: number;
+  maxBookingWindowDays: number | null;
+  maxActiveAppointmentsPerCustomer: number | null;
+  lateCancellationWindowMinutes: number;
+  restrictAfterIncidents: number | null;
+  blockAfterIncidents: number | null;
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../core/container/container.js";
+import { createNotificationTemplateHandler } from "./3_handler.js";
+import { createNotificationTemplateService } from "./4_service.js";
+import { createNotificationTemplateRepository } from "./5_repository.js";
+
+export const createNotificationTemplateModule: ModuleFactory = (container) => {
+  const repository = createNotificationTemplateRepository(container);
+  const service = createNotificationTemplateService(repository);
+  const handler = createNotificationTemplateHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
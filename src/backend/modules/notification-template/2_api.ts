@@ -0,0 +1,235 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  createNotificationTemplateRequestSchema,
+  errorResponseSchema,
+  listNotificationTemplatesQuerySchema,
+  messageResponseSchema,
+  notificationTemplateProfileSchema,
+  paginatedNotificationTemplatesResponseSchema,
+  previewNotificationTemplateRequestSchema,
+  previewNotificationTemplateResponseSchema,
+  updateNotificationTemplateRequestSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== CREATE ==========
+
+export const createNotificationTemplateRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Notification Templates"],
+  summary: "Criar template de notificação",
+  description:
+    "Define o texto de um tipo de notificação para um canal e idioma do business (padrão: idioma do business). Placeholders aceitos: {{customerName}}, {{serviceName}}, {{scheduledAtLocal}} e {{operatorDisplayName}}. Notificações automáticas (confirmação, lembrete, cancelamento, remarcação) passam a usar o template.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createNotificationTemplateRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: notificationTemplateProfileSchema } },
+      description: "Template criado com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Já existe template para este tipo, canal e idioma",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== LIST ==========
+
+export const listNotificationTemplatesRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Notification Templates"],
+  summary: "Listar templates do business",
+  description:
+    "Lista os templates de um business com paginação, filtrando por tipo, canal ou idioma.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listNotificationTemplatesQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedNotificationTemplatesResponseSchema } },
+      description: "Lista paginada de templates",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrada",
+    },
+  },
+});
+
+// ========== PREVIEW ==========
+
+export const previewNotificationTemplateRoute = createRoute({
+  method: "post",
+  path: "/preview",
+  tags: ["Notification Templates"],
+  summary: "Pré-visualizar template",
+  description:
+    "Renderiza assunto e corpo com os dados de um agendamento do business (appointmentId) ou com dados de exemplo, no fuso e idioma do business. Nada é salvo ou enviado.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: previewNotificationTemplateRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: previewNotificationTemplateResponseSchema } },
+      description: "Texto renderizado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business ou appointment não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== GET BY ID ==========
+
+export const getNotificationTemplateRoute = createRoute({
+  method: "get",
+  path: "/{id}",
+  tags: ["Notification Templates"],
+  summary: "Buscar template por ID",
+  description: "Retorna o template.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: notificationTemplateProfileSchema } },
+      description: "Template encontrado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Template não encontrado",
+    },
+  },
+});
+
+// ========== UPDATE ==========
+
+export const updateNotificationTemplateRoute = createRoute({
+  method: "patch",
+  path: "/{id}",
+  tags: ["Notification Templates"],
+  summary: "Atualizar template",
+  description:
+    "Altera assunto, corpo ou ativação. Com active=false, as notificações voltam a usar o texto padrão.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    body: {
+      content: { "application/json": { schema: updateNotificationTemplateRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: notificationTemplateProfileSchema } },
+      description: "Template atualizado com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Template não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== DELETE ==========
+
+export const deleteNotificationTemplateRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["Notification Templates"],
+  summary: "Remover template",
+  description:
+    "Remove o template. As notificações voltam a usar o texto padrão do idioma do business.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Template removido com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Template não encontrado",
+    },
+  },
+});
@@ -0,0 +1,115 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../core/error/error.handler.js";
+import { getSession, hasRole } from "../../core/session/session.guard.js";
+import {
+  createNotificationTemplateRoute,
+  deleteNotificationTemplateRoute,
+  getNotificationTemplateRoute,
+  listNotificationTemplatesRoute,
+  previewNotificationTemplateRoute,
+  updateNotificationTemplateRoute,
+} from "./2_api.js";
+import type { INotificationTemplateService } from "./4_service.js";
+
+export interface INotificationTemplateHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createNotificationTemplateHandler(
+  service: INotificationTemplateService,
+): INotificationTemplateHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // POST / — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(createNotificationTemplateRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.create(body, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 201);
+      });
+
+      // GET / — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listNotificationTemplatesRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.list(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // POST /preview — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(previewNotificationTemplateRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const body = c.req.valid("json");
+        const result = await service.preview(body, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /:id — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(getNotificationTemplateRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.getById(id, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // PATCH /:id — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(updateNotificationTemplateRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const body = c.req.valid("json");
+        const result = await service.update(id, body, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // DELETE /:id — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(deleteNotificationTemplateRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.delete(id, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
@@ -0,0 +1,255 @@
+import { formatLocalizedDateTime } from "../../core/date/date.utils.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import type { Role } from "../../core/session/session.guard.js";
+import { type TemplateVariables, renderTemplate } from "../../shared/notification-templates.js";
+import type { INotificationTemplateRepository } from "./5_repository.js";
+import type {
+  CreateNotificationTemplateRequest,
+  ListNotificationTemplatesQuery,
+  NotificationTemplateProfile,
+  PaginatedNotificationTemplatesResponse,
+  PreviewNotificationTemplateRequest,
+  PreviewNotificationTemplateResponse,
+  UpdateNotificationTemplateRequest,
+} from "./types/dtos/dtos.js";
+import type { NotificationTemplateRow, TemplateBusinessRow } from "./types/models/models.js";
+
+export interface INotificationTemplateService {
+  create(
+    input: CreateNotificationTemplateRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<NotificationTemplateProfile>>;
+  list(
+    query: ListNotificationTemplatesQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedNotificationTemplatesResponse>>;
+  getById(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<NotificationTemplateProfile>>;
+  update(
+    id: string,
+    input: UpdateNotificationTemplateRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<NotificationTemplateProfile>>;
+  delete(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<{ message: string }>>;
+  /** Renderiza um texto com os dados de um agendamento do business (ou de exemplo) */
+  preview(
+    input: PreviewNotificationTemplateRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PreviewNotificationTemplateResponse>>;
+}
+
+/** Valores de exemplo do preview sem agendamento (a data é daqui a 24h, em hora cheia) */
+const SAMPLE_VARIABLES = {
+  customerName: "Maria Silva",
+  serviceName: "Corte de cabelo",
+  operatorDisplayName: "João",
+};
+
+function toProfile(row: NotificationTemplateRow): NotificationTemplateProfile {
+  return {
+    id: row.id,
+    businessId: row.businessId,
+    type: row.type,
+    channel: row.channel,
+    locale: row.locale,
+    subject: row.subject,
+    body: row.body,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export function createNotificationTemplateService(
+  repository: INotificationTemplateRepository,
+): INotificationTemplateService {
+  /** Verifica se a business existe e se o caller tem permissão */
+  async function checkBusinessOwnership(
+    businessId: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<TemplateBusinessRow>> {
+    const businessResult = await repository.findBusinessById(businessId);
+    if (businessResult.isErr()) return R.fail(businessResult.error);
+    if (!businessResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Business não encontrada" });
+    }
+
+    if (callerRole === "TENANT" && callerTenantId !== businessResult.value.tenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    return R.ok(businessResult.value);
+  }
+
+  /** Busca o template e verifica o acesso do caller à business dona */
+  async function findOwnedTemplate(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<NotificationTemplateRow>> {
+    const findResult = await repository.findById(id);
+    if (findResult.isErr()) return R.fail(findResult.error);
+    if (!findResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Template não encontrado" });
+    }
+
+    const ownershipCheck = await checkBusinessOwnership(
+      findResult.value.businessId,
+      callerRole,
+      callerTenantId,
+    );
+    if (ownershipCheck.isErr()) return R.fail(ownershipCheck.error);
+
+    return R.ok(findResult.value);
+  }
+
+  return {
+    async create(input, callerRole, callerTenantId) {
+      const ownershipCheck = await checkBusinessOwnership(
+        input.businessId,
+        callerRole,
+        callerTenantId,
+      );
+      if (ownershipCheck.isErr()) return R.fail(ownershipCheck.error);
+
+      const key = {
+        businessId: input.businessId,
+        type: input.type,
+        channel: input.channel,
+        locale: input.locale ?? ownershipCheck.value.locale,
+      };
+
+      // Um template por tipo × canal × idioma
+      const existingResult = await repository.findByKey(key);
+      if (existingResult.isErr()) return R.fail(existingResult.error);
+      if (existingResult.value) {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Já existe template para este tipo, canal e idioma",
+        });
+      }
+
+      const createResult = await repository.create({
+        ...key,
+        subject: input.subject ?? null,
+        body: input.body,
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      return R.ok(toProfile(createResult.value));
+    },
+
+    async list(query, callerRole, callerTenantId) {
+      const ownershipCheck = await checkBusinessOwnership(
+        query.businessId,
+        callerRole,
+        callerTenantId,
+      );
+      if (ownershipCheck.isErr()) return R.fail(ownershipCheck.error);
+
+      const result = await repository.findAll({
+        page: query.page,
+        limit: query.limit,
+        businessId: query.businessId,
+        type: query.type,
+        channel: query.channel,
+        locale: query.locale,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async getById(id, callerRole, callerTenantId) {
+      const templateResult = await findOwnedTemplate(id, callerRole, callerTenantId);
+      if (templateResult.isErr()) return R.fail(templateResult.error);
+
+      return R.ok(toProfile(templateResult.value));
+    },
+
+    async update(id, input, callerRole, callerTenantId) {
+      const templateResult = await findOwnedTemplate(id, callerRole, callerTenantId);
+      if (templateResult.isErr()) return R.fail(templateResult.error);
+
+      const updateResult = await repository.update(id, input);
+      if (updateResult.isErr()) return R.fail(updateResult.error);
+
+      return R.ok(toProfile(updateResult.value));
+    },
+
+    async delete(id, callerRole, callerTenantId) {
+      const templateResult = await findOwnedTemplate(id, callerRole, callerTenantId);
+      if (templateResult.isErr()) return R.fail(templateResult.error);
+
+      const deleteResult = await repository.delete(id);
+      if (deleteResult.isErr()) return R.fail(deleteResult.error);
+
+      return R.ok({ message: "Template removido com sucesso" });
+    },
+
+    async preview(input, callerRole, callerTenantId) {
+      const ownershipCheck = await checkBusinessOwnership(
+        input.businessId,
+        callerRole,
+        callerTenantId,
+      );
+      if (ownershipCheck.isErr()) return R.fail(ownershipCheck.error);
+      const business = ownershipCheck.value;
+
+      let variables: TemplateVariables;
+      if (input.appointmentId) {
+        const apptResult = await repository.findPreviewAppointment(input.appointmentId);
+        if (apptResult.isErr()) return R.fail(apptResult.error);
+        if (!apptResult.value || apptResult.value.businessId !== business.id) {
+          return R.fail({ code: "NOT_FOUND", message: "Appointment não encontrado" });
+        }
+        const appt = apptResult.value;
+        variables = {
+          customerName: appt.customerName,
+          serviceName: appt.serviceName,
+          scheduledAtLocal: formatLocalizedDateTime(
+            appt.scheduledAt,
+            business.timezone,
+            business.locale,
+          ),
+          operatorDisplayName: appt.operatorDisplayName,
+        };
+      } else {
+        const tomorrow = new Date(Date.now() + 24 * 60 * 60_000);
+        tomorrow.setUTCMinutes(0, 0, 0);
+        variables = {
+          ...SAMPLE_VARIABLES,
+          scheduledAtLocal: formatLocalizedDateTime(tomorrow, business.timezone, business.locale),
+        };
+      }
+
+      return R.ok({
+        subject: input.subject ? renderTemplate(input.subject, variables) : null,
+        body: renderTemplate(input.body, variables),
+        variables,
+      });
+    },
+  };
+}
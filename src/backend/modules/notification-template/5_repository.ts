@@ -0,0 +1,187 @@
+import { and, count, eq, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import {
+  appointments,
+  businesses,
+  notificationTemplates,
+  operators,
+  services,
+  users,
+} from "../../shared/schemas/index.js";
+import type {
+  NotificationTemplateRow,
+  PreviewAppointmentRow,
+  TemplateBusinessRow,
+} from "./types/models/models.js";
+
+export interface INotificationTemplateRepository {
+  findById(id: string): Promise<Result<NotificationTemplateRow | null>>;
+  findAll(params: {
+    page: number;
+    limit: number;
+    businessId: string;
+    type?: NotificationTemplateRow["type"];
+    channel?: NotificationTemplateRow["channel"];
+    locale?: string;
+  }): Promise<Result<{ data: NotificationTemplateRow[]; total: number }>>;
+  /** Template do business para a combinação tipo × canal × idioma (única) */
+  findByKey(
+    key: Pick<NotificationTemplateRow, "businessId" | "type" | "channel" | "locale">,
+  ): Promise<Result<NotificationTemplateRow | null>>;
+  create(
+    data: Omit<NotificationTemplateRow, "id" | "active" | "createdAt" | "updatedAt">,
+  ): Promise<Result<NotificationTemplateRow>>;
+  update(
+    id: string,
+    data: Partial<Pick<NotificationTemplateRow, "subject" | "body" | "active">>,
+  ): Promise<Result<NotificationTemplateRow>>;
+  delete(id: string): Promise<Result<void>>;
+  findBusinessById(businessId: string): Promise<Result<TemplateBusinessRow | null>>;
+  findPreviewAppointment(appointmentId: string): Promise<Result<PreviewAppointmentRow | null>>;
+}
+
+export function createNotificationTemplateRepository(
+  container: Container,
+): INotificationTemplateRepository {
+  const { db } = container;
+
+  return {
+    async findById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(notificationTemplates)
+          .where(eq(notificationTemplates.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAll(params) {
+      return R.fromAsync(async () => {
+        const conditions = [eq(notificationTemplates.businessId, params.businessId)];
+        if (params.type) {
+          conditions.push(eq(notificationTemplates.type, params.type));
+        }
+        if (params.channel) {
+          conditions.push(eq(notificationTemplates.channel, params.channel));
+        }
+        if (params.locale) {
+          conditions.push(eq(notificationTemplates.locale, params.locale));
+        }
+
+        const where = and(...conditions);
+        const offset = (params.page - 1) * params.limit;
+
+        const [rows, totalResult] = await Promise.all([
+          db
+            .select()
+            .from(notificationTemplates)
+            .where(where)
+            .orderBy(
+              notificationTemplates.type,
+              notificationTemplates.channel,
+              notificationTemplates.locale,
+            )
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(notificationTemplates).where(where),
+        ]);
+
+        return { data: rows, total: totalResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findByKey(key) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(notificationTemplates)
+          .where(
+            and(
+              eq(notificationTemplates.businessId, key.businessId),
+              eq(notificationTemplates.type, key.type),
+              eq(notificationTemplates.channel, key.channel),
+              eq(notificationTemplates.locale, key.locale),
+            ),
+          )
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async create(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(notificationTemplates)
+          .values({
+            businessId: data.businessId,
+            type: data.type,
+            channel: data.channel,
+            locale: data.locale,
+            subject: data.subject,
+            body: data.body,
+          })
+          .returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async update(id, data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(notificationTemplates)
+          .set({ ...data, updatedAt: sql`now()` })
+          .where(eq(notificationTemplates.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async delete(id) {
+      return R.fromAsync(async () => {
+        await db.delete(notificationTemplates).where(eq(notificationTemplates.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessById(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            id: businesses.id,
+            tenantId: businesses.tenantId,
+            timezone: businesses.timezone,
+            locale: businesses.locale,
+          })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findPreviewAppointment(appointmentId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            businessId: appointments.businessId,
+            scheduledAt: appointments.scheduledAt,
+            customerName: users.name,
+            serviceName: services.name,
+            operatorDisplayName: operators.displayName,
+          })
+          .from(appointments)
+          .innerJoin(users, eq(appointments.userId, users.id))
+          .innerJoin(services, eq(appointments.serviceId, services.id))
+          .innerJoin(operators, eq(appointments.operatorId, operators.id))
+          .where(eq(appointments.id, appointmentId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { paginationSchema } from "../../../../shared/dtos.js";
+import {
+  findUnknownPlaceholders,
+  supportedLocales,
+  templateVariableNames,
+} from "../../../../shared/notification-templates.js";
+import { notificationChannels, notificationTypes } from "../enums/enums.js";
+
+export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
+export { paginationSchema };
+
+/** Texto com placeholders — rejeita variáveis fora de `templateVariableNames` */
+const templateTextSchema = (max: number) =>
+  z
+    .string()
+    .min(1, "Texto é obrigatório")
+    .max(max)
+    .superRefine((text, ctx) => {
+      const unknown = findUnknownPlaceholders(text);
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Placeholders desconhecidos: ${unknown.join(", ")}. Use: ${templateVariableNames.join(", ")}`,
+        });
+      }
+    });
+
+// ========== TEMPLATE PROFILE (response) ==========
+
+/** Template retornado nas respostas */
+export const notificationTemplateProfileSchema = z.object({
+  id: z.string().uuid(),
+  businessId: z.string().uuid(),
+  type: z.enum(notificationTypes),
+  channel: z.enum(notificationChannels),
+  locale: z.string(),
+  subject: z.string().nullable(),
+  body: z.string(),
+  active: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type NotificationTemplateProfile = z.infer<typeof notificationTemplateProfileSchema>;
+
+// ========== CREATE TEMPLATE ==========
+
+/** POST /api/notification-templates — Request Body */
+export const createNotificationTemplateRequestSchema = z.object({
+  businessId: z.string().uuid("businessId deve ser um UUID válido"),
+  type: z.enum(notificationTypes),
+  channel: z.enum(notificationChannels),
+  /** Padrão: idioma do business */
+  locale: z.enum(supportedLocales).optional(),
+  /** Usado apenas no canal EMAIL */
+  subject: templateTextSchema(255).optional(),
+  body: templateTextSchema(2000),
+});
+export type CreateNotificationTemplateRequest = z.infer<
+  typeof createNotificationTemplateRequestSchema
+>;
+
+// ========== UPDATE TEMPLATE ==========
+
+/** PATCH /api/notification-templates/:id — Request Body */
+export const updateNotificationTemplateRequestSchema = z.object({
+  subject: templateTextSchema(255).nullable().optional(),
+  body: templateTextSchema(2000).optional(),
+  active: z.boolean().optional(),
+});
+export type UpdateNotificationTemplateRequest = z.infer<
+  typeof updateNotificationTemplateRequestSchema
+>;
+
+// ========== LIST TEMPLATES ==========
+
+/** GET /api/notification-templates — Query Params */
+export const listNotificationTemplatesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  businessId: z.string().uuid("businessId deve ser um UUID válido"),
+  type: z.enum(notificationTypes).optional(),
+  channel: z.enum(notificationChannels).optional(),
+  locale: z.enum(supportedLocales).optional(),
+});
+export type ListNotificationTemplatesQuery = z.infer<typeof listNotificationTemplatesQuerySchema>;
+
+/** GET /api/notification-templates — Response Body */
+export const paginatedNotificationTemplatesResponseSchema = z.object({
+  data: z.array(notificationTemplateProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedNotificationTemplatesResponse = z.infer<
+  typeof paginatedNotificationTemplatesResponseSchema
+>;
+
+// ========== PREVIEW ==========
+
+/** POST /api/notification-templates/preview — Request Body */
+export const previewNotificationTemplateRequestSchema = z.object({
+  businessId: z.string().uuid("businessId deve ser um UUID válido"),
+  subject: templateTextSchema(255).optional(),
+  body: templateTextSchema(2000),
+  /** Agendamento real do business; se omitido, usa dados de exemplo */
+  appointmentId: z.string().uuid("appointmentId deve ser um UUID válido").optional(),
+});
+export type PreviewNotificationTemplateRequest = z.infer<
+  typeof previewNotificationTemplateRequestSchema
+>;
+
+/** POST /api/notification-templates/preview — Response Body */
+export const previewNotificationTemplateResponseSchema = z.object({
+  subject: z.string().nullable(),
+  body: z.string(),
+  /** Valores usados em cada placeholder */
+  variables: z.object({
+    customerName: z.string(),
+    serviceName: z.string(),
+    scheduledAtLocal: z.string(),
+    operatorDisplayName: z.string(),
+  }),
+});
+export type PreviewNotificationTemplateResponse = z.infer<
+  typeof previewNotificationTemplateResponseSchema
+>;
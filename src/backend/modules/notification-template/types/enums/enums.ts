@@ -0,0 +1,11 @@
+/** Tipos de notificação que aceitam template */
+export const notificationTypes = [
+  "CONFIRMATION",
+  "REMINDER",
+  "CANCELLATION",
+  "RESCHEDULE",
+  "WAITLIST_OFFER",
+] as const;
+
+/** Canais de envio */
+export const notificationChannels = ["WHATSAPP", "SMS", "EMAIL"] as const;
@@ -0,0 +1,30 @@
+/** Row do notification_templates retornada pelo Drizzle */
+export type NotificationTemplateRow = {
+  id: string;
+  businessId: string;
+  type: "CONFIRMATION" | "REMINDER" | "CANCELLATION" | "RESCHEDULE" | "WAITLIST_OFFER";
+  channel: "WHATSAPP" | "SMS" | "EMAIL";
+  locale: string;
+  subject: string | null;
+  body: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Business com os dados de idioma/fuso usados na renderização */
+export type TemplateBusinessRow = {
+  id: string;
+  tenantId: string;
+  timezone: string;
+  locale: string;
+};
+
+/** Dados do agendamento usados para preencher os placeholders no preview */
+export type PreviewAppointmentRow = {
+  businessId: string;
+  scheduledAt: Date;
+  customerName: string;
+  serviceName: string;
+  operatorDisplayName: string;
+};
@@ -1,15 +1,53 @@
 import { OpenAPIHono } from "@hono/zod-openapi";
-import type { ModuleFactory } from "../../core/container/container.js";
+import type { Container, ModuleFactory } from "../../core/container/container.js";
 import { createNotificationHandler } from "./3_handler.js";
 import { createNotificationService } from "./4_service.js";
 import { createNotificationRepository } from "./5_repository.js";
+import {
+  type INotificationDispatchJob,
+  createNotificationDispatchJob,
+} from "./jobs/dispatch.job.js";
+import { type IReminderJob, createReminderJob } from "./jobs/reminder.job.js";
+import { createNotificationProviders } from "./providers/notification.provider.js";
 
 export const createNotificationModule: ModuleFactory = (container) => {
   const repository = createNotificationRepository(container);
-  const service = createNotificationService(repository);
+  const providers = createNotificationProviders(container.config);
+  const service = createNotificationService(repository, providers, container.config);
   const handler = createNotificationHandler(service);
 
+  // Confirmação, cancelamento e remarcação viram notificações renderizadas pelos templates
+  container.events.subscribe("*", async (event) => {
+    const result = await service.handleEvent(event);
+    if (result.isErr()) throw new Error(result.error.message);
+  });
+
   const app = new OpenAPIHono();
   handler.register(app);
   return app;
 };
+
+/** Inicia o worker de lembretes de agendamento (chamado no server.ts) */
+export const startReminderJob = (container: Container): IReminderJob => {
+  const repository = createNotificationRepository(container);
+  const providers = createNotificationProviders(container.config);
+  const service = createNotificationService(repository, providers, container.config);
+  const job = createReminderJob(service, container.config.REMINDER_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
+
+/** Inicia o worker de envio de notificações (chamado no server.ts) */
+export const startNotificationDispatchJob = (container: Container): INotificationDispatchJob => {
+  const repository = createNotificationRepository(container);
+  const providers = createNotificationProviders(container.config);
+  const service = createNotificationService(repository, providers, container.config);
+  const job = createNotificationDispatchJob(
+    service,
+    container.config.NOTIFICATION_DISPATCH_INTERVAL_MS,
+  );
+
+  job.start();
+  return job;
+};
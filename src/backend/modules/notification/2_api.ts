@@ -72,7 +72,7 @@ export const sendNotificationRoute = createRoute({
   tags: ["Notifications"],
   summary: "Disparar notificação manual",
   description:
-    "Cria uma notificação com status PENDING para um appointment existente. Restrito a TENANT e OWNER. A integração com canais externos será implementada futuramente.",
+    "Cria uma notificação com status PENDING para um appointment existente. Restrito a TENANT e OWNER. Sem `content`, a mensagem é renderizada do template do business para o tipo × canal (ou do texto padrão no idioma do business). O envio é feito em background pelo dispatcher do canal, com novas tentativas em caso de falha.",
   security: [{ Bearer: [] }],
   request: {
     body: {
@@ -103,3 +103,40 @@ export const sendNotificationRoute = createRoute({
     },
   },
 });
+
+// ========== RETRY ==========
+
+export const retryNotificationRoute = createRoute({
+  method: "post",
+  path: "/{id}/retry",
+  tags: ["Notifications"],
+  summary: "Reenviar notificação em dead-letter",
+  description:
+    "Devolve uma notificação DEAD_LETTER para a fila de envio (status PENDING, tentativas zeradas). Restrito a TENANT e OWNER.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: notificationProfileSchema } },
+      description: "Notificação devolvida para a fila",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Notificação não encontrada",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Notificação não está em DEAD_LETTER",
+    },
+  },
+});
@@ -1,9 +1,10 @@
 import type { OpenAPIHono } from "@hono/zod-openapi";
 import { respondError } from "../../core/error/error.handler.js";
-import { getSession, hasRole } from "../../core/session/session.guard.js";
+import { getApiKeyScope, getSession, hasRole } from "../../core/session/session.guard.js";
 import {
   getNotificationByIdRoute,
   listNotificationsRoute,
+  retryNotificationRoute,
   sendNotificationRoute,
 } from "./2_api.js";
 import type { INotificationService } from "./4_service.js";
@@ -20,7 +21,13 @@ export function createNotificationHandler(service: INotificationService): INotif
       app.openapi(listNotificationsRoute, async (c): Promise<any> => {
         const session = getSession(c);
         const query = c.req.valid("query");
-        const result = await service.list(query, session.role, session.sub, session.tenantId);
+        const result = await service.list(
+          query,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -31,7 +38,13 @@ export function createNotificationHandler(service: INotificationService): INotif
       app.openapi(getNotificationByIdRoute, async (c): Promise<any> => {
         const session = getSession(c);
         const { id } = c.req.valid("param");
-        const result = await service.getById(id, session.role, session.sub, session.tenantId);
+        const result = await service.getById(
+          id,
+          session.role,
+          session.sub,
+          session.tenantId,
+          getApiKeyScope(c),
+        );
 
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 200);
@@ -51,6 +64,21 @@ export function createNotificationHandler(service: INotificationService): INotif
         if (result.isErr()) return respondError(c, result.error);
         return c.json(result.value, 201);
       });
+
+      // POST /:id/retry — TENANT, OWNER (devolve DEAD_LETTER para a fila)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(retryNotificationRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const { id } = c.req.valid("param");
+        const result = await service.retry(id, session.role, session.sub, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
     },
   };
 }
@@ -1,7 +1,19 @@
+import { appointmentEventUid, buildCalendar } from "../../core/calendar/ics.js";
+import type { Config } from "../../core/config/config.js";
+import { formatLocalizedDateTime } from "../../core/date/date.utils.js";
 import type { Result } from "../../core/result/result.js";
 import { Result as R } from "../../core/result/result.js";
-import type { Role } from "../../core/session/session.guard.js";
+import { type ApiKeyScope, type Role, isWithinScope } from "../../core/session/session.guard.js";
+import type { SmtpAttachment } from "../../core/smtp/smtp.client.js";
+import type { DomainEvent, DomainEventType } from "../../shared/events.js";
+import {
+  type TemplateVariables,
+  defaultTemplates,
+  renderTemplate,
+  toLocale,
+} from "../../shared/notification-templates.js";
 import type { INotificationRepository } from "./5_repository.js";
+import type { NotificationProviders } from "./providers/notification.provider.js";
 import type {
   NotificationProfile,
   PaginatedNotificationsResponse,
@@ -12,7 +24,12 @@ import type {
   notificationStatuses,
   notificationTypes,
 } from "./types/enums/enums.js";
-import type { NotificationRow } from "./types/models/models.js";
+import type {
+  CalendarEventContextRow,
+  NotificationRow,
+  ReminderCandidateRow,
+  TemplateContextRow,
+} from "./types/models/models.js";
 
 export interface INotificationService {
   list(
@@ -27,6 +44,7 @@ export interface INotificationService {
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<PaginatedNotificationsResponse>>;
 
   getById(
@@ -34,6 +52,7 @@ export interface INotificationService {
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<NotificationProfile>>;
 
   create(
@@ -41,6 +60,136 @@ export interface INotificationService {
     callerRole: Role,
     callerTenantId: string | null,
   ): Promise<Result<NotificationProfile>>;
+
+  /**
+   * Cria os lembretes (REMINDER) devidos até agora conforme as antecedências de cada business.
+   * Idempotente — pode ser executado repetidamente e por várias instâncias. Falha em um
+   * agendamento é contada em `failed` e não interrompe os demais.
+   */
+  scheduleReminders(
+    now?: Date,
+  ): Promise<
+    Result<{ scanned: number; created: number; failed: number; lastError: string | null }>
+  >;
+
+  /**
+   * Cria as notificações de um evento de agendamento (confirmação, cancelamento, remarcação)
+   * renderizando os templates do business. Reentregas do mesmo evento são ignoradas.
+   */
+  handleEvent(event: DomainEvent): Promise<Result<{ created: number }>>;
+
+  /** Reenvia para a fila uma notificação em DEAD_LETTER — TENANT/OWNER */
+  retry(
+    id: string,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<NotificationProfile>>;
+
+  /**
+   * Envia um lote de notificações devidas pelos providers de cada canal.
+   * Falhas são reagendadas com backoff exponencial até NOTIFICATION_MAX_ATTEMPTS;
+   * depois disso (ou em falha definitiva) a notificação vai para DEAD_LETTER.
+   */
+  dispatchPending(): Promise<
+    Result<{ claimed: number; sent: number; failed: number; deadLettered: number }>
+  >;
+}
+
+/** Tempo em que uma notificação reservada fica invisível para outras instâncias */
+const DISPATCH_LEASE_MS = 5 * 60_000;
+
+/** Teto do intervalo entre tentativas */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000;
+
+/** Assunto usado nos canais que o suportam (e-mail) */
+const SUBJECTS: Record<NotificationRow["type"], string> = {
+  CONFIRMATION: "Agendamento confirmado",
+  REMINDER: "Lembrete de agendamento",
+  CANCELLATION: "Agendamento cancelado",
+  RESCHEDULE: "Agendamento remarcado",
+  WAITLIST_OFFER: "Horário disponível",
+};
+
+/** Maior antecedência aceita em reminderOffsetsMinutes (7 dias) */
+const MAX_REMINDER_OFFSET_MINUTES = 10080;
+
+/** Canal das notificações automáticas quando o business não tem template ativo para o tipo */
+const DEFAULT_CHANNEL = "WHATSAPP" as const;
+
+/** Tipo de notificação gerado por cada evento de agendamento (os demais não notificam) */
+const EVENT_NOTIFICATION_TYPES: Partial<Record<DomainEventType, NotificationRow["type"]>> = {
+  "appointment.confirmed": "CONFIRMATION",
+  "appointment.cancelled": "CANCELLATION",
+  "appointment.rescheduled": "RESCHEDULE",
+  "waitlist.offered": "WAITLIST_OFFER",
+};
+
+/** Mensagem pronta para virar notificação */
+type RenderedMessage = {
+  channel: NotificationRow["channel"];
+  subject: string | null;
+  content: string;
+};
+
+/**
+ * Escolhe qual lembrete enviar para o agendamento neste momento:
+ * a menor antecedência já vencida. Antecedências anteriores à criação do agendamento
+ * (ex: lembrete de 24h para algo marcado 3h antes) são ignoradas, assim como as maiores
+ * que ficaram para trás após uma indisponibilidade do worker.
+ */
+function pickDueOffset(candidate: ReminderCandidateRow, now: Date): number | null {
+  const start = candidate.scheduledAt.getTime();
+  const due = candidate.reminderOffsetsMinutes.filter((offset) => {
+    const remindAt = start - offset * 60_000;
+    return remindAt <= now.getTime() && remindAt >= candidate.createdAt.getTime();
+  });
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+/**
+ * Convite .ics anexado ao e-mail de confirmação — usa o mesmo UID dos feeds de calendário,
+ * então importar o anexo e assinar o feed não duplica o evento.
+ */
+function toCalendarAttachment(context: CalendarEventContextRow): SmtpAttachment {
+  const status =
+    context.status === "CANCELLED"
+      ? "CANCELLED"
+      : context.status === "PENDING"
+        ? "TENTATIVE"
+        : "CONFIRMED";
+  const ics = buildCalendar([
+    {
+      uid: appointmentEventUid(context.appointmentId),
+      start: context.scheduledAt,
+      end: new Date(context.scheduledAt.getTime() + context.durationMinutes * 60_000),
+      timezone: context.businessTimezone,
+      summary: `${context.serviceName} — ${context.businessName}`,
+      description: `Profissional: ${context.operatorDisplayName}`,
+      location: context.businessAddress,
+      status,
+      sequence: context.sequence,
+      lastModified: context.updatedAt,
+    },
+  ]);
+  return {
+    filename: "agendamento.ics",
+    contentType: "text/calendar; charset=utf-8; method=PUBLISH",
+    content: ics,
+  };
+}
+
+function toTemplateVariables(context: TemplateContextRow): TemplateVariables {
+  return {
+    customerName: context.customerName,
+    serviceName: context.serviceName,
+    scheduledAtLocal: formatLocalizedDateTime(
+      context.scheduledAt,
+      context.businessTimezone,
+      context.businessLocale,
+    ),
+    operatorDisplayName: context.operatorDisplayName,
+  };
 }
 
 function toProfile(row: NotificationRow): NotificationProfile {
@@ -51,27 +200,34 @@ function toProfile(row: NotificationRow): NotificationProfile {
     type: row.type,
     channel: row.channel,
     status: row.status,
+    subject: row.subject,
     content: row.content,
     sentAt: row.sentAt ? row.sentAt.toISOString() : null,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    nextAttemptAt: row.nextAttemptAt.toISOString(),
     createdAt: row.createdAt.toISOString(),
   };
 }
 
-export function createNotificationService(repo: INotificationRepository): INotificationService {
+export function createNotificationService(
+  repo: INotificationRepository,
+  providers: NotificationProviders,
+  config: Config,
+): INotificationService {
   async function checkNotificationAccess(
     notification: NotificationRow,
     callerRole: Role,
     callerUserId: string,
     callerTenantId: string | null,
+    callerScope: ApiKeyScope | null,
   ): Promise<Result<void>> {
     if (callerRole === "OWNER") return R.ok(undefined);
 
-    if (callerRole === "USER") {
-      if (notification.userId !== callerUserId) {
-        return R.fail({ code: "FORBIDDEN", message: "Sem acesso a esta notificação" });
-      }
-      return R.ok(undefined);
+    if (callerRole === "USER" && notification.userId !== callerUserId) {
+      return R.fail({ code: "FORBIDDEN", message: "Sem acesso a esta notificação" });
     }
+    if (callerRole === "USER" && !callerScope) return R.ok(undefined);
 
     const apptResult = await repo.findAppointmentById(notification.appointmentId);
     if (apptResult.isErr()) return R.fail(apptResult.error);
@@ -80,6 +236,16 @@ export function createNotificationService(repo: INotificationRepository): INotif
     }
     const appt = apptResult.value;
 
+    // Via API key, só notificações de agendamentos do tenant/business da chave
+    if (callerRole === "USER") {
+      const bizResult = await repo.findBusinessById(appt.businessId);
+      if (bizResult.isErr()) return R.fail(bizResult.error);
+      if (!bizResult.value || !isWithinScope(callerScope, bizResult.value)) {
+        return R.fail({ code: "FORBIDDEN", message: "Sem acesso a esta notificação" });
+      }
+      return R.ok(undefined);
+    }
+
     if (callerRole === "OPERATOR") {
       const opResult = await repo.findOperatorByUserId(callerUserId);
       if (opResult.isErr()) return R.fail(opResult.error);
@@ -104,8 +270,49 @@ export function createNotificationService(repo: INotificationRepository): INotif
     return R.fail({ code: "FORBIDDEN", message: "Sem acesso a esta notificação" });
   }
 
+  /**
+   * Renderiza as mensagens do tipo para o agendamento: uma por template ativo do business
+   * no idioma dele (ou só a do `channel` informado). Sem template, usa o texto padrão do idioma.
+   */
+  async function renderMessages(
+    context: TemplateContextRow,
+    type: NotificationRow["type"],
+    channel?: NotificationRow["channel"],
+  ): Promise<Result<RenderedMessage[]>> {
+    const templatesResult = await repo.findActiveTemplates(
+      context.businessId,
+      type,
+      context.businessLocale,
+    );
+    if (templatesResult.isErr()) return R.fail(templatesResult.error);
+
+    const templates = channel
+      ? templatesResult.value.filter((t) => t.channel === channel)
+      : templatesResult.value;
+
+    const variables = toTemplateVariables(context);
+    if (templates.length === 0) {
+      const fallback = defaultTemplates[toLocale(context.businessLocale)][type];
+      return R.ok([
+        {
+          channel: channel ?? DEFAULT_CHANNEL,
+          subject: renderTemplate(fallback.subject, variables),
+          content: renderTemplate(fallback.body, variables),
+        },
+      ]);
+    }
+
+    return R.ok(
+      templates.map((t) => ({
+        channel: t.channel,
+        subject: t.subject ? renderTemplate(t.subject, variables) : null,
+        content: renderTemplate(t.body, variables),
+      })),
+    );
+  }
+
   return {
-    async list(query, callerRole, callerUserId, callerTenantId) {
+    async list(query, callerRole, callerUserId, callerTenantId, callerScope) {
       const params: Parameters<typeof repo.findAll>[0] = {
         page: query.page,
         limit: query.limit,
@@ -117,6 +324,11 @@ export function createNotificationService(repo: INotificationRepository): INotif
 
       if (callerRole === "USER") {
         params.userId = callerUserId;
+        // Via API key, só o tenant/business da chave
+        if (callerScope) {
+          params.tenantId = callerScope.tenantId;
+          params.businessId = callerScope.businessId ?? undefined;
+        }
       } else if (callerRole === "OPERATOR") {
         const opResult = await repo.findOperatorByUserId(callerUserId);
         if (opResult.isErr()) return R.fail(opResult.error);
@@ -153,7 +365,7 @@ export function createNotificationService(repo: INotificationRepository): INotif
       });
     },
 
-    async getById(id, callerRole, callerUserId, callerTenantId) {
+    async getById(id, callerRole, callerUserId, callerTenantId, callerScope) {
       const result = await repo.findById(id);
       if (result.isErr()) return R.fail(result.error);
       if (!result.value) {
@@ -165,6 +377,7 @@ export function createNotificationService(repo: INotificationRepository): INotif
         callerRole,
         callerUserId,
         callerTenantId,
+        callerScope,
       );
       if (accessResult.isErr()) return R.fail(accessResult.error);
 
@@ -196,16 +409,234 @@ export function createNotificationService(repo: INotificationRepository): INotif
         }
       }
 
+      let message: RenderedMessage = {
+        channel: input.channel,
+        subject: null,
+        content: input.content ?? "",
+      };
+      if (!input.content) {
+        const contextResult = await repo.findTemplateContext(input.appointmentId);
+        if (contextResult.isErr()) return R.fail(contextResult.error);
+        if (!contextResult.value) {
+          return R.fail({ code: "NOT_FOUND", message: "Appointment não encontrado" });
+        }
+
+        const renderResult = await renderMessages(contextResult.value, input.type, input.channel);
+        if (renderResult.isErr()) return R.fail(renderResult.error);
+        if (renderResult.value[0]) message = renderResult.value[0];
+      }
+
       const createResult = await repo.create({
         userId: appt.userId,
         appointmentId: input.appointmentId,
         type: input.type,
-        channel: input.channel,
-        content: input.content,
+        channel: message.channel,
+        subject: message.subject,
+        content: message.content,
       });
       if (createResult.isErr()) return R.fail(createResult.error);
 
       return R.ok(toProfile(createResult.value));
     },
+
+    async scheduleReminders(now = new Date()) {
+      const until = new Date(now.getTime() + MAX_REMINDER_OFFSET_MINUTES * 60_000);
+      const candidatesResult = await repo.findReminderCandidates(now, until);
+      if (candidatesResult.isErr()) return R.fail(candidatesResult.error);
+
+      const stats = {
+        scanned: candidatesResult.value.length,
+        created: 0,
+        failed: 0,
+        lastError: null as string | null,
+      };
+
+      // Cada agendamento é independente — falha em um não interrompe os demais
+      for (const candidate of candidatesResult.value) {
+        const offset = pickDueOffset(candidate, now);
+        if (offset === null) continue;
+
+        const renderResult = await renderMessages(candidate, "REMINDER");
+        if (renderResult.isErr()) {
+          stats.failed++;
+          stats.lastError = `Agendamento ${candidate.appointmentId}: ${renderResult.error.message}`;
+          continue;
+        }
+
+        for (const message of renderResult.value) {
+          const createResult = await repo.createReminder({
+            userId: candidate.userId,
+            appointmentId: candidate.appointmentId,
+            channel: message.channel,
+            subject: message.subject,
+            content: message.content,
+            reminderOffsetMinutes: offset,
+            reminderScheduledAt: candidate.scheduledAt,
+          });
+          if (createResult.isErr()) {
+            stats.failed++;
+            stats.lastError = `Agendamento ${candidate.appointmentId}: ${createResult.error.message}`;
+            break;
+          }
+          if (createResult.value) stats.created++;
+        }
+      }
+
+      return R.ok(stats);
+    },
+
+    async handleEvent(event) {
+      const type = EVENT_NOTIFICATION_TYPES[event.type];
+      if (!type) return R.ok({ created: 0 });
+
+      // Lembretes pendentes do horário antigo saem; os do novo horário são criados pelo worker
+      if (event.type === "appointment.rescheduled") {
+        const discardResult = await repo.discardStaleReminders(event.payload.appointmentId);
+        if (discardResult.isErr()) return R.fail(discardResult.error);
+      }
+
+      const contextResult =
+        event.type === "waitlist.offered"
+          ? await repo.findWaitlistOfferContext(event.payload.offerId)
+          : await repo.findTemplateContext(event.payload.appointmentId);
+      if (contextResult.isErr()) return R.fail(contextResult.error);
+      if (!contextResult.value) return R.ok({ created: 0 });
+
+      const renderResult = await renderMessages(contextResult.value, type);
+      if (renderResult.isErr()) return R.fail(renderResult.error);
+
+      let created = 0;
+      for (const message of renderResult.value) {
+        const createResult = await repo.createFromEvent({
+          userId: contextResult.value.userId,
+          appointmentId: contextResult.value.appointmentId,
+          type,
+          channel: message.channel,
+          subject: message.subject,
+          content: message.content,
+          sourceEventId: event.id,
+        });
+        if (createResult.isErr()) return R.fail(createResult.error);
+        if (createResult.value) created++;
+      }
+
+      return R.ok({ created });
+    },
+
+    async retry(id, callerRole, callerUserId, callerTenantId) {
+      if (callerRole !== "TENANT" && callerRole !== "OWNER") {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+
+      const result = await repo.findById(id);
+      if (result.isErr()) return R.fail(result.error);
+      if (!result.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Notificação não encontrada" });
+      }
+
+      const accessResult = await checkNotificationAccess(
+        result.value,
+        callerRole,
+        callerUserId,
+        callerTenantId,
+        null,
+      );
+      if (accessResult.isErr()) return R.fail(accessResult.error);
+
+      if (result.value.status !== "DEAD_LETTER") {
+        return R.fail({
+          code: "CONFLICT",
+          message: "Apenas notificações em DEAD_LETTER podem ser reenviadas",
+        });
+      }
+
+      const requeueResult = await repo.requeue(id);
+      if (requeueResult.isErr()) return R.fail(requeueResult.error);
+
+      return R.ok(toProfile(requeueResult.value));
+    },
+
+    async dispatchPending() {
+      const claimResult = await repo.claimDue(config.NOTIFICATION_BATCH_SIZE, DISPATCH_LEASE_MS);
+      if (claimResult.isErr()) return R.fail(claimResult.error);
+
+      const stats = { claimed: claimResult.value.length, sent: 0, failed: 0, deadLettered: 0 };
+
+      for (const item of claimResult.value) {
+        const { notification } = item;
+        const attempts = notification.attempts + 1;
+
+        // Lembrete de agendamento que deixou de estar ativo não deve ser enviado
+        if (
+          notification.type === "REMINDER" &&
+          item.appointmentStatus !== "PENDING" &&
+          item.appointmentStatus !== "CONFIRMED"
+        ) {
+          const deadResult = await repo.markDeadLetter(notification.id, {
+            attempts: notification.attempts,
+            lastError: `Agendamento ${item.appointmentStatus} — lembrete descartado`,
+          });
+          if (deadResult.isErr()) return R.fail(deadResult.error);
+          stats.deadLettered++;
+          continue;
+        }
+
+        // Confirmação por e-mail leva o agendamento como anexo .ics
+        const attachments: SmtpAttachment[] = [];
+        if (notification.type === "CONFIRMATION" && notification.channel === "EMAIL") {
+          const contextResult = await repo.findCalendarEventContext(notification.appointmentId);
+          if (contextResult.isErr()) return R.fail(contextResult.error);
+          if (contextResult.value) attachments.push(toCalendarAttachment(contextResult.value));
+        }
+
+        const provider = providers[notification.channel];
+        const sendResult = provider
+          ? await provider.send({
+              notificationId: notification.id,
+              phone: item.phone,
+              email: item.email,
+              subject: notification.subject ?? SUBJECTS[notification.type],
+              content: notification.content,
+              attachments,
+            })
+          : R.fail({
+              code: "VALIDATION_ERROR",
+              message: `Canal ${notification.channel} não configurado`,
+            });
+
+        if (sendResult.isOk()) {
+          const sentResult = await repo.markSent(notification.id, attempts);
+          if (sentResult.isErr()) return R.fail(sentResult.error);
+          stats.sent++;
+          continue;
+        }
+
+        // VALIDATION_ERROR = falha definitiva (sem destinatário/canal); demais são transitórias
+        const permanent = sendResult.error.code === "VALIDATION_ERROR";
+        if (permanent || attempts >= config.NOTIFICATION_MAX_ATTEMPTS) {
+          const deadResult = await repo.markDeadLetter(notification.id, {
+            attempts,
+            lastError: sendResult.error.message,
+          });
+          if (deadResult.isErr()) return R.fail(deadResult.error);
+          stats.deadLettered++;
+          continue;
+        }
+
+        const delayMs = Math.min(
+          config.NOTIFICATION_RETRY_BASE_MS * 2 ** (attempts - 1),
+          MAX_RETRY_DELAY_MS,
+        );
+        const failResult = await repo.markFailed(notification.id, {
+          attempts,
+          lastError: sendResult.error.message,
+          nextAttemptAt: new Date(Date.now() + delayMs),
+        });
+        if (failResult.isErr()) return R.fail(failResult.error);
+        stats.failed++;
+      }
+
+      return R.ok(stats);
+    },
   };
 }
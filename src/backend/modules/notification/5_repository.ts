@@ -1,15 +1,83 @@
-import { and, count, desc, eq, inArray } from "drizzle-orm";
+import { and, asc, count, desc, eq, gt, inArray, lte, sql } from "drizzle-orm";
 import type { Container } from "../../core/container/container.js";
 import type { Result } from "../../core/result/result.js";
 import { Result as R } from "../../core/result/result.js";
-import { appointments, businesses, notifications, operators } from "../../shared/schemas/index.js";
-import type { NotificationRow } from "./types/models/models.js";
+import {
+  appointmentEvents,
+  appointments,
+  businesses,
+  notificationTemplates,
+  notifications,
+  operators,
+  services,
+  users,
+  waitlistEntries,
+  waitlistOffers,
+} from "../../shared/schemas/index.js";
+import type {
+  ActiveTemplateRow,
+  CalendarEventContextRow,
+  DispatchItemRow,
+  NotificationRow,
+  ReminderCandidateRow,
+  TemplateContextRow,
+} from "./types/models/models.js";
 
 export interface INotificationRepository {
   create(
-    data: Omit<NotificationRow, "id" | "status" | "sentAt" | "createdAt">,
+    data: Pick<
+      NotificationRow,
+      "userId" | "appointmentId" | "type" | "channel" | "subject" | "content"
+    >,
   ): Promise<Result<NotificationRow>>;
 
+  /**
+   * Cria o lembrete se ainda não existir para (appointment, horário, antecedência, canal)
+   * — retorna se criou
+   */
+  createReminder(
+    data: Pick<NotificationRow, "userId" | "appointmentId" | "channel" | "subject" | "content"> & {
+      reminderOffsetMinutes: number;
+      reminderScheduledAt: Date;
+    },
+  ): Promise<Result<boolean>>;
+
+  /**
+   * Remove os lembretes ainda não enviados (PENDING/FAILED) que se referem a outro horário
+   * que não o atual do agendamento — retorna quantos removeu
+   */
+  discardStaleReminders(appointmentId: string): Promise<Result<number>>;
+
+  /** Cria a notificação de um evento do outbox, ignorando reentregas — retorna se criou */
+  createFromEvent(
+    data: Pick<
+      NotificationRow,
+      "userId" | "appointmentId" | "type" | "channel" | "subject" | "content"
+    > & { sourceEventId: string },
+  ): Promise<Result<boolean>>;
+
+  /** Dados do agendamento para renderizar templates (null se não existir) */
+  findTemplateContext(appointmentId: string): Promise<Result<TemplateContextRow | null>>;
+
+  /** Dados do agendamento para gerar o .ics da confirmação (null se não existir) */
+  findCalendarEventContext(appointmentId: string): Promise<Result<CalendarEventContextRow | null>>;
+
+  /**
+   * Dados da oferta de lista de espera para renderizar templates — o destinatário é o cliente
+   * da entrada e o agendamento é o cancelado que liberou o horário (null se não existir)
+   */
+  findWaitlistOfferContext(offerId: string): Promise<Result<TemplateContextRow | null>>;
+
+  /** Templates ativos do business para o tipo e idioma, um por canal */
+  findActiveTemplates(
+    businessId: string,
+    type: NotificationRow["type"],
+    locale: string,
+  ): Promise<Result<ActiveTemplateRow[]>>;
+
+  /** Agendamentos PENDING/CONFIRMED com scheduledAt em (from, to] */
+  findReminderCandidates(from: Date, to: Date): Promise<Result<ReminderCandidateRow[]>>;
+
   findById(id: string): Promise<Result<NotificationRow | null>>;
 
   findAll(params: {
@@ -22,6 +90,7 @@ export interface INotificationRepository {
     userId?: string;
     operatorId?: string;
     tenantId?: string;
+    businessId?: string;
   }): Promise<Result<{ data: NotificationRow[]; total: number }>>;
 
   findAppointmentById(appointmentId: string): Promise<
@@ -35,6 +104,24 @@ export interface INotificationRepository {
 
   findOperatorByUserId(userId: string): Promise<Result<{ id: string } | null>>;
 
+  /**
+   * Reserva até `limit` notificações PENDING/FAILED com envio devido, adiando next_attempt_at
+   * por `leaseMs` para que outras instâncias não as peguem enquanto o envio acontece.
+   */
+  claimDue(limit: number, leaseMs: number): Promise<Result<DispatchItemRow[]>>;
+
+  markSent(id: string, attempts: number): Promise<Result<void>>;
+
+  markFailed(
+    id: string,
+    data: { attempts: number; lastError: string; nextAttemptAt: Date },
+  ): Promise<Result<void>>;
+
+  markDeadLetter(id: string, data: { attempts: number; lastError: string }): Promise<Result<void>>;
+
+  /** Devolve uma notificação DEAD_LETTER para a fila, zerando as tentativas */
+  requeue(id: string): Promise<Result<NotificationRow>>;
+
   findBusinessById(businessId: string): Promise<Result<{ id: string; tenantId: string } | null>>;
 }
 
@@ -51,6 +138,7 @@ export function createNotificationRepository(container: Container): INotificatio
             appointmentId: data.appointmentId,
             type: data.type,
             channel: data.channel,
+            subject: data.subject,
             content: data.content,
           })
           .returning();
@@ -59,6 +147,196 @@ export function createNotificationRepository(container: Container): INotificatio
       }, "DB_QUERY_FAILED");
     },
 
+    async createReminder(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(notifications)
+          .values({
+            userId: data.userId,
+            appointmentId: data.appointmentId,
+            type: "REMINDER",
+            channel: data.channel,
+            subject: data.subject,
+            content: data.content,
+            reminderOffsetMinutes: data.reminderOffsetMinutes,
+            reminderScheduledAt: data.reminderScheduledAt,
+          })
+          .onConflictDoNothing()
+          .returning({ id: notifications.id });
+        return rows.length > 0;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async discardStaleReminders(appointmentId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .delete(notifications)
+          .where(
+            and(
+              eq(notifications.appointmentId, appointmentId),
+              eq(notifications.type, "REMINDER"),
+              inArray(notifications.status, ["PENDING", "FAILED"]),
+              sql`${notifications.reminderScheduledAt} IS DISTINCT FROM (
+                SELECT ${appointments.scheduledAt} FROM ${appointments}
+                WHERE ${appointments.id} = ${appointmentId}
+              )`,
+            ),
+          )
+          .returning({ id: notifications.id });
+        return rows.length;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createFromEvent(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(notifications)
+          .values({
+            userId: data.userId,
+            appointmentId: data.appointmentId,
+            type: data.type,
+            channel: data.channel,
+            subject: data.subject,
+            content: data.content,
+            sourceEventId: data.sourceEventId,
+          })
+          .onConflictDoNothing()
+          .returning({ id: notifications.id });
+        return rows.length > 0;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findTemplateContext(appointmentId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            appointmentId: appointments.id,
+            userId: appointments.userId,
+            businessId: appointments.businessId,
+            scheduledAt: appointments.scheduledAt,
+            customerName: users.name,
+            serviceName: services.name,
+            operatorDisplayName: operators.displayName,
+            businessTimezone: businesses.timezone,
+            businessLocale: businesses.locale,
+          })
+          .from(appointments)
+          .innerJoin(users, eq(appointments.userId, users.id))
+          .innerJoin(businesses, eq(appointments.businessId, businesses.id))
+          .innerJoin(services, eq(appointments.serviceId, services.id))
+          .innerJoin(operators, eq(appointments.operatorId, operators.id))
+          .where(eq(appointments.id, appointmentId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findCalendarEventContext(appointmentId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            appointmentId: appointments.id,
+            scheduledAt: appointments.scheduledAt,
+            durationMinutes: appointments.durationMinutes,
+            status: appointments.status,
+            updatedAt: appointments.updatedAt,
+            sequence: sql<number>`(
+              select greatest(count(*) - 1, 0) from ${appointmentEvents}
+              where ${appointmentEvents.appointmentId} = ${appointments.id}
+            )`.mapWith(Number),
+            serviceName: services.name,
+            operatorDisplayName: operators.displayName,
+            businessName: businesses.name,
+            businessTimezone: businesses.timezone,
+            businessAddress: businesses.address,
+          })
+          .from(appointments)
+          .innerJoin(businesses, eq(appointments.businessId, businesses.id))
+          .innerJoin(services, eq(appointments.serviceId, services.id))
+          .innerJoin(operators, eq(appointments.operatorId, operators.id))
+          .where(eq(appointments.id, appointmentId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findWaitlistOfferContext(offerId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({
+            appointmentId: waitlistOffers.sourceAppointmentId,
+            userId: waitlistEntries.userId,
+            businessId: waitlistEntries.businessId,
+            scheduledAt: waitlistOffers.scheduledAt,
+            customerName: users.name,
+            serviceName: services.name,
+            operatorDisplayName: operators.displayName,
+            businessTimezone: businesses.timezone,
+            businessLocale: businesses.locale,
+          })
+          .from(waitlistOffers)
+          .innerJoin(waitlistEntries, eq(waitlistOffers.entryId, waitlistEntries.id))
+          .innerJoin(users, eq(waitlistEntries.userId, users.id))
+          .innerJoin(businesses, eq(waitlistEntries.businessId, businesses.id))
+          .innerJoin(services, eq(waitlistEntries.serviceId, services.id))
+          .innerJoin(operators, eq(waitlistOffers.operatorId, operators.id))
+          .where(eq(waitlistOffers.id, offerId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveTemplates(businessId, type, locale) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            channel: notificationTemplates.channel,
+            subject: notificationTemplates.subject,
+            body: notificationTemplates.body,
+          })
+          .from(notificationTemplates)
+          .where(
+            and(
+              eq(notificationTemplates.businessId, businessId),
+              eq(notificationTemplates.type, type),
+              eq(notificationTemplates.locale, locale),
+              eq(notificationTemplates.active, true),
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findReminderCandidates(from, to) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            appointmentId: appointments.id,
+            userId: appointments.userId,
+            businessId: appointments.businessId,
+            scheduledAt: appointments.scheduledAt,
+            createdAt: appointments.createdAt,
+            customerName: users.name,
+            serviceName: services.name,
+            operatorDisplayName: operators.displayName,
+            businessTimezone: businesses.timezone,
+            businessLocale: businesses.locale,
+            reminderOffsetsMinutes: businesses.reminderOffsetsMinutes,
+          })
+          .from(appointments)
+          .innerJoin(users, eq(appointments.userId, users.id))
+          .innerJoin(businesses, eq(appointments.businessId, businesses.id))
+          .innerJoin(services, eq(appointments.serviceId, services.id))
+          .innerJoin(operators, eq(appointments.operatorId, operators.id))
+          .where(
+            and(
+              inArray(appointments.status, ["PENDING", "CONFIRMED"]),
+              gt(appointments.scheduledAt, from),
+              lte(appointments.scheduledAt, to),
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
     async findById(id) {
       return R.fromAsync(async () => {
         const rows = await db.select().from(notifications).where(eq(notifications.id, id)).limit(1);
@@ -108,6 +386,17 @@ export function createNotificationRepository(container: Container): INotificatio
             ),
           );
         }
+        if (params.businessId) {
+          conditions.push(
+            inArray(
+              notifications.appointmentId,
+              db
+                .select({ id: appointments.id })
+                .from(appointments)
+                .where(eq(appointments.businessId, params.businessId)),
+            ),
+          );
+        }
 
         const where = conditions.length > 0 ? and(...conditions) : undefined;
         const offset = (params.page - 1) * params.limit;
@@ -167,5 +456,89 @@ export function createNotificationRepository(container: Container): INotificatio
         return rows[0] ?? null;
       }, "DB_QUERY_FAILED");
     },
+
+    async claimDue(limit, leaseMs) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          const rows = await tx
+            .select({
+              notification: notifications,
+              phone: users.phone,
+              email: users.email,
+              appointmentStatus: appointments.status,
+            })
+            .from(notifications)
+            .innerJoin(users, eq(notifications.userId, users.id))
+            .innerJoin(appointments, eq(notifications.appointmentId, appointments.id))
+            .where(
+              and(
+                inArray(notifications.status, ["PENDING", "FAILED"]),
+                lte(notifications.nextAttemptAt, sql`now()`),
+              ),
+            )
+            .orderBy(asc(notifications.nextAttemptAt))
+            .limit(limit)
+            .for("update", { of: notifications, skipLocked: true });
+
+          if (rows.length === 0) return rows;
+
+          await tx
+            .update(notifications)
+            .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+            .where(
+              inArray(
+                notifications.id,
+                rows.map((r) => r.notification.id),
+              ),
+            );
+
+          return rows;
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markSent(id, attempts) {
+      return R.fromAsync(async () => {
+        await db
+          .update(notifications)
+          .set({ status: "SENT", attempts, lastError: null, sentAt: sql`now()` })
+          .where(eq(notifications.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markFailed(id, data) {
+      return R.fromAsync(async () => {
+        await db
+          .update(notifications)
+          .set({
+            status: "FAILED",
+            attempts: data.attempts,
+            lastError: data.lastError,
+            nextAttemptAt: data.nextAttemptAt,
+          })
+          .where(eq(notifications.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markDeadLetter(id, data) {
+      return R.fromAsync(async () => {
+        await db
+          .update(notifications)
+          .set({ status: "DEAD_LETTER", attempts: data.attempts, lastError: data.lastError })
+          .where(eq(notifications.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async requeue(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(notifications)
+          .set({ status: "PENDING", attempts: 0, nextAttemptAt: sql`now()` })
+          .where(eq(notifications.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
   };
 }
@@ -0,0 +1,58 @@
+import { logger } from "../../../core/logger/logger.js";
+import type { INotificationService } from "../4_service.js";
+
+/** Worker que entrega as notificações pendentes pelos providers de cada canal */
+export interface INotificationDispatchJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `dispatchPending` a cada `intervalMs` (e uma vez no startup).
+ * Cada rodada reserva as notificações com FOR UPDATE SKIP LOCKED, então várias
+ * instâncias podem rodar o worker sem enviar a mesma mensagem duas vezes.
+ */
+export function createNotificationDispatchJob(
+  service: INotificationService,
+  intervalMs: number,
+): INotificationDispatchJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.dispatchPending();
+      if (result.isErr()) {
+        logger.error("Falha no envio de notificações", { error: result.error.message });
+        return;
+      }
+
+      if (result.value.claimed > 0) {
+        logger.info("Rodada de envio de notificações concluída", result.value);
+      }
+    } catch (err) {
+      logger.error("Erro inesperado no envio de notificações", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
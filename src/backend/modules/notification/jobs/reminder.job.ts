@@ -0,0 +1,65 @@
+import { logger } from "../../../core/logger/logger.js";
+import type { INotificationService } from "../4_service.js";
+
+/** Worker que cria os lembretes (REMINDER) dos agendamentos conforme as antecedências do business */
+export interface IReminderJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `scheduleReminders` a cada `intervalMs` (e uma vez no startup).
+ * O índice único em notifications garante um lembrete por horário e antecedência mesmo com
+ * várias instâncias.
+ */
+export function createReminderJob(service: INotificationService, intervalMs: number): IReminderJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.scheduleReminders();
+      if (result.isErr()) {
+        logger.error("Falha ao agendar lembretes", { error: result.error.message });
+        return;
+      }
+
+      if (result.value.failed > 0) {
+        logger.warn("Lembretes não agendados para alguns agendamentos", {
+          scanned: result.value.scanned,
+          created: result.value.created,
+          failed: result.value.failed,
+          lastError: result.value.lastError,
+        });
+      } else if (result.value.created > 0) {
+        logger.info("Lembretes agendados", {
+          scanned: result.value.scanned,
+          created: result.value.created,
+        });
+      }
+    } catch (err) {
+      logger.error("Erro inesperado ao agendar lembretes", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
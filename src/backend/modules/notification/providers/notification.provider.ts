@@ -0,0 +1,117 @@
+import type { Config } from "../../../core/config/config.js";
+import { createEvolutionClient } from "../../../core/evolution/evolution.client.js";
+import { logger } from "../../../core/logger/logger.js";
+import type { Result } from "../../../core/result/result.js";
+import { Result as R } from "../../../core/result/result.js";
+import { createSmsClient } from "../../../core/sms/sms.client.js";
+import { type SmtpAttachment, createSmtpClient } from "../../../core/smtp/smtp.client.js";
+import type { notificationChannels } from "../types/enums/enums.js";
+
+export type NotificationChannel = (typeof notificationChannels)[number];
+
+/** Mensagem pronta para envio — cada provider usa o destinatário do seu canal */
+export type NotificationMessage = {
+  notificationId: string;
+  phone: string;
+  email: string | null;
+  subject: string;
+  content: string;
+  /** Anexos — apenas o canal de e-mail os envia */
+  attachments?: SmtpAttachment[];
+};
+
+/** Entrega de notificações em um canal (WhatsApp, SMS, e-mail ou fake) */
+export interface NotificationProvider {
+  readonly channel: NotificationChannel;
+  send(message: NotificationMessage): Promise<Result<void>>;
+}
+
+/** Providers disponíveis por canal — canal ausente não está configurado */
+export type NotificationProviders = Partial<Record<NotificationChannel, NotificationProvider>>;
+
+/** WhatsApp via Evolution API */
+export function createWhatsAppProvider(config: Config): NotificationProvider {
+  const whatsapp = createEvolutionClient({
+    baseUrl: config.EVOLUTION_API_URL ?? "",
+    apiKey: config.EVOLUTION_API_KEY ?? "",
+    instance: config.EVOLUTION_INSTANCE ?? "",
+  });
+  return {
+    channel: "WHATSAPP",
+    send: (message) => whatsapp.sendText(message.phone, message.content),
+  };
+}
+
+/** SMS via gateway HTTP */
+export function createSmsProvider(config: Config): NotificationProvider {
+  const sms = createSmsClient({
+    apiUrl: config.SMS_API_URL ?? "",
+    apiKey: config.SMS_API_KEY ?? "",
+  });
+  return {
+    channel: "SMS",
+    send: (message) => sms.send(message.phone, message.content),
+  };
+}
+
+/** E-mail via SMTP */
+export function createEmailProvider(config: Config): NotificationProvider {
+  const smtp = createSmtpClient({
+    host: config.SMTP_HOST ?? "",
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE,
+    user: config.SMTP_USER,
+    pass: config.SMTP_PASS,
+    from: config.SMTP_FROM ?? "",
+  });
+  return {
+    channel: "EMAIL",
+    async send(message) {
+      if (!message.email) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Destinatário não possui e-mail" });
+      }
+      return smtp.send(message.email, message.subject, message.content, message.attachments);
+    },
+  };
+}
+
+/** Provider local: apenas loga a mensagem, sem entregar (desenvolvimento/testes) */
+export function createFakeProvider(channel: NotificationChannel): NotificationProvider {
+  return {
+    channel,
+    async send(message) {
+      logger.info("Notificação enviada (provider fake)", {
+        channel,
+        notificationId: message.notificationId,
+      });
+      return R.ok(undefined);
+    },
+  };
+}
+
+/**
+ * Monta os providers conforme `NOTIFICATION_PROVIDER`.
+ * - fake: todos os canais usam o provider local
+ * - live: registra apenas os canais com credenciais configuradas
+ */
+export function createNotificationProviders(config: Config): NotificationProviders {
+  if (config.NOTIFICATION_PROVIDER === "fake") {
+    return {
+      WHATSAPP: createFakeProvider("WHATSAPP"),
+      SMS: createFakeProvider("SMS"),
+      EMAIL: createFakeProvider("EMAIL"),
+    };
+  }
+
+  const providers: NotificationProviders = {};
+  if (config.EVOLUTION_API_URL && config.EVOLUTION_API_KEY && config.EVOLUTION_INSTANCE) {
+    providers.WHATSAPP = createWhatsAppProvider(config);
+  }
+  if (config.SMS_API_URL && config.SMS_API_KEY) {
+    providers.SMS = createSmsProvider(config);
+  }
+  if (config.SMTP_HOST && config.SMTP_FROM) {
+    providers.EMAIL = createEmailProvider(config);
+  }
+  return providers;
+}
@@ -14,8 +14,16 @@ export const notificationProfileSchema = z.object({
   type: z.enum(notificationTypes),
   channel: z.enum(notificationChannels),
   status: z.enum(notificationStatuses),
+  /** Assunto (EMAIL) — null usa o padrão do tipo */
+  subject: z.string().nullable(),
   content: z.string(),
   sentAt: z.string().datetime().nullable(),
+  /** Tentativas de envio já realizadas */
+  attempts: z.number().int(),
+  /** Erro da última tentativa que falhou */
+  lastError: z.string().nullable(),
+  /** Próxima tentativa agendada (PENDING/FAILED) */
+  nextAttemptAt: z.string().datetime(),
   createdAt: z.string().datetime(),
 });
 export type NotificationProfile = z.infer<typeof notificationProfileSchema>;
@@ -26,7 +34,8 @@ export const sendNotificationRequestSchema = z.object({
   appointmentId: z.string().uuid("appointmentId deve ser um UUID válido"),
   type: z.enum(notificationTypes),
   channel: z.enum(notificationChannels),
-  content: z.string().min(1, "Conteúdo é obrigatório").max(2000),
+  /** Se omitido, o conteúdo é renderizado do template do business (ou do texto padrão) */
+  content: z.string().min(1, "Conteúdo é obrigatório").max(2000).optional(),
 });
 export type SendNotificationRequest = z.infer<typeof sendNotificationRequestSchema>;
 
@@ -4,10 +4,11 @@ export const notificationTypes = [
   "REMINDER",
   "CANCELLATION",
   "RESCHEDULE",
+  "WAITLIST_OFFER",
 ] as const;
 
 /** Canais de envio */
 export const notificationChannels = ["WHATSAPP", "SMS", "EMAIL"] as const;
 
 /** Status de envio */
-export const notificationStatuses = ["PENDING", "SENT", "FAILED"] as const;
+export const notificationStatuses = ["PENDING", "SENT", "FAILED", "DEAD_LETTER"] as const;
@@ -2,10 +2,67 @@ export type NotificationRow = {
   id: string;
   userId: string;
   appointmentId: string;
-  type: "CONFIRMATION" | "REMINDER" | "CANCELLATION" | "RESCHEDULE";
+  type: "CONFIRMATION" | "REMINDER" | "CANCELLATION" | "RESCHEDULE" | "WAITLIST_OFFER";
   channel: "WHATSAPP" | "SMS" | "EMAIL";
-  status: "PENDING" | "SENT" | "FAILED";
+  status: "PENDING" | "SENT" | "FAILED" | "DEAD_LETTER";
+  subject: string | null;
   content: string;
+  sourceEventId: string | null;
+  reminderOffsetMinutes: number | null;
+  reminderScheduledAt: Date | null;
   sentAt: Date | null;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date;
   createdAt: Date;
 };
+
+/** Dados do agendamento usados para preencher os placeholders dos templates */
+export type TemplateContextRow = {
+  appointmentId: string;
+  userId: string;
+  businessId: string;
+  scheduledAt: Date;
+  customerName: string;
+  serviceName: string;
+  operatorDisplayName: string;
+  businessTimezone: string;
+  businessLocale: string;
+};
+
+/** Dados do agendamento para o evento .ics anexado à confirmação */
+export type CalendarEventContextRow = {
+  appointmentId: string;
+  scheduledAt: Date;
+  durationMinutes: number;
+  status: DispatchItemRow["appointmentStatus"];
+  updatedAt: Date;
+  /** Alterações registradas no histórico — SEQUENCE do evento */
+  sequence: number;
+  serviceName: string;
+  operatorDisplayName: string;
+  businessName: string;
+  businessTimezone: string;
+  businessAddress: string | null;
+};
+
+/** Agendamento futuro elegível a lembrete, com os dados usados no conteúdo */
+export type ReminderCandidateRow = TemplateContextRow & {
+  createdAt: Date;
+  reminderOffsetsMinutes: number[];
+};
+
+/** Template ativo do business para um tipo de notificação */
+export type ActiveTemplateRow = {
+  channel: NotificationRow["channel"];
+  subject: string | null;
+  body: string;
+};
+
+/** Notificação reservada pelo dispatcher, com o destinatário e o status do agendamento */
+export type DispatchItemRow = {
+  notification: NotificationRow;
+  phone: string;
+  email: string | null;
+  appointmentStatus: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+};
@@ -63,6 +63,8 @@ function toProfile(row: OperatorRow): OperatorProfile {
     tenantId: row.tenantId,
     displayName: row.displayName,
     canEditService: row.canEditService,
+    bufferBeforeMinutes: row.bufferBeforeMinutes,
+    bufferAfterMinutes: row.bufferAfterMinutes,
     active: row.active,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
@@ -152,6 +154,8 @@ export function createOperatorService(repository: IOperatorRepository): IOperato
         tenantId,
         displayName: input.displayName,
         canEditService: input.canEditService ?? false,
+        bufferBeforeMinutes: input.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: input.bufferAfterMinutes ?? 0,
       });
       if (createResult.isErr()) return R.fail(createResult.error);
 
@@ -202,6 +202,8 @@ export function createOperatorRepository(container: Container): IOperatorReposit
               tenantId: data.tenantId,
               displayName: data.displayName,
               canEditService: data.canEditService,
+              bufferBeforeMinutes: data.bufferBeforeMinutes,
+              bufferAfterMinutes: data.bufferAfterMinutes,
             })
             .returning();
           if (!rows[0]) throw new Error("Insert não retornou registro");
@@ -4,6 +4,13 @@ import { paginationSchema } from "../../../../shared/dtos.js";
 export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
 export { paginationSchema };
 
+/** Buffer em minutos (antes ou depois do atendimento) */
+const bufferMinutesSchema = z
+  .number()
+  .int("Buffer deve ser um número inteiro")
+  .min(0, "Buffer não pode ser negativo")
+  .max(240, "Buffer máximo é 240 minutos");
+
 // ========== OPERATOR PROFILE (response) ==========
 
 /** Perfil do operador retornado nas respostas */
@@ -14,6 +21,8 @@ export const operatorProfileSchema = z.object({
   tenantId: z.string().uuid(),
   displayName: z.string(),
   canEditService: z.boolean(),
+  bufferBeforeMinutes: z.number().int(),
+  bufferAfterMinutes: z.number().int(),
   active: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -28,6 +37,10 @@ export const createOperatorRequestSchema = z.object({
   businessId: z.string().uuid("businessId deve ser um UUID válido"),
   displayName: z.string().min(1, "Nome de exibição é obrigatório").max(255),
   canEditService: z.boolean().optional(),
+  /** Tempo livre mantido antes de cada slot/atendimento */
+  bufferBeforeMinutes: bufferMinutesSchema.optional(),
+  /** Tempo livre mantido após cada slot/atendimento */
+  bufferAfterMinutes: bufferMinutesSchema.optional(),
   /** Apenas OWNER pode informar o tenantId; TENANT usa o próprio */
   tenantId: z.string().uuid().optional(),
 });
@@ -39,6 +52,8 @@ export type CreateOperatorRequest = z.infer<typeof createOperatorRequestSchema>;
 export const updateOperatorRequestSchema = z.object({
   displayName: z.string().min(1).max(255).optional(),
   canEditService: z.boolean().optional(),
+  bufferBeforeMinutes: bufferMinutesSchema.optional(),
+  bufferAfterMinutes: bufferMinutesSchema.optional(),
 });
 export type UpdateOperatorRequest = z.infer<typeof updateOperatorRequestSchema>;
 
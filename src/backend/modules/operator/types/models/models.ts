@@ -6,6 +6,8 @@ export type OperatorRow = {
   tenantId: string;
   displayName: string;
   canEditService: boolean;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -0,0 +1,21 @@
+import type { Container } from "../../core/container/container.js";
+import { createOutboxService } from "./4_service.js";
+import { createOutboxRepository } from "./5_repository.js";
+import { type IOutboxRelayJob, createOutboxRelayJob } from "./jobs/outbox-relay.job.js";
+
+/**
+ * Inicia o relay do outbox (chamado no server.ts).
+ * Não expõe rotas — os eventos chegam aos módulos via `container.events.subscribe`.
+ */
+export const startOutboxRelay = (container: Container): IOutboxRelayJob => {
+  const repository = createOutboxRepository(container);
+  const service = createOutboxService(repository, container.events, container.config);
+  const job = createOutboxRelayJob(
+    service,
+    container.config.OUTBOX_RELAY_INTERVAL_MS,
+    container.config.OUTBOX_RELAY_MODE === "redis",
+  );
+
+  job.start();
+  return job;
+};
@@ -0,0 +1,193 @@
+import { hostname } from "node:os";
+import type { Config } from "../../core/config/config.js";
+import type { EventBus } from "../../core/events/event-bus.js";
+import { logger } from "../../core/logger/logger.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import type { DomainEvent } from "../../shared/events.js";
+import type { IOutboxRepository } from "./5_repository.js";
+import type { OutboxEventRow } from "./types/models/models.js";
+
+export interface IOutboxService {
+  /**
+   * Publica um lote de eventos pendentes do outbox (no bus local ou no Redis Stream).
+   * Falhas são reagendadas com backoff até OUTBOX_MAX_ATTEMPTS; depois o evento fica FAILED.
+   */
+  relayPending(): Promise<Result<{ published: number; failed: number; deadLettered: number }>>;
+
+  /**
+   * Modo redis: lê o stream pelo consumer group e entrega os eventos ao bus local. Entradas
+   * entregues OUTBOX_MAX_ATTEMPTS vezes sem sucesso são confirmadas e o evento fica FAILED.
+   */
+  consumeStream(): Promise<Result<number>>;
+}
+
+/** Tempo em que um evento reservado fica invisível para outras instâncias do relay */
+const RELAY_LEASE_MS = 60_000;
+
+/** Intervalo inicial entre tentativas de publicação (dobra a cada falha) */
+const RETRY_BASE_MS = 5_000;
+
+/** Teto do intervalo entre tentativas */
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+/** Modo redis: entrada não confirmada há mais que isso volta a ser entregue aos subscribers */
+const STREAM_RETRY_IDLE_MS = 60_000;
+
+/** Tamanho máximo do erro guardado no outbox */
+const MAX_ERROR_LENGTH = 500;
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function toDomainEvent(row: OutboxEventRow): DomainEvent {
+  return {
+    id: row.id,
+    type: row.eventType,
+    aggregateType: row.aggregateType,
+    aggregateId: row.aggregateId,
+    occurredAt: row.occurredAt.toISOString(),
+    payload: row.payload,
+  } as DomainEvent;
+}
+
+export function createOutboxService(
+  repository: IOutboxRepository,
+  events: EventBus<DomainEvent>,
+  config: Config,
+): IOutboxService {
+  // Cada instância é um consumer distinto do mesmo group — cada evento vai para apenas uma
+  const consumer = `${hostname()}-${process.pid}`;
+  let groupReady = false;
+
+  return {
+    async relayPending() {
+      const claimResult = await repository.claimPending(config.OUTBOX_BATCH_SIZE, RELAY_LEASE_MS);
+      if (claimResult.isErr()) return R.fail(claimResult.error);
+
+      // Publicação fora da transação — publishedAt só depois que todos os subscribers concluírem
+      const stats = { published: 0, failed: 0, deadLettered: 0 };
+      for (const row of claimResult.value) {
+        const event = toDomainEvent(row);
+
+        let error: string | null = null;
+        if (config.OUTBOX_RELAY_MODE === "redis") {
+          const appendResult = await repository.appendToStream(JSON.stringify(event));
+          if (appendResult.isErr()) error = appendResult.error.message;
+        } else {
+          try {
+            await events.publish(event);
+          } catch (err) {
+            error = errorMessage(err);
+          }
+        }
+
+        if (!error) {
+          const markResult = await repository.markPublished(row.id);
+          if (markResult.isErr()) return R.fail(markResult.error);
+          stats.published++;
+          continue;
+        }
+
+        const attempts = row.attempts + 1;
+        if (attempts >= config.OUTBOX_MAX_ATTEMPTS) {
+          const deadResult = await repository.markDeadLetter(row.id, {
+            attempts,
+            lastError: error.slice(0, MAX_ERROR_LENGTH),
+          });
+          if (deadResult.isErr()) return R.fail(deadResult.error);
+          logger.error("Evento do outbox descartado após esgotar as tentativas", {
+            eventId: row.id,
+            eventType: row.eventType,
+            attempts,
+            error,
+          });
+          stats.deadLettered++;
+          continue;
+        }
+
+        const delayMs = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+        const markResult = await repository.markFailed(row.id, {
+          attempts,
+          lastError: error.slice(0, MAX_ERROR_LENGTH),
+          nextAttemptAt: new Date(Date.now() + delayMs),
+        });
+        if (markResult.isErr()) return R.fail(markResult.error);
+        stats.failed++;
+      }
+
+      return R.ok(stats);
+    },
+
+    async consumeStream() {
+      if (!groupReady) {
+        const groupResult = await repository.ensureConsumerGroup();
+        if (groupResult.isErr()) return R.fail(groupResult.error);
+        groupReady = true;
+      }
+
+      // Entradas cuja entrega falhou (ou cujo consumer caiu) antes das novas
+      const staleResult = await repository.claimStaleFromStream(
+        consumer,
+        STREAM_RETRY_IDLE_MS,
+        config.OUTBOX_BATCH_SIZE,
+      );
+      if (staleResult.isErr()) return R.fail(staleResult.error);
+
+      const readResult = await repository.readFromStream(consumer, config.OUTBOX_BATCH_SIZE);
+      if (readResult.isErr()) return R.fail(readResult.error);
+
+      // Só confirma (XACK) o que todos os subscribers processaram; o resto fica pendente
+      const processed: string[] = [];
+      for (const entry of [...staleResult.value, ...readResult.value]) {
+        let event: DomainEvent;
+        try {
+          event = JSON.parse(entry.event) as DomainEvent;
+        } catch (err) {
+          // Entrada corrompida — confirma para não travar o consumer
+          logger.error("Evento inválido no stream do outbox", {
+            streamId: entry.streamId,
+            error: errorMessage(err),
+          });
+          processed.push(entry.streamId);
+          continue;
+        }
+
+        try {
+          await events.publish(event);
+          processed.push(entry.streamId);
+        } catch (err) {
+          const error = errorMessage(err);
+          if (entry.deliveries < config.OUTBOX_MAX_ATTEMPTS) {
+            logger.warn("Evento do stream será reentregue", {
+              streamId: entry.streamId,
+              eventId: event.id,
+              error,
+            });
+            continue;
+          }
+
+          // Entregas esgotadas — confirma para não reentregar e encerra o evento como FAILED
+          const deadResult = await repository.markDeadLetter(event.id, {
+            attempts: entry.deliveries,
+            lastError: error.slice(0, MAX_ERROR_LENGTH),
+          });
+          if (deadResult.isErr()) return R.fail(deadResult.error);
+          logger.error("Evento do outbox descartado após esgotar as tentativas", {
+            streamId: entry.streamId,
+            eventId: event.id,
+            attempts: entry.deliveries,
+            error,
+          });
+          processed.push(entry.streamId);
+        }
+      }
+
+      const ackResult = await repository.ackStream(processed);
+      if (ackResult.isErr()) return R.fail(ackResult.error);
+
+      return R.ok(processed.length);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import { and, asc, eq, inArray, lte, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import { outboxEvents } from "../../shared/schemas/index.js";
+import type { OutboxEventRow, StreamEntry } from "./types/models/models.js";
+
+/** Stream e consumer group usados no modo redis */
+const STREAM_KEY = "outbox:events";
+const CONSUMER_GROUP = "chat-booking";
+/** Tamanho aproximado máximo do stream (entradas antigas são descartadas) */
+const STREAM_MAX_LEN = 10_000;
+
+export interface IOutboxRepository {
+  /**
+   * Reserva até `limit` eventos PENDING com tentativa devida (FOR UPDATE SKIP LOCKED),
+   * em ordem de ocorrência, adiando nextAttemptAt por `leaseMs` para que outras instâncias não
+   * os peguem enquanto a publicação acontece — fora da transação.
+   */
+  claimPending(limit: number, leaseMs: number): Promise<Result<OutboxEventRow[]>>;
+  markPublished(id: string): Promise<Result<void>>;
+  markFailed(
+    id: string,
+    data: { attempts: number; lastError: string; nextAttemptAt: Date },
+  ): Promise<Result<void>>;
+  /** Encerra o evento como FAILED — o relay não o pega mais */
+  markDeadLetter(id: string, data: { attempts: number; lastError: string }): Promise<Result<void>>;
+
+  ensureConsumerGroup(): Promise<Result<void>>;
+  appendToStream(event: string): Promise<Result<void>>;
+  readFromStream(consumer: string, count: number): Promise<Result<StreamEntry[]>>;
+  /**
+   * Assume para `consumer` as entradas entregues a qualquer consumer do group e não confirmadas
+   * há mais de `minIdleMs` (XAUTOCLAIM) — subscribers que falharam ou instância que caiu.
+   * Cada entrada vem com o total de entregas (XPENDING).
+   */
+  claimStaleFromStream(
+    consumer: string,
+    minIdleMs: number,
+    count: number,
+  ): Promise<Result<StreamEntry[]>>;
+  ackStream(streamIds: string[]): Promise<Result<void>>;
+}
+
+export function createOutboxRepository(container: Container): IOutboxRepository {
+  const { db, redis } = container;
+
+  return {
+    async claimPending(limit, leaseMs) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          const rows = await tx
+            .select()
+            .from(outboxEvents)
+            .where(
+              and(eq(outboxEvents.status, "PENDING"), lte(outboxEvents.nextAttemptAt, sql`now()`)),
+            )
+            .orderBy(asc(outboxEvents.occurredAt))
+            .limit(limit)
+            .for("update", { skipLocked: true });
+
+          if (rows.length === 0) return rows;
+
+          await tx
+            .update(outboxEvents)
+            .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+            .where(
+              inArray(
+                outboxEvents.id,
+                rows.map((r) => r.id),
+              ),
+            );
+
+          return rows;
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markPublished(id) {
+      return R.fromAsync(async () => {
+        await db
+          .update(outboxEvents)
+          .set({ status: "PUBLISHED" as const, publishedAt: sql`now()`, lastError: null })
+          .where(eq(outboxEvents.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markFailed(id, data) {
+      return R.fromAsync(async () => {
+        await db
+          .update(outboxEvents)
+          .set({
+            attempts: data.attempts,
+            lastError: data.lastError,
+            nextAttemptAt: data.nextAttemptAt,
+          })
+          .where(eq(outboxEvents.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async markDeadLetter(id, data) {
+      return R.fromAsync(async () => {
+        await db
+          .update(outboxEvents)
+          .set({ status: "FAILED" as const, attempts: data.attempts, lastError: data.lastError })
+          .where(eq(outboxEvents.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async ensureConsumerGroup() {
+      return R.fromAsync(async () => {
+        try {
+          await redis.xgroup("CREATE", STREAM_KEY, CONSUMER_GROUP, "0", "MKSTREAM");
+        } catch (err) {
+          // Grupo já existe — criado por outra instância ou execução anterior
+          if (!(err instanceof Error && err.message.includes("BUSYGROUP"))) throw err;
+        }
+      }, "DB_QUERY_FAILED");
+    },
+
+    async appendToStream(event) {
+      return R.fromAsync(async () => {
+        await redis.xadd(STREAM_KEY, "MAXLEN", "~", STREAM_MAX_LEN, "*", "event", event);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async readFromStream(consumer, count) {
+      return R.fromAsync(async () => {
+        const response = (await redis.xreadgroup(
+          "GROUP",
+          CONSUMER_GROUP,
+          consumer,
+          "COUNT",
+          count,
+          "STREAMS",
+          STREAM_KEY,
+          ">",
+        )) as [string, [string, string[]][]][] | null;
+
+        const entries = response?.[0]?.[1] ?? [];
+        return entries.map(([streamId, fields]) => ({
+          streamId,
+          event: fields[fields.indexOf("event") + 1] ?? "",
+          deliveries: 1,
+        }));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async claimStaleFromStream(consumer, minIdleMs, count) {
+      return R.fromAsync(async () => {
+        const response = (await redis.xautoclaim(
+          STREAM_KEY,
+          CONSUMER_GROUP,
+          consumer,
+          minIdleMs,
+          "0",
+          "COUNT",
+          count,
+        )) as [string, [string, string[] | null][]];
+
+        // Entradas já removidas do stream (MAXLEN) voltam com fields null
+        const claimed = (response[1] ?? []).filter(
+          (entry): entry is [string, string[]] => entry[1] !== null,
+        );
+
+        const entries: StreamEntry[] = [];
+        for (const [streamId, fields] of claimed) {
+          // [[id, consumer, idle, entregas]] — o XAUTOCLAIM já contou esta entrega
+          const pending = (await redis.xpending(
+            STREAM_KEY,
+            CONSUMER_GROUP,
+            streamId,
+            streamId,
+            1,
+          )) as [string, string, number, number][];
+          entries.push({
+            streamId,
+            event: fields[fields.indexOf("event") + 1] ?? "",
+            deliveries: pending[0]?.[3] ?? 1,
+          });
+        }
+        return entries;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async ackStream(streamIds) {
+      return R.fromAsync(async () => {
+        if (streamIds.length === 0) return;
+        await redis.xack(STREAM_KEY, CONSUMER_GROUP, ...streamIds);
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { logger } from "../../../core/logger/logger.js";
+import type { IOutboxService } from "../4_service.js";
+
+/** Worker que publica os eventos do outbox e, no modo redis, consome o stream */
+export interface IOutboxRelayJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Executa uma rodada do relay a cada `intervalMs`.
+ * No modo redis cada rodada também lê o stream e entrega os eventos aos subscribers locais.
+ */
+export function createOutboxRelayJob(
+  service: IOutboxService,
+  intervalMs: number,
+  consumeStream: boolean,
+): IOutboxRelayJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const relayResult = await service.relayPending();
+      if (relayResult.isErr()) {
+        logger.error("Falha no relay do outbox", { error: relayResult.error.message });
+      } else if (relayResult.value.failed > 0) {
+        logger.warn("Eventos do outbox não publicados", relayResult.value);
+      }
+
+      if (consumeStream) {
+        const consumeResult = await service.consumeStream();
+        if (consumeResult.isErr()) {
+          logger.error("Falha ao consumir o stream do outbox", {
+            error: consumeResult.error.message,
+          });
+        }
+      }
+    } catch (err) {
+      logger.error("Erro inesperado no relay do outbox", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
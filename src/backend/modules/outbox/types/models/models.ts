@@ -0,0 +1,22 @@
+/** Row do outbox_events retornada pelo Drizzle */
+export type OutboxEventRow = {
+  id: string;
+  aggregateType: string;
+  aggregateId: string;
+  eventType: string;
+  payload: unknown;
+  occurredAt: Date;
+  status: "PENDING" | "PUBLISHED" | "FAILED";
+  publishedAt: Date | null;
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError: string | null;
+};
+
+/** Entrada lida do Redis Stream (id da entrada + evento serializado) */
+export type StreamEntry = {
+  streamId: string;
+  event: string;
+  /** Vezes que a entrada já foi entregue a um consumer do group (inclui esta) */
+  deliveries: number;
+};
@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../core/container/container.js";
+import { createPublicHandler } from "./3_handler.js";
+import { createPublicService } from "./4_service.js";
+import { createPublicRepository } from "./5_repository.js";
+
+export const createPublicModule: ModuleFactory = (container) => {
+  const repository = createPublicRepository(container);
+  const service = createPublicService(repository);
+  const handler = createPublicHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
@@ -0,0 +1,88 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  businessSlugParamSchema,
+  errorResponseSchema,
+  listPublicAvailabilityQuerySchema,
+  listPublicOperatorsQuerySchema,
+  publicOperatorSchema,
+  publicServiceSchema,
+  publicSlotSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== SERVICES ==========
+
+export const listPublicServicesRoute = createRoute({
+  method: "get",
+  path: "/businesses/{slug}/services",
+  tags: ["Public"],
+  summary: "Listar serviços do business",
+  description:
+    "Lista os serviços ativos de um business resolvido pelo slug. Endpoint público (sem autenticação) para uso do chatbot.",
+  request: {
+    params: businessSlugParamSchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.array(publicServiceSchema) } },
+      description: "Lista de serviços ativos",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrado",
+    },
+  },
+});
+
+// ========== OPERATORS ==========
+
+export const listPublicOperatorsRoute = createRoute({
+  method: "get",
+  path: "/businesses/{slug}/operators",
+  tags: ["Public"],
+  summary: "Listar profissionais do business",
+  description:
+    "Lista os operadores ativos de um business com os serviços que oferecem (preço e duração já resolvidos). Filtre por serviceId para obter apenas quem atende um serviço.",
+  request: {
+    params: businessSlugParamSchema,
+    query: listPublicOperatorsQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.array(publicOperatorSchema) } },
+      description: "Lista de operadores ativos",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrado",
+    },
+  },
+});
+
+// ========== AVAILABILITY ==========
+
+export const listPublicAvailabilityRoute = createRoute({
+  method: "get",
+  path: "/businesses/{slug}/availability",
+  tags: ["Public"],
+  summary: "Consultar horários disponíveis",
+  description:
+    "Lista os slots AVAILABLE de uma data para os operadores ativos do business. Horários que já começaram (no timezone do business) são omitidos. Com serviceId (serviço ativo do business), apenas operadores que oferecem o serviço e apenas os horários em que slots livres consecutivos cobrem a duração do serviço e seus buffers.",
+  request: {
+    params: businessSlugParamSchema,
+    query: listPublicAvailabilityQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: z.array(publicSlotSchema) } },
+      description: "Lista de slots disponíveis",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business ou serviço não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação ou serviço inativo",
+    },
+  },
+});
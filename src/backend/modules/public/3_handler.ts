@@ -0,0 +1,50 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../core/error/error.handler.js";
+import {
+  listPublicAvailabilityRoute,
+  listPublicOperatorsRoute,
+  listPublicServicesRoute,
+} from "./2_api.js";
+import type { IPublicService } from "./4_service.js";
+
+export interface IPublicHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createPublicHandler(service: IPublicService): IPublicHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // GET /businesses/:slug/services (público)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listPublicServicesRoute, async (c): Promise<any> => {
+        const { slug } = c.req.valid("param");
+        const result = await service.listServices(slug);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /businesses/:slug/operators (público)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listPublicOperatorsRoute, async (c): Promise<any> => {
+        const { slug } = c.req.valid("param");
+        const query = c.req.valid("query");
+        const result = await service.listOperators(slug, query);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /businesses/:slug/availability (público)
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(listPublicAvailabilityRoute, async (c): Promise<any> => {
+        const { slug } = c.req.valid("param");
+        const query = c.req.valid("query");
+        const result = await service.listAvailability(slug, query);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { nowHm, todayYmd } from "../../core/date/date.utils.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import { type SlotBuffers, buildSlotChain, resolveBuffers } from "../../shared/slot-chain.js";
+import type { IPublicRepository } from "./5_repository.js";
+import type {
+  ListPublicAvailabilityQuery,
+  ListPublicOperatorsQuery,
+  PublicOperator,
+  PublicService,
+  PublicSlot,
+} from "./types/dtos/dtos.js";
+import type { PublicBusinessRow, PublicSlotRow } from "./types/models/models.js";
+
+export interface IPublicService {
+  listServices(slug: string): Promise<Result<PublicService[]>>;
+  listOperators(slug: string, query: ListPublicOperatorsQuery): Promise<Result<PublicOperator[]>>;
+  listAvailability(slug: string, query: ListPublicAvailabilityQuery): Promise<Result<PublicSlot[]>>;
+}
+
+/** Slot exposto ao cliente — sem o status interno */
+function toPublicSlot({ status: _status, ...slot }: PublicSlotRow): PublicSlot {
+  return slot;
+}
+
+export function createPublicService(repository: IPublicRepository): IPublicService {
+  /** Resolve o business pelo slug — inativo é tratado como inexistente */
+  async function resolveBusiness(slug: string): Promise<Result<PublicBusinessRow>> {
+    const result = await repository.findBusinessBySlug(slug);
+    if (result.isErr()) return R.fail(result.error);
+    if (!result.value || !result.value.active) {
+      return R.fail({ code: "NOT_FOUND", message: "Business não encontrado" });
+    }
+    return R.ok(result.value);
+  }
+
+  return {
+    async listServices(slug) {
+      const businessResult = await resolveBusiness(slug);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+
+      return repository.findActiveServices(businessResult.value.id);
+    },
+
+    async listOperators(slug, query) {
+      const businessResult = await resolveBusiness(slug);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+
+      const rowsResult = await repository.findActiveOperatorServices(businessResult.value.id);
+      if (rowsResult.isErr()) return R.fail(rowsResult.error);
+
+      // Agrupa as linhas (uma por vínculo) por operador, preservando a ordenação
+      const byOperator = new Map<string, PublicOperator>();
+      for (const row of rowsResult.value) {
+        let operator = byOperator.get(row.operatorId);
+        if (!operator) {
+          operator = { id: row.operatorId, displayName: row.displayName, services: [] };
+          byOperator.set(row.operatorId, operator);
+        }
+
+        if (
+          row.serviceId &&
+          row.defaultDurationMinutes !== null &&
+          row.defaultPriceCents !== null
+        ) {
+          operator.services.push({
+            serviceId: row.serviceId,
+            durationMinutes: row.overrideDurationMinutes ?? row.defaultDurationMinutes,
+            priceCents: row.overridePriceCents ?? row.defaultPriceCents,
+          });
+        }
+      }
+
+      const operators = [...byOperator.values()];
+      if (!query.serviceId) return R.ok(operators);
+
+      return R.ok(
+        operators.filter((op) => op.services.some((s) => s.serviceId === query.serviceId)),
+      );
+    },
+
+    async listAvailability(slug, query) {
+      const businessResult = await resolveBusiness(slug);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+
+      const business = businessResult.value;
+
+      // Datas passadas nunca têm horários agendáveis (usa timezone do business)
+      const today = todayYmd(business.timezone);
+      if (query.date < today) {
+        return R.fail({ code: "VALIDATION_ERROR", message: "Data não pode ser no passado" });
+      }
+
+      // Com serviceId, apenas operadores que oferecem o serviço (ativo e do business)
+      let bookable: Map<string, { durationMinutes: number; buffers: SlotBuffers }> | null = null;
+      if (query.serviceId) {
+        const serviceResult = await repository.findServiceById(query.serviceId);
+        if (serviceResult.isErr()) return R.fail(serviceResult.error);
+        if (!serviceResult.value || serviceResult.value.businessId !== business.id) {
+          return R.fail({ code: "NOT_FOUND", message: "Serviço não encontrado" });
+        }
+        if (!serviceResult.value.active) {
+          return R.fail({ code: "VALIDATION_ERROR", message: "Serviço está inativo" });
+        }
+
+        const operatorsResult = await repository.findBookableOperators(
+          business.id,
+          query.serviceId,
+          query.operatorId,
+        );
+        if (operatorsResult.isErr()) return R.fail(operatorsResult.error);
+        bookable = new Map(
+          operatorsResult.value.map((op) => [
+            op.operatorId,
+            {
+              durationMinutes: op.durationMinutes,
+              buffers: resolveBuffers(
+                {
+                  bufferBeforeMinutes: op.operatorBufferBeforeMinutes,
+                  bufferAfterMinutes: op.operatorBufferAfterMinutes,
+                },
+                {
+                  bufferBeforeMinutes: op.serviceBufferBeforeMinutes,
+                  bufferAfterMinutes: op.serviceBufferAfterMinutes,
+                },
+              ),
+            },
+          ]),
+        );
+      }
+
+      const slotsResult = await repository.findDaySlots({
+        businessId: business.id,
+        date: query.date,
+        operatorId: query.operatorId,
+      });
+      if (slotsResult.isErr()) return R.fail(slotsResult.error);
+
+      // Agrupa por operador (a ordem por horário vem do repositório)
+      const byOperator = new Map<string, PublicSlotRow[]>();
+      for (const slot of slotsResult.value) {
+        const list = byOperator.get(slot.operatorId);
+        if (list) list.push(slot);
+        else byOperator.set(slot.operatorId, [slot]);
+      }
+
+      // No dia de hoje, descarta slots que já começaram
+      const now = query.date === today ? nowHm(business.timezone) : null;
+      const slots = slotsResult.value.filter((slot) => {
+        if (slot.status !== "AVAILABLE") return false;
+        if (now && slot.startTime.slice(0, 5) <= now) return false;
+        if (!bookable) return true;
+
+        // Só horários em que a duração do serviço cabe em slots livres consecutivos
+        const op = bookable.get(slot.operatorId);
+        const daySlots = byOperator.get(slot.operatorId) ?? [];
+        return (
+          op !== undefined &&
+          "slotIds" in buildSlotChain(daySlots, slot, op.durationMinutes, op.buffers)
+        );
+      });
+
+      return R.ok(slots.map(toPublicSlot));
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import {
+  businesses,
+  operatorServices,
+  operators,
+  scheduleSlots,
+  services,
+} from "../../shared/schemas/index.js";
+import type {
+  PublicBookableOperatorRow,
+  PublicBusinessRow,
+  PublicOperatorServiceRow,
+  PublicServiceRow,
+  PublicSlotRow,
+} from "./types/models/models.js";
+
+export interface IPublicRepository {
+  findBusinessBySlug(slug: string): Promise<Result<PublicBusinessRow | null>>;
+  findActiveServices(businessId: string): Promise<Result<PublicServiceRow[]>>;
+  findActiveOperatorServices(businessId: string): Promise<Result<PublicOperatorServiceRow[]>>;
+  findServiceById(
+    serviceId: string,
+  ): Promise<Result<{ id: string; businessId: string; active: boolean } | null>>;
+  /** Operadores ativos que oferecem o serviço, com duração resolvida e buffers */
+  findBookableOperators(
+    businessId: string,
+    serviceId: string,
+    operatorId?: string,
+  ): Promise<Result<PublicBookableOperatorRow[]>>;
+  /** Slots ativos (qualquer status) do dia, ordenados por horário */
+  findDaySlots(params: {
+    businessId: string;
+    date: string;
+    operatorId?: string;
+  }): Promise<Result<PublicSlotRow[]>>;
+}
+
+export function createPublicRepository(container: Container): IPublicRepository {
+  const { db } = container;
+
+  return {
+    async findBusinessBySlug(slug) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: businesses.id, timezone: businesses.timezone, active: businesses.active })
+          .from(businesses)
+          .where(eq(businesses.slug, slug))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveServices(businessId) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            id: services.id,
+            name: services.name,
+            description: services.description,
+            durationMinutes: services.durationMinutes,
+            priceCents: services.priceCents,
+          })
+          .from(services)
+          .where(and(eq(services.businessId, businessId), eq(services.active, true)))
+          .orderBy(services.name);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findActiveOperatorServices(businessId) {
+      return R.fromAsync(async () => {
+        // LEFT JOIN para manter operadores sem serviços vinculados
+        return db
+          .select({
+            operatorId: operators.id,
+            displayName: operators.displayName,
+            serviceId: services.id,
+            overridePriceCents: operatorServices.priceCents,
+            overrideDurationMinutes: operatorServices.durationMinutes,
+            defaultPriceCents: services.priceCents,
+            defaultDurationMinutes: services.durationMinutes,
+          })
+          .from(operators)
+          .leftJoin(
+            operatorServices,
+            and(eq(operatorServices.operatorId, operators.id), eq(operatorServices.active, true)),
+          )
+          .leftJoin(
+            services,
+            and(eq(services.id, operatorServices.serviceId), eq(services.active, true)),
+          )
+          .where(and(eq(operators.businessId, businessId), eq(operators.active, true)))
+          .orderBy(operators.displayName);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findServiceById(serviceId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: services.id, businessId: services.businessId, active: services.active })
+          .from(services)
+          .where(eq(services.id, serviceId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBookableOperators(businessId, serviceId, operatorId) {
+      return R.fromAsync(async () => {
+        return db
+          .select({
+            operatorId: operators.id,
+            durationMinutes: sql<number>`coalesce(${operatorServices.durationMinutes}, ${services.durationMinutes})`,
+            operatorBufferBeforeMinutes: operators.bufferBeforeMinutes,
+            operatorBufferAfterMinutes: operators.bufferAfterMinutes,
+            serviceBufferBeforeMinutes: services.bufferBeforeMinutes,
+            serviceBufferAfterMinutes: services.bufferAfterMinutes,
+          })
+          .from(operatorServices)
+          .innerJoin(operators, eq(operatorServices.operatorId, operators.id))
+          .innerJoin(services, eq(operatorServices.serviceId, services.id))
+          .where(
+            and(
+              eq(operatorServices.serviceId, serviceId),
+              eq(operatorServices.active, true),
+              eq(operators.businessId, businessId),
+              eq(operators.active, true),
+              operatorId ? eq(operators.id, operatorId) : undefined,
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findDaySlots(params) {
+      return R.fromAsync(async () => {
+        const conditions = [
+          eq(operators.businessId, params.businessId),
+          eq(operators.active, true),
+          eq(scheduleSlots.date, params.date),
+          eq(scheduleSlots.active, true),
+        ];
+
+        if (params.operatorId) {
+          conditions.push(eq(scheduleSlots.operatorId, params.operatorId));
+        }
+
+        return db
+          .select({
+            id: scheduleSlots.id,
+            operatorId: scheduleSlots.operatorId,
+            operatorDisplayName: operators.displayName,
+            date: scheduleSlots.date,
+            startTime: scheduleSlots.startTime,
+            endTime: scheduleSlots.endTime,
+            status: scheduleSlots.status,
+          })
+          .from(scheduleSlots)
+          .innerJoin(operators, eq(scheduleSlots.operatorId, operators.id))
+          .where(and(...conditions))
+          .orderBy(scheduleSlots.startTime, operators.displayName);
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+export { errorResponseSchema } from "../../../../shared/dtos.js";
+
+/** Regex para validar formato YYYY-MM-DD */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Valida que a string é uma data real (não aceita "2025-13-45") */
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+// ========== PARAMS ==========
+
+/** Path param {slug} compartilhado pelas rotas públicas */
+export const businessSlugParamSchema = z.object({
+  slug: z
+    .string()
+    .regex(
+      /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+      "Slug deve conter apenas letras minúsculas, números e hífens",
+    ),
+});
+
+// ========== PUBLIC SERVICE (response) ==========
+
+/** Serviço exposto ao cliente — sem campos internos (businessId, active, timestamps) */
+export const publicServiceSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  durationMinutes: z.number().int(),
+  priceCents: z.number().int(),
+});
+export type PublicService = z.infer<typeof publicServiceSchema>;
+
+// ========== PUBLIC OPERATOR (response) ==========
+
+/** Serviço oferecido por um operador, com preço e duração já resolvidos */
+export const publicOperatorServiceSchema = z.object({
+  serviceId: z.string().uuid(),
+  durationMinutes: z.number().int(),
+  priceCents: z.number().int(),
+});
+
+/** Operador exposto ao cliente — sem userId, tenantId ou flags internas */
+export const publicOperatorSchema = z.object({
+  id: z.string().uuid(),
+  displayName: z.string(),
+  services: z.array(publicOperatorServiceSchema),
+});
+export type PublicOperator = z.infer<typeof publicOperatorSchema>;
+
+/** GET /api/public/businesses/:slug/operators — Query Params */
+export const listPublicOperatorsQuerySchema = z.object({
+  serviceId: z.string().uuid("serviceId deve ser um UUID válido").optional(),
+});
+export type ListPublicOperatorsQuery = z.infer<typeof listPublicOperatorsQuerySchema>;
+
+// ========== PUBLIC AVAILABILITY (response) ==========
+
+/** Slot livre exposto ao cliente */
+export const publicSlotSchema = z.object({
+  id: z.string().uuid(),
+  operatorId: z.string().uuid(),
+  operatorDisplayName: z.string(),
+  date: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+});
+export type PublicSlot = z.infer<typeof publicSlotSchema>;
+
+/** GET /api/public/businesses/:slug/availability — Query Params */
+export const listPublicAvailabilityQuerySchema = z.object({
+  date: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida"),
+  operatorId: z.string().uuid("operatorId deve ser um UUID válido").optional(),
+  serviceId: z.string().uuid("serviceId deve ser um UUID válido").optional(),
+});
+export type ListPublicAvailabilityQuery = z.infer<typeof listPublicAvailabilityQuerySchema>;
@@ -0,0 +1,47 @@
+/** Subset do businesses necessário para resolver o slug */
+export type PublicBusinessRow = {
+  id: string;
+  timezone: string;
+  active: boolean;
+};
+
+/** Serviço ativo do catálogo */
+export type PublicServiceRow = {
+  id: string;
+  name: string;
+  description: string | null;
+  durationMinutes: number;
+  priceCents: number;
+};
+
+/** Vínculo operador ↔ serviço ativo, com override e padrão do serviço */
+export type PublicOperatorServiceRow = {
+  operatorId: string;
+  displayName: string;
+  serviceId: string | null;
+  overridePriceCents: number | null;
+  overrideDurationMinutes: number | null;
+  defaultPriceCents: number | null;
+  defaultDurationMinutes: number | null;
+};
+
+/** Slot do dia com nome de exibição do operador */
+export type PublicSlotRow = {
+  id: string;
+  operatorId: string;
+  operatorDisplayName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: "AVAILABLE" | "BOOKED" | "BLOCKED" | "HELD";
+};
+
+/** Operador que oferece o serviço, com duração resolvida e buffers */
+export type PublicBookableOperatorRow = {
+  operatorId: string;
+  durationMinutes: number;
+  operatorBufferBeforeMinutes: number;
+  operatorBufferAfterMinutes: number;
+  serviceBufferBeforeMinutes: number;
+  serviceBufferAfterMinutes: number;
+};
@@ -0,0 +1,15 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { ModuleFactory } from "../../core/container/container.js";
+import { createReportHandler } from "./3_handler.js";
+import { createReportService } from "./4_service.js";
+import { createReportRepository } from "./5_repository.js";
+
+export const createReportModule: ModuleFactory = (container) => {
+  const repository = createReportRepository(container);
+  const service = createReportService(repository);
+  const handler = createReportHandler(service);
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
@@ -0,0 +1,121 @@
+import { createRoute } from "@hono/zod-openapi";
+import {
+  errorResponseSchema,
+  occupancyReportQuerySchema,
+  occupancyReportResponseSchema,
+  peakTimesReportQuerySchema,
+  peakTimesReportResponseSchema,
+  performanceReportQuerySchema,
+  performanceReportResponseSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== PERFORMANCE ==========
+
+export const performanceReportRoute = createRoute({
+  method: "get",
+  path: "/performance",
+  tags: ["Reports"],
+  summary: "Relatório de desempenho",
+  description:
+    "Agrega os agendamentos do período por business, operador ou serviço (groupBy): receita agendada (não cancelados) e realizada (concluídos) a partir do priceCents gravado no agendamento, taxa de cancelamento e taxa de não comparecimento. As datas são locais de cada business (timezone). TENANT vê apenas as businesses do próprio tenant; OWNER vê todas.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: performanceReportQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: performanceReportResponseSchema } },
+      description: "Indicadores por grupo",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== OCCUPANCY ==========
+
+export const occupancyReportRoute = createRoute({
+  method: "get",
+  path: "/occupancy",
+  tags: ["Reports"],
+  summary: "Relatório de ocupação",
+  description:
+    "Compara os slots gerados na agenda (schedule_slots ativos, exceto bloqueados) com os slots ocupados por agendamentos no período, por business ou operador (groupBy). TENANT vê apenas as businesses do próprio tenant; OWNER vê todas.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: occupancyReportQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: occupancyReportResponseSchema } },
+      description: "Ocupação por grupo",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== PEAK TIMES ==========
+
+export const peakTimesReportRoute = createRoute({
+  method: "get",
+  path: "/peak-times",
+  tags: ["Reports"],
+  summary: "Horários de pico",
+  description:
+    "Conta os agendamentos não cancelados do período por dia da semana e hora de início, no fuso de cada business. TENANT vê apenas as businesses do próprio tenant; OWNER vê todas.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: peakTimesReportQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: peakTimesReportResponseSchema } },
+      description: "Distribuição por dia da semana e hora",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Business não encontrada",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
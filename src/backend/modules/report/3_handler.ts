@@ -0,0 +1,60 @@
+import type { OpenAPIHono } from "@hono/zod-openapi";
+import { respondError } from "../../core/error/error.handler.js";
+import { getSession, hasRole } from "../../core/session/session.guard.js";
+import { occupancyReportRoute, peakTimesReportRoute, performanceReportRoute } from "./2_api.js";
+import type { IReportService } from "./4_service.js";
+
+export interface IReportHandler {
+  register(app: OpenAPIHono): void;
+}
+
+export function createReportHandler(service: IReportService): IReportHandler {
+  return {
+    register(app: OpenAPIHono) {
+      // GET /performance — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(performanceReportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.performance(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /occupancy — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(occupancyReportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.occupancy(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+
+      // GET /peak-times — TENANT, OWNER
+      // biome-ignore lint/suspicious/noExplicitAny: respondError retorna status genérico incompatível com zod-openapi typed routes
+      app.openapi(peakTimesReportRoute, async (c): Promise<any> => {
+        const session = getSession(c);
+        if (!hasRole(session, "TENANT", "OWNER")) {
+          return respondError(c, { code: "FORBIDDEN", message: "Permissão insuficiente" });
+        }
+
+        const query = c.req.valid("query");
+        const result = await service.peakTimes(query, session.role, session.tenantId);
+
+        if (result.isErr()) return respondError(c, result.error);
+        return c.json(result.value, 200);
+      });
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import type { Role } from "../../core/session/session.guard.js";
+import type { IReportRepository } from "./5_repository.js";
+import type {
+  OccupancyReportQuery,
+  OccupancyReportResponse,
+  PeakTimesReportQuery,
+  PeakTimesReportResponse,
+  PerformanceReportQuery,
+  PerformanceReportResponse,
+} from "./types/dtos/dtos.js";
+import type { ReportScope } from "./types/models/models.js";
+
+export interface IReportService {
+  performance(
+    query: PerformanceReportQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PerformanceReportResponse>>;
+  occupancy(
+    query: OccupancyReportQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<OccupancyReportResponse>>;
+  peakTimes(
+    query: PeakTimesReportQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PeakTimesReportResponse>>;
+}
+
+/** Razão arredondada a 4 casas — 0 quando não há base de cálculo */
+function rate(part: number, whole: number): number {
+  if (whole === 0) return 0;
+  return Math.round((part / whole) * 10_000) / 10_000;
+}
+
+export function createReportService(repository: IReportRepository): IReportService {
+  /**
+   * Monta o escopo do relatório, verificando acesso:
+   * - OWNER: qualquer business
+   * - TENANT: apenas businesses do próprio tenant (tenantId da sessão)
+   */
+  async function resolveScope(
+    query: { from: string; to: string; businessId?: string },
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<ReportScope>> {
+    if (callerRole === "TENANT" && !callerTenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    if (query.businessId) {
+      const businessResult = await repository.findBusinessById(query.businessId);
+      if (businessResult.isErr()) return R.fail(businessResult.error);
+      if (!businessResult.value) {
+        return R.fail({ code: "NOT_FOUND", message: "Business não encontrada" });
+      }
+      if (callerRole === "TENANT" && businessResult.value.tenantId !== callerTenantId) {
+        return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+      }
+    }
+
+    return R.ok({
+      from: query.from,
+      to: query.to,
+      businessId: query.businessId,
+      tenantId: callerRole === "TENANT" ? (callerTenantId ?? undefined) : undefined,
+    });
+  }
+
+  return {
+    async performance(query, callerRole, callerTenantId) {
+      const scopeResult = await resolveScope(query, callerRole, callerTenantId);
+      if (scopeResult.isErr()) return R.fail(scopeResult.error);
+
+      const rowsResult = await repository.performance(scopeResult.value, query.groupBy);
+      if (rowsResult.isErr()) return R.fail(rowsResult.error);
+
+      return R.ok({
+        from: query.from,
+        to: query.to,
+        groupBy: query.groupBy,
+        data: rowsResult.value.map((row) => ({
+          ...row,
+          cancellationRate: rate(row.cancelledCount, row.totalCount),
+          noShowRate: rate(row.noShowCount, row.completedCount + row.noShowCount),
+        })),
+      });
+    },
+
+    async occupancy(query, callerRole, callerTenantId) {
+      const scopeResult = await resolveScope(query, callerRole, callerTenantId);
+      if (scopeResult.isErr()) return R.fail(scopeResult.error);
+
+      const rowsResult = await repository.occupancy(scopeResult.value, query.groupBy);
+      if (rowsResult.isErr()) return R.fail(rowsResult.error);
+
+      return R.ok({
+        from: query.from,
+        to: query.to,
+        groupBy: query.groupBy,
+        data: rowsResult.value.map((row) => ({
+          ...row,
+          occupancyRate: rate(row.bookedSlots, row.totalSlots),
+        })),
+      });
+    },
+
+    async peakTimes(query, callerRole, callerTenantId) {
+      const scopeResult = await resolveScope(query, callerRole, callerTenantId);
+      if (scopeResult.isErr()) return R.fail(scopeResult.error);
+
+      const rowsResult = await repository.peakTimes(scopeResult.value);
+      if (rowsResult.isErr()) return R.fail(rowsResult.error);
+
+      const weekdays = Array.from({ length: 7 }, (_, weekday) => ({ weekday, count: 0 }));
+      const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, count: 0 }));
+      for (const row of rowsResult.value) {
+        weekdays[row.weekday].count += row.count;
+        hours[row.hour].count += row.count;
+      }
+
+      const busiest = [...rowsResult.value].sort(
+        (a, b) => b.count - a.count || a.weekday - b.weekday || a.hour - b.hour,
+      );
+
+      return R.ok({ from: query.from, to: query.to, weekdays, hours, busiest });
+    },
+  };
+}
@@ -0,0 +1,161 @@
+import { type SQL, and, eq, gte, lt, ne, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import {
+  appointments,
+  businesses,
+  operators,
+  scheduleSlots,
+  services,
+} from "../../shared/schemas/index.js";
+import type {
+  OccupancyRow,
+  PeakTimeRow,
+  PerformanceRow,
+  ReportScope,
+} from "./types/models/models.js";
+
+export interface IReportRepository {
+  performance(
+    scope: ReportScope,
+    groupBy: "BUSINESS" | "OPERATOR" | "SERVICE",
+  ): Promise<Result<PerformanceRow[]>>;
+  occupancy(scope: ReportScope, groupBy: "BUSINESS" | "OPERATOR"): Promise<Result<OccupancyRow[]>>;
+  peakTimes(scope: ReportScope): Promise<Result<PeakTimeRow[]>>;
+  findBusinessById(businessId: string): Promise<Result<{ id: string; tenantId: string } | null>>;
+}
+
+/** Maior deslocamento de fuso existente (UTC+14) — margem do pré-filtro em UTC */
+const MAX_UTC_OFFSET_MS = 14 * 3_600_000;
+
+/** Conta as linhas que satisfazem a condição (count(*) filter) */
+function countWhere(condition: SQL): SQL<number> {
+  return sql<number>`count(*) filter (where ${condition})`.mapWith(Number);
+}
+
+/** Soma o priceCents das linhas que satisfazem a condição */
+function sumPriceWhere(condition: SQL): SQL<number> {
+  return sql<number>`coalesce(sum(${appointments.priceCents}) filter (where ${condition}), 0)`.mapWith(
+    Number,
+  );
+}
+
+export function createReportRepository(container: Container): IReportRepository {
+  const { db } = container;
+
+  /** Horário de início do agendamento no fuso do business */
+  const localScheduledAt = sql`(${appointments.scheduledAt} at time zone ${businesses.timezone})`;
+
+  /**
+   * Filtra agendamentos pelo período em datas locais do business.
+   * O intervalo em UTC (com margem de fuso) permite usar o índice (business_id, scheduled_at).
+   */
+  function appointmentConditions(scope: ReportScope): SQL[] {
+    const conditions: SQL[] = [
+      gte(
+        appointments.scheduledAt,
+        new Date(Date.parse(`${scope.from}T00:00:00Z`) - MAX_UTC_OFFSET_MS),
+      ),
+      lt(
+        appointments.scheduledAt,
+        new Date(Date.parse(`${scope.to}T00:00:00Z`) + 86_400_000 + MAX_UTC_OFFSET_MS),
+      ),
+      sql`${localScheduledAt}::date between ${scope.from}::date and ${scope.to}::date`,
+    ];
+    if (scope.businessId) conditions.push(eq(appointments.businessId, scope.businessId));
+    if (scope.tenantId) conditions.push(eq(businesses.tenantId, scope.tenantId));
+    return conditions;
+  }
+
+  return {
+    async performance(scope, groupBy) {
+      return R.fromAsync(async () => {
+        const key = {
+          BUSINESS: { id: businesses.id, name: businesses.name },
+          OPERATOR: { id: operators.id, name: operators.displayName },
+          SERVICE: { id: services.id, name: services.name },
+        }[groupBy];
+
+        return db
+          .select({
+            id: key.id,
+            name: key.name,
+            businessId: appointments.businessId,
+            totalCount: sql<number>`count(*)`.mapWith(Number),
+            bookedCount: countWhere(ne(appointments.status, "CANCELLED")),
+            bookedRevenueCents: sumPriceWhere(ne(appointments.status, "CANCELLED")),
+            completedCount: countWhere(eq(appointments.status, "COMPLETED")),
+            completedRevenueCents: sumPriceWhere(eq(appointments.status, "COMPLETED")),
+            cancelledCount: countWhere(eq(appointments.status, "CANCELLED")),
+            noShowCount: countWhere(eq(appointments.status, "NO_SHOW")),
+          })
+          .from(appointments)
+          .innerJoin(businesses, eq(businesses.id, appointments.businessId))
+          .innerJoin(operators, eq(operators.id, appointments.operatorId))
+          .innerJoin(services, eq(services.id, appointments.serviceId))
+          .where(and(...appointmentConditions(scope)))
+          .groupBy(key.id, key.name, appointments.businessId)
+          .orderBy(key.name);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async occupancy(scope, groupBy) {
+      return R.fromAsync(async () => {
+        const key = {
+          BUSINESS: { id: businesses.id, name: businesses.name },
+          OPERATOR: { id: operators.id, name: operators.displayName },
+        }[groupBy];
+
+        // schedule_slots.date já é a data local do business
+        const conditions: SQL[] = [
+          eq(scheduleSlots.active, true),
+          ne(scheduleSlots.status, "BLOCKED"),
+          sql`${scheduleSlots.date} between ${scope.from}::date and ${scope.to}::date`,
+        ];
+        if (scope.businessId) conditions.push(eq(operators.businessId, scope.businessId));
+        if (scope.tenantId) conditions.push(eq(businesses.tenantId, scope.tenantId));
+
+        return db
+          .select({
+            id: key.id,
+            name: key.name,
+            businessId: operators.businessId,
+            totalSlots: sql<number>`count(*)`.mapWith(Number),
+            bookedSlots: countWhere(eq(scheduleSlots.status, "BOOKED")),
+          })
+          .from(scheduleSlots)
+          .innerJoin(operators, eq(operators.id, scheduleSlots.operatorId))
+          .innerJoin(businesses, eq(businesses.id, operators.businessId))
+          .where(and(...conditions))
+          .groupBy(key.id, key.name, operators.businessId)
+          .orderBy(key.name);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async peakTimes(scope) {
+      return R.fromAsync(async () => {
+        const weekday = sql<number>`extract(dow from ${localScheduledAt})::int`.mapWith(Number);
+        const hour = sql<number>`extract(hour from ${localScheduledAt})::int`.mapWith(Number);
+
+        return db
+          .select({ weekday, hour, count: sql<number>`count(*)`.mapWith(Number) })
+          .from(appointments)
+          .innerJoin(businesses, eq(businesses.id, appointments.businessId))
+          .where(and(...appointmentConditions(scope), ne(appointments.status, "CANCELLED")))
+          .groupBy(weekday, hour);
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessById(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: businesses.id, tenantId: businesses.tenantId })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
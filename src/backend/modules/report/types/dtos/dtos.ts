@@ -0,0 +1,159 @@
+import { z } from "zod";
+
+export { errorResponseSchema } from "../../../../shared/dtos.js";
+
+/** Período máximo coberto por um relatório */
+export const MAX_REPORT_RANGE_DAYS = 366;
+
+const performanceGroups = ["BUSINESS", "OPERATOR", "SERVICE"] as const;
+const occupancyGroups = ["BUSINESS", "OPERATOR"] as const;
+
+/** Regex para validar formato YYYY-MM-DD */
+const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Valida que a string é uma data real (não aceita "2025-13-45") */
+function isValidDate(value: string): boolean {
+  if (!dateRegex.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().startsWith(value);
+}
+
+/** Filtros comuns — datas locais de cada business, ambas inclusivas */
+const reportRangeSchema = z.object({
+  from: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida"),
+  to: z
+    .string()
+    .regex(dateRegex, "Formato deve ser YYYY-MM-DD")
+    .refine(isValidDate, "Data inválida"),
+  /** Restringe a uma business — sem ele, agrega todas as businesses visíveis ao caller */
+  businessId: z.string().uuid("businessId deve ser um UUID válido").optional(),
+});
+
+/** Aplica as validações de período (ordem das datas e tamanho máximo) */
+function withRangeChecks<T extends z.ZodType<{ from: string; to: string }, z.ZodTypeDef, unknown>>(
+  schema: T,
+): z.ZodEffects<z.ZodEffects<T>> {
+  return schema
+    .refine((data) => data.from <= data.to, {
+      message: "Data inicial deve ser anterior ou igual à data final",
+      path: ["to"],
+    })
+    .refine(
+      (data) =>
+        Date.parse(`${data.to}T00:00:00Z`) - Date.parse(`${data.from}T00:00:00Z`) <
+        MAX_REPORT_RANGE_DAYS * 86_400_000,
+      {
+        message: `Período máximo do relatório é ${MAX_REPORT_RANGE_DAYS} dias`,
+        path: ["to"],
+      },
+    );
+}
+
+// ========== PERFORMANCE ==========
+
+/** GET /api/reports/performance — Query Params */
+export const performanceReportQuerySchema = withRangeChecks(
+  reportRangeSchema.extend({
+    groupBy: z
+      .enum(performanceGroups, {
+        errorMap: () => ({ message: "groupBy deve ser BUSINESS, OPERATOR ou SERVICE" }),
+      })
+      .default("BUSINESS"),
+  }),
+);
+export type PerformanceReportQuery = z.infer<typeof performanceReportQuerySchema>;
+
+/** Indicadores de um grupo (business, operador ou serviço) no período */
+export const performanceReportItemSchema = z.object({
+  /** ID do business, operador ou serviço, conforme groupBy */
+  id: z.string().uuid(),
+  name: z.string(),
+  businessId: z.string().uuid(),
+  /** Agendamentos no período, em qualquer status */
+  totalCount: z.number().int(),
+  /** Agendamentos não cancelados */
+  bookedCount: z.number().int(),
+  /** Soma do priceCents (snapshot do agendamento) dos não cancelados */
+  bookedRevenueCents: z.number().int(),
+  completedCount: z.number().int(),
+  /** Soma do priceCents dos concluídos */
+  completedRevenueCents: z.number().int(),
+  cancelledCount: z.number().int(),
+  noShowCount: z.number().int(),
+  /** Cancelados / total — 0 a 1 */
+  cancellationRate: z.number(),
+  /** Não comparecimentos / (concluídos + não comparecimentos) — 0 a 1 */
+  noShowRate: z.number(),
+});
+export type PerformanceReportItem = z.infer<typeof performanceReportItemSchema>;
+
+/** GET /api/reports/performance — Response Body */
+export const performanceReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  groupBy: z.enum(performanceGroups),
+  data: z.array(performanceReportItemSchema),
+});
+export type PerformanceReportResponse = z.infer<typeof performanceReportResponseSchema>;
+
+// ========== OCCUPANCY ==========
+
+/** GET /api/reports/occupancy — Query Params */
+export const occupancyReportQuerySchema = withRangeChecks(
+  reportRangeSchema.extend({
+    groupBy: z
+      .enum(occupancyGroups, {
+        errorMap: () => ({ message: "groupBy deve ser BUSINESS ou OPERATOR" }),
+      })
+      .default("BUSINESS"),
+  }),
+);
+export type OccupancyReportQuery = z.infer<typeof occupancyReportQuerySchema>;
+
+/** Ocupação da agenda de um grupo (business ou operador) no período */
+export const occupancyReportItemSchema = z.object({
+  /** ID do business ou operador, conforme groupBy */
+  id: z.string().uuid(),
+  name: z.string(),
+  businessId: z.string().uuid(),
+  /** Slots ativos gerados no período, exceto os bloqueados */
+  totalSlots: z.number().int(),
+  /** Slots ocupados por agendamentos */
+  bookedSlots: z.number().int(),
+  /** Ocupados / total — 0 a 1 */
+  occupancyRate: z.number(),
+});
+export type OccupancyReportItem = z.infer<typeof occupancyReportItemSchema>;
+
+/** GET /api/reports/occupancy — Response Body */
+export const occupancyReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  groupBy: z.enum(occupancyGroups),
+  data: z.array(occupancyReportItemSchema),
+});
+export type OccupancyReportResponse = z.infer<typeof occupancyReportResponseSchema>;
+
+// ========== PEAK TIMES ==========
+
+/** GET /api/reports/peak-times — Query Params */
+export const peakTimesReportQuerySchema = withRangeChecks(reportRangeSchema);
+export type PeakTimesReportQuery = z.infer<typeof peakTimesReportQuerySchema>;
+
+/** GET /api/reports/peak-times — Response Body */
+export const peakTimesReportResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  /** Agendamentos não cancelados por dia da semana local (0 = domingo), sempre 7 itens */
+  weekdays: z.array(z.object({ weekday: z.number().int(), count: z.number().int() })),
+  /** Agendamentos não cancelados por hora local de início, sempre 24 itens */
+  hours: z.array(z.object({ hour: z.number().int(), count: z.number().int() })),
+  /** Combinações dia da semana × hora com agendamentos, da mais movimentada para a menos */
+  busiest: z.array(
+    z.object({ weekday: z.number().int(), hour: z.number().int(), count: z.number().int() }),
+  ),
+});
+export type PeakTimesReportResponse = z.infer<typeof peakTimesReportResponseSchema>;
@@ -0,0 +1,37 @@
+/** Agregado de agendamentos por grupo retornado pelo repository */
+export type PerformanceRow = {
+  id: string;
+  name: string;
+  businessId: string;
+  totalCount: number;
+  bookedCount: number;
+  bookedRevenueCents: number;
+  completedCount: number;
+  completedRevenueCents: number;
+  cancelledCount: number;
+  noShowCount: number;
+};
+
+/** Agregado de slots por grupo retornado pelo repository */
+export type OccupancyRow = {
+  id: string;
+  name: string;
+  businessId: string;
+  totalSlots: number;
+  bookedSlots: number;
+};
+
+/** Contagem de agendamentos por dia da semana e hora locais */
+export type PeakTimeRow = {
+  weekday: number;
+  hour: number;
+  count: number;
+};
+
+/** Escopo dos relatórios — tenantId vem da sessão do TENANT; OWNER não filtra */
+export type ReportScope = {
+  from: string;
+  to: string;
+  businessId?: string;
+  tenantId?: string;
+};
@@ -50,6 +50,8 @@ function toProfile(row: ServiceRow): ServiceProfile {
     description: row.description,
     durationMinutes: row.durationMinutes,
     priceCents: row.priceCents,
+    bufferBeforeMinutes: row.bufferBeforeMinutes,
+    bufferAfterMinutes: row.bufferAfterMinutes,
     active: row.active,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
@@ -91,6 +93,8 @@ export function createServiceService(repository: IServiceRepository): IServiceSe
         description: input.description ?? null,
         durationMinutes: input.durationMinutes,
         priceCents: input.priceCents,
+        bufferBeforeMinutes: input.bufferBeforeMinutes ?? 0,
+        bufferAfterMinutes: input.bufferAfterMinutes ?? 0,
       });
       if (createResult.isErr()) return R.fail(createResult.error);
 
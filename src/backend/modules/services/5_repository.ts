@@ -70,6 +70,8 @@ export function createServiceRepository(container: Container): IServiceRepositor
             description: data.description,
             durationMinutes: data.durationMinutes,
             priceCents: data.priceCents,
+            bufferBeforeMinutes: data.bufferBeforeMinutes,
+            bufferAfterMinutes: data.bufferAfterMinutes,
           })
           .returning();
         if (!rows[0]) throw new Error("Insert não retornou registro");
@@ -4,6 +4,13 @@ import { paginationSchema } from "../../../../shared/dtos.js";
 export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
 export { paginationSchema };
 
+/** Buffer em minutos (antes ou depois do atendimento) */
+const bufferMinutesSchema = z
+  .number()
+  .int("Buffer deve ser um número inteiro")
+  .min(0, "Buffer não pode ser negativo")
+  .max(240, "Buffer máximo é 240 minutos");
+
 // ========== SERVICE PROFILE (response) ==========
 
 /** Perfil do service retornado nas respostas */
@@ -14,6 +21,8 @@ export const serviceProfileSchema = z.object({
   description: z.string().nullable(),
   durationMinutes: z.number().int(),
   priceCents: z.number().int(),
+  bufferBeforeMinutes: z.number().int(),
+  bufferAfterMinutes: z.number().int(),
   active: z.boolean(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
@@ -37,6 +46,10 @@ export const createServiceRequestSchema = z.object({
     .int("Preço deve ser um número inteiro")
     .nonnegative("Preço não pode ser negativo")
     .max(99999999, "Preço máximo excedido"),
+  /** Preparo reservado antes do atendimento */
+  bufferBeforeMinutes: bufferMinutesSchema.optional(),
+  /** Limpeza/intervalo reservado após o atendimento */
+  bufferAfterMinutes: bufferMinutesSchema.optional(),
 });
 export type CreateServiceRequest = z.infer<typeof createServiceRequestSchema>;
 
@@ -58,6 +71,8 @@ export const updateServiceRequestSchema = z.object({
     .nonnegative("Preço não pode ser negativo")
     .max(99999999, "Preço máximo excedido")
     .optional(),
+  bufferBeforeMinutes: bufferMinutesSchema.optional(),
+  bufferAfterMinutes: bufferMinutesSchema.optional(),
 });
 export type UpdateServiceRequest = z.infer<typeof updateServiceRequestSchema>;
 
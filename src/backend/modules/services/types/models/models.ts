@@ -6,6 +6,8 @@ export type ServiceRow = {
   description: string | null;
   durationMinutes: number;
   priceCents: number;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
   active: boolean;
   createdAt: Date;
   updatedAt: Date;
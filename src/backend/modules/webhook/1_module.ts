@@ -0,0 +1,32 @@
+import { OpenAPIHono } from "@hono/zod-openapi";
+import type { Container, ModuleFactory } from "../../core/container/container.js";
+import { createWebhookHandler } from "./3_handler.js";
+import { createWebhookService } from "./4_service.js";
+import { createWebhookRepository } from "./5_repository.js";
+import { type IWebhookDeliveryJob, createWebhookDeliveryJob } from "./jobs/webhook-delivery.job.js";
+
+export const createWebhookModule: ModuleFactory = (container) => {
+  const repository = createWebhookRepository(container);
+  const service = createWebhookService(repository, container.config);
+  const handler = createWebhookHandler(service);
+
+  // Cada evento de domínio vira uma entrega por assinatura; o worker faz o envio
+  container.events.subscribe("*", async (event) => {
+    const result = await service.handleEvent(event);
+    if (result.isErr()) throw new Error(result.error.message);
+  });
+
+  const app = new OpenAPIHono();
+  handler.register(app);
+  return app;
+};
+
+/** Inicia o worker de entrega de webhooks (chamado no server.ts) */
+export const startWebhookDeliveryJob = (container: Container): IWebhookDeliveryJob => {
+  const repository = createWebhookRepository(container);
+  const service = createWebhookService(repository, container.config);
+  const job = createWebhookDeliveryJob(service, container.config.WEBHOOK_DELIVERY_INTERVAL_MS);
+
+  job.start();
+  return job;
+};
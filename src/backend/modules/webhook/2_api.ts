@@ -0,0 +1,271 @@
+import { createRoute, z } from "@hono/zod-openapi";
+import {
+  createWebhookRequestSchema,
+  createWebhookResponseSchema,
+  errorResponseSchema,
+  listWebhookDeliveriesQuerySchema,
+  listWebhooksQuerySchema,
+  messageResponseSchema,
+  paginatedWebhookDeliveriesResponseSchema,
+  paginatedWebhooksResponseSchema,
+  updateWebhookRequestSchema,
+  webhookDeliveryProfileSchema,
+  webhookProfileSchema,
+} from "./types/dtos/dtos.js";
+
+// ========== CREATE ==========
+
+export const createWebhookRoute = createRoute({
+  method: "post",
+  path: "/",
+  tags: ["Webhooks"],
+  summary: "Criar webhook",
+  description:
+    "Cadastra um endpoint que recebe POSTs assinados (HMAC-SHA256 em X-Webhook-Signature) a cada evento de agendamento assinado. O segredo só é exibido nesta resposta. TENANT cria para o próprio tenant; OWNER informa tenantId.",
+  security: [{ Bearer: [] }],
+  request: {
+    body: {
+      content: { "application/json": { schema: createWebhookRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    201: {
+      content: { "application/json": { schema: createWebhookResponseSchema } },
+      description: "Webhook criado com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Tenant não encontrado",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== LIST ==========
+
+export const listWebhooksRoute = createRoute({
+  method: "get",
+  path: "/",
+  tags: ["Webhooks"],
+  summary: "Listar webhooks",
+  description:
+    "Lista webhooks com paginação. TENANT vê apenas os do próprio tenant; OWNER pode filtrar por tenantId.",
+  security: [{ Bearer: [] }],
+  request: {
+    query: listWebhooksQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedWebhooksResponseSchema } },
+      description: "Lista paginada de webhooks",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+  },
+});
+
+// ========== GET BY ID ==========
+
+export const getWebhookRoute = createRoute({
+  method: "get",
+  path: "/{id}",
+  tags: ["Webhooks"],
+  summary: "Buscar webhook por ID",
+  description: "Retorna a assinatura (sem o segredo).",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: webhookProfileSchema } },
+      description: "Webhook encontrado",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook não encontrado",
+    },
+  },
+});
+
+// ========== UPDATE ==========
+
+export const updateWebhookRoute = createRoute({
+  method: "patch",
+  path: "/{id}",
+  tags: ["Webhooks"],
+  summary: "Atualizar webhook",
+  description:
+    "Altera URL, eventos assinados ou descrição. Entregas já enfileiradas usam a URL vigente no momento do envio.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    body: {
+      content: { "application/json": { schema: updateWebhookRequestSchema } },
+      required: true,
+    },
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: webhookProfileSchema } },
+      description: "Webhook atualizado com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook inativo",
+    },
+    422: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Erro de validação",
+    },
+  },
+});
+
+// ========== DELETE ==========
+
+export const deleteWebhookRoute = createRoute({
+  method: "delete",
+  path: "/{id}",
+  tags: ["Webhooks"],
+  summary: "Desativar webhook",
+  description: "Desativa a assinatura (soft delete). Entregas pendentes deixam de ser enviadas.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: messageResponseSchema } },
+      description: "Webhook desativado com sucesso",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook já está inativo",
+    },
+  },
+});
+
+// ========== DELIVERIES ==========
+
+export const listWebhookDeliveriesRoute = createRoute({
+  method: "get",
+  path: "/{id}/deliveries",
+  tags: ["Webhooks"],
+  summary: "Listar entregas do webhook",
+  description:
+    "Log de entregas da assinatura (mais recentes primeiro) com tentativas, último status HTTP e erro. Falhas são reenviadas com backoff exponencial até WEBHOOK_MAX_ATTEMPTS; depois ficam FAILED.",
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+    query: listWebhookDeliveriesQuerySchema,
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: paginatedWebhookDeliveriesResponseSchema } },
+      description: "Lista paginada de entregas",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook não encontrado",
+    },
+  },
+});
+
+// ========== SEND TEST ==========
+
+export const sendTestWebhookRoute = createRoute({
+  method: "post",
+  path: "/{id}/test",
+  tags: ["Webhooks"],
+  summary: "Enviar evento de teste",
+  description:
+    'Envia imediatamente um evento "webhook.test" assinado e retorna a entrega se o endpoint respondeu 2xx. Destinos em rede interna são recusados. Falhas retornam um erro genérico e a entrega segue o backoff normal.',
+  security: [{ Bearer: [] }],
+  request: {
+    params: z.object({ id: z.string().uuid() }),
+  },
+  responses: {
+    200: {
+      content: { "application/json": { schema: webhookDeliveryProfileSchema } },
+      description: "Resultado da entrega de teste",
+    },
+    401: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Token ausente ou inválido",
+    },
+    403: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Permissão insuficiente",
+    },
+    404: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook não encontrado",
+    },
+    409: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Webhook inativo",
+    },
+    502: {
+      content: { "application/json": { schema: errorResponseSchema } },
+      description: "Endpoint não confirmou o evento de teste",
+    },
+  },
+});
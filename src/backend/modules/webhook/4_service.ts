@@ -0,0 +1,436 @@
+import { createHmac, randomBytes } from "node:crypto";
+import { fetch } from "undici";
+import type { Config } from "../../core/config/config.js";
+import { assertPublicHost, createPublicAgent } from "../../core/network/public-host.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import type { Role } from "../../core/session/session.guard.js";
+import type { DomainEvent } from "../../shared/events.js";
+import type { IWebhookRepository } from "./5_repository.js";
+import type {
+  CreateWebhookRequest,
+  CreateWebhookResponse,
+  ListWebhookDeliveriesQuery,
+  ListWebhooksQuery,
+  PaginatedWebhookDeliveriesResponse,
+  PaginatedWebhooksResponse,
+  UpdateWebhookRequest,
+  WebhookDeliveryProfile,
+  WebhookProfile,
+} from "./types/dtos/dtos.js";
+import type {
+  DueDeliveryRow,
+  WebhookDeliveryRow,
+  WebhookSubscriptionRow,
+} from "./types/models/models.js";
+
+export interface IWebhookService {
+  create(
+    input: CreateWebhookRequest,
+    callerRole: Role,
+    callerUserId: string,
+    callerTenantId: string | null,
+  ): Promise<Result<CreateWebhookResponse>>;
+  list(
+    query: ListWebhooksQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedWebhooksResponse>>;
+  getById(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<WebhookProfile>>;
+  update(
+    id: string,
+    input: UpdateWebhookRequest,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<WebhookProfile>>;
+  delete(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<{ message: string }>>;
+  listDeliveries(
+    id: string,
+    query: ListWebhookDeliveriesQuery,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<PaginatedWebhookDeliveriesResponse>>;
+
+  /**
+   * Envia um evento "webhook.test" imediatamente e retorna a entrega se o endpoint
+   * respondeu 2xx — qualquer falha vira um erro genérico e segue o backoff normal
+   */
+  sendTest(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<WebhookDeliveryProfile>>;
+
+  /** Enfileira uma entrega para cada assinatura ativa do tenant que escuta o evento */
+  handleEvent(event: DomainEvent): Promise<Result<{ enqueued: number }>>;
+
+  /**
+   * Envia um lote de entregas devidas. Respostas fora de 2xx (ou erro de rede) são
+   * reagendadas com backoff exponencial até WEBHOOK_MAX_ATTEMPTS; depois ficam FAILED.
+   */
+  deliverDue(): Promise<Result<{ claimed: number; delivered: number; failed: number }>>;
+}
+
+/** Prefixo fixo dos segredos — facilita identificar vazamentos em logs/repositórios */
+const SECRET_PREFIX = "whsec_";
+
+/** Tipo do evento disparado pela ação "enviar teste" */
+const TEST_EVENT_TYPE = "webhook.test";
+
+/** Tempo em que uma entrega reservada fica invisível para outras instâncias */
+const DELIVERY_LEASE_MS = 2 * 60_000;
+
+/** Teto do intervalo entre tentativas */
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000;
+
+/** Tamanho máximo do erro guardado no log de entregas */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Assinatura enviada em X-Webhook-Signature: HMAC-SHA256 de `${timestamp}.${body}`.
+ * O timestamp (X-Webhook-Timestamp) entra na assinatura para o receptor rejeitar replays.
+ */
+function sign(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function toProfile(row: WebhookSubscriptionRow): WebhookProfile {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    url: row.url,
+    eventTypes: row.eventTypes,
+    description: row.description,
+    createdBy: row.createdBy,
+    active: row.active,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toDeliveryProfile(row: WebhookDeliveryRow): WebhookDeliveryProfile {
+  return {
+    id: row.id,
+    subscriptionId: row.subscriptionId,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    lastStatusCode: row.lastStatusCode,
+    lastError: row.lastError,
+    nextAttemptAt: row.nextAttemptAt.toISOString(),
+    deliveredAt: row.deliveredAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export function createWebhookService(repo: IWebhookRepository, config: Config): IWebhookService {
+  const allowPrivate = config.NODE_ENV !== "production";
+  // Conecta apenas nos endereços públicos validados na resolução do host
+  const dispatcher = createPublicAgent({ allowPrivate });
+
+  /** Busca a assinatura e verifica se o caller (TENANT) é o dono */
+  async function findOwnedSubscription(
+    id: string,
+    callerRole: Role,
+    callerTenantId: string | null,
+  ): Promise<Result<WebhookSubscriptionRow>> {
+    const findResult = await repo.findById(id);
+    if (findResult.isErr()) return R.fail(findResult.error);
+    if (!findResult.value) {
+      return R.fail({ code: "NOT_FOUND", message: "Webhook não encontrado" });
+    }
+
+    if (callerRole === "TENANT" && findResult.value.tenantId !== callerTenantId) {
+      return R.fail({ code: "FORBIDDEN", message: "Permissão insuficiente" });
+    }
+
+    return R.ok(findResult.value);
+  }
+
+  /**
+   * Faz o POST assinado e registra o resultado da tentativa. O host é resolvido antes de
+   * cada envio e destinos em rede interna contam como falha, sem requisição.
+   */
+  async function attempt(item: DueDeliveryRow): Promise<Result<WebhookDeliveryRow>> {
+    const { delivery } = item;
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      id: delivery.id,
+      type: delivery.eventType,
+      data: delivery.payload,
+    });
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    const hostCheck = await assertPublicHost(item.url, { allowPrivate });
+    if (hostCheck.isErr()) {
+      error = hostCheck.error.message;
+    } else {
+      try {
+        const response = await fetch(item.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "chat-booking-webhooks/1.0",
+            "X-Webhook-Id": delivery.id,
+            "X-Webhook-Event": delivery.eventType,
+            "X-Webhook-Timestamp": String(timestamp),
+            "X-Webhook-Signature": sign(item.secret, timestamp, body),
+          },
+          body,
+          // Redirecionamentos não são seguidos — a resposta 3xx conta como falha
+          redirect: "manual",
+          dispatcher,
+          signal: AbortSignal.timeout(config.WEBHOOK_TIMEOUT_MS),
+        });
+        statusCode = response.status;
+        if (!response.ok) error = `Endpoint respondeu ${response.status}`;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    if (!error) {
+      return repo.recordAttempt(delivery.id, {
+        status: "SUCCESS",
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: null,
+        nextAttemptAt: delivery.nextAttemptAt,
+        deliveredAt: new Date(),
+      });
+    }
+
+    const exhausted = attempts >= config.WEBHOOK_MAX_ATTEMPTS;
+    const delayMs = Math.min(
+      config.WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1),
+      MAX_RETRY_DELAY_MS,
+    );
+
+    return repo.recordAttempt(delivery.id, {
+      status: exhausted ? "FAILED" : "PENDING",
+      attempts,
+      lastStatusCode: statusCode,
+      lastError: error.slice(0, MAX_ERROR_LENGTH),
+      nextAttemptAt: exhausted ? new Date() : new Date(Date.now() + delayMs),
+      deliveredAt: null,
+    });
+  }
+
+  return {
+    async create(input, callerRole, callerUserId, callerTenantId) {
+      // Determina o tenantId: OWNER informa, TENANT usa o próprio
+      let tenantId: string;
+      if (callerRole === "OWNER") {
+        if (!input.tenantId) {
+          return R.fail({ code: "VALIDATION_ERROR", message: "tenantId é obrigatório para OWNER" });
+        }
+        const tenantResult = await repo.findTenantById(input.tenantId);
+        if (tenantResult.isErr()) return R.fail(tenantResult.error);
+        if (!tenantResult.value || !tenantResult.value.active) {
+          return R.fail({ code: "NOT_FOUND", message: "Tenant não encontrado ou inativo" });
+        }
+        tenantId = input.tenantId;
+      } else {
+        if (!callerTenantId) {
+          return R.fail({ code: "FORBIDDEN", message: "Usuário não está vinculado a um tenant" });
+        }
+        tenantId = callerTenantId;
+      }
+
+      const secret = `${SECRET_PREFIX}${randomBytes(32).toString("hex")}`;
+
+      const createResult = await repo.create({
+        tenantId,
+        url: input.url,
+        secret,
+        eventTypes: input.eventTypes,
+        description: input.description ?? null,
+        createdBy: callerUserId,
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      return R.ok({ ...toProfile(createResult.value), secret });
+    },
+
+    async list(query, callerRole, callerTenantId) {
+      // TENANT só vê as próprias assinaturas; OWNER pode filtrar por tenantId
+      let tenantId: string | undefined;
+      if (callerRole === "TENANT") {
+        if (!callerTenantId) {
+          return R.fail({ code: "FORBIDDEN", message: "Usuário não está vinculado a um tenant" });
+        }
+        tenantId = callerTenantId;
+      } else {
+        tenantId = query.tenantId;
+      }
+
+      const result = await repo.findAll({
+        page: query.page,
+        limit: query.limit,
+        tenantId,
+        active: query.active,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async getById(id, callerRole, callerTenantId) {
+      const subResult = await findOwnedSubscription(id, callerRole, callerTenantId);
+      if (subResult.isErr()) return R.fail(subResult.error);
+
+      return R.ok(toProfile(subResult.value));
+    },
+
+    async update(id, input, callerRole, callerTenantId) {
+      const subResult = await findOwnedSubscription(id, callerRole, callerTenantId);
+      if (subResult.isErr()) return R.fail(subResult.error);
+
+      if (!subResult.value.active) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "Webhook está inativo" });
+      }
+
+      const updateResult = await repo.update(id, {
+        url: input.url,
+        eventTypes: input.eventTypes,
+        description: input.description,
+      });
+      if (updateResult.isErr()) return R.fail(updateResult.error);
+
+      return R.ok(toProfile(updateResult.value));
+    },
+
+    async delete(id, callerRole, callerTenantId) {
+      const subResult = await findOwnedSubscription(id, callerRole, callerTenantId);
+      if (subResult.isErr()) return R.fail(subResult.error);
+
+      if (!subResult.value.active) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "Webhook já está inativo" });
+      }
+
+      const deleteResult = await repo.softDelete(id);
+      if (deleteResult.isErr()) return R.fail(deleteResult.error);
+
+      return R.ok({ message: "Webhook desativado com sucesso" });
+    },
+
+    async listDeliveries(id, query, callerRole, callerTenantId) {
+      const subResult = await findOwnedSubscription(id, callerRole, callerTenantId);
+      if (subResult.isErr()) return R.fail(subResult.error);
+
+      const result = await repo.findDeliveries({
+        subscriptionId: id,
+        page: query.page,
+        limit: query.limit,
+        status: query.status,
+      });
+      if (result.isErr()) return R.fail(result.error);
+
+      const { data, total } = result.value;
+      return R.ok({
+        data: data.map(toDeliveryProfile),
+        pagination: {
+          page: query.page,
+          limit: query.limit,
+          total,
+          totalPages: Math.ceil(total / query.limit),
+        },
+      });
+    },
+
+    async sendTest(id, callerRole, callerTenantId) {
+      const subResult = await findOwnedSubscription(id, callerRole, callerTenantId);
+      if (subResult.isErr()) return R.fail(subResult.error);
+
+      const subscription = subResult.value;
+      if (!subscription.active) {
+        return R.fail({ code: "ALREADY_INACTIVE", message: "Webhook está inativo" });
+      }
+
+      const createResult = await repo.createDelivery({
+        subscriptionId: subscription.id,
+        eventId: null,
+        eventType: TEST_EVENT_TYPE,
+        payload: { subscriptionId: subscription.id, sentAt: new Date().toISOString() },
+      });
+      if (createResult.isErr()) return R.fail(createResult.error);
+
+      // Primeira tentativa síncrona; falhas seguem o backoff normal pelo worker
+      const attemptResult = await attempt({
+        delivery: createResult.value,
+        url: subscription.url,
+        secret: subscription.secret,
+      });
+      if (attemptResult.isErr()) return R.fail(attemptResult.error);
+
+      // Erro genérico: status e mensagem do destino permitiriam sondar a rede a partir daqui
+      if (attemptResult.value.status !== "SUCCESS") {
+        return R.fail({
+          code: "EXTERNAL_SERVICE_ERROR",
+          message: "Endpoint não confirmou o evento de teste",
+        });
+      }
+
+      return R.ok(toDeliveryProfile(attemptResult.value));
+    },
+
+    async handleEvent(event) {
+      const tenantResult = await repo.findBusinessTenantId(event.payload.businessId);
+      if (tenantResult.isErr()) return R.fail(tenantResult.error);
+      if (!tenantResult.value) return R.ok({ enqueued: 0 });
+
+      const subsResult = await repo.findSubscribers(tenantResult.value, event.type);
+      if (subsResult.isErr()) return R.fail(subsResult.error);
+
+      const enqueueResult = await repo.enqueueDeliveries(
+        subsResult.value.map((sub) => ({
+          subscriptionId: sub.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload: { ...event.payload, occurredAt: event.occurredAt },
+        })),
+      );
+      if (enqueueResult.isErr()) return R.fail(enqueueResult.error);
+
+      return R.ok({ enqueued: enqueueResult.value });
+    },
+
+    async deliverDue() {
+      const claimResult = await repo.claimDue(config.WEBHOOK_BATCH_SIZE, DELIVERY_LEASE_MS);
+      if (claimResult.isErr()) return R.fail(claimResult.error);
+
+      const stats = { claimed: claimResult.value.length, delivered: 0, failed: 0 };
+
+      for (const item of claimResult.value) {
+        const attemptResult = await attempt(item);
+        if (attemptResult.isErr()) return R.fail(attemptResult.error);
+
+        if (attemptResult.value.status === "SUCCESS") stats.delivered++;
+        else stats.failed++;
+      }
+
+      return R.ok(stats);
+    },
+  };
+}
@@ -0,0 +1,290 @@
+import { and, arrayContains, asc, count, desc, eq, lte, sql } from "drizzle-orm";
+import type { Container } from "../../core/container/container.js";
+import type { Result } from "../../core/result/result.js";
+import { Result as R } from "../../core/result/result.js";
+import {
+  businesses,
+  tenants,
+  webhookDeliveries,
+  webhookSubscriptions,
+} from "../../shared/schemas/index.js";
+import type {
+  DueDeliveryRow,
+  WebhookDeliveryRow,
+  WebhookSubscriptionRow,
+} from "./types/models/models.js";
+
+export interface IWebhookRepository {
+  findById(id: string): Promise<Result<WebhookSubscriptionRow | null>>;
+  findAll(params: {
+    page: number;
+    limit: number;
+    tenantId?: string;
+    active?: boolean;
+  }): Promise<Result<{ data: WebhookSubscriptionRow[]; total: number }>>;
+  create(
+    data: Omit<WebhookSubscriptionRow, "id" | "active" | "createdAt" | "updatedAt">,
+  ): Promise<Result<WebhookSubscriptionRow>>;
+  update(
+    id: string,
+    data: Partial<Pick<WebhookSubscriptionRow, "url" | "eventTypes" | "description">>,
+  ): Promise<Result<WebhookSubscriptionRow>>;
+  softDelete(id: string): Promise<Result<void>>;
+  findTenantById(id: string): Promise<Result<{ id: string; active: boolean } | null>>;
+  findBusinessTenantId(businessId: string): Promise<Result<string | null>>;
+  /** Assinaturas ativas do tenant que escutam o tipo de evento */
+  findSubscribers(tenantId: string, eventType: string): Promise<Result<WebhookSubscriptionRow[]>>;
+
+  /** Enfileira entregas — ignora as que já existem para (assinatura, evento) */
+  enqueueDeliveries(
+    data: Pick<WebhookDeliveryRow, "subscriptionId" | "eventId" | "eventType" | "payload">[],
+  ): Promise<Result<number>>;
+  createDelivery(
+    data: Pick<WebhookDeliveryRow, "subscriptionId" | "eventId" | "eventType" | "payload">,
+  ): Promise<Result<WebhookDeliveryRow>>;
+  findDeliveryById(id: string): Promise<Result<WebhookDeliveryRow | null>>;
+  findDeliveries(params: {
+    subscriptionId: string;
+    page: number;
+    limit: number;
+    status?: WebhookDeliveryRow["status"];
+  }): Promise<Result<{ data: WebhookDeliveryRow[]; total: number }>>;
+  /**
+   * Reserva até `limit` entregas PENDING com tentativa devida (FOR UPDATE SKIP LOCKED),
+   * adiando next_attempt_at por `leaseMs` enquanto o envio acontece.
+   */
+  claimDue(limit: number, leaseMs: number): Promise<Result<DueDeliveryRow[]>>;
+  recordAttempt(
+    id: string,
+    data: Pick<
+      WebhookDeliveryRow,
+      "status" | "attempts" | "lastStatusCode" | "lastError" | "nextAttemptAt" | "deliveredAt"
+    >,
+  ): Promise<Result<WebhookDeliveryRow>>;
+}
+
+export function createWebhookRepository(container: Container): IWebhookRepository {
+  const { db } = container;
+
+  return {
+    async findById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(webhookSubscriptions)
+          .where(eq(webhookSubscriptions.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findAll(params) {
+      return R.fromAsync(async () => {
+        const conditions = [];
+        if (params.tenantId) {
+          conditions.push(eq(webhookSubscriptions.tenantId, params.tenantId));
+        }
+        if (params.active !== undefined) {
+          conditions.push(eq(webhookSubscriptions.active, params.active));
+        }
+
+        const where = conditions.length > 0 ? and(...conditions) : undefined;
+        const offset = (params.page - 1) * params.limit;
+
+        const [data, countResult] = await Promise.all([
+          db
+            .select()
+            .from(webhookSubscriptions)
+            .where(where)
+            .orderBy(desc(webhookSubscriptions.createdAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(webhookSubscriptions).where(where),
+        ]);
+
+        return { data, total: countResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async create(data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .insert(webhookSubscriptions)
+          .values({
+            tenantId: data.tenantId,
+            url: data.url,
+            secret: data.secret,
+            eventTypes: data.eventTypes,
+            description: data.description,
+            createdBy: data.createdBy,
+          })
+          .returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async update(id, data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(webhookSubscriptions)
+          .set({ ...data, updatedAt: sql`now()` })
+          .where(eq(webhookSubscriptions.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async softDelete(id) {
+      return R.fromAsync(async () => {
+        await db
+          .update(webhookSubscriptions)
+          .set({ active: false, updatedAt: sql`now()` })
+          .where(eq(webhookSubscriptions.id, id));
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findTenantById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ id: tenants.id, active: tenants.active })
+          .from(tenants)
+          .where(eq(tenants.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findBusinessTenantId(businessId) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select({ tenantId: businesses.tenantId })
+          .from(businesses)
+          .where(eq(businesses.id, businessId))
+          .limit(1);
+        return rows[0]?.tenantId ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findSubscribers(tenantId, eventType) {
+      return R.fromAsync(async () => {
+        return db
+          .select()
+          .from(webhookSubscriptions)
+          .where(
+            and(
+              eq(webhookSubscriptions.tenantId, tenantId),
+              eq(webhookSubscriptions.active, true),
+              arrayContains(webhookSubscriptions.eventTypes, [eventType]),
+            ),
+          );
+      }, "DB_QUERY_FAILED");
+    },
+
+    async enqueueDeliveries(data) {
+      return R.fromAsync(async () => {
+        if (data.length === 0) return 0;
+        const rows = await db
+          .insert(webhookDeliveries)
+          .values(data)
+          .onConflictDoNothing()
+          .returning({ id: webhookDeliveries.id });
+        return rows.length;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async createDelivery(data) {
+      return R.fromAsync(async () => {
+        const rows = await db.insert(webhookDeliveries).values(data).returning();
+        if (!rows[0]) throw new Error("Insert não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findDeliveryById(id) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .select()
+          .from(webhookDeliveries)
+          .where(eq(webhookDeliveries.id, id))
+          .limit(1);
+        return rows[0] ?? null;
+      }, "DB_QUERY_FAILED");
+    },
+
+    async findDeliveries(params) {
+      return R.fromAsync(async () => {
+        const conditions = [eq(webhookDeliveries.subscriptionId, params.subscriptionId)];
+        if (params.status) {
+          conditions.push(eq(webhookDeliveries.status, params.status));
+        }
+
+        const where = and(...conditions);
+        const offset = (params.page - 1) * params.limit;
+
+        const [data, countResult] = await Promise.all([
+          db
+            .select()
+            .from(webhookDeliveries)
+            .where(where)
+            .orderBy(desc(webhookDeliveries.createdAt))
+            .limit(params.limit)
+            .offset(offset),
+          db.select({ total: count() }).from(webhookDeliveries).where(where),
+        ]);
+
+        return { data, total: countResult[0]?.total ?? 0 };
+      }, "DB_QUERY_FAILED");
+    },
+
+    async claimDue(limit, leaseMs) {
+      return R.fromAsync(async () => {
+        return db.transaction(async (tx) => {
+          const rows = await tx
+            .select({
+              delivery: webhookDeliveries,
+              url: webhookSubscriptions.url,
+              secret: webhookSubscriptions.secret,
+            })
+            .from(webhookDeliveries)
+            .innerJoin(
+              webhookSubscriptions,
+              eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id),
+            )
+            .where(
+              and(
+                eq(webhookDeliveries.status, "PENDING"),
+                lte(webhookDeliveries.nextAttemptAt, sql`now()`),
+                eq(webhookSubscriptions.active, true),
+              ),
+            )
+            .orderBy(asc(webhookDeliveries.nextAttemptAt))
+            .limit(limit)
+            .for("update", { of: webhookDeliveries, skipLocked: true });
+
+          for (const row of rows) {
+            await tx
+              .update(webhookDeliveries)
+              .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+              .where(eq(webhookDeliveries.id, row.delivery.id));
+          }
+
+          return rows;
+        });
+      }, "DB_QUERY_FAILED");
+    },
+
+    async recordAttempt(id, data) {
+      return R.fromAsync(async () => {
+        const rows = await db
+          .update(webhookDeliveries)
+          .set(data)
+          .where(eq(webhookDeliveries.id, id))
+          .returning();
+        if (!rows[0]) throw new Error("Update não retornou registro");
+        return rows[0];
+      }, "DB_QUERY_FAILED");
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { logger } from "../../../core/logger/logger.js";
+import type { IWebhookService } from "../4_service.js";
+
+/** Worker que entrega os webhooks pendentes aos endpoints dos tenants */
+export interface IWebhookDeliveryJob {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Agenda `deliverDue` a cada `intervalMs` (e uma vez no startup).
+ * Cada rodada reserva as entregas com FOR UPDATE SKIP LOCKED, então várias
+ * instâncias podem rodar o worker sem enviar o mesmo evento em paralelo.
+ */
+export function createWebhookDeliveryJob(
+  service: IWebhookService,
+  intervalMs: number,
+): IWebhookDeliveryJob {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  async function tick(): Promise<void> {
+    // Evita sobreposição na mesma instância se uma rodada demorar mais que o intervalo
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await service.deliverDue();
+      if (result.isErr()) {
+        logger.error("Falha na entrega de webhooks", { error: result.error.message });
+        return;
+      }
+
+      if (result.value.claimed > 0) {
+        logger.info("Rodada de entrega de webhooks concluída", result.value);
+      }
+    } catch (err) {
+      logger.error("Erro inesperado na entrega de webhooks", {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    start() {
+      if (timer) return;
+      void tick();
+      timer = setInterval(() => void tick(), intervalMs);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+}
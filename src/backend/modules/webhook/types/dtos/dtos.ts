@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { paginationSchema } from "../../../../shared/dtos.js";
+import { domainEventTypes } from "../../../../shared/events.js";
+
+export { errorResponseSchema, messageResponseSchema } from "../../../../shared/dtos.js";
+export { paginationSchema };
+
+/** URL de destino — HTTPS obrigatório (HTTP apenas para localhost em desenvolvimento) */
+const webhookUrlSchema = z
+  .string()
+  .url("URL inválida")
+  .max(2048)
+  .refine(
+    (url) => url.startsWith("https://") || /^http:\/\/(localhost|127\.0\.0\.1)(:\d+)?\//.test(url),
+    "URL deve usar HTTPS",
+  );
+
+/** Lista de eventos assinados, sem repetição */
+const eventTypesSchema = z
+  .array(z.enum(domainEventTypes))
+  .min(1, "Informe ao menos um tipo de evento")
+  .refine((v) => new Set(v).size === v.length, "Tipos de evento não podem se repetir");
+
+// ========== WEBHOOK PROFILE (response) ==========
+
+/** Assinatura de webhook retornada nas respostas (o segredo só aparece na criação) */
+export const webhookProfileSchema = z.object({
+  id: z.string().uuid(),
+  tenantId: z.string().uuid(),
+  url: z.string(),
+  eventTypes: z.array(z.string()),
+  description: z.string().nullable(),
+  createdBy: z.string().uuid(),
+  active: z.boolean(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type WebhookProfile = z.infer<typeof webhookProfileSchema>;
+
+// ========== CREATE WEBHOOK ==========
+
+/** POST /api/webhooks — Request Body */
+export const createWebhookRequestSchema = z.object({
+  url: webhookUrlSchema,
+  eventTypes: eventTypesSchema,
+  description: z.string().max(255).optional(),
+  /** Apenas OWNER pode informar o tenantId; TENANT usa o próprio */
+  tenantId: z.string().uuid().optional(),
+});
+export type CreateWebhookRequest = z.infer<typeof createWebhookRequestSchema>;
+
+/** POST /api/webhooks — Response Body (o segredo só é exibido nesta resposta) */
+export const createWebhookResponseSchema = webhookProfileSchema.extend({
+  secret: z.string(),
+});
+export type CreateWebhookResponse = z.infer<typeof createWebhookResponseSchema>;
+
+// ========== UPDATE WEBHOOK ==========
+
+/** PATCH /api/webhooks/:id — Request Body */
+export const updateWebhookRequestSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  eventTypes: eventTypesSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+});
+export type UpdateWebhookRequest = z.infer<typeof updateWebhookRequestSchema>;
+
+// ========== LIST WEBHOOKS ==========
+
+/** GET /api/webhooks — Query Params */
+export const listWebhooksQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  tenantId: z.string().uuid().optional(),
+  active: z
+    .enum(["true", "false"])
+    .transform((v) => v === "true")
+    .optional(),
+});
+export type ListWebhooksQuery = z.infer<typeof listWebhooksQuerySchema>;
+
+/** GET /api/webhooks — Response Body */
+export const paginatedWebhooksResponseSchema = z.object({
+  data: z.array(webhookProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedWebhooksResponse = z.infer<typeof paginatedWebhooksResponseSchema>;
+
+// ========== DELIVERIES ==========
+
+const deliveryStatuses = ["PENDING", "SUCCESS", "FAILED"] as const;
+
+/** Entrega de webhook (log de tentativas) */
+export const webhookDeliveryProfileSchema = z.object({
+  id: z.string().uuid(),
+  subscriptionId: z.string().uuid(),
+  eventId: z.string().uuid().nullable(),
+  eventType: z.string(),
+  payload: z.unknown(),
+  status: z.enum(deliveryStatuses),
+  attempts: z.number().int(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  nextAttemptAt: z.string().datetime(),
+  deliveredAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+export type WebhookDeliveryProfile = z.infer<typeof webhookDeliveryProfileSchema>;
+
+/** GET /api/webhooks/:id/deliveries — Query Params */
+export const listWebhookDeliveriesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum(deliveryStatuses).optional(),
+});
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
+
+/** GET /api/webhooks/:id/deliveries — Response Body */
+export const paginatedWebhookDeliveriesResponseSchema = z.object({
+  data: z.array(webhookDeliveryProfileSchema),
+  pagination: paginationSchema,
+});
+export type PaginatedWebhookDeliveriesResponse = z.infer<
+  typeof paginatedWebhookDeliveriesResponseSchema
+>;
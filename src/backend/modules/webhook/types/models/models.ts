@@ -0,0 +1,36 @@
+/** Row do webhook_subscriptions retornada pelo Drizzle */
+export type WebhookSubscriptionRow = {
+  id: string;
+  tenantId: string;
+  url: string;
+  secret: string;
+  eventTypes: string[];
+  description: string | null;
+  createdBy: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Row do webhook_deliveries retornada pelo Drizzle */
+export type WebhookDeliveryRow = {
+  id: string;
+  subscriptionId: string;
+  eventId: string | null;
+  eventType: string;
+  payload: unknown;
+  status: "PENDING" | "SUCCESS" | "FAILED";
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: Date;
+  deliveredAt: Date | null;
+  createdAt: Date;
+};
+
+/** Entrega reservada pelo worker, com os dados da assinatura necessários ao envio */
+export type DueDeliveryRow = {
+  delivery: WebhookDeliveryRow;
+  url: string;
+  secret: string;
+};
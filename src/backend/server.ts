@@ -1,26 +1,54 @@
+import { createHash } from "node:crypto";
 import { serve } from "@hono/node-server";
 import { swaggerUI } from "@hono/swagger-ui";
 import { OpenAPIHono } from "@hono/zod-openapi";
 import { apiReference } from "@scalar/hono-api-reference";
 import { config } from "./core/config/config.js";
 import { type Container, registerModules } from "./core/container/container.js";
+import { hashPhone } from "./core/crypto/crypto.js";
 import { db } from "./core/db/connection.js";
 import { errorHandler } from "./core/error/error.handler.js";
+import { createEventBus } from "./core/events/event-bus.js";
 import { logger } from "./core/logger/logger.js";
 import { loggerMiddleware } from "./core/logger/logger.middleware.js";
 import { rateLimiter } from "./core/rate-limit/rate-limit.middleware.js";
 import { redis } from "./core/redis/connection.js";
 import { sessionGuard } from "./core/session/session.guard.js";
+import { createApiKeyGuard, createApiKeyModule } from "./modules/api-key/1_module.js";
 import { createAuthModule } from "./modules/auth/1_module.js";
 import { createAppointmentFeature } from "./modules/booking/appointment/1_feature.js";
 import { createAvailabilityFeature } from "./modules/booking/availability/1_feature.js";
-import { createScheduleFeature } from "./modules/booking/schedule/1_feature.js";
+import {
+  createCalendarImportFeature,
+  startCalendarImportSyncJob,
+} from "./modules/booking/calendar-import/1_feature.js";
+import { createCalendarFeature } from "./modules/booking/calendar/1_feature.js";
+import { createCustomerStandingFeature } from "./modules/booking/customer-standing/1_feature.js";
+import { createExportFeature } from "./modules/booking/export/1_feature.js";
+import {
+  createScheduleFeature,
+  startSlotGenerationJob,
+  startSlotHoldExpiryJob,
+} from "./modules/booking/schedule/1_feature.js";
+import {
+  createWaitlistFeature,
+  startWaitlistExpiryJob,
+} from "./modules/booking/waitlist/1_feature.js";
 import { createBusinessModule } from "./modules/business/1_module.js";
-import { createNotificationModule } from "./modules/notification/1_module.js";
+import { createNotificationTemplateModule } from "./modules/notification-template/1_module.js";
+import {
+  createNotificationModule,
+  startNotificationDispatchJob,
+  startReminderJob,
+} from "./modules/notification/1_module.js";
 import { createOperatorModule } from "./modules/operator/1_module.js";
+import { startOutboxRelay } from "./modules/outbox/1_module.js";
+import { createPublicModule } from "./modules/public/1_module.js";
+import { createReportModule } from "./modules/report/1_module.js";
 import { createServiceModule } from "./modules/services/1_module.js";
 import { createTenantModule } from "./modules/tenant/1_module.js";
 import { createUserModule } from "./modules/user/1_module.js";
+import { createWebhookModule, startWebhookDeliveryJob } from "./modules/webhook/1_module.js";
 
 const app = new OpenAPIHono();
 
@@ -32,8 +60,22 @@ app.use("*", loggerMiddleware);
 
 // Rate limiting em endpoints públicos (antes do auth)
 app.use(
-  "/api/auth/login",
-  rateLimiter({ redis, prefix: "login", windowMs: 60_000, maxRequests: 5 }),
+  "/api/auth/otp/*",
+  rateLimiter({ redis, prefix: "otp", windowMs: 60_000, maxRequests: 10 }),
+);
+app.use(
+  "/api/auth/otp/request",
+  rateLimiter({
+    redis,
+    prefix: "otp-phone",
+    windowMs: 600_000,
+    maxRequests: 3,
+    // Por telefone (hash) — o body é cacheado pelo Hono e reaproveitado na validação
+    keyGenerator: async (c) => {
+      const body = await c.req.json().catch(() => ({}));
+      return hashPhone(String(body?.phone ?? ""));
+    },
+  }),
 );
 app.use(
   "/api/auth/refresh",
@@ -43,6 +85,14 @@ app.use(
   "/api/users/owner/*",
   rateLimiter({ redis, prefix: "owner", windowMs: 60_000, maxRequests: 3 }),
 );
+app.use(
+  "/api/public/*",
+  rateLimiter({ redis, prefix: "public", windowMs: 60_000, maxRequests: 60 }),
+);
+app.use(
+  "/api/calendar/*",
+  rateLimiter({ redis, prefix: "calendar", windowMs: 60_000, maxRequests: 60 }),
+);
 
 // Health check (público)
 app.get("/health", (c) => {
@@ -50,19 +100,42 @@ app.get("/health", (c) => {
 });
 
 // Paths públicos (não exigem JWT)
-const publicPaths = ["/api/auth/login", "/api/auth/refresh"];
-const publicPrefixes = ["/api/users/owner", "/api/businesses/slug"];
+const publicPaths = ["/api/auth/otp/request", "/api/auth/otp/verify", "/api/auth/refresh"];
+const publicPrefixes = ["/api/users/owner", "/api/businesses/slug", "/api/public"];
+// Feeds ICS — apps de calendário não enviam JWT; o token assinado na query autentica
+const publicPatterns = [/^\/api\/calendar\/(operators|customers)\/[^/]+\.ics$/];
+
+// Container de dependências
+const container: Container = { db, redis, config, events: createEventBus() };
+
+// API keys de serviço (ex: bot n8n) — rate limit próprio por chave
+const apiKeyRateLimiter = rateLimiter({
+  redis,
+  prefix: "apikey",
+  windowMs: 60_000,
+  maxRequests: 120,
+  keyGenerator: (c) =>
+    createHash("sha256")
+      .update(c.req.header("X-Api-Key") ?? "")
+      .digest("hex"),
+});
+const apiKeyGuard = createApiKeyGuard(container);
 
 // Auth obrigatória nas rotas de API (exceto paths públicos)
+// X-Api-Key autentica em nome do cliente (X-Customer-Phone); senão, JWT
 app.use("/api/*", async (c, next) => {
   if (publicPaths.includes(c.req.path)) return next();
   if (publicPrefixes.some((p) => c.req.path.startsWith(p))) return next();
+  if (publicPatterns.some((p) => p.test(c.req.path))) return next();
+  if (c.req.header("X-Api-Key")) {
+    return apiKeyRateLimiter(c, async () => {
+      const res = await apiKeyGuard(c, next);
+      if (res) c.res = res;
+    });
+  }
   return sessionGuard(c, next);
 });
 
-// Container de dependências
-const container: Container = { db, redis, config };
-
 // Módulos
 registerModules(app, container, {
   "/api/auth": createAuthModule,
@@ -74,9 +147,45 @@ registerModules(app, container, {
   "/api/availability": createAvailabilityFeature,
   "/api/schedule": createScheduleFeature,
   "/api/appointments": createAppointmentFeature,
+  "/api/waitlist": createWaitlistFeature,
+  "/api/customer-standings": createCustomerStandingFeature,
+  "/api/reports": createReportModule,
+  "/api/exports": createExportFeature,
+  "/api/calendar": createCalendarFeature,
+  "/api/calendar-imports": createCalendarImportFeature,
   "/api/notifications": createNotificationModule,
+  "/api/notification-templates": createNotificationTemplateModule,
+  "/api/public": createPublicModule,
+  "/api/api-keys": createApiKeyModule,
+  "/api/webhooks": createWebhookModule,
 });
 
+// Workers em background
+if (config.OUTBOX_RELAY_ENABLED) {
+  startOutboxRelay(container);
+}
+if (config.SLOT_GENERATION_ENABLED) {
+  startSlotGenerationJob(container);
+}
+if (config.SLOT_HOLD_EXPIRY_ENABLED) {
+  startSlotHoldExpiryJob(container);
+}
+if (config.REMINDER_ENABLED) {
+  startReminderJob(container);
+}
+if (config.NOTIFICATION_DISPATCH_ENABLED) {
+  startNotificationDispatchJob(container);
+}
+if (config.WEBHOOK_DELIVERY_ENABLED) {
+  startWebhookDeliveryJob(container);
+}
+if (config.WAITLIST_ENABLED) {
+  startWaitlistExpiryJob(container);
+}
+if (config.CALENDAR_IMPORT_ENABLED) {
+  startCalendarImportSyncJob(container);
+}
+
 // Security schemes para rotas protegidas
 app.openAPIRegistry.registerComponent("securitySchemes", "Bearer", {
   type: "http",
@@ -92,6 +201,14 @@ app.openAPIRegistry.registerComponent("securitySchemes", "AdminKey", {
   description: "Chave administrativa para gerenciamento de owners",
 });
 
+app.openAPIRegistry.registerComponent("securitySchemes", "ApiKey", {
+  type: "apiKey",
+  in: "header",
+  name: "X-Api-Key",
+  description:
+    "API key de serviço (ex: bot n8n). Requer X-Customer-Phone; a requisição age em nome do cliente (USER)",
+});
+
 // OpenAPI spec (JSON)
 app.doc("/openapi.json", {
   openapi: "3.1.0",
@@ -0,0 +1,102 @@
+/**
+ * Eventos de domínio publicados pelo outbox.
+ * O mapa `DomainEvents` tipa o payload de cada evento — subscribers registrados via
+ * `container.events.subscribe("appointment.created", ...)` recebem o payload correto.
+ */
+
+/** Estado do agendamento no momento do evento */
+export type AppointmentEventPayload = {
+  appointmentId: string;
+  userId: string;
+  operatorId: string;
+  businessId: string;
+  serviceId: string;
+  status: "PENDING" | "CONFIRMED" | "CANCELLED" | "COMPLETED" | "NO_SHOW";
+  /** ISO 8601 (UTC) */
+  scheduledAt: string;
+  durationMinutes: number;
+  priceCents: number;
+};
+
+/** Horário liberado oferecido a um cliente da lista de espera */
+export type WaitlistOfferEventPayload = {
+  offerId: string;
+  entryId: string;
+  /** Cliente que recebeu a oferta */
+  userId: string;
+  businessId: string;
+  serviceId: string;
+  operatorId: string;
+  /** Agendamento cancelado que liberou o horário */
+  appointmentId: string;
+  /** ISO 8601 (UTC) */
+  scheduledAt: string;
+  /** ISO 8601 (UTC) — prazo para aceitar */
+  expiresAt: string;
+};
+
+export type DomainEvents = {
+  "appointment.created": AppointmentEventPayload;
+  "appointment.confirmed": AppointmentEventPayload;
+  "appointment.cancelled": AppointmentEventPayload;
+  "appointment.completed": AppointmentEventPayload;
+  "appointment.no_show": AppointmentEventPayload;
+  "appointment.rescheduled": AppointmentEventPayload & {
+    previousOperatorId: string;
+    /** ISO 8601 (UTC) */
+    previousScheduledAt: string;
+  };
+  "waitlist.offered": WaitlistOfferEventPayload;
+};
+
+export type DomainEventType = keyof DomainEvents;
+
+/** Todos os tipos de evento conhecidos (para validação e documentação) */
+export const domainEventTypes = [
+  "appointment.created",
+  "appointment.confirmed",
+  "appointment.cancelled",
+  "appointment.completed",
+  "appointment.no_show",
+  "appointment.rescheduled",
+  "waitlist.offered",
+] as const satisfies readonly DomainEventType[];
+
+/** Envelope publicado pelo relay */
+export type DomainEvent<K extends DomainEventType = DomainEventType> = {
+  [T in K]: {
+    /** Id do registro no outbox */
+    id: string;
+    type: T;
+    aggregateType: string;
+    aggregateId: string;
+    /** ISO 8601 (UTC) */
+    occurredAt: string;
+    payload: DomainEvents[T];
+  };
+}[K];
+
+/** Monta o payload a partir de uma linha de appointments */
+export function toAppointmentEventPayload(row: {
+  id: string;
+  userId: string;
+  operatorId: string;
+  businessId: string;
+  serviceId: string;
+  status: AppointmentEventPayload["status"];
+  scheduledAt: Date;
+  durationMinutes: number;
+  priceCents: number;
+}): AppointmentEventPayload {
+  return {
+    appointmentId: row.id,
+    userId: row.userId,
+    operatorId: row.operatorId,
+    businessId: row.businessId,
+    serviceId: row.serviceId,
+    status: row.status,
+    scheduledAt: row.scheduledAt.toISOString(),
+    durationMinutes: row.durationMinutes,
+    priceCents: row.priceCents,
+  };
+}
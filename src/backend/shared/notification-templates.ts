@@ -0,0 +1,121 @@
+/**
+ * Templates de notificação: placeholders, idiomas suportados e textos padrão.
+ * Usado pelo módulo de templates (validação/preview) e pelo de notificações (renderização).
+ *
+ * Uso:
+ * ```ts
+ * renderTemplate("Olá {{customerName}}!", variables); // "Olá Maria!"
+ * ```
+ */
+import type { notificationTypeEnum } from "./schema.js";
+
+type NotificationType = (typeof notificationTypeEnum.enumValues)[number];
+
+/** Idiomas com textos padrão e formatação de data */
+export const supportedLocales = ["pt-BR", "en-US", "es-ES"] as const;
+export type Locale = (typeof supportedLocales)[number];
+
+/** Placeholders aceitos nos templates — ex: "{{customerName}}" */
+export const templateVariableNames = [
+  "customerName",
+  "serviceName",
+  "scheduledAtLocal",
+  "operatorDisplayName",
+] as const;
+export type TemplateVariables = Record<(typeof templateVariableNames)[number], string>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+/** Placeholders do texto que não existem em `templateVariableNames` */
+export function findUnknownPlaceholders(text: string): string[] {
+  const known: readonly string[] = templateVariableNames;
+  const unknown = [...text.matchAll(PLACEHOLDER)]
+    .map((match) => match[1] ?? "")
+    .filter((name) => !known.includes(name));
+  return [...new Set(unknown)];
+}
+
+/** Substitui os placeholders pelos valores (placeholders desconhecidos ficam como estão) */
+export function renderTemplate(text: string, variables: TemplateVariables): string {
+  return text.replace(PLACEHOLDER, (match, name: string) =>
+    name in variables ? variables[name as keyof TemplateVariables] : match,
+  );
+}
+
+/** Restringe um valor livre (coluna varchar) aos idiomas suportados */
+export function toLocale(value: string): Locale {
+  return (supportedLocales as readonly string[]).includes(value) ? (value as Locale) : "pt-BR";
+}
+
+/** Textos usados quando o business não tem template para o tipo × canal */
+export const defaultTemplates: Record<
+  Locale,
+  Record<NotificationType, { subject: string; body: string }>
+> = {
+  "pt-BR": {
+    CONFIRMATION: {
+      subject: "Agendamento confirmado",
+      body: "Olá {{customerName}}, seu agendamento de {{serviceName}} com {{operatorDisplayName}} em {{scheduledAtLocal}} está confirmado.",
+    },
+    REMINDER: {
+      subject: "Lembrete de agendamento",
+      body: "Lembrete: seu agendamento de {{serviceName}} com {{operatorDisplayName}} é em {{scheduledAtLocal}}.",
+    },
+    CANCELLATION: {
+      subject: "Agendamento cancelado",
+      body: "Olá {{customerName}}, seu agendamento de {{serviceName}} em {{scheduledAtLocal}} foi cancelado.",
+    },
+    RESCHEDULE: {
+      subject: "Agendamento remarcado",
+      body: "Olá {{customerName}}, seu agendamento de {{serviceName}} foi remarcado para {{scheduledAtLocal}} com {{operatorDisplayName}}.",
+    },
+    WAITLIST_OFFER: {
+      subject: "Horário disponível",
+      body: "Olá {{customerName}}, abriu um horário de {{serviceName}} com {{operatorDisplayName}} em {{scheduledAtLocal}}. Ele está reservado para você por tempo limitado — confirme para garantir.",
+    },
+  },
+  "en-US": {
+    CONFIRMATION: {
+      subject: "Appointment confirmed",
+      body: "Hi {{customerName}}, your {{serviceName}} appointment with {{operatorDisplayName}} on {{scheduledAtLocal}} is confirmed.",
+    },
+    REMINDER: {
+      subject: "Appointment reminder",
+      body: "Reminder: your {{serviceName}} appointment with {{operatorDisplayName}} is on {{scheduledAtLocal}}.",
+    },
+    CANCELLATION: {
+      subject: "Appointment cancelled",
+      body: "Hi {{customerName}}, your {{serviceName}} appointment on {{scheduledAtLocal}} has been cancelled.",
+    },
+    RESCHEDULE: {
+      subject: "Appointment rescheduled",
+      body: "Hi {{customerName}}, your {{serviceName}} appointment has been moved to {{scheduledAtLocal}} with {{operatorDisplayName}}.",
+    },
+    WAITLIST_OFFER: {
+      subject: "A time slot is available",
+      body: "Hi {{customerName}}, a {{serviceName}} slot with {{operatorDisplayName}} opened up on {{scheduledAtLocal}}. It is held for you for a limited time — confirm to book it.",
+    },
+  },
+  "es-ES": {
+    CONFIRMATION: {
+      subject: "Cita confirmada",
+      body: "Hola {{customerName}}, tu cita de {{serviceName}} con {{operatorDisplayName}} el {{scheduledAtLocal}} está confirmada.",
+    },
+    REMINDER: {
+      subject: "Recordatorio de cita",
+      body: "Recordatorio: tu cita de {{serviceName}} con {{operatorDisplayName}} es el {{scheduledAtLocal}}.",
+    },
+    CANCELLATION: {
+      subject: "Cita cancelada",
+      body: "Hola {{customerName}}, tu cita de {{serviceName}} del {{scheduledAtLocal}} ha sido cancelada.",
+    },
+    RESCHEDULE: {
+      subject: "Cita reprogramada",
+      body: "Hola {{customerName}}, tu cita de {{serviceName}} se ha movido al {{scheduledAtLocal}} con {{operatorDisplayName}}.",
+    },
+    WAITLIST_OFFER: {
+      subject: "Horario disponible",
+      body: "Hola {{customerName}}, se liberó un horario de {{serviceName}} con {{operatorDisplayName}} el {{scheduledAtLocal}}. Está reservado para ti por tiempo limitado — confírmalo para reservarlo.",
+    },
+  },
+};
@@ -25,6 +25,7 @@ export const slotStatusEnum = chatBookingSchema.enum("slot_status", [
   "AVAILABLE", // Livre para agendamento
   "BOOKED", // Ocupado por um agendamento
   "BLOCKED", // Bloqueado manualmente (folga, pausa, etc.)
+  "HELD", // Reservado temporariamente (checkout no chat ou oferta da lista de espera)
 ]);
 
 /** Tipo de notificação enviada ao usuário */
@@ -33,6 +34,7 @@ export const notificationTypeEnum = chatBookingSchema.enum("notification_type",
   "REMINDER", // Lembrete antes do horário
   "CANCELLATION", // Aviso de cancelamento
   "RESCHEDULE", // Aviso de reagendamento
+  "WAITLIST_OFFER", // Horário liberado oferecido a cliente da lista de espera
 ]);
 
 /** Canal de envio da notificação */
@@ -46,5 +48,108 @@ export const notificationChannelEnum = chatBookingSchema.enum("notification_chan
 export const notificationStatusEnum = chatBookingSchema.enum("notification_status", [
   "PENDING", // Aguardando envio
   "SENT", // Enviada com sucesso
-  "FAILED", // Falha no envio
+  "FAILED", // Falha no envio — nova tentativa agendada em next_attempt_at
+  "DEAD_LETTER", // Tentativas esgotadas ou falha definitiva — não será reenviada automaticamente
+]);
+
+/** Tipo de exceção de disponibilidade em uma data específica */
+export const availabilityExceptionTypeEnum = chatBookingSchema.enum("availability_exception_type", [
+  "CLOSED", // Fechado o dia inteiro (feriado, folga)
+  "CUSTOM_HOURS", // Horário especial — substitui as regras semanais do dia
+]);
+
+/** Status de entrega de um webhook */
+export const webhookDeliveryStatusEnum = chatBookingSchema.enum("webhook_delivery_status", [
+  "PENDING", // Aguardando envio ou nova tentativa (next_attempt_at)
+  "SUCCESS", // Endpoint respondeu 2xx
+  "FAILED", // Tentativas esgotadas
+]);
+
+/** Status de uma inscrição na lista de espera */
+export const waitlistEntryStatusEnum = chatBookingSchema.enum("waitlist_entry_status", [
+  "ACTIVE", // Aguardando um horário
+  "OFFERED", // Com oferta pendente de resposta
+  "FULFILLED", // Oferta aceita — agendamento criado
+  "CANCELLED", // Cancelada pelo cliente ou pelo estabelecimento
+  "EXPIRED", // Período de interesse já passou
+]);
+
+/** Status de uma oferta de horário da lista de espera */
+export const waitlistOfferStatusEnum = chatBookingSchema.enum("waitlist_offer_status", [
+  "PENDING", // Slots reservados aguardando o cliente
+  "CLAIMED", // Cliente aceitou — agendamento criado
+  "EXPIRED", // Prazo esgotado (ou inscrição cancelada) — slots liberados
+]);
+
+/** Status de uma reserva temporária de slot durante o checkout no chat */
+export const slotHoldStatusEnum = chatBookingSchema.enum("slot_hold_status", [
+  "ACTIVE", // Slot HELD aguardando o agendamento
+  "CONVERTED", // Convertida em agendamento
+  "EXPIRED", // TTL esgotado ou substituída por outra reserva — slot liberado
+]);
+
+/** Situação do cliente em um business, derivada de no-shows e cancelamentos tardios */
+export const customerStandingStatusEnum = chatBookingSchema.enum("customer_standing_status", [
+  "GOOD", // Sem restrições
+  "RESTRICTED", // Novos agendamentos exigem depósito antes da confirmação pela equipe
+  "BLOCKED", // Não pode agendar nem entrar na lista de espera do business
+]);
+
+/** Transição registrada no histórico de um agendamento */
+export const appointmentEventTypeEnum = chatBookingSchema.enum("appointment_event_type", [
+  "CREATED", // Agendamento criado (PENDING)
+  "CONFIRMED", // PENDING → CONFIRMED
+  "RESCHEDULED", // Movido para outro horário/operador (status mantido)
+  "CANCELLED", // PENDING/CONFIRMED → CANCELLED
+  "COMPLETED", // CONFIRMED → COMPLETED
+  "NO_SHOW", // CONFIRMED → NO_SHOW
+]);
+
+/** Quem cancelou um agendamento */
+export const cancellationActorEnum = chatBookingSchema.enum("cancellation_actor", [
+  "CUSTOMER", // O próprio cliente do agendamento
+  "OPERATOR", // Profissional que atenderia
+  "TENANT", // Gestão do estabelecimento
+  "OWNER", // Administração da plataforma
+  "SYSTEM", // Processo automático
+]);
+
+/** Motivo padronizado de cancelamento (detalhes em texto livre ficam em cancellation_reason) */
+export const cancellationReasonCodeEnum = chatBookingSchema.enum("cancellation_reason_code", [
+  "CUSTOMER_REQUEST", // Cliente desistiu ou pediu o cancelamento
+  "SCHEDULE_CONFLICT", // Conflito de agenda do cliente
+  "ILLNESS", // Doença ou emergência
+  "OPERATOR_UNAVAILABLE", // Profissional indisponível
+  "BUSINESS_CLOSURE", // Estabelecimento fechado (feriado, manutenção)
+  "DUPLICATE", // Agendamento duplicado
+  "OTHER", // Outro motivo
+]);
+
+/** Dono de um feed de calendário (ICS) */
+export const calendarFeedTypeEnum = chatBookingSchema.enum("calendar_feed_type", [
+  "OPERATOR", // Agenda do operador: agendamentos e horários bloqueados
+  "CUSTOMER", // Agendamentos do cliente em todos os businesses
+]);
+
+/** Origem de uma agenda externa importada */
+export const calendarImportSourceEnum = chatBookingSchema.enum("calendar_import_source", [
+  "URL", // Baixada periodicamente (https, webcal ou file fora de produção)
+  "UPLOAD", // Conteúdo ICS enviado pela API
+]);
+
+/** Frequência de uma série de agendamentos recorrentes */
+export const appointmentSeriesFrequencyEnum = chatBookingSchema.enum(
+  "appointment_series_frequency",
+  [
+    "WEEKLY", // Toda semana, no mesmo dia da semana
+    "BIWEEKLY", // A cada duas semanas
+    "MONTHLY", // Todo mês, no mesmo dia do mês
+  ],
+);
+
+/** Situação de um evento do outbox */
+export const outboxEventStatusEnum = chatBookingSchema.enum("outbox_event_status", [
+  "PENDING", // Aguardando publicação ou nova tentativa (next_attempt_at)
+  "PUBLISHED", // Publicado no bus local ou no Redis Stream
+  "FAILED", // Tentativas esgotadas — não é mais publicado
 ]);
@@ -0,0 +1,62 @@
+import { index, integer, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { chatBookingSchema } from "../schema.js";
+import { businesses } from "./businesses.js";
+import { tenants } from "./tenants.js";
+import { users } from "./users.js";
+
+/** API keys — credenciais de máquina (ex: bot n8n) que agem em nome de um cliente */
+export const apiKeys = chatBookingSchema.table(
+  "api_keys",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Tenant dono da chave */
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id),
+    /** Business ao qual a chave está restrita (null = todas as businesses do tenant) */
+    businessId: uuid("business_id").references(() => businesses.id),
+    /** Nome descritivo — ex: "Bot WhatsApp n8n" */
+    name: varchar("name", { length: 255 }).notNull(),
+    /** Primeiros caracteres da chave, para identificação visual (não é segredo) */
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    /** Hash SHA-256 da chave — a chave em texto plano nunca é armazenada */
+    keyHash: varchar("key_hash", { length: 64 }).notNull().unique(),
+    /** Usuário que criou a chave */
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    /** Último uso bem-sucedido */
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    /** Timestamp da revogação (null = ativa) */
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_api_keys_tenant_id").on(t.tenantId)],
+);
+
+/** Trilha de auditoria — uma linha por requisição autenticada via API key */
+export const apiKeyAuditLogs = chatBookingSchema.table(
+  "api_key_audit_logs",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Chave usada na requisição */
+    apiKeyId: uuid("api_key_id")
+      .notNull()
+      .references(() => apiKeys.id),
+    /** Cliente em nome de quem a chave agiu */
+    userId: uuid("user_id").references(() => users.id),
+    /** Método HTTP — ex: "POST" */
+    method: varchar("method", { length: 10 }).notNull(),
+    /** Path da requisição — ex: "/api/appointments" */
+    path: varchar("path", { length: 500 }).notNull(),
+    /** Status HTTP da resposta */
+    status: integer("status").notNull(),
+    /** Correlation ID do loggerMiddleware */
+    correlationId: varchar("correlation_id", { length: 100 }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_api_key_audit_logs_api_key_created").on(t.apiKeyId, t.createdAt)],
+);
@@ -1,11 +1,74 @@
-import { index, integer, text, timestamp, uuid } from "drizzle-orm/pg-core";
-import { appointmentStatusEnum, chatBookingSchema } from "../schema.js";
+import {
+  boolean,
+  date,
+  index,
+  integer,
+  jsonb,
+  text,
+  time,
+  timestamp,
+  unique,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import {
+  appointmentEventTypeEnum,
+  appointmentSeriesFrequencyEnum,
+  appointmentStatusEnum,
+  cancellationActorEnum,
+  cancellationReasonCodeEnum,
+  chatBookingSchema,
+  userRoleEnum,
+} from "../schema.js";
 import { businesses } from "./businesses.js";
 import { operators } from "./operators.js";
 import { scheduleSlots } from "./schedule-slots.js";
 import { services } from "./services.js";
 import { users } from "./users.js";
 
+/**
+ * Série de agendamentos recorrentes — mesmo cliente, operador, serviço e horário local.
+ * Cada ocorrência é um agendamento comum vinculado pela coluna series_id.
+ */
+export const appointmentSeries = chatBookingSchema.table(
+  "appointment_series",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Cliente das ocorrências */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Profissional que atende todas as ocorrências */
+    operatorId: uuid("operator_id")
+      .notNull()
+      .references(() => operators.id),
+    /** Estabelecimento onde os atendimentos ocorrem */
+    businessId: uuid("business_id")
+      .notNull()
+      .references(() => businesses.id),
+    /** Serviço contratado em cada ocorrência */
+    serviceId: uuid("service_id")
+      .notNull()
+      .references(() => services.id),
+    /** Intervalo entre as ocorrências */
+    frequency: appointmentSeriesFrequencyEnum("frequency").notNull(),
+    /** Data da primeira ocorrência (timezone do business) */
+    startDate: date("start_date").notNull(),
+    /** Horário local de início de todas as ocorrências */
+    startTime: time("start_time").notNull(),
+    /** Quantidade de ocorrências pedida (null quando limitada por until_date) */
+    occurrences: integer("occurrences"),
+    /** Última data possível (inclusiva; null quando limitada por occurrences) */
+    untilDate: date("until_date"),
+    /** Timestamp do cancelamento da série inteira (null se ativa) */
+    cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_appointment_series_user_id").on(t.userId)],
+);
+
 /** Agendamento — registro de um atendimento entre usuário e operador */
 export const appointments = chatBookingSchema.table(
   "appointments",
@@ -38,10 +101,22 @@ export const appointments = chatBookingSchema.table(
     priceCents: integer("price_cents").notNull(),
     /** Status do ciclo de vida: PENDING → CONFIRMED → COMPLETED / CANCELLED / NO_SHOW */
     status: appointmentStatusEnum("status").notNull().default("PENDING"),
+    /** Série recorrente de que o agendamento faz parte (null para agendamento avulso) */
+    seriesId: uuid("series_id").references(() => appointmentSeries.id),
     /** Observações livres do cliente ou operador */
     notes: text("notes"),
+    /** Cliente estava RESTRICTED ao agendar — a equipe deve cobrar depósito antes de confirmar */
+    depositRequired: boolean("deposit_required").notNull().default(false),
     /** Timestamp de quando foi cancelado (null se não cancelado) */
     cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    /** Usuário que cancelou (null se não cancelado ou cancelado pelo sistema) */
+    cancelledBy: uuid("cancelled_by").references(() => users.id),
+    /** Quem cancelou: cliente, operador, gestão ou sistema */
+    cancellationActor: cancellationActorEnum("cancellation_actor"),
+    /** Motivo padronizado do cancelamento */
+    cancellationReasonCode: cancellationReasonCodeEnum("cancellation_reason_code"),
+    /** Detalhes do motivo em texto livre */
+    cancellationReason: text("cancellation_reason"),
     /** Timestamp de quando foi concluído (null se não concluído) */
     completedAt: timestamp("completed_at", { withTimezone: true }),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -51,5 +126,100 @@ export const appointments = chatBookingSchema.table(
     index("idx_appointments_user_id").on(t.userId),
     index("idx_appointments_operator_id").on(t.operatorId),
     index("idx_appointments_business_id").on(t.businessId),
+    index("idx_appointments_business_cancellation").on(t.businessId, t.cancellationReasonCode),
+    index("idx_appointments_business_scheduled").on(t.businessId, t.scheduledAt),
+    index("idx_appointments_series_id").on(t.seriesId),
   ],
 );
+
+/** Slots ocupados por um agendamento — todos os slots contíguos que cobrem a duração do serviço */
+export const appointmentSlots = chatBookingSchema.table(
+  "appointment_slots",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Agendamento dono do slot */
+    appointmentId: uuid("appointment_id")
+      .notNull()
+      .references(() => appointments.id),
+    /** Slot reservado */
+    slotId: uuid("slot_id")
+      .notNull()
+      .references(() => scheduleSlots.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_appointment_slots_slot_id").on(t.slotId),
+    unique("uq_appointment_slots_appointment_slot").on(t.appointmentId, t.slotId),
+  ],
+);
+
+/** Histórico de remarcações — cada troca de slot de um agendamento */
+export const appointmentReschedules = chatBookingSchema.table(
+  "appointment_reschedules",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Agendamento remarcado */
+    appointmentId: uuid("appointment_id")
+      .notNull()
+      .references(() => appointments.id),
+    /** Slot anterior (nullable para agendamentos legados sem slot) */
+    fromSlotId: uuid("from_slot_id").references(() => scheduleSlots.id),
+    /** Novo slot */
+    toSlotId: uuid("to_slot_id")
+      .notNull()
+      .references(() => scheduleSlots.id),
+    /** Operador anterior */
+    fromOperatorId: uuid("from_operator_id")
+      .notNull()
+      .references(() => operators.id),
+    /** Novo operador */
+    toOperatorId: uuid("to_operator_id")
+      .notNull()
+      .references(() => operators.id),
+    /** Data/hora agendada antes da remarcação */
+    fromScheduledAt: timestamp("from_scheduled_at", { withTimezone: true }).notNull(),
+    /** Data/hora agendada após a remarcação */
+    toScheduledAt: timestamp("to_scheduled_at", { withTimezone: true }).notNull(),
+    /** Usuário que solicitou a remarcação */
+    rescheduledBy: uuid("rescheduled_by")
+      .notNull()
+      .references(() => users.id),
+    /** Motivo informado (opcional) */
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_appointment_reschedules_appointment_id").on(t.appointmentId)],
+);
+
+/** Histórico de transições do agendamento — quem fez, quando, por quê e em qual request */
+export const appointmentEvents = chatBookingSchema.table(
+  "appointment_events",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Agendamento afetado */
+    appointmentId: uuid("appointment_id")
+      .notNull()
+      .references(() => appointments.id),
+    /** Transição realizada */
+    type: appointmentEventTypeEnum("type").notNull(),
+    /** Status antes da transição (null na criação) */
+    fromStatus: appointmentStatusEnum("from_status"),
+    /** Status após a transição */
+    toStatus: appointmentStatusEnum("to_status").notNull(),
+    /** Usuário que realizou a transição (null para ações do sistema) */
+    actorUserId: uuid("actor_user_id").references(() => users.id),
+    /** Role do usuário no momento da ação (null para ações do sistema) */
+    actorRole: userRoleEnum("actor_role"),
+    /** Motivo informado (cancelamento, remarcação) */
+    reason: text("reason"),
+    /** Correlation ID do request que originou a transição (header X-Correlation-ID) */
+    correlationId: varchar("correlation_id", { length: 100 }),
+    /** Detalhes específicos da transição — ex: horário/operador anterior na remarcação */
+    metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_appointment_events_appointment_created").on(t.appointmentId, t.createdAt)],
+);
@@ -0,0 +1,42 @@
+import { sql } from "drizzle-orm";
+import { boolean, check, date, index, text, time, timestamp, uuid } from "drizzle-orm/pg-core";
+import { availabilityExceptionTypeEnum, chatBookingSchema } from "../schema.js";
+import { businesses } from "./businesses.js";
+import { operators } from "./operators.js";
+
+/** Exceções de disponibilidade por data — feriados, folgas e horários especiais */
+export const availabilityExceptions = chatBookingSchema.table(
+  "availability_exceptions",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Business ao qual a exceção pertence */
+    businessId: uuid("business_id")
+      .notNull()
+      .references(() => businesses.id),
+    /** Operador afetado — null aplica a exceção a todos os operadores do business */
+    operatorId: uuid("operator_id").references(() => operators.id),
+    /** Data da exceção — ex: "2026-12-24" */
+    date: date("date").notNull(),
+    /** CLOSED (sem atendimento) ou CUSTOM_HOURS (horário especial) */
+    type: availabilityExceptionTypeEnum("type").notNull(),
+    /** Início do horário especial (apenas CUSTOM_HOURS) — ex: "08:00" */
+    startTime: time("start_time"),
+    /** Fim do horário especial (apenas CUSTOM_HOURS) — ex: "12:00" */
+    endTime: time("end_time"),
+    /** Motivo livre — ex: "Natal", "Férias" */
+    reason: text("reason"),
+    /** Soft delete — false desativa a exceção sem remover */
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_availability_exceptions_business_date").on(t.businessId, t.date),
+    index("idx_availability_exceptions_operator_date").on(t.operatorId, t.date),
+    check(
+      "chk_availability_exceptions_hours",
+      sql`(${t.type} = 'CLOSED') OR (${t.startTime} IS NOT NULL AND ${t.endTime} IS NOT NULL AND ${t.startTime} < ${t.endTime})`,
+    ),
+  ],
+);
@@ -1,8 +1,16 @@
 import { sql } from "drizzle-orm";
-import { boolean, check, index, integer, time, timestamp, uuid } from "drizzle-orm/pg-core";
+import { boolean, check, index, integer, jsonb, time, timestamp, uuid } from "drizzle-orm/pg-core";
 import { chatBookingSchema } from "../schema.js";
 import { operators } from "./operators.js";
 
+/** Intervalo dentro do expediente em que não são gerados slots — ex: almoço */
+export type AvailabilityBreak = {
+  /** Início do intervalo — ex: "12:00" */
+  startTime: string;
+  /** Fim do intervalo — ex: "13:00" */
+  endTime: string;
+};
+
 /** Regras de disponibilidade recorrente — define os horários semanais do operador */
 export const availabilityRules = chatBookingSchema.table(
   "availability_rules",
@@ -19,6 +27,8 @@ export const availabilityRules = chatBookingSchema.table(
     startTime: time("start_time").notNull(),
     /** Hora de fim do expediente — ex: "18:00" */
     endTime: time("end_time").notNull(),
+    /** Intervalos (pausas) dentro do expediente — ex: [{ startTime: "12:00", endTime: "13:00" }] */
+    breaks: jsonb("breaks").$type<AvailabilityBreak[]>().notNull().default([]),
     /** Soft delete — false desativa a regra sem remover */
     active: boolean("active").notNull().default(true),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
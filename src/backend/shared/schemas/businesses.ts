@@ -1,4 +1,13 @@
-import { boolean, index, jsonb, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  text,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
 import { chatBookingSchema } from "../schema.js";
 import { tenants } from "./tenants.js";
 
@@ -38,6 +47,31 @@ export const businesses = chatBookingSchema.table(
     socialLinks: jsonb("social_links"),
     /** Fuso horário IANA do negócio — ex: "America/Sao_Paulo" */
     timezone: varchar("timezone", { length: 100 }).notNull().default("America/Sao_Paulo"),
+    /** Quantos dias à frente o worker mantém os slots gerados */
+    slotHorizonDays: integer("slot_horizon_days").notNull().default(14),
+    /** Duração dos slots gerados automaticamente (em minutos) */
+    slotDurationMinutes: integer("slot_duration_minutes").notNull().default(30),
+    /** Antecedências (em minutos) dos lembretes enviados antes do agendamento — ex: [1440, 120] = 24h e 2h */
+    reminderOffsetsMinutes: integer("reminder_offsets_minutes")
+      .array()
+      .notNull()
+      .default([1440, 120]),
+    /** Idioma das mensagens enviadas aos clientes — ex: "pt-BR" */
+    locale: varchar("locale", { length: 10 }).notNull().default("pt-BR"),
+    /** Antecedência mínima (em minutos) para o cliente agendar — 0 = sem restrição */
+    minBookingLeadMinutes: integer("min_booking_lead_minutes").notNull().default(0),
+    /** Aviso mínimo (em minutos) para o cliente cancelar ou remarcar — 0 = sem restrição */
+    minCancelNoticeMinutes: integer("min_cancel_notice_minutes").notNull().default(0),
+    /** Até quantos dias à frente o cliente pode agendar — null = sem limite */
+    maxBookingWindowDays: integer("max_booking_window_days"),
+    /** Máximo de agendamentos ativos (PENDING/CONFIRMED) por cliente — null = sem limite */
+    maxActiveAppointmentsPerCustomer: integer("max_active_appointments_per_customer"),
+    /** Cancelamento pelo cliente a menos de X minutos do horário conta como tardio — 0 = não conta */
+    lateCancellationWindowMinutes: integer("late_cancellation_window_minutes").notNull().default(0),
+    /** Incidentes (no-shows + cancelamentos tardios) que tornam o cliente RESTRICTED — null = nunca */
+    restrictAfterIncidents: integer("restrict_after_incidents"),
+    /** Incidentes que bloqueiam o cliente no business — null = nunca */
+    blockAfterIncidents: integer("block_after_incidents"),
     /** Soft delete — false oculta o negócio para novos agendamentos */
     active: boolean("active").notNull().default(true),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -0,0 +1,33 @@
+import { index, timestamp, uuid } from "drizzle-orm/pg-core";
+import { calendarFeedTypeEnum, chatBookingSchema } from "../schema.js";
+import { operators } from "./operators.js";
+import { users } from "./users.js";
+
+/**
+ * Feeds ICS assináveis por apps de calendário. A URL leva um token assinado
+ * (HMAC do id do feed) — revogar o feed invalida a URL sem afetar outros feeds.
+ */
+export const calendarFeeds = chatBookingSchema.table(
+  "calendar_feeds",
+  {
+    /** Identificador único (UUID v4) — parte pública do token */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** OPERATOR (agenda do operador) ou CUSTOMER (agendamentos do cliente) */
+    type: calendarFeedTypeEnum("type").notNull(),
+    /** Operador do feed (type = OPERATOR) */
+    operatorId: uuid("operator_id").references(() => operators.id),
+    /** Cliente do feed (type = CUSTOMER) */
+    userId: uuid("user_id").references(() => users.id),
+    /** Usuário que gerou o feed */
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    /** Timestamp da revogação (null = ativo) */
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_calendar_feeds_operator_id").on(t.operatorId),
+    index("idx_calendar_feeds_user_id").on(t.userId),
+  ],
+);
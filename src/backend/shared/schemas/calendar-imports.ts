@@ -0,0 +1,93 @@
+import { boolean, index, jsonb, text, timestamp, unique, uuid, varchar } from "drizzle-orm/pg-core";
+import { calendarImportSourceEnum, chatBookingSchema } from "../schema.js";
+import { operators } from "./operators.js";
+import { scheduleSlots } from "./schedule-slots.js";
+import { users } from "./users.js";
+
+/** Slot BOOKED que coincide com um compromisso da agenda externa */
+export type CalendarImportConflict = {
+  slotId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  eventSummary: string | null;
+  eventStart: string;
+  eventEnd: string;
+};
+
+/** Resultado da última sincronização bem-sucedida */
+export type CalendarImportSyncReport = {
+  /** VEVENTs lidos do arquivo */
+  events: number;
+  /** Ocorrências (com recorrências expandidas) no período dos slots */
+  busyTimes: number;
+  /** Slots bloqueados nesta sincronização */
+  blocked: number;
+  /** Slots liberados porque o compromisso saiu da agenda externa */
+  released: number;
+  conflicts: CalendarImportConflict[];
+};
+
+/**
+ * Agenda externa (Google, Apple, Outlook) de um operador. Os compromissos bloqueiam
+ * os slots sobrepostos; a sincronização periódica acompanha as mudanças da agenda.
+ */
+export const calendarImports = chatBookingSchema.table(
+  "calendar_imports",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Operador cujos slots são bloqueados */
+    operatorId: uuid("operator_id")
+      .notNull()
+      .references(() => operators.id),
+    /** Nome para exibição — ex: "Agenda pessoal" */
+    name: varchar("name", { length: 100 }).notNull(),
+    /** URL (baixada a cada sincronização) ou UPLOAD (conteúdo armazenado) */
+    source: calendarImportSourceEnum("source").notNull(),
+    /** Endereço do ICS (source = URL) */
+    url: varchar("url", { length: 2048 }),
+    /** Conteúdo ICS enviado (source = UPLOAD) */
+    content: text("content"),
+    /** Usuário que cadastrou a agenda */
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    /** Término da última sincronização (com ou sem sucesso) */
+    lastSyncedAt: timestamp("last_synced_at", { withTimezone: true }),
+    /** Erro da última sincronização (null = sucesso) */
+    lastSyncError: text("last_sync_error"),
+    /** Resumo e conflitos da última sincronização bem-sucedida */
+    lastSyncReport: jsonb("last_sync_report").$type<CalendarImportSyncReport>(),
+    /** Soft delete — false libera os slots bloqueados e interrompe a sincronização */
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_calendar_imports_operator_id").on(t.operatorId)],
+);
+
+/**
+ * Slots bloqueados por cada agenda importada — permite liberar apenas o que a importação
+ * bloqueou, sem tocar nos bloqueios manuais.
+ */
+export const calendarImportBlocks = chatBookingSchema.table(
+  "calendar_import_blocks",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Agenda importada responsável pelo bloqueio */
+    importId: uuid("import_id")
+      .notNull()
+      .references(() => calendarImports.id),
+    /** Slot bloqueado */
+    slotId: uuid("slot_id")
+      .notNull()
+      .references(() => scheduleSlots.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    unique("uq_calendar_import_blocks_import_slot").on(t.importId, t.slotId),
+    index("idx_calendar_import_blocks_slot_id").on(t.slotId),
+  ],
+);
@@ -0,0 +1,39 @@
+import { index, integer, timestamp, uniqueIndex, uuid } from "drizzle-orm/pg-core";
+import { chatBookingSchema, customerStandingStatusEnum } from "../schema.js";
+import { businesses } from "./businesses.js";
+import { users } from "./users.js";
+
+/** Histórico de comparecimento do cliente em um business (criado no primeiro incidente) */
+export const customerStandings = chatBookingSchema.table(
+  "customer_standings",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Business ao qual a situação se refere */
+    businessId: uuid("business_id")
+      .notNull()
+      .references(() => businesses.id),
+    /** Cliente avaliado */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Agendamentos marcados como NO_SHOW desde a última limpeza */
+    noShowCount: integer("no_show_count").notNull().default(0),
+    /** Cancelamentos feitos pelo cliente dentro da janela de cancelamento tardio */
+    lateCancellationCount: integer("late_cancellation_count").notNull().default(0),
+    /** GOOD → RESTRICTED → BLOCKED conforme os limites do business; volta a GOOD ao limpar */
+    status: customerStandingStatusEnum("status").notNull().default("GOOD"),
+    /** Último no-show ou cancelamento tardio registrado */
+    lastIncidentAt: timestamp("last_incident_at", { withTimezone: true }),
+    /** Quando a situação foi limpa pela equipe */
+    clearedAt: timestamp("cleared_at", { withTimezone: true }),
+    /** Usuário (TENANT/OWNER) que limpou a situação */
+    clearedBy: uuid("cleared_by").references(() => users.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("uq_customer_standings_business_user").on(t.businessId, t.userId),
+    index("idx_customer_standings_business_status").on(t.businessId, t.status),
+  ],
+);
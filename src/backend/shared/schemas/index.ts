@@ -5,6 +5,22 @@ export { businesses } from "./businesses.js";
 export { services } from "./services.js";
 export { operators, operatorServices } from "./operators.js";
 export { availabilityRules } from "./availability-rules.js";
+export { availabilityExceptions } from "./availability-exceptions.js";
 export { scheduleSlots } from "./schedule-slots.js";
-export { appointments } from "./appointments.js";
+export {
+  appointments,
+  appointmentEvents,
+  appointmentReschedules,
+  appointmentSeries,
+  appointmentSlots,
+} from "./appointments.js";
 export { notifications } from "./notifications.js";
+export { notificationTemplates } from "./notification-templates.js";
+export { apiKeys, apiKeyAuditLogs } from "./api-keys.js";
+export { outboxEvents } from "./outbox-events.js";
+export { webhookSubscriptions, webhookDeliveries } from "./webhooks.js";
+export { waitlistEntries, waitlistOffers } from "./waitlist.js";
+export { slotHolds } from "./slot-holds.js";
+export { customerStandings } from "./customer-standings.js";
+export { calendarFeeds } from "./calendar-feeds.js";
+export { calendarImports, calendarImportBlocks } from "./calendar-imports.js";
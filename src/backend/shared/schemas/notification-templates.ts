@@ -0,0 +1,38 @@
+import { boolean, text, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { chatBookingSchema, notificationChannelEnum, notificationTypeEnum } from "../schema.js";
+import { businesses } from "./businesses.js";
+
+/** Templates de mensagem de cada business por tipo × canal × idioma */
+export const notificationTemplates = chatBookingSchema.table(
+  "notification_templates",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Business dona do template */
+    businessId: uuid("business_id")
+      .notNull()
+      .references(() => businesses.id),
+    /** Tipo de notificação: CONFIRMATION, REMINDER, CANCELLATION, RESCHEDULE ou WAITLIST_OFFER */
+    type: notificationTypeEnum("type").notNull(),
+    /** Canal de envio: WHATSAPP, SMS ou EMAIL */
+    channel: notificationChannelEnum("channel").notNull(),
+    /** Idioma do texto — usado o que coincide com o locale do business */
+    locale: varchar("locale", { length: 10 }).notNull().default("pt-BR"),
+    /** Assunto (usado apenas no canal EMAIL) — aceita placeholders */
+    subject: varchar("subject", { length: 255 }),
+    /** Corpo com placeholders — ex: "Olá {{customerName}}, até {{scheduledAtLocal}}!" */
+    body: text("body").notNull(),
+    /** false desativa o template (volta ao texto padrão) */
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("uq_notification_templates_business_type_channel_locale").on(
+      t.businessId,
+      t.type,
+      t.channel,
+      t.locale,
+    ),
+  ],
+);
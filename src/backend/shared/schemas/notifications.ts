@@ -1,4 +1,5 @@
-import { index, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+import { index, integer, text, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
 import {
   chatBookingSchema,
   notificationChannelEnum,
@@ -22,20 +23,43 @@ export const notifications = chatBookingSchema.table(
     appointmentId: uuid("appointment_id")
       .notNull()
       .references(() => appointments.id),
-    /** Tipo: CONFIRMATION, REMINDER, CANCELLATION ou RESCHEDULE */
+    /** Tipo: CONFIRMATION, REMINDER, CANCELLATION, RESCHEDULE ou WAITLIST_OFFER */
     type: notificationTypeEnum("type").notNull(),
     /** Canal de envio: WHATSAPP, SMS ou EMAIL */
     channel: notificationChannelEnum("channel").notNull(),
-    /** Status de envio: PENDING → SENT ou FAILED */
+    /** Status de envio: PENDING → SENT, ou FAILED (retry) → DEAD_LETTER */
     status: notificationStatusEnum("status").notNull().default("PENDING"),
+    /** Assunto (canal EMAIL) renderizado do template — null usa o assunto padrão do tipo */
+    subject: varchar("subject", { length: 255 }),
     /** Conteúdo da mensagem enviada */
     content: text("content").notNull(),
+    /** Evento do outbox que originou a notificação (null para envios manuais e lembretes) */
+    sourceEventId: uuid("source_event_id"),
+    /** Antecedência (minutos antes do agendamento) que originou o lembrete — null fora de REMINDER */
+    reminderOffsetMinutes: integer("reminder_offset_minutes"),
+    /** Início do agendamento a que o lembrete se refere — remarcação gera novos lembretes */
+    reminderScheduledAt: timestamp("reminder_scheduled_at", { withTimezone: true }),
     /** Timestamp de quando foi enviada (null enquanto PENDING) */
     sentAt: timestamp("sent_at", { withTimezone: true }),
+    /** Quantidade de tentativas de envio já realizadas */
+    attempts: integer("attempts").notNull().default(0),
+    /** Erro da última tentativa que falhou */
+    lastError: text("last_error"),
+    /** Quando o dispatcher pode tentar enviar (backoff entre tentativas) */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
   },
   (t) => [
     index("idx_notifications_user_id").on(t.userId),
     index("idx_notifications_appointment_id").on(t.appointmentId),
+    index("idx_notifications_dispatch").on(t.status, t.nextAttemptAt),
+    /** Garante no máximo um lembrete por agendamento, horário, antecedência e canal */
+    uniqueIndex("uq_notifications_reminder")
+      .on(t.appointmentId, t.reminderScheduledAt, t.reminderOffsetMinutes, t.channel)
+      .where(sql`${t.type} = 'REMINDER'`),
+    /** Evento reentregue pelo relay não gera notificação duplicada */
+    uniqueIndex("uq_notifications_source_event")
+      .on(t.sourceEventId, t.channel)
+      .where(sql`${t.sourceEventId} IS NOT NULL`),
   ],
 );
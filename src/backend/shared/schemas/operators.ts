@@ -36,6 +36,10 @@ export const operators = chatBookingSchema.table(
     displayName: varchar("display_name", { length: 255 }).notNull(),
     /** Permite ao operador editar preço e duração em operator_services. Quando false, apenas o tenant pode alterar */
     canEditService: boolean("can_edit_service").notNull().default(false),
+    /** Minutos livres mantidos antes de cada slot gerado e de cada atendimento (buffer) */
+    bufferBeforeMinutes: integer("buffer_before_minutes").notNull().default(0),
+    /** Minutos livres mantidos após cada slot gerado e cada atendimento (buffer) */
+    bufferAfterMinutes: integer("buffer_after_minutes").notNull().default(0),
     /** Soft delete — false remove o operador da agenda sem excluir histórico */
     active: boolean("active").notNull().default(true),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
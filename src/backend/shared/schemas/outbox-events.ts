@@ -0,0 +1,39 @@
+import { sql } from "drizzle-orm";
+import { index, integer, jsonb, text, timestamp, uuid, varchar } from "drizzle-orm/pg-core";
+import { chatBookingSchema, outboxEventStatusEnum } from "../schema.js";
+
+/**
+ * Outbox transacional — eventos de domínio gravados na mesma transação da mudança de estado
+ * e publicados depois pelo relay (in-process ou Redis Stream)
+ */
+export const outboxEvents = chatBookingSchema.table(
+  "outbox_events",
+  {
+    /** Identificador único (UUID v4) — também é o id do evento publicado */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Tipo do agregado — ex: "appointment" */
+    aggregateType: varchar("aggregate_type", { length: 50 }).notNull(),
+    /** Id do agregado que originou o evento */
+    aggregateId: uuid("aggregate_id").notNull(),
+    /** Tipo do evento — ex: "appointment.created" */
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    /** Dados do evento (JSONB) */
+    payload: jsonb("payload").notNull(),
+    /** Momento em que a mudança de estado aconteceu */
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull().defaultNow(),
+    /** Status: PENDING → PUBLISHED, ou FAILED após OUTBOX_MAX_ATTEMPTS tentativas */
+    status: outboxEventStatusEnum("status").notNull().default("PENDING"),
+    /** Momento em que o relay publicou o evento (null = pendente) */
+    publishedAt: timestamp("published_at", { withTimezone: true }),
+    /** Tentativas de publicação (ou entregas pelo stream) que falharam */
+    attempts: integer("attempts").notNull().default(0),
+    /** Próxima tentativa de publicação (lease do relay em andamento ou backoff após falha) */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    /** Erro da última tentativa de publicação */
+    lastError: text("last_error"),
+  },
+  (t) => [
+    index("idx_outbox_events_pending").on(t.nextAttemptAt).where(sql`${t.status} = 'PENDING'`),
+    index("idx_outbox_events_aggregate").on(t.aggregateType, t.aggregateId),
+  ],
+);
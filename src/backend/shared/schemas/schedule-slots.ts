@@ -18,7 +18,10 @@ export const scheduleSlots = chatBookingSchema.table(
     startTime: time("start_time").notNull(),
     /** Hora de fim do slot — ex: "09:30" */
     endTime: time("end_time").notNull(),
-    /** Status: AVAILABLE (livre), BOOKED (ocupado), BLOCKED (bloqueado manualmente) */
+    /**
+     * Status: AVAILABLE (livre), BOOKED (ocupado), BLOCKED (bloqueado manualmente),
+     * HELD (reservado temporariamente)
+     */
     status: slotStatusEnum("status").notNull().default("AVAILABLE"),
     /** Soft delete — false oculta o slot sem remover fisicamente */
     active: boolean("active").notNull().default(true),
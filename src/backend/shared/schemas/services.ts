@@ -20,6 +20,10 @@ export const services = chatBookingSchema.table(
     durationMinutes: integer("duration_minutes").notNull(),
     /** Preço padrão em centavos (evita ponto flutuante) — ex: 5000 = R$ 50,00 */
     priceCents: integer("price_cents").notNull(),
+    /** Minutos de preparo reservados antes do atendimento (buffer) */
+    bufferBeforeMinutes: integer("buffer_before_minutes").notNull().default(0),
+    /** Minutos de limpeza/intervalo reservados após o atendimento (buffer) */
+    bufferAfterMinutes: integer("buffer_after_minutes").notNull().default(0),
     /** Soft delete — false oculta o serviço do catálogo */
     active: boolean("active").notNull().default(true),
     createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
@@ -0,0 +1,39 @@
+import { index, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { chatBookingSchema, slotHoldStatusEnum } from "../schema.js";
+import { appointments } from "./appointments.js";
+import { scheduleSlots } from "./schedule-slots.js";
+import { users } from "./users.js";
+
+/** Reserva temporária dos slots de um serviço enquanto o cliente conclui o agendamento pelo chat */
+export const slotHolds = chatBookingSchema.table(
+  "slot_holds",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Slot inicial da reserva */
+    slotId: uuid("slot_id")
+      .notNull()
+      .references(() => scheduleSlots.id),
+    /** Slots que cobrem a duração e os buffers do serviço (status HELD enquanto ativa) */
+    slotIds: uuid("slot_ids").array().notNull(),
+    /** Cliente que fez a reserva — apenas ele pode convertê-la */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Token opaco devolvido ao cliente e enviado na criação do agendamento */
+    token: varchar("token", { length: 64 }).notNull(),
+    /** ACTIVE → CONVERTED ou EXPIRED */
+    status: slotHoldStatusEnum("status").notNull().default("ACTIVE"),
+    /** Fim da reserva — depois disso os slots voltam a AVAILABLE */
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    /** Agendamento criado a partir da reserva */
+    appointmentId: uuid("appointment_id").references(() => appointments.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    uniqueIndex("uq_slot_holds_token").on(t.token),
+    index("idx_slot_holds_status_expires_at").on(t.status, t.expiresAt),
+    index("idx_slot_holds_user_status").on(t.userId, t.status),
+  ],
+);
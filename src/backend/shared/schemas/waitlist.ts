@@ -0,0 +1,82 @@
+import { date, index, timestamp, uniqueIndex, uuid, varchar } from "drizzle-orm/pg-core";
+import { chatBookingSchema, waitlistEntryStatusEnum, waitlistOfferStatusEnum } from "../schema.js";
+import { appointments } from "./appointments.js";
+import { businesses } from "./businesses.js";
+import { operators } from "./operators.js";
+import { services } from "./services.js";
+import { users } from "./users.js";
+
+/** Inscrição de um cliente na lista de espera de um business */
+export const waitlistEntries = chatBookingSchema.table(
+  "waitlist_entries",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Cliente interessado */
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** Estabelecimento desejado */
+    businessId: uuid("business_id")
+      .notNull()
+      .references(() => businesses.id),
+    /** Serviço desejado */
+    serviceId: uuid("service_id")
+      .notNull()
+      .references(() => services.id),
+    /** Operador desejado — null aceita qualquer operador que ofereça o serviço */
+    operatorId: uuid("operator_id").references(() => operators.id),
+    /** Primeiro dia aceito (data local do business) — ex: "2026-10-20" */
+    dateFrom: date("date_from").notNull(),
+    /** Último dia aceito (data local do business) — ex: "2026-10-25" */
+    dateTo: date("date_to").notNull(),
+    /** Observação livre do cliente */
+    notes: varchar("notes", { length: 500 }),
+    /** ACTIVE → OFFERED → FULFILLED, ou CANCELLED/EXPIRED */
+    status: waitlistEntryStatusEnum("status").notNull().default("ACTIVE"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_waitlist_entries_business_status").on(t.businessId, t.status, t.createdAt),
+    index("idx_waitlist_entries_user_id").on(t.userId),
+  ],
+);
+
+/** Oferta de um horário liberado a uma inscrição, com reserva temporária dos slots */
+export const waitlistOffers = chatBookingSchema.table(
+  "waitlist_offers",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Inscrição que recebeu a oferta */
+    entryId: uuid("entry_id")
+      .notNull()
+      .references(() => waitlistEntries.id),
+    /** Agendamento cancelado que liberou o horário */
+    sourceAppointmentId: uuid("source_appointment_id")
+      .notNull()
+      .references(() => appointments.id),
+    /** Operador do horário oferecido */
+    operatorId: uuid("operator_id")
+      .notNull()
+      .references(() => operators.id),
+    /** Slots reservados (status HELD) enquanto a oferta está pendente */
+    slotIds: uuid("slot_ids").array().notNull(),
+    /** Início do horário oferecido */
+    scheduledAt: timestamp("scheduled_at", { withTimezone: true }).notNull(),
+    /** PENDING → CLAIMED ou EXPIRED */
+    status: waitlistOfferStatusEnum("status").notNull().default("PENDING"),
+    /** Prazo para o cliente aceitar — depois disso os slots voltam a AVAILABLE */
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    /** Agendamento criado ao aceitar a oferta */
+    appointmentId: uuid("appointment_id").references(() => appointments.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_waitlist_offers_status_expires_at").on(t.status, t.expiresAt),
+    /** Cada inscrição recebe no máximo uma oferta por horário liberado */
+    uniqueIndex("uq_waitlist_offers_entry_source").on(t.entryId, t.sourceAppointmentId),
+  ],
+);
@@ -0,0 +1,85 @@
+import { sql } from "drizzle-orm";
+import {
+  boolean,
+  index,
+  integer,
+  jsonb,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
+import { chatBookingSchema, webhookDeliveryStatusEnum } from "../schema.js";
+import { tenants } from "./tenants.js";
+import { users } from "./users.js";
+
+/** Assinatura de webhook — endpoint do tenant notificado sobre eventos de agendamento */
+export const webhookSubscriptions = chatBookingSchema.table(
+  "webhook_subscriptions",
+  {
+    /** Identificador único (UUID v4) */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Tenant dono da assinatura — recebe apenas eventos das próprias businesses */
+    tenantId: uuid("tenant_id")
+      .notNull()
+      .references(() => tenants.id),
+    /** URL HTTPS que recebe o POST — ex: "https://n8n.exemplo.com/webhook/agenda" */
+    url: varchar("url", { length: 2048 }).notNull(),
+    /** Segredo usado na assinatura HMAC-SHA256 dos payloads */
+    secret: varchar("secret", { length: 128 }).notNull(),
+    /** Tipos de evento assinados — ex: ["appointment.created", "appointment.cancelled"] */
+    eventTypes: text("event_types").array().notNull(),
+    /** Descrição livre — ex: "Planilha de agendamentos" */
+    description: varchar("description", { length: 255 }),
+    /** Usuário que criou a assinatura */
+    createdBy: uuid("created_by")
+      .notNull()
+      .references(() => users.id),
+    /** Soft delete — false interrompe novas entregas */
+    active: boolean("active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [index("idx_webhook_subscriptions_tenant_id").on(t.tenantId)],
+);
+
+/** Entrega de um evento a uma assinatura — também serve de log de tentativas */
+export const webhookDeliveries = chatBookingSchema.table(
+  "webhook_deliveries",
+  {
+    /** Identificador único (UUID v4) — enviado no header X-Webhook-Id */
+    id: uuid("id").primaryKey().defaultRandom(),
+    /** Assinatura de destino */
+    subscriptionId: uuid("subscription_id")
+      .notNull()
+      .references(() => webhookSubscriptions.id),
+    /** Id do evento no outbox (null para eventos de teste) */
+    eventId: uuid("event_id"),
+    /** Tipo do evento — ex: "appointment.created" ou "webhook.test" */
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    /** Corpo JSON enviado */
+    payload: jsonb("payload").notNull(),
+    /** PENDING → SUCCESS, ou FAILED após esgotar as tentativas */
+    status: webhookDeliveryStatusEnum("status").notNull().default("PENDING"),
+    /** Tentativas realizadas */
+    attempts: integer("attempts").notNull().default(0),
+    /** Status HTTP da última resposta (null se não houve resposta) */
+    lastStatusCode: integer("last_status_code"),
+    /** Erro da última tentativa que falhou */
+    lastError: text("last_error"),
+    /** Quando a próxima tentativa pode ocorrer (backoff exponencial) */
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).notNull().defaultNow(),
+    /** Momento da entrega com sucesso */
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (t) => [
+    index("idx_webhook_deliveries_subscription_id").on(t.subscriptionId, t.createdAt),
+    index("idx_webhook_deliveries_due").on(t.status, t.nextAttemptAt),
+    /** Um evento é entregue no máximo uma vez por assinatura (relay pode reentregar) */
+    uniqueIndex("uq_webhook_deliveries_event")
+      .on(t.subscriptionId, t.eventId)
+      .where(sql`${t.eventId} IS NOT NULL`),
+  ],
+);
@@ -0,0 +1,103 @@
+/**
+ * Regra única que decide quais slots um agendamento ocupa a partir do slot inicial.
+ * Usada na criação/remarcação de agendamentos, na reserva temporária, na busca de
+ * horários e na disponibilidade pública — todos precisam concordar sobre o que é agendável.
+ *
+ * Uso:
+ * ```ts
+ * const buffers = resolveBuffers(operator, service);
+ * const chain = buildSlotChain(daySlots, daySlots[0], 90, buffers);
+ * if ("conflict" in chain) return R.fail({ code: "CONFLICT", message: chain.conflict });
+ * ```
+ */
+
+/**
+ * Buffers aplicados a um agendamento.
+ * - gapMinutes: folga entre slots consecutivos gerada pelos buffers do operador
+ * - beforeMinutes/afterMinutes: tempo livre exigido antes/depois do atendimento
+ *   (o maior entre o buffer do serviço e o do operador)
+ */
+export type SlotBuffers = { gapMinutes: number; beforeMinutes: number; afterMinutes: number };
+
+/** Slot do operador no dia — apenas o necessário para montar a sequência */
+export type ChainSlot = { id: string; startTime: string; endTime: string; status: string };
+
+/** Combina os buffers do operador e do serviço — prevalece o maior de cada lado */
+export function resolveBuffers(
+  operator: { bufferBeforeMinutes: number; bufferAfterMinutes: number },
+  service: { bufferBeforeMinutes: number; bufferAfterMinutes: number },
+): SlotBuffers {
+  return {
+    gapMinutes: operator.bufferBeforeMinutes + operator.bufferAfterMinutes,
+    beforeMinutes: Math.max(operator.bufferBeforeMinutes, service.bufferBeforeMinutes),
+    afterMinutes: Math.max(operator.bufferAfterMinutes, service.bufferAfterMinutes),
+  };
+}
+
+/** Converte um horário HH:MM[:SS] em minutos desde 00:00 */
+function toMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Monta a sequência de slots a partir de `first` que cobre a duração do serviço. Cada slot
+ * deve começar no fim do anterior — tolerando a folga dos buffers do operador — e estar
+ * AVAILABLE ou em `heldSlotIds` (slots já do próprio agendamento ou da própria reserva).
+ *
+ * Slots que invadem o buffer antes/depois do atendimento também entram na sequência, para que
+ * nenhum outro agendamento ocupe esse tempo. O slot inicial é sempre o primeiro da lista; o
+ * status dele é verificado por quem chama.
+ *
+ * `daySlots` são os slots ativos do operador na data do slot inicial, ordenados por horário.
+ */
+export function buildSlotChain(
+  daySlots: ChainSlot[],
+  first: ChainSlot,
+  durationMinutes: number,
+  buffers: SlotBuffers,
+  heldSlotIds: string[] = [],
+): { slotIds: string[] } | { conflict: string } {
+  const start = toMinutes(first.startTime);
+  const targetEnd = start + durationMinutes;
+  const firstEnd = toMinutes(first.endTime);
+  const chain = [first.id];
+  let chainEnd = firstEnd;
+
+  const isFree = (slot: ChainSlot) => slot.status === "AVAILABLE" || heldSlotIds.includes(slot.id);
+
+  for (const slot of daySlots) {
+    if (chainEnd >= targetEnd) break;
+    if (slot.id === first.id || toMinutes(slot.startTime) < firstEnd) continue;
+
+    const gap = toMinutes(slot.startTime) - chainEnd;
+    if (gap < 0 || gap > buffers.gapMinutes || !isFree(slot)) break;
+
+    chain.push(slot.id);
+    chainEnd = toMinutes(slot.endTime);
+  }
+
+  if (chainEnd < targetEnd) {
+    return {
+      conflict: `Não há slots consecutivos disponíveis para a duração do serviço (${durationMinutes} min)`,
+    };
+  }
+
+  if (buffers.beforeMinutes === 0 && buffers.afterMinutes === 0) return { slotIds: chain };
+
+  // Slots que caem dentro dos buffers do atendimento
+  const bufferFrom = start - buffers.beforeMinutes;
+  const bufferTo = targetEnd + buffers.afterMinutes;
+  for (const slot of daySlots) {
+    if (chain.includes(slot.id)) continue;
+    if (toMinutes(slot.startTime) >= bufferTo || toMinutes(slot.endTime) <= bufferFrom) continue;
+    if (!isFree(slot)) {
+      return {
+        conflict: `Horário sem o intervalo necessário (${buffers.beforeMinutes} min antes, ${buffers.afterMinutes} min depois)`,
+      };
+    }
+    chain.push(slot.id);
+  }
+
+  return { slotIds: chain };
+}